@@ -79,6 +79,13 @@ EVENTS_FILE="${VIBECRAFT2_EVENTS_FILE:-$VIBECRAFT2_DATA_DIR/events.jsonl}"
 WS_NOTIFY_URL="${VIBECRAFT2_WS_NOTIFY:-http://localhost:4003/event}"
 ENABLE_WS_NOTIFY="${VIBECRAFT2_ENABLE_WS_NOTIFY:-true}"
 
+# API token, if the server requires one (VIBECRAFT2_REQUIRE_TOKEN=true)
+TOKEN_FILE="${VIBECRAFT2_TOKEN_FILE:-$HOME/.vibecraft2/token}"
+API_TOKEN="${VIBECRAFT2_TOKEN:-}"
+if [ -z "$API_TOKEN" ] && [ -r "$TOKEN_FILE" ]; then
+  API_TOKEN=$(head -n 1 "$TOKEN_FILE")
+fi
+
 # Ensure data directory exists
 mkdir -p "$(dirname "$EVENTS_FILE")"
 
@@ -373,8 +380,11 @@ echo "$event" >> "$EVENTS_FILE"
 
 # Notify WebSocket server (fire and forget, don't block Claude)
 if [ "$ENABLE_WS_NOTIFY" = "true" ] && [ -n "$CURL" ]; then
+  auth_header=()
+  [ -n "$API_TOKEN" ] && auth_header=(-H "Authorization: Bearer $API_TOKEN")
   "$CURL" -s -X POST "$WS_NOTIFY_URL" \
     -H "Content-Type: application/json" \
+    "${auth_header[@]}" \
     -d "$event" \
     --connect-timeout 1 \
     --max-time 2 \
@@ -0,0 +1,163 @@
+/**
+ * CostTracker - Estimated token spend per session and per day
+ *
+ * Token counts scraped from session terminals are priced with the
+ * configured table (USD per million tokens) and added to a ledger of
+ * daily totals per session, so spend survives restarts and can be
+ * reported by day.
+ *
+ * Data stored in ~/.vibecraft2/data/costs.json
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs'
+import { dirname } from 'path'
+import type { DailyCost } from '../shared/types.js'
+
+export interface TokenPricing {
+  /** USD per million tokens, by model */
+  perMillion: Record<string, number>
+  /** Model whose price applies */
+  model: string
+}
+
+interface LedgerEntry {
+  tokens: number
+  costUsd: number
+}
+
+/** Date (YYYY-MM-DD) -> managed session ID -> spend */
+type Ledger = Record<string, Record<string, LedgerEntry>>
+
+/** Days of history kept in the ledger */
+const MAX_DAYS = 366
+
+/** The ledger is written at most this often (token polls add to it every few seconds) */
+const SAVE_DELAY_MS = 5000
+
+// ============================================================================
+// CostTracker
+// ============================================================================
+
+export class CostTracker {
+  private ledger: Ledger = {}
+  private saveTimer: ReturnType<typeof setTimeout> | null = null
+
+  constructor(private filePath: string, readonly pricing: TokenPricing) {
+    if (!(pricing.model in pricing.perMillion)) {
+      console.error(`No price for model "${pricing.model}", costs will be 0`)
+    }
+    this.load()
+  }
+
+  /**
+   * Price of a number of tokens in USD
+   */
+  price(tokens: number): number {
+    return tokens * (this.pricing.perMillion[this.pricing.model] ?? 0) / 1_000_000
+  }
+
+  /**
+   * Add tokens used by a session (today). Returns their cost.
+   */
+  record(sessionId: string, tokens: number, now = Date.now()): number {
+    if (tokens <= 0) return 0
+
+    const costUsd = this.price(tokens)
+    const day = (this.ledger[localDate(now)] ??= {})
+    const entry = (day[sessionId] ??= { tokens: 0, costUsd: 0 })
+    entry.tokens += tokens
+    entry.costUsd += costUsd
+    this.prune()
+    this.scheduleSave()
+    return costUsd
+  }
+
+  /**
+   * Write any spend not saved yet (e.g. before shutting down)
+   */
+  flush(): void {
+    if (!this.saveTimer) return
+    clearTimeout(this.saveTimer)
+    this.saveTimer = null
+    this.save()
+  }
+
+  /**
+   * Total tokens and spend of a session over the whole ledger
+   */
+  sessionTotal(sessionId: string): LedgerEntry {
+    const total: LedgerEntry = { tokens: 0, costUsd: 0 }
+    for (const day of Object.values(this.ledger)) {
+      const entry = day[sessionId]
+      if (entry) {
+        total.tokens += entry.tokens
+        total.costUsd += entry.costUsd
+      }
+    }
+    return total
+  }
+
+  /**
+   * Spend per day, newest first
+   */
+  dailyCosts(days = 30): DailyCost[] {
+    return Object.keys(this.ledger)
+      .sort()
+      .reverse()
+      .slice(0, days)
+      .map((date) => {
+        const daily: DailyCost = { date, tokens: 0, costUsd: 0, sessions: {} }
+        for (const [sessionId, entry] of Object.entries(this.ledger[date])) {
+          daily.tokens += entry.tokens
+          daily.costUsd += entry.costUsd
+          daily.sessions[sessionId] = entry.costUsd
+        }
+        return daily
+      })
+  }
+
+  private prune(): void {
+    const dates = Object.keys(this.ledger).sort()
+    for (const date of dates.slice(0, Math.max(0, dates.length - MAX_DAYS))) {
+      delete this.ledger[date]
+    }
+  }
+
+  private load(): void {
+    if (!existsSync(this.filePath)) return
+
+    try {
+      this.ledger = JSON.parse(readFileSync(this.filePath, 'utf-8')) as Ledger
+    } catch (e) {
+      console.error('Failed to load cost ledger:', e)
+    }
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) return
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null
+      this.save()
+    }, SAVE_DELAY_MS)
+    this.saveTimer.unref()
+  }
+
+  private save(): void {
+    try {
+      const dir = dirname(this.filePath)
+      if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true })
+      }
+      writeFileSync(this.filePath, JSON.stringify(this.ledger, null, 2))
+    } catch (e) {
+      console.error('Failed to save cost ledger:', e)
+    }
+  }
+}
+
+/** YYYY-MM-DD in local time */
+function localDate(timestamp: number): string {
+  const date = new Date(timestamp)
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
@@ -0,0 +1,178 @@
+/**
+ * DangerousCommandDetector - Flags risky Bash commands before they run
+ *
+ * Checks the command of each Bash pre_tool_use event against built-in
+ * detectors (force pushes, rm -rf outside the working directory, writes
+ * to ~/.ssh, curl | sh, credential files, migrations against production)
+ * plus any patterns from ~/.vibecraft2/dangerous-commands.json:
+ *
+ *   {"patterns": [{"id": "drop-table", "description": "Drops a table", "pattern": "DROP TABLE"}],
+ *    "disabled": ["credential-file"]}
+ *
+ * The file is re-read when it changes.
+ */
+
+import { existsSync, readFileSync, statSync } from 'fs'
+import { homedir } from 'os'
+import { isAbsolute, resolve, sep } from 'path'
+import type { DangerousCommandMatch } from '../shared/types.js'
+
+interface Detector {
+  id: string
+  description: string
+  test: (command: string, cwd: string) => boolean
+}
+
+interface UserPattern {
+  id: string
+  description?: string
+  /** Regular expression tested against the command */
+  pattern: string
+}
+
+interface DetectorConfig {
+  patterns?: UserPattern[]
+  /** IDs of built-in detectors to turn off */
+  disabled?: string[]
+}
+
+interface CachedConfig {
+  mtimeMs: number
+  detectors: Detector[]
+  disabled: Set<string>
+}
+
+// ============================================================================
+// Built-in detectors
+// ============================================================================
+
+/** The home .ssh directory, however the command spells it */
+const SSH_DIR = String.raw`(?:~|\$HOME|\$\{HOME\}|/root|/home/[^/\s'"]+|/Users/[^/\s'"]+)/\.ssh\b`
+
+const BUILT_IN: Detector[] = [
+  {
+    id: 'force-push',
+    description: 'Force push rewrites remote history',
+    test: command => /\bgit\s+(?:-\S+\s+)*push\b[^;&|]*(?:\s--force(?:-with-lease)?\b|\s-[a-zA-Z]*f\b|\s\+\S)/.test(command),
+  },
+  {
+    id: 'rm-rf-outside-cwd',
+    description: 'Recursive delete outside the working directory',
+    test: (command, cwd) => rmTargets(command).some(target => isOutside(target, cwd)),
+  },
+  {
+    id: 'ssh-write',
+    description: 'Writes to ~/.ssh',
+    test: command => new RegExp(
+      String.raw`(?:>>?|\btee\b(?:\s+-a)?|\b(?:cp|mv|ln|install|rsync|chmod|chown|sed\s+-i|ssh-keygen)\b[^;&|]*?)\s*["']?` + SSH_DIR
+    ).test(command),
+  },
+  {
+    id: 'curl-pipe-shell',
+    description: 'Runs a downloaded script',
+    test: command =>
+      /\b(?:curl|wget)\b[^;&|]*\|\s*(?:sudo\s+)?(?:ba|z|da|k|fi)?sh\b/.test(command) ||
+      /\b(?:ba|z)?sh\s+(?:-c\s+)?["']?(?:<\(|\$\()\s*(?:curl|wget)\b/.test(command),
+  },
+  {
+    id: 'credential-file',
+    description: 'Touches a credentials file',
+    test: command => /(?:\.aws\/credentials|\.netrc\b|\.git-credentials|\.npmrc\b|\.pypirc\b|\.docker\/config\.json|\.kube\/config|\bid_(?:rsa|ed25519|ecdsa|dsa)\b|\.pem\b|\.p12\b|(?:^|[\s/'"=])\.env(?!\.(?:example|sample|template)\b)(?:\.[\w-]+)?\b)/.test(command),
+  },
+  {
+    id: 'prod-migration',
+    description: 'Database migration against production',
+    test: command =>
+      /\b(?:migrate|migration|db:migrate|db\s+push|alembic\s+upgrade|flyway|liquibase|goose)\b/i.test(command) &&
+      /(?:\b[a-z][\w+.-]*:\/\/[^\s'"]*prod|\b\w*ENV=["']?prod|--(?:env|environment)[= ]["']?prod|\bprod(?:uction)?\b[\w.-]*\.(?:com|net|io|internal)\b)/i.test(command),
+  },
+]
+
+// ============================================================================
+// DangerousCommandDetector
+// ============================================================================
+
+export class DangerousCommandDetector {
+  private cached: CachedConfig | null = null
+
+  constructor(private configFile: string) {}
+
+  /**
+   * Every detector the command trips (empty if none)
+   */
+  check(command: string, cwd: string): DangerousCommandMatch[] {
+    const { detectors, disabled } = this.load()
+    return [...BUILT_IN.filter(d => !disabled.has(d.id)), ...detectors]
+      .filter(detector => detector.test(command, cwd))
+      .map(({ id, description }) => ({ id, description }))
+  }
+
+  private load(): CachedConfig {
+    const empty: CachedConfig = { mtimeMs: 0, detectors: [], disabled: new Set() }
+    if (!existsSync(this.configFile)) return empty
+
+    try {
+      const { mtimeMs } = statSync(this.configFile)
+      if (this.cached?.mtimeMs === mtimeMs) return this.cached
+
+      const config = JSON.parse(readFileSync(this.configFile, 'utf-8')) as DetectorConfig
+      const detectors: Detector[] = []
+      for (const { id, description, pattern } of config.patterns ?? []) {
+        try {
+          const regex = new RegExp(pattern)
+          detectors.push({ id, description: description ?? id, test: command => regex.test(command) })
+        } catch (e) {
+          console.error(`Skipping dangerous command pattern "${id}": ${(e as Error).message}`)
+        }
+      }
+      this.cached = { mtimeMs, detectors, disabled: new Set(config.disabled ?? []) }
+      return this.cached
+    } catch (e) {
+      console.error(`Failed to load ${this.configFile}:`, e)
+      return empty
+    }
+  }
+}
+
+// ============================================================================
+// rm -rf
+// ============================================================================
+
+/**
+ * Paths given to `rm` with both recursive and force flags, across every
+ * command in a pipeline or list
+ */
+function rmTargets(command: string): string[] {
+  const targets: string[] = []
+  for (const part of command.split(/&&|\|\||[;|\n]/)) {
+    const words = part.trim().split(/\s+/).map(word => word.replace(/^["']|["']$/g, ''))
+    const rm = words.findIndex(word => word === 'rm' || word.endsWith('/rm'))
+    if (rm === -1) continue
+
+    let recursive = false
+    let force = false
+    const paths: string[] = []
+    for (const word of words.slice(rm + 1)) {
+      if (word === '--recursive') recursive = true
+      else if (word === '--force') force = true
+      else if (/^-[a-zA-Z]+$/.test(word)) {
+        if (/[rR]/.test(word)) recursive = true
+        if (word.includes('f')) force = true
+      } else if (!word.startsWith('-')) paths.push(word)
+    }
+    if (recursive && force) targets.push(...paths)
+  }
+  return targets
+}
+
+function isOutside(target: string, cwd: string): boolean {
+  if (!target) return false
+  const home = homedir()
+  const expanded = target.replace(/^(?:~|\$HOME|\$\{HOME\})(?=\/|$)/, home)
+  // Anything else starting with a variable can't be resolved - assume the worst
+  if (expanded.startsWith('$')) return true
+  if (!cwd) return isAbsolute(expanded)
+
+  const path = resolve(cwd, expanded)
+  return path !== cwd && !path.startsWith(cwd.endsWith(sep) ? cwd : cwd + sep)
+}
@@ -0,0 +1,902 @@
+/**
+ * EventStore - Queryable history over the events file and its rotated segments
+ *
+ * The server only keeps the newest MAX_EVENTS in memory. This store keeps a
+ * small index entry for every line of events.jsonl (byte offset and length,
+ * timestamp, session, type, tool), so any slice of history can be found
+ * without parsing the file, then read straight from disk.
+ *
+ * Each file's index is saved next to it (events.jsonl.index) and brought up
+ * to date on startup by scanning only what was appended since.
+ *
+ * Rotation and retention (see RetentionPolicy):
+ * - When the active file gets too big or too old, it is renamed to a dated
+ *   segment (events-2024-06-01T09-30-00.jsonl, named after its first event)
+ *   and gzipped. The hook keeps appending to a fresh events.jsonl.
+ * - Segments past the raw retention are rewritten as summaries: tool
+ *   responses dropped, tool inputs cut down to short fields
+ *   (events-....summary.jsonl.gz).
+ * - Segments past the retention are deleted.
+ * Offsets in gzipped segments are into the uncompressed data; queries
+ * decompress one segment at a time.
+ */
+
+import {
+  appendFileSync, closeSync, existsSync, mkdirSync, openSync, readdirSync, readFileSync, readSync,
+  renameSync, statSync, unlinkSync, writeFileSync,
+} from 'fs'
+import { basename, dirname, join } from 'path'
+import { gunzipSync, gzip } from 'zlib'
+import { promisify } from 'util'
+import type { ClaudeEvent, ReplaySessionSummary } from '../shared/types.js'
+
+const gzipAsync = promisify(gzip)
+
+export interface EventQuery {
+  /** Claude session ID */
+  sessionId?: string
+  /** Hook event type (pre_tool_use, stop, ...) */
+  type?: string
+  /** Tool name (matches pre/post_tool_use events) */
+  tool?: string
+  /** Only events at or after this time (Unix ms) */
+  since?: number
+  /** Only events at or before this time (Unix ms) */
+  until?: number
+  /** Case-insensitive text search over the raw event JSON */
+  q?: string
+  /** nextCursor from the previous page */
+  cursor?: string
+  /** Page size (default 100, max 1000) */
+  limit?: number
+  /** 'desc' (default) pages from newest to oldest */
+  order?: 'asc' | 'desc'
+}
+
+export interface EventPage {
+  events: ClaudeEvent[]
+  /** Pass as `cursor` to get the next page (null when there is none) */
+  nextCursor: string | null
+}
+
+export interface ToolStats {
+  totalEvents: number
+  toolCounts: Record<string, number>
+  avgDurations: Record<string, number>
+}
+
+/** When to rotate the events file and how long to keep segments (0 = never / forever) */
+export interface RetentionPolicy {
+  /** Rotate once the active file reaches this many bytes */
+  rotateBytes: number
+  /** Rotate once the active file's first event is this old (ms) */
+  rotateAgeMs: number
+  /** Summarize segments whose newest event is older than this (ms) */
+  rawRetentionMs: number
+  /** Delete segments whose newest event is older than this (ms) */
+  retentionMs: number
+}
+
+interface Segment {
+  /** File name without extensions (events, events-2024-06-01T09-30-00, ...) */
+  stem: string
+  /** Current path (changes when the segment is rotated, compressed or summarized) */
+  file: string
+  entries: IndexEntry[]
+  /** Bytes of the (uncompressed) file covered by the index */
+  indexedSize: number
+  compressed: boolean
+  /** Tool inputs/outputs stripped */
+  summarized: boolean
+}
+
+interface IndexEntry {
+  segment: Segment
+  offset: number
+  length: number
+  timestamp: number
+  sessionId: string
+  type: string
+  tool?: string
+  /** post_tool_use: ms since the matching pre_tool_use */
+  duration?: number
+}
+
+/** Serialized index line: [offset, length, timestamp, sessionId, type, tool, duration] */
+type IndexLine = [number, number, number, string, string, string | null, number | null]
+
+/** Reads index entries' lines, keeping files open until closed */
+interface LineReader {
+  read(entry: IndexEntry): string | null
+  close(): void
+}
+
+const DEFAULT_PAGE_SIZE = 100
+const MAX_PAGE_SIZE = 1000
+
+/**
+ * Most lines a text search reads from disk per page. Searches over long
+ * histories return short pages (with a cursor) instead of blocking the
+ * server.
+ */
+const MAX_SCANNED_PER_PAGE = 20_000
+
+/** Bytes read at a time while indexing */
+const SCAN_CHUNK_SIZE = 1024 * 1024
+
+/**
+ * Wait after renaming the active file before compressing it, so hook
+ * writes that opened the file just before the rename still get indexed
+ */
+const ROTATE_GRACE_MS = 2000
+
+/** Longest text kept per field in summarized segments */
+const SUMMARY_TEXT_LENGTH = 200
+
+/** Event fields holding free text (truncated in summaries) */
+const SUMMARY_TEXT_FIELDS = new Set(['prompt', 'response', 'assistantText', 'message', 'customInstructions'])
+
+// ============================================================================
+// EventStore
+// ============================================================================
+
+export class EventStore {
+  /** Oldest first; the last one is the active events file */
+  private segments: Segment[] = []
+  private active: Segment
+  private activeIno = 0
+  /** Entries removed by retention (keeps cursors stable) */
+  private dropped = 0
+  /** pre_tool_use timestamps by toolUseId, for durations */
+  private pendingTools = new Map<string, number>()
+  /** Interned session/type/tool strings (the index repeats them a lot) */
+  private strings = new Map<string, string>()
+  /** Most recently decompressed segment */
+  private inflated: { segment: Segment; data: Buffer } | null = null
+  private maintaining = false
+
+  constructor(private eventsFile: string, private policy: RetentionPolicy) {
+    mkdirSync(dirname(eventsFile), { recursive: true })
+    this.loadSegments()
+    this.active = newSegment(basename(eventsFile, '.jsonl'), eventsFile)
+    this.loadIndex(this.active)
+    this.segments.push(this.active)
+    if (existsSync(eventsFile)) {
+      this.activeIno = statSync(eventsFile).ino
+      this.scanFile(this.active)
+    }
+  }
+
+  /** Number of events in all segments */
+  get size(): number {
+    return this.segments.reduce((sum, segment) => sum + segment.entries.length, 0)
+  }
+
+  /**
+   * Index lines appended to the events file since the last call and
+   * return them as events. If the file shrank or was replaced, its index
+   * is rebuilt and every event in the new file is returned.
+   */
+  update(): ClaudeEvent[] {
+    if (!existsSync(this.eventsFile)) return []
+    const stat = statSync(this.eventsFile)
+    if (stat.size < this.active.indexedSize || (this.activeIno !== 0 && stat.ino !== this.activeIno)) {
+      console.log('Events file was replaced, rebuilding its index')
+      this.resetSegment(this.active)
+    }
+    this.activeIno = stat.ino
+    if (stat.size === this.active.indexedSize) return []
+
+    return this.scanFile(this.active)
+  }
+
+  /**
+   * The newest `count` events, oldest first
+   */
+  tail(count: number): ClaudeEvent[] {
+    const entries: IndexEntry[] = []
+    for (let i = this.segments.length - 1; i >= 0 && entries.length < count; i--) {
+      const segmentEntries = this.segments[i].entries
+      entries.unshift(...segmentEntries.slice(Math.max(0, segmentEntries.length - (count - entries.length))))
+    }
+    return this.readEntries(entries)
+  }
+
+  /**
+   * One page of events matching a query
+   */
+  query(query: EventQuery): EventPage {
+    const limit = Math.min(Math.max(1, query.limit ?? DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE)
+    const descending = query.order !== 'asc'
+    const needle = query.q?.toLowerCase()
+
+    const size = this.size
+    let start = descending ? size - 1 : 0
+    if (query.cursor !== undefined) {
+      start = parseCursor(query.cursor) - this.dropped
+      // Everything older was deleted by retention
+      if (start < 0 && descending) return { events: [], nextCursor: null }
+      start = Math.min(Math.max(start, 0), size - 1)
+    }
+
+    const events: ClaudeEvent[] = []
+    let next: number | null = null
+    let scanned = 0
+
+    const reader = this.openReader()
+    try {
+      for (const [position, entry] of this.walk(start, descending ? -1 : 1)) {
+        if (events.length >= limit || (needle && scanned >= MAX_SCANNED_PER_PAGE)) {
+          next = position
+          break
+        }
+        if (!matchesEntry(entry, query)) continue
+
+        scanned++
+        const line = reader.read(entry)
+        if (line === null) continue
+        if (needle && !line.toLowerCase().includes(needle)) continue
+
+        const event = parseEvent(line, entry)
+        if (event) events.push(event)
+      }
+    } finally {
+      reader.close()
+    }
+
+    return { events, nextCursor: next !== null ? String(next + this.dropped) : null }
+  }
+
+  /**
+   * Every event of one session, oldest first
+   */
+  sessionEvents(sessionId: string): ClaudeEvent[] {
+    const entries: IndexEntry[] = []
+    for (const entry of this.allEntries()) {
+      if (entry.sessionId === sessionId) entries.push(entry)
+    }
+    return this.readEntries(entries)
+  }
+
+  /**
+   * Replay summaries (everything except the display name) for every
+   * session with at least `minEvents` events, most recent first
+   */
+  sessionSummaries(minEvents: number): Omit<ReplaySessionSummary, 'name'>[] {
+    interface Accumulator {
+      first: IndexEntry
+      last: IndexEntry
+      firstPrompt?: IndexEntry
+      eventCount: number
+      toolCount: number
+      tools: Record<string, number>
+    }
+
+    const sessions = new Map<string, Accumulator>()
+    for (const entry of this.allEntries()) {
+      let acc = sessions.get(entry.sessionId)
+      if (!acc) {
+        acc = { first: entry, last: entry, eventCount: 0, toolCount: 0, tools: {} }
+        sessions.set(entry.sessionId, acc)
+      }
+      acc.last = entry
+      acc.eventCount++
+      if (entry.type === 'user_prompt_submit' && !acc.firstPrompt) acc.firstPrompt = entry
+      if (entry.type === 'pre_tool_use' && entry.tool) {
+        acc.tools[entry.tool] = (acc.tools[entry.tool] ?? 0) + 1
+        acc.toolCount++
+      }
+    }
+
+    const summaries: Omit<ReplaySessionSummary, 'name'>[] = []
+    const reader = this.openReader()
+    try {
+      for (const [sessionId, acc] of sessions) {
+        if (acc.eventCount < minEvents) continue
+
+        const firstEvent = parseEvent(reader.read(acc.first) ?? '', acc.first)
+        const promptEvent = acc.firstPrompt ? parseEvent(reader.read(acc.firstPrompt) ?? '', acc.firstPrompt) : null
+        summaries.push({
+          sessionId,
+          firstPrompt: (promptEvent as { prompt?: string } | null)?.prompt ?? null,
+          toolCount: acc.toolCount,
+          eventCount: acc.eventCount,
+          startTime: acc.first.timestamp,
+          endTime: acc.last.timestamp,
+          cwd: firstEvent?.cwd || null,
+          tools: acc.tools,
+        })
+      }
+    } finally {
+      reader.close()
+    }
+
+    return summaries.sort((a, b) => b.endTime - a.endTime)
+  }
+
+  /**
+   * Tool usage counts and average durations over a time range
+   */
+  toolStats(since?: number, until?: number): ToolStats {
+    const toolCounts: Record<string, number> = {}
+    const durations: Record<string, { total: number; count: number }> = {}
+    let totalEvents = 0
+
+    for (const entry of this.allEntries()) {
+      if (!matchesEntry(entry, { since, until })) continue
+      totalEvents++
+      if (entry.type !== 'post_tool_use' || !entry.tool) continue
+
+      toolCounts[entry.tool] = (toolCounts[entry.tool] ?? 0) + 1
+      if (entry.duration !== undefined) {
+        const d = (durations[entry.tool] ??= { total: 0, count: 0 })
+        d.total += entry.duration
+        d.count++
+      }
+    }
+
+    const avgDurations: Record<string, number> = {}
+    for (const [tool, d] of Object.entries(durations)) {
+      avgDurations[tool] = Math.round(d.total / d.count)
+    }
+    return { totalEvents, toolCounts, avgDurations }
+  }
+
+  // ==========================================================================
+  // Rotation & Retention
+  // ==========================================================================
+
+  /**
+   * Whether the active file is due for rotation
+   */
+  needsRotation(now = Date.now()): boolean {
+    const first = this.active.entries[0]
+    if (!first) return false
+    return (this.policy.rotateBytes > 0 && this.active.indexedSize >= this.policy.rotateBytes)
+      || (this.policy.rotateAgeMs > 0 && now - first.timestamp >= this.policy.rotateAgeMs)
+  }
+
+  /**
+   * Rotate the active file if due, then compress, summarize and delete
+   * segments as the policy says. Returns events that reached the events
+   * file after the last update() and were picked up while rotating.
+   */
+  async maintain(now = Date.now()): Promise<ClaudeEvent[]> {
+    if (this.maintaining) return []
+    this.maintaining = true
+
+    const late: ClaudeEvent[] = []
+    try {
+      if (this.needsRotation(now)) {
+        late.push(...this.rotate())
+        await new Promise(resolve => setTimeout(resolve, ROTATE_GRACE_MS))
+      }
+
+      for (const segment of [...this.segments]) {
+        if (segment === this.active) continue
+        const newest = segment.entries[segment.entries.length - 1]?.timestamp ?? 0
+
+        if (this.policy.retentionMs > 0 && now - newest >= this.policy.retentionMs) {
+          this.deleteSegment(segment)
+        } else if (this.policy.rawRetentionMs > 0 && now - newest >= this.policy.rawRetentionMs && !segment.summarized) {
+          late.push(...await this.writeSegment(segment, true))
+        } else if (!segment.compressed) {
+          late.push(...await this.writeSegment(segment, false))
+        }
+      }
+    } catch (e) {
+      console.error('Failed to maintain event log:', e)
+    } finally {
+      this.maintaining = false
+    }
+    return late
+  }
+
+  /**
+   * Rename the active file to a dated segment and start a new one.
+   * Returns events appended since the last update().
+   */
+  private rotate(): ClaudeEvent[] {
+    const late = this.scanFile(this.active)
+    const sealed = this.active
+
+    sealed.stem = this.uniqueStem(sealed.entries[0].timestamp)
+    this.moveSegment(sealed, join(dirname(this.eventsFile), `${sealed.stem}.jsonl`))
+
+    this.active = newSegment(basename(this.eventsFile, '.jsonl'), this.eventsFile)
+    this.segments.push(this.active)
+    writeFileSync(this.eventsFile, '', { flag: 'a' })
+    writeFileSync(indexPath(this.eventsFile), '')
+    this.activeIno = statSync(this.eventsFile).ino
+
+    console.log(`Rotated events file to ${basename(sealed.file)} (${sealed.entries.length} events)`)
+    return late
+  }
+
+  /**
+   * Write a segment out gzipped (summarized or as is) and swap it in.
+   * An uncompressed segment is first scanned for late lines, which are
+   * returned.
+   */
+  private async writeSegment(segment: Segment, summarize: boolean): Promise<ClaudeEvent[]> {
+    const late = segment.compressed ? [] : this.scanFile(segment)
+
+    const lines: string[] = []
+    const layout: Array<{ offset: number; length: number }> = []
+    let size = 0
+    const reader = this.openReader()
+    try {
+      for (const entry of segment.entries) {
+        let line = reader.read(entry) ?? '{}'
+        if (summarize) {
+          try {
+            line = JSON.stringify(summarizeEvent(JSON.parse(line)))
+          } catch {
+            // Keep unparseable lines as they are
+          }
+        }
+        const length = Buffer.byteLength(line)
+        layout.push({ offset: size, length })
+        lines.push(line)
+        size += length + 1
+      }
+    } finally {
+      reader.close()
+    }
+
+    const data = await gzipAsync(lines.map(line => line + '\n').join(''))
+    // Deleted while compressing
+    if (!this.segments.includes(segment)) return late
+
+    const summarized = summarize || segment.summarized
+    const target = join(dirname(this.eventsFile), `${segment.stem}${summarized ? '.summary' : ''}.jsonl.gz`)
+    writeFileSync(`${target}.tmp`, data)
+    renameSync(`${target}.tmp`, target)
+    segment.entries.forEach((entry, i) => {
+      entry.offset = layout[i].offset
+      entry.length = layout[i].length
+    })
+    writeFileSync(indexPath(target), segment.entries.map(entry => JSON.stringify(serializeEntry(entry)) + '\n').join(''))
+
+    const previous = segment.file
+    segment.file = target
+    segment.indexedSize = size
+    segment.compressed = true
+    segment.summarized = summarized
+    if (this.inflated?.segment === segment) this.inflated = null
+    if (previous !== target) removeSegmentFiles(previous)
+
+    if (summarize) console.log(`Summarized event segment ${basename(target)}`)
+    return late
+  }
+
+  private deleteSegment(segment: Segment): void {
+    this.segments = this.segments.filter(s => s !== segment)
+    this.dropped += segment.entries.length
+    if (this.inflated?.segment === segment) this.inflated = null
+    removeSegmentFiles(segment.file)
+    console.log(`Deleted expired event segment ${basename(segment.file)}`)
+  }
+
+  /** Segment name for a first event time, not used by any other segment */
+  private uniqueStem(timestamp: number): string {
+    const base = `${basename(this.eventsFile, '.jsonl')}-${new Date(timestamp).toISOString().slice(0, 19).replace(/:/g, '-')}`
+    let stem = base
+    for (let n = 1; this.segments.some(s => s.stem === stem); n++) {
+      stem = `${base}-${n}`
+    }
+    return stem
+  }
+
+  private moveSegment(segment: Segment, file: string): void {
+    renameSync(segment.file, file)
+    if (existsSync(indexPath(segment.file))) {
+      renameSync(indexPath(segment.file), indexPath(file))
+    }
+    segment.file = file
+  }
+
+  // ==========================================================================
+  // Indexing
+  // ==========================================================================
+
+  /**
+   * Find rotated segments next to the events file. If a crash left a
+   * segment in two forms, the most processed one wins.
+   */
+  private loadSegments(): void {
+    const dir = dirname(this.eventsFile)
+    const base = basename(this.eventsFile, '.jsonl')
+    const pattern = new RegExp(`^(${escapeRegExp(base)}-\\d{4}-\\d{2}-\\d{2}T\\d{2}-\\d{2}-\\d{2}(?:-\\d+)?)(\\.summary)?\\.jsonl(\\.gz)?$`)
+
+    const found = new Map<string, Segment>()
+    for (const name of readdirSync(dir)) {
+      const match = pattern.exec(name)
+      if (!match) continue
+
+      const segment = newSegment(match[1], join(dir, name))
+      segment.summarized = !!match[2]
+      segment.compressed = !!match[3]
+      const existing = found.get(segment.stem)
+      if (existing && rank(existing) >= rank(segment)) {
+        removeSegmentFiles(segment.file)
+        continue
+      }
+      if (existing) removeSegmentFiles(existing.file)
+      found.set(segment.stem, segment)
+    }
+
+    for (const segment of [...found.values()].sort((a, b) => a.stem.localeCompare(b.stem))) {
+      this.loadIndex(segment)
+      if (!segment.compressed) this.scanFile(segment)
+      this.segments.push(segment)
+    }
+  }
+
+  /**
+   * Load a segment's saved index. Uncompressed files are checked against
+   * it (they may have been edited); gzipped segments are only written by
+   * this store, so their index is trusted. A missing or bad index is
+   * rebuilt.
+   */
+  private loadIndex(segment: Segment): void {
+    const file = indexPath(segment.file)
+    if (existsSync(file)) {
+      try {
+        for (const line of readFileSync(file, 'utf-8').split('\n')) {
+          if (!line) continue
+          const [offset, length, timestamp, sessionId, type, tool, duration] = JSON.parse(line) as IndexLine
+          segment.entries.push({
+            segment,
+            offset,
+            length,
+            timestamp,
+            sessionId: this.intern(sessionId),
+            type: this.intern(type),
+            ...(tool !== null && { tool: this.intern(tool) }),
+            ...(duration !== null && { duration }),
+          })
+        }
+        const last = segment.entries[segment.entries.length - 1]
+        segment.indexedSize = last ? last.offset + last.length + 1 : 0
+      } catch (e) {
+        console.error(`Failed to load event index for ${basename(segment.file)}, rebuilding:`, e)
+        this.resetSegment(segment)
+      }
+
+      if (!segment.compressed && !this.indexMatchesFile(segment)) {
+        console.log(`Event index for ${basename(segment.file)} is out of date, rebuilding`)
+        this.resetSegment(segment)
+      }
+      // Uncompressed files are scanned from here by the caller
+      if (!segment.compressed || segment.entries.length > 0) return
+    }
+
+    writeFileSync(file, '')
+    if (segment.compressed) {
+      const data = this.inflate(segment)
+      if (data) this.scan(segment, data.length, (buffer, position) => data.copy(buffer, 0, position, position + buffer.length))
+    }
+  }
+
+  /** Check the last indexed line is still where the index says */
+  private indexMatchesFile(segment: Segment): boolean {
+    const last = segment.entries[segment.entries.length - 1]
+    if (!last) return true
+    if (!existsSync(segment.file) || statSync(segment.file).size < segment.indexedSize) return false
+
+    const reader = this.openReader()
+    try {
+      const line = reader.read(last)
+      const event = line ? parseEvent(line, last) : null
+      return !!event && event.sessionId === last.sessionId && event.timestamp === last.timestamp
+    } finally {
+      reader.close()
+    }
+  }
+
+  private resetSegment(segment: Segment): void {
+    segment.entries = []
+    segment.indexedSize = 0
+    writeFileSync(indexPath(segment.file), '')
+  }
+
+  /**
+   * Index what was appended to an uncompressed segment since the last
+   * scan and return it as events
+   */
+  private scanFile(segment: Segment): ClaudeEvent[] {
+    if (!existsSync(segment.file)) return []
+    const fileSize = statSync(segment.file).size
+    if (fileSize <= segment.indexedSize) return []
+
+    const firstNew = segment.entries.length
+    const fd = openSync(segment.file, 'r')
+    try {
+      this.scan(segment, fileSize, (buffer, position) => readSync(fd, buffer, 0, buffer.length, position))
+    } finally {
+      closeSync(fd)
+    }
+    return this.readEntries(segment.entries.slice(firstNew))
+  }
+
+  /**
+   * Index complete lines from indexedSize up to size. A trailing partial
+   * line (still being written) is left for the next scan.
+   */
+  private scan(segment: Segment, size: number, read: (buffer: Buffer, position: number) => number): void {
+    const added: IndexLine[] = []
+    let carry = Buffer.alloc(0)
+    let lineStart = segment.indexedSize
+    let position = segment.indexedSize
+
+    while (position < size) {
+      const chunk = Buffer.alloc(Math.min(SCAN_CHUNK_SIZE, size - position))
+      const bytesRead = read(chunk, position)
+      if (bytesRead === 0) break
+      position += bytesRead
+
+      const data = carry.length > 0 ? Buffer.concat([carry, chunk.subarray(0, bytesRead)]) : chunk.subarray(0, bytesRead)
+      let start = 0
+      let newline: number
+      while ((newline = data.indexOf(0x0a, start)) !== -1) {
+        const entry = this.indexLine(segment, data.subarray(start, newline), lineStart)
+        if (entry) added.push(serializeEntry(entry))
+        lineStart += newline - start + 1
+        start = newline + 1
+      }
+      carry = Buffer.from(data.subarray(start))
+    }
+
+    segment.indexedSize = lineStart
+    if (added.length > 0) {
+      try {
+        appendFileSync(indexPath(segment.file), added.map(line => JSON.stringify(line)).join('\n') + '\n')
+      } catch (e) {
+        console.error('Failed to save event index:', e)
+      }
+    }
+  }
+
+  /** Index one line (null for blank/bad lines) */
+  private indexLine(segment: Segment, bytes: Buffer, offset: number): IndexEntry | null {
+    if (bytes.length === 0) return null
+
+    let event: ClaudeEvent & { tool?: string; toolUseId?: string }
+    try {
+      event = JSON.parse(bytes.toString('utf-8'))
+    } catch {
+      return null
+    }
+    if (typeof event.sessionId !== 'string' || typeof event.type !== 'string') return null
+
+    let duration: number | undefined
+    if (event.type === 'pre_tool_use' && event.toolUseId) {
+      this.pendingTools.set(event.toolUseId, event.timestamp)
+    } else if (event.type === 'post_tool_use' && event.toolUseId) {
+      const started = this.pendingTools.get(event.toolUseId)
+      if (started !== undefined) {
+        duration = event.timestamp - started
+        this.pendingTools.delete(event.toolUseId)
+      }
+    }
+
+    const entry: IndexEntry = {
+      segment,
+      offset,
+      length: bytes.length,
+      timestamp: typeof event.timestamp === 'number' ? event.timestamp : 0,
+      sessionId: this.intern(event.sessionId),
+      type: this.intern(event.type),
+      ...(typeof event.tool === 'string' && { tool: this.intern(event.tool) }),
+      ...(duration !== undefined && { duration }),
+    }
+    segment.entries.push(entry)
+    return entry
+  }
+
+  private intern(value: string): string {
+    const existing = this.strings.get(value)
+    if (existing !== undefined) return existing
+    this.strings.set(value, value)
+    return value
+  }
+
+  // ==========================================================================
+  // Reading
+  // ==========================================================================
+
+  private *allEntries(): Generator<IndexEntry> {
+    for (const segment of this.segments) {
+      yield* segment.entries
+    }
+  }
+
+  /**
+   * Entries with their positions, from `start` towards the newest
+   * (step 1) or the oldest (step -1)
+   */
+  private *walk(start: number, step: 1 | -1): Generator<[number, IndexEntry]> {
+    let s = 0
+    let segmentStart = 0
+    while (s < this.segments.length - 1 && start >= segmentStart + this.segments[s].entries.length) {
+      segmentStart += this.segments[s].entries.length
+      s++
+    }
+
+    let i = start - segmentStart
+    while (s >= 0 && s < this.segments.length) {
+      const entries = this.segments[s].entries
+      for (; i >= 0 && i < entries.length; i += step) {
+        yield [segmentStart + i, entries[i]]
+      }
+      s += step
+      if (step === 1) {
+        segmentStart += entries.length
+        i = 0
+      } else if (s >= 0) {
+        segmentStart -= this.segments[s].entries.length
+        i = this.segments[s].entries.length - 1
+      }
+    }
+  }
+
+  private openReader(): LineReader {
+    const fds = new Map<Segment, number | null>()
+    return {
+      read: (entry) => {
+        const segment = entry.segment
+        if (segment.compressed) {
+          const data = this.inflate(segment)
+          return data && entry.offset + entry.length <= data.length
+            ? data.toString('utf-8', entry.offset, entry.offset + entry.length)
+            : null
+        }
+
+        let fd = fds.get(segment)
+        if (fd === undefined) {
+          try {
+            fd = openSync(segment.file, 'r')
+          } catch {
+            fd = null
+          }
+          fds.set(segment, fd)
+        }
+        return fd === null ? null : readLine(fd, entry)
+      },
+      close: () => {
+        for (const fd of fds.values()) {
+          if (fd !== null) closeSync(fd)
+        }
+      },
+    }
+  }
+
+  /** A gzipped segment's contents (the last one read is cached) */
+  private inflate(segment: Segment): Buffer | null {
+    if (this.inflated?.segment === segment) return this.inflated.data
+    try {
+      const data = gunzipSync(readFileSync(segment.file))
+      this.inflated = { segment, data }
+      return data
+    } catch (e) {
+      console.error(`Failed to read event segment ${basename(segment.file)}:`, e)
+      return null
+    }
+  }
+
+  private readEntries(entries: IndexEntry[]): ClaudeEvent[] {
+    const reader = this.openReader()
+    try {
+      const events: ClaudeEvent[] = []
+      for (const entry of entries) {
+        const line = reader.read(entry)
+        const event = line ? parseEvent(line, entry) : null
+        if (event) events.push(event)
+      }
+      return events
+    } finally {
+      reader.close()
+    }
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function newSegment(stem: string, file: string): Segment {
+  return { stem, file, entries: [], indexedSize: 0, compressed: false, summarized: false }
+}
+
+/** Segment forms in processing order (a later form replaces earlier ones) */
+function rank(segment: Segment): number {
+  return segment.summarized ? 2 : segment.compressed ? 1 : 0
+}
+
+function indexPath(file: string): string {
+  return `${file}.index`
+}
+
+function removeSegmentFiles(file: string): void {
+  for (const path of [file, indexPath(file)]) {
+    try {
+      unlinkSync(path)
+    } catch {
+      // Already gone
+    }
+  }
+}
+
+function matchesEntry(entry: IndexEntry, query: EventQuery): boolean {
+  if (query.sessionId !== undefined && entry.sessionId !== query.sessionId) return false
+  if (query.type !== undefined && entry.type !== query.type) return false
+  if (query.tool !== undefined && entry.tool !== query.tool) return false
+  if (query.since !== undefined && entry.timestamp < query.since) return false
+  if (query.until !== undefined && entry.timestamp > query.until) return false
+  return true
+}
+
+function serializeEntry(entry: IndexEntry): IndexLine {
+  return [entry.offset, entry.length, entry.timestamp, entry.sessionId, entry.type, entry.tool ?? null, entry.duration ?? null]
+}
+
+function readLine(fd: number, entry: IndexEntry): string | null {
+  const buffer = Buffer.alloc(entry.length)
+  const bytesRead = readSync(fd, buffer, 0, entry.length, entry.offset)
+  return bytesRead === entry.length ? buffer.toString('utf-8') : null
+}
+
+function parseEvent(line: string, entry: IndexEntry): ClaudeEvent | null {
+  try {
+    const event = JSON.parse(line) as ClaudeEvent & { duration?: number }
+    // Durations aren't in the file; they come from the index
+    if (entry.duration !== undefined && event.duration === undefined) {
+      event.duration = entry.duration
+    }
+    return event
+  } catch {
+    return null
+  }
+}
+
+function parseCursor(cursor: string): number {
+  const position = Number(cursor)
+  if (!Number.isInteger(position) || position < 0) {
+    throw new Error('Invalid cursor')
+  }
+  return position
+}
+
+/**
+ * An event with raw tool inputs/outputs stripped: tool responses emptied,
+ * tool inputs cut down to short scalar fields (file_path, command, ...)
+ * and long texts truncated
+ */
+function summarizeEvent(event: Record<string, unknown>): Record<string, unknown> {
+  const summary: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(event)) {
+    if (key === 'toolResponse') {
+      summary[key] = {}
+    } else if (key === 'toolInput' && value && typeof value === 'object') {
+      summary[key] = Object.fromEntries(
+        Object.entries(value)
+          .filter(([, v]) => v === null || typeof v !== 'object')
+          .map(([k, v]) => [k, truncate(v)])
+      )
+    } else {
+      summary[key] = SUMMARY_TEXT_FIELDS.has(key) ? truncate(value) : value
+    }
+  }
+  return summary
+}
+
+function truncate(value: unknown): unknown {
+  return typeof value === 'string' && value.length > SUMMARY_TEXT_LENGTH
+    ? value.slice(0, SUMMARY_TEXT_LENGTH) + '…'
+    : value
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
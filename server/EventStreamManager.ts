@@ -0,0 +1,182 @@
+/**
+ * EventStreamManager - Server-Sent Events clients (GET /events/stream)
+ *
+ * Mirrors what the WebSocket broadcast() sends, for scripts and dashboards
+ * that can't use a WebSocket. Each SSE message's data is a ServerMessage
+ * as JSON; hook events also carry their event ID as the SSE `id`, so a
+ * reconnecting client's Last-Event-ID says where to resume.
+ *
+ * Clients can narrow the stream by session and by message / event type.
+ */
+
+import type { ServerResponse } from 'http'
+import type { ServerMessage, ManagedSession } from '../shared/types.js'
+
+export interface StreamFilter {
+  /**
+   * Managed or Claude session IDs. Messages about other sessions, and
+   * messages not about any session (tiles, hex art), are dropped.
+   */
+  sessions?: Set<string>
+  /**
+   * Message types ('event', 'sessions', 'tokens', 'hexart_delta', ...)
+   * and/or hook event types ('pre_tool_use', 'stop', ...). A hook event
+   * passes if either 'event' or its own type is listed.
+   */
+  types?: Set<string>
+}
+
+interface StreamClient {
+  res: ServerResponse
+  filter: StreamFilter
+}
+
+/** Comment line sent periodically so proxies don't close idle streams */
+const KEEPALIVE_INTERVAL_MS = 15_000
+
+/** Drop clients that stop reading once this much output is buffered */
+const MAX_BUFFERED_BYTES = 4 * 1024 * 1024
+
+/** How long EventSource clients wait before reconnecting */
+const RETRY_MS = 3000
+
+// ============================================================================
+// EventStreamManager
+// ============================================================================
+
+export class EventStreamManager {
+  private clients = new Set<StreamClient>()
+  private keepaliveTimer: ReturnType<typeof setInterval> | null = null
+
+  /**
+   * @param findSession Look up a managed session by Claude session ID or
+   *   tmux session name (used to match session filters)
+   */
+  constructor(private findSession: (key: string) => ManagedSession | undefined) {}
+
+  /** Number of connected clients */
+  get size(): number {
+    return this.clients.size
+  }
+
+  /**
+   * Start streaming to a response. `backlog` is sent first (events the
+   * client missed, for Last-Event-ID resumes).
+   */
+  add(res: ServerResponse, filter: StreamFilter, backlog: ServerMessage[] = []): void {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no', // Stop nginx buffering the stream
+    })
+    res.write(`retry: ${RETRY_MS}\n\n`)
+
+    const client: StreamClient = { res, filter }
+    this.clients.add(client)
+    res.on('close', () => {
+      this.clients.delete(client)
+      if (this.clients.size === 0) this.stopKeepalive()
+    })
+    this.startKeepalive()
+
+    for (const message of backlog) {
+      this.write(client, message)
+    }
+  }
+
+  /**
+   * Send a message to every client whose filter it passes
+   */
+  send(message: ServerMessage): void {
+    for (const client of this.clients) {
+      this.write(client, message)
+    }
+  }
+
+  private write(client: StreamClient, message: ServerMessage): void {
+    const filtered = filterMessage(client.filter, message, this.findSession)
+    if (!filtered) return
+
+    if (client.res.writableLength > MAX_BUFFERED_BYTES) {
+      client.res.destroy()
+      return
+    }
+
+    const id = filtered.type === 'event' ? `id: ${filtered.payload.id}\n` : ''
+    client.res.write(`${id}data: ${JSON.stringify(filtered)}\n\n`)
+  }
+
+  private startKeepalive(): void {
+    if (this.keepaliveTimer) return
+    this.keepaliveTimer = setInterval(() => {
+      for (const client of this.clients) {
+        client.res.write(': keepalive\n\n')
+      }
+    }, KEEPALIVE_INTERVAL_MS)
+    this.keepaliveTimer.unref()
+  }
+
+  private stopKeepalive(): void {
+    if (this.keepaliveTimer) {
+      clearInterval(this.keepaliveTimer)
+      this.keepaliveTimer = null
+    }
+  }
+}
+
+/**
+ * The message as a filtered consumer should see it, or null to skip it.
+ * Session lists are narrowed to the filtered sessions. Also used to match
+ * webhook subscriptions.
+ *
+ * @param findSession Look up a managed session by Claude session ID or
+ *   tmux session name
+ */
+export function filterMessage(
+  filter: StreamFilter,
+  message: ServerMessage,
+  findSession: (key: string) => ManagedSession | undefined
+): ServerMessage | null {
+  if (filter.types && !filter.types.has(message.type)) {
+    const eventType = message.type === 'event' ? message.payload.type : null
+    if (!eventType || !filter.types.has(eventType)) return null
+  }
+
+  const sessions = filter.sessions
+  if (!sessions) return message
+
+  const matches = (session: ManagedSession | undefined): boolean =>
+    !!session && (sessions.has(session.id) || (!!session.claudeSessionId && sessions.has(session.claudeSessionId)))
+  const matchesKey = (key: string): boolean => sessions.has(key) || matches(findSession(key))
+
+  switch (message.type) {
+    case 'event':
+      return matchesKey(message.payload.sessionId) ? message : null
+    case 'tokens':
+      return matchesKey(message.payload.session) ? message : null
+    case 'session_update':
+      return matches(message.payload) ? message : null
+    case 'permission_prompt':
+    case 'permission_resolved':
+    case 'budget_warning':
+    case 'permission_auto_decision':
+    case 'session_status':
+      return sessions.has(message.payload.sessionId) ? message : null
+    case 'dangerous_command':
+      return matchesKey(message.payload.sessionId ?? message.payload.claudeSessionId) ? message : null
+    case 'pipeline_fired':
+      return sessions.has(message.payload.fromSessionId) || sessions.has(message.payload.toSessionId) ? message : null
+    case 'sessions': {
+      const payload = message.payload.filter(matches)
+      return payload.length > 0 ? { type: 'sessions', payload } : null
+    }
+    case 'history': {
+      const payload = message.payload.filter(event => matchesKey(event.sessionId))
+      return payload.length > 0 ? { type: 'history', payload } : null
+    }
+    default:
+      // Not about a session
+      return null
+  }
+}
@@ -0,0 +1,173 @@
+/**
+ * GitActions - Change a session's repository on request
+ *
+ * Stage, unstage, commit, stash, discard and switch branches - the
+ * actions behind the diff viewer. Every method takes the repository root
+ * (see GitStatusManager.getRepoRoot) and throws with git's own message
+ * when git refuses, so callers can pass it on as is.
+ */
+
+import { execFile } from 'child_process'
+import { promisify } from 'util'
+import { unlink } from 'fs/promises'
+import { join } from 'path'
+import type { GitBranches } from '../shared/types.js'
+
+const execFileAsync = promisify(execFile)
+
+// Re-export GitBranches for convenience
+export type { GitBranches }
+
+// ============================================================================
+// GitActions
+// ============================================================================
+
+export class GitActions {
+  private readonly EXEC_TIMEOUT_MS = 60000 // Commit hooks can take a while
+
+  /**
+   * Stage files (new, changed or deleted) for the next commit
+   */
+  async stage(root: string, paths: string[]): Promise<void> {
+    await this.execGit(['--literal-pathspecs', 'add', '-A', '--', ...paths], root)
+  }
+
+  /**
+   * Take files out of the index, keeping their changes in the working tree
+   */
+  async unstage(root: string, paths: string[]): Promise<void> {
+    if (await this.hasCommits(root)) {
+      await this.execGit(['--literal-pathspecs', 'restore', '--staged', '--', ...paths], root)
+    } else {
+      // Nothing to restore from before the first commit
+      await this.execGit(['--literal-pathspecs', 'rm', '-r', '-q', '--cached', '--', ...paths], root)
+    }
+  }
+
+  /**
+   * Commit what is staged. Returns the new commit's hash.
+   */
+  async commit(root: string, message: string): Promise<string> {
+    await this.execGit(['commit', '-q', '-m', message], root)
+    return (await this.execGit(['rev-parse', 'HEAD'], root)).trim()
+  }
+
+  /**
+   * Stash the working tree and index (and untracked files if asked)
+   */
+  async stash(root: string, options: { message?: string; includeUntracked?: boolean } = {}): Promise<void> {
+    const output = await this.execGit([
+      'stash', 'push',
+      ...(options.includeUntracked ? ['--include-untracked'] : []),
+      ...(options.message ? ['-m', options.message] : []),
+    ], root)
+    // git exits 0 when there was nothing to stash
+    if (/No local changes to save/.test(output)) {
+      throw new Error('No local changes to stash')
+    }
+  }
+
+  /**
+   * Apply the latest stash and drop it
+   */
+  async stashPop(root: string): Promise<void> {
+    await this.execGit(['stash', 'pop'], root)
+  }
+
+  /**
+   * Throw away a file's changes in the working tree: the whole file, or
+   * only some of its hunks (indexes into the hunks of its unstaged diff).
+   * An untracked file is deleted.
+   */
+  async discard(root: string, path: string, hunks?: number[]): Promise<void> {
+    const untracked = await this.execGit(
+      ['--literal-pathspecs', 'ls-files', '--others', '--exclude-standard', '--', path],
+      root
+    )
+    if (untracked.trim()) {
+      if (hunks) throw new Error('Untracked files have no hunks to discard - discard the whole file')
+      await unlink(join(root, path))
+      return
+    }
+
+    if (!hunks) {
+      await this.execGit(['--literal-pathspecs', 'restore', '--worktree', '--', path], root)
+      return
+    }
+
+    const diff = await this.execGit(
+      ['--literal-pathspecs', 'diff', '--no-color', '--no-ext-diff', '--', path],
+      root
+    )
+    const [header, ...fileHunks] = diff.split(/^(?=@@ )/m)
+    if (fileHunks.length === 0) throw new Error(`No unstaged changes in ${path}`)
+    for (const hunk of hunks) {
+      if (!Number.isInteger(hunk) || hunk < 0 || hunk >= fileHunks.length) {
+        throw new Error(`No hunk ${hunk} in ${path} (it has ${fileHunks.length})`)
+      }
+    }
+
+    // Reverse-apply a patch of just the chosen hunks
+    const patch = header + [...new Set(hunks)].sort((a, b) => a - b).map(i => fileHunks[i]).join('')
+    await this.execGit(['apply', '--reverse', '--whitespace=nowarn', '-'], root, patch)
+  }
+
+  /**
+   * Local branches and the one checked out
+   */
+  async branches(root: string): Promise<GitBranches> {
+    const [list, current] = await Promise.all([
+      this.execGit(['branch', '--format=%(refname:short)'], root),
+      this.execGit(['branch', '--show-current'], root),
+    ])
+    return {
+      current: current.trim() || null,
+      branches: list.split('\n').map(line => line.trim()).filter(line => line && !line.startsWith('(')),
+    }
+  }
+
+  /**
+   * Switch to a branch, or create it from HEAD and switch to it
+   */
+  async checkout(root: string, branch: string, create = false): Promise<void> {
+    try {
+      await this.execGit(['check-ref-format', '--branch', branch], root)
+    } catch {
+      throw new Error(`Invalid branch name: ${branch}`)
+    }
+    await this.execGit(['switch', ...(create ? ['-c'] : []), branch], root)
+  }
+
+  private async hasCommits(root: string): Promise<boolean> {
+    try {
+      await this.execGit(['rev-parse', '--verify', '-q', 'HEAD'], root)
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  /**
+   * Execute a git command using execFile (no shell), optionally feeding it
+   * stdin. Failures are rethrown with git's message rather than the
+   * "Command failed" summary.
+   */
+  private async execGit(args: string[], cwd: string, input?: string): Promise<string> {
+    const run = execFileAsync('git', args, { cwd, timeout: this.EXEC_TIMEOUT_MS })
+    if (input !== undefined) {
+      run.child.stdin?.end(input)
+    }
+
+    try {
+      return (await run).stdout
+    } catch (e) {
+      const error = e as Error & { stdout?: string; stderr?: string; killed?: boolean }
+      if (error.killed) throw new Error(`git ${args.find(arg => !arg.startsWith('-'))} timed out`)
+      const message = (error.stderr?.trim() || error.stdout?.trim() || error.message)
+        .split('\n')
+        .filter(line => !line.startsWith('hint:'))
+        .join('\n')
+      throw new Error(message)
+    }
+  }
+}
@@ -0,0 +1,278 @@
+/**
+ * GitCheckpoints - Snapshots of a session's working tree, to rewind to
+ *
+ * A checkpoint is a commit of the whole working tree (untracked files
+ * included, ignored files not) made without touching the index, the
+ * working tree or any branch, kept under
+ * refs/vibecraft2/checkpoints/<session>/<id>. One is taken whenever a
+ * prompt is submitted, so a prompt that went badly can be undone by
+ * restoring the files to how they were before it. Old checkpoints are
+ * deleted by count and age; git gc reclaims their objects later.
+ */
+
+import { execFile } from 'child_process'
+import { promisify } from 'util'
+import { copyFile, rm, rmdir, unlink } from 'fs/promises'
+import { randomUUID } from 'crypto'
+import { tmpdir } from 'os'
+import { dirname, join } from 'path'
+import type { GitCheckpoint } from '../shared/types.js'
+
+const execFileAsync = promisify(execFile)
+
+// Re-export GitCheckpoint for convenience
+export type { GitCheckpoint }
+
+export interface CheckpointPolicy {
+  /** Checkpoints kept per session (newest first) */
+  keep: number
+  /** Checkpoints older than this are deleted (0 = no age limit) */
+  maxAgeMs: number
+}
+
+/** Where checkpoint refs live */
+const REF_PREFIX = 'refs/vibecraft2/checkpoints'
+
+/** Longest prompt kept in a checkpoint's message */
+const MAX_LABEL_CHARS = 500
+
+/** Checkpoint commits are authored by us, not by whoever configured git */
+const IDENTITY = {
+  GIT_AUTHOR_NAME: 'Vibecraft2',
+  GIT_AUTHOR_EMAIL: 'checkpoints@vibecraft2.local',
+  GIT_COMMITTER_NAME: 'Vibecraft2',
+  GIT_COMMITTER_EMAIL: 'checkpoints@vibecraft2.local',
+}
+
+// ============================================================================
+// GitCheckpoints
+// ============================================================================
+
+export class GitCheckpoints {
+  private readonly EXEC_TIMEOUT_MS = 60000 // Hashing a large working tree takes a while
+
+  constructor(private policy: CheckpointPolicy) {}
+
+  /**
+   * Snapshot the working tree of a repository for a session
+   */
+  async create(
+    root: string,
+    sessionId: string,
+    options: { label: string; eventId?: string }
+  ): Promise<GitCheckpoint> {
+    const head = await this.resolve(root, 'HEAD')
+    const gitDir = (await this.execGit(['rev-parse', '--absolute-git-dir'], root)).trim()
+
+    // Stage everything into a scratch copy of the index, so the real one
+    // (and what the user has staged) is left alone
+    const index = join(tmpdir(), `vibecraft2-checkpoint-${randomUUID()}`)
+    let commit: string
+    try {
+      try {
+        await copyFile(join(gitDir, 'index'), index)
+      } catch {
+        // No index yet - start from an empty one
+      }
+      const env = { ...process.env, ...IDENTITY, GIT_INDEX_FILE: index }
+      await this.execGit(['add', '-A'], root, { env })
+      const tree = (await this.execGit(['write-tree'], root, { env })).trim()
+
+      commit = (await this.execGit(
+        ['commit-tree', tree, ...(head ? ['-p', head] : []), '-F', '-'],
+        root,
+        { env, input: this.message(sessionId, options.label, options.eventId) }
+      )).trim()
+    } finally {
+      await unlink(index).catch(() => {})
+    }
+
+    // Ids are creation times; bump on the rare clash rather than overwrite
+    for (let id = Date.now(); ; id++) {
+      try {
+        // An empty old value makes update-ref fail if the ref exists
+        await this.execGit(['update-ref', this.ref(sessionId, String(id)), commit, ''], root)
+        return { id: String(id), commit, head, eventId: options.eventId ?? null, label: options.label.trim(), timestamp: id }
+      } catch (error) {
+        if (!(await this.resolve(root, this.ref(sessionId, String(id))))) throw error
+      }
+    }
+  }
+
+  /**
+   * Link a checkpoint to the prompt event it was taken for, when it was
+   * taken before the event existed. The snapshot itself is unchanged.
+   */
+  async setEventId(root: string, sessionId: string, checkpoint: GitCheckpoint, eventId: string): Promise<GitCheckpoint> {
+    const tree = (await this.execGit(['rev-parse', `${checkpoint.commit}^{tree}`], root)).trim()
+    const commit = (await this.execGit(
+      ['commit-tree', tree, ...(checkpoint.head ? ['-p', checkpoint.head] : []), '-F', '-'],
+      root,
+      { env: { ...process.env, ...IDENTITY }, input: this.message(sessionId, checkpoint.label, eventId) }
+    )).trim()
+    // Only replace the ref if it still points at the checkpoint
+    await this.execGit(['update-ref', this.ref(sessionId, checkpoint.id), commit, checkpoint.commit], root)
+    return { ...checkpoint, commit, eventId }
+  }
+
+  /**
+   * A session's checkpoints in a repository, newest first
+   */
+  async list(root: string, sessionId: string): Promise<GitCheckpoint[]> {
+    const output = await this.execGit([
+      'for-each-ref', '--sort=-refname',
+      '--format=%(refname:lstrip=4)%00%(objectname)%00%(parent)%00%(contents)%1e',
+      `${REF_PREFIX}/${sessionId}/`,
+    ], root)
+
+    return output.split('\x1e').map(record => record.replace(/^\n/, '')).filter(Boolean).map((record) => {
+      const [id, commit, parent, contents] = record.split('\0')
+      // "Checkpoint: <first line>\n\n<label>\n\nSession: ...\nEvent: ..."
+      const trailers = contents.match(/\n\nSession: [^\n]*(?:\nEvent: ([^\n]*))?\n?$/)
+      const body = contents.slice(0, trailers?.index ?? contents.length)
+      return {
+        id,
+        commit,
+        head: parent || null,
+        eventId: trailers?.[1] ?? null,
+        label: body.replace(/^[^\n]*\n\n/, ''),
+        timestamp: Number(id),
+      }
+    }).sort((a, b) => b.timestamp - a.timestamp)
+  }
+
+  /**
+   * Put the working tree back the way it was at a checkpoint: files are
+   * rewritten, and files that didn't exist then are deleted. The index,
+   * HEAD and branches are left alone. A checkpoint of the current state is
+   * taken first (and returned), so the rewind can itself be undone.
+   */
+  async restore(root: string, sessionId: string, checkpoint: GitCheckpoint): Promise<GitCheckpoint> {
+    const backup = await this.create(root, sessionId, { label: `Before rewinding to: ${checkpoint.label}` })
+
+    const [current, saved] = await Promise.all([
+      this.execGit(['ls-files', '-z', '--cached', '--others', '--exclude-standard'], root),
+      this.execGit(['ls-tree', '-r', '-z', '--name-only', checkpoint.commit], root),
+    ])
+    const keep = new Set(saved.split('\0').filter(Boolean))
+    for (const path of new Set(current.split('\0').filter(Boolean))) {
+      if (!keep.has(path)) await this.removeFile(root, path)
+    }
+    if (keep.size > 0) {
+      await this.execGit(['restore', `--source=${checkpoint.commit}`, '--worktree', '--', ':/'], root)
+    }
+    return backup
+  }
+
+  /**
+   * Delete a session's checkpoints beyond the count and age limits
+   */
+  async prune(root: string, sessionId: string): Promise<number> {
+    const cutoff = this.policy.maxAgeMs > 0 ? Date.now() - this.policy.maxAgeMs : -Infinity
+    const stale = (await this.list(root, sessionId))
+      .filter((checkpoint, i) => i >= this.policy.keep || checkpoint.timestamp < cutoff)
+    await this.deleteRefs(root, stale.map(checkpoint => this.ref(sessionId, checkpoint.id)))
+    return stale.length
+  }
+
+  /**
+   * Delete all of a session's checkpoints in a repository
+   */
+  async remove(root: string, sessionId: string): Promise<number> {
+    return this.removeWhere(root, owner => owner === sessionId)
+  }
+
+  /**
+   * Delete checkpoints left behind by sessions that no longer exist
+   */
+  async removeOrphans(root: string, sessionIds: Set<string>): Promise<number> {
+    return this.removeWhere(root, owner => !sessionIds.has(owner))
+  }
+
+  private async removeWhere(root: string, match: (sessionId: string) => boolean): Promise<number> {
+    const refs = (await this.refs(root)).filter(ref => match(this.owner(ref)))
+    await this.deleteRefs(root, refs)
+    return refs.length
+  }
+
+  private async refs(root: string): Promise<string[]> {
+    const output = await this.execGit(['for-each-ref', '--format=%(refname)', `${REF_PREFIX}/`], root)
+    return output.split('\n').filter(Boolean)
+  }
+
+  /** Session a checkpoint ref belongs to */
+  private owner(ref: string): string {
+    return ref.slice(REF_PREFIX.length + 1).split('/')[0]
+  }
+
+  private ref(sessionId: string, id: string): string {
+    return `${REF_PREFIX}/${sessionId}/${id}`
+  }
+
+  private async deleteRefs(root: string, refs: string[]): Promise<void> {
+    if (refs.length === 0) return
+    await this.execGit(['update-ref', '--stdin'], root, { input: refs.map(ref => `delete ${ref}\n`).join('') })
+  }
+
+  /**
+   * Delete a file, then any directories it leaves empty
+   */
+  private async removeFile(root: string, path: string): Promise<void> {
+    await rm(join(root, path), { force: true })
+    for (let dir = dirname(path); dir !== '.' && dir !== '/'; dir = dirname(dir)) {
+      try {
+        await rmdir(join(root, dir))
+      } catch {
+        break // Not empty
+      }
+    }
+  }
+
+  /**
+   * Commit message of a checkpoint: the label, then the session and event
+   * trailers list() reads back
+   */
+  private message(sessionId: string, label: string, eventId?: string): string {
+    const text = label.trim().slice(0, MAX_LABEL_CHARS)
+    return [
+      `Checkpoint: ${text.split('\n')[0] || '(empty prompt)'}`,
+      '',
+      text,
+      '',
+      `Session: ${sessionId}`,
+      ...(eventId ? [`Event: ${eventId}`] : []),
+    ].join('\n')
+  }
+
+  /** Commit a revision points at (null if it doesn't exist) */
+  private async resolve(root: string, revision: string): Promise<string | null> {
+    try {
+      return (await this.execGit(['rev-parse', '--verify', '-q', `${revision}^{commit}`], root)).trim()
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * Execute a git command using execFile (no shell), optionally with its
+   * own environment and stdin
+   */
+  private async execGit(
+    args: string[],
+    cwd: string,
+    options: { env?: NodeJS.ProcessEnv; input?: string } = {}
+  ): Promise<string> {
+    const run = execFileAsync('git', args, { cwd, env: options.env, timeout: this.EXEC_TIMEOUT_MS, maxBuffer: 32 * 1024 * 1024 })
+    if (options.input !== undefined) {
+      run.child.stdin?.end(options.input)
+    }
+
+    try {
+      return (await run).stdout
+    } catch (e) {
+      const error = e as Error & { stderr?: string; killed?: boolean }
+      if (error.killed) throw new Error(`git ${args[0]} timed out`)
+      throw new Error(error.stderr?.trim() || error.message)
+    }
+  }
+}
@@ -1,24 +1,99 @@
 /**
  * GitStatusManager - Track git status for managed sessions
  *
- * Polls git status independently of Claude activity so we always
- * know the state of each session's working directory.
+ * Keeps each session's git status current independently of Claude
+ * activity. In 'watch' mode (the default) it watches the worktree and the
+ * repository's HEAD, index and refs, refreshing shortly after something
+ * changes and polling only as a slow safety net; in 'poll' mode it polls.
+ * Either way, polling backs off while a session's status stays the same.
+ * Also reads the per-file changes and unified diffs behind the counts, on
+ * request.
  */
 
 import { execFile } from 'child_process'
 import { promisify } from 'util'
-import type { GitStatus } from '../shared/types.js'
+import { readFile, stat } from 'fs/promises'
+import { basename, join, relative, resolve, sep } from 'path'
+import { watch, type FSWatcher } from 'chokidar'
+import type { GitChangeArea, GitChangeKind, GitCommit, GitCommitFile, GitFileChange, GitFileDiff, GitStatus } from '../shared/types.js'
 
 const execFileAsync = promisify(execFile)
 
 // Re-export GitStatus for convenience
 export type { GitStatus }
 
+/** Names accepted for GitStatusManager's mode option */
+export const GIT_STATUS_MODES = ['watch', 'poll'] as const
+
+export type GitStatusMode = typeof GIT_STATUS_MODES[number]
+
+export interface GitStatusManagerOptions {
+  /** Watch repositories for changes (default), or only poll them */
+  mode?: GitStatusMode
+}
+
 export interface GitStatusUpdate {
   sessionId: string
   status: GitStatus
 }
 
+export interface GitLogOptions {
+  /** Only commits made at or after this time (unix ms) */
+  since?: number
+  /** Most commits to list (newest first) */
+  limit?: number
+}
+
+export interface GitDiffOptions {
+  /** Only this file (path relative to the repository root) */
+  path?: string
+  /** Only changes in this area */
+  area?: GitChangeArea
+}
+
+/** Longest diff returned for one file; longer diffs are cut at a line break */
+const MAX_FILE_DIFF_CHARS = 200_000
+
+/** Output limit for git commands that list or diff every changed file */
+const DIFF_MAX_BUFFER = 32 * 1024 * 1024
+
+const CHANGE_KINDS: Record<string, GitChangeKind> = {
+  A: 'added',
+  M: 'modified',
+  D: 'deleted',
+  R: 'renamed',
+  C: 'copied',
+  T: 'typechange',
+  U: 'conflicted',
+}
+
+/**
+ * Directories never watched even when not git-ignored - they're huge and
+ * their contents rarely show up in git status
+ */
+const UNWATCHED_DIRS = new Set([
+  '.git', 'node_modules', 'dist', 'build', '.next', 'target', '.venv', 'venv', '__pycache__', '.cache',
+])
+
+/** When a session's status is next polled */
+interface PollSchedule {
+  /** Current interval, doubled after each poll that finds nothing new */
+  interval: number
+  nextPollAt: number
+  /** Pending debounced refresh */
+  debounce: NodeJS.Timeout | null
+  /** When the pending refresh was first asked for */
+  debounceSince: number
+}
+
+/** Watchers for one repository, shared by the sessions working in it */
+interface RepoWatch {
+  sessionIds: Set<string>
+  watchers: FSWatcher[]
+  /** Watching failed; its sessions are polled instead */
+  failed: boolean
+}
+
 // ============================================================================
 // GitStatusManager
 // ============================================================================
@@ -26,14 +101,28 @@ export interface GitStatusUpdate {
 export class GitStatusManager {
   private statusCache = new Map<string, GitStatus>()
   private directories = new Map<string, string>() // sessionId -> directory
+  private schedules = new Map<string, PollSchedule>()
+  private fetches = new Map<string, Promise<GitStatus>>() // sessionId -> fetch in progress
+  private refetch = new Set<string>() // sessions asked for again mid-fetch
+  private repos = new Map<string, RepoWatch>() // repository root -> watchers
+  private sessionRepos = new Map<string, string>() // sessionId -> repository root
   private pollInterval: NodeJS.Timeout | null = null
   private onUpdate: ((update: GitStatusUpdate) => void) | null = null
+  private readonly mode: GitStatusMode
 
   // Configuration
-  private readonly POLL_INTERVAL_MS = 5000 // Poll every 5 seconds
-  private readonly EXEC_TIMEOUT_MS = 5000  // Timeout for git commands
-
-  constructor() {}
+  private readonly TICK_MS = 1000               // How often due polls are checked
+  private readonly POLL_INTERVAL_MS = 5000      // Poll every 5 seconds when not watching...
+  private readonly MAX_POLL_INTERVAL_MS = 60_000 // ...backing off to once a minute when idle
+  private readonly SAFETY_POLL_MS = 60_000      // Watched repos: catch anything the watchers missed...
+  private readonly MAX_SAFETY_POLL_MS = 300_000 // ...backing off to every 5 minutes
+  private readonly DEBOUNCE_MS = 500            // Let a burst of writes settle before refreshing
+  private readonly MAX_DEBOUNCE_MS = 3000       // ...but refresh at least this often during one
+  private readonly EXEC_TIMEOUT_MS = 5000       // Timeout for git commands
+
+  constructor(options: GitStatusManagerOptions = {}) {
+    this.mode = options.mode ?? 'watch'
+  }
 
   /**
    * Set callback for status updates
@@ -46,15 +135,30 @@ export class GitStatusManager {
    * Register a session's working directory to track
    */
   track(sessionId: string, directory: string): void {
+    if (this.directories.has(sessionId)) this.untrack(sessionId)
+
     this.directories.set(sessionId, directory)
+    this.schedules.set(sessionId, {
+      interval: this.POLL_INTERVAL_MS,
+      nextPollAt: Date.now() + this.POLL_INTERVAL_MS,
+      debounce: null,
+      debounceSince: 0,
+    })
     // Immediately fetch status for new session
     this.fetchStatus(sessionId, directory)
+    if (this.pollInterval && this.mode === 'watch') {
+      this.watchSession(sessionId, directory)
+    }
   }
 
   /**
    * Stop tracking a session
    */
   untrack(sessionId: string): void {
+    const schedule = this.schedules.get(sessionId)
+    if (schedule?.debounce) clearTimeout(schedule.debounce)
+    this.schedules.delete(sessionId)
+    this.unwatchSession(sessionId)
     this.directories.delete(sessionId)
     this.statusCache.delete(sessionId)
   }
@@ -74,27 +178,40 @@ export class GitStatusManager {
   }
 
   /**
-   * Start polling for git status
+   * Start watching (in watch mode) and polling for git status
    */
   start(): void {
     if (this.pollInterval) return
 
     this.pollInterval = setInterval(() => {
-      this.pollAll()
-    }, this.POLL_INTERVAL_MS)
+      this.pollDue()
+    }, this.TICK_MS)
+
+    if (this.mode === 'watch') {
+      for (const [sessionId, directory] of this.directories) {
+        this.watchSession(sessionId, directory)
+      }
+    }
 
     // Initial poll
     this.pollAll()
   }
 
   /**
-   * Stop polling
+   * Stop polling and close all watchers
    */
   stop(): void {
     if (this.pollInterval) {
       clearInterval(this.pollInterval)
       this.pollInterval = null
     }
+    for (const schedule of this.schedules.values()) {
+      if (schedule.debounce) clearTimeout(schedule.debounce)
+      schedule.debounce = null
+    }
+    for (const sessionId of [...this.sessionRepos.keys()]) {
+      this.unwatchSession(sessionId)
+    }
   }
 
   /**
@@ -106,21 +223,222 @@ export class GitStatusManager {
     return this.fetchStatus(sessionId, directory)
   }
 
+  /**
+   * Refresh a session's status shortly, once a burst of activity settles
+   * (file changes, or a tool that may have written files). Also resets
+   * its polling back-off.
+   */
+  scheduleRefresh(sessionId: string): void {
+    const schedule = this.schedules.get(sessionId)
+    if (!schedule) return
+
+    const now = Date.now()
+    schedule.interval = this.baseInterval(sessionId)
+    schedule.nextPollAt = now + schedule.interval
+
+    if (schedule.debounce) {
+      // Don't let a steady stream of changes put the refresh off forever
+      if (now - schedule.debounceSince >= this.MAX_DEBOUNCE_MS) return
+      clearTimeout(schedule.debounce)
+    } else {
+      schedule.debounceSince = now
+    }
+    schedule.debounce = setTimeout(() => {
+      schedule.debounce = null
+      const directory = this.directories.get(sessionId)
+      if (directory) this.fetchStatus(sessionId, directory)
+    }, Math.min(this.DEBOUNCE_MS, schedule.debounceSince + this.MAX_DEBOUNCE_MS - now))
+  }
+  /**
+   * Root of the repository a directory is in (null if it isn't in one)
+   */
+  async getRepoRoot(directory: string): Promise<string | null> {
+    try {
+      return (await this.execGit(['rev-parse', '--show-toplevel'], directory)).trim()
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * List the staged, unstaged and untracked changes in a repository
+   */
+  async getChangedFiles(root: string): Promise<GitFileChange[]> {
+    const [staged, unstaged, untracked] = await Promise.all([
+      this.listTrackedChanges(root, 'staged'),
+      this.listTrackedChanges(root, 'unstaged'),
+      this.listUntracked(root),
+    ])
+    return [...staged, ...unstaged, ...untracked.map(file => file.change)]
+  }
+
+  /**
+   * Unified diffs of the changes in a repository, in the same order as
+   * getChangedFiles
+   */
+  async getDiffs(root: string, options: GitDiffOptions = {}): Promise<GitFileDiff[]> {
+    const areas: GitChangeArea[] = options.area ? [options.area] : ['staged', 'unstaged', 'untracked']
+    const diffs = await Promise.all(areas.map(area =>
+      area === 'untracked'
+        ? this.diffUntracked(root, options.path)
+        : this.diffTracked(root, area, options.path)
+    ))
+    return diffs.flat()
+  }
+
+  /**
+   * Commits on local branches (and HEAD), newest first, with the files
+   * each one changed
+   */
+  async getCommits(root: string, options: GitLogOptions = {}): Promise<GitCommit[]> {
+    try {
+      await this.execGit(['rev-parse', '--verify', '-q', 'HEAD'], root)
+    } catch {
+      // No commits yet
+      return []
+    }
+
+    const output = await this.execGit([
+      'log', '--branches', 'HEAD', '--date-order', '-M', '--no-color', '--no-ext-diff',
+      ...(options.since !== undefined ? [`--since=@${Math.floor(options.since / 1000)}`] : []),
+      ...(options.limit !== undefined ? [`--max-count=${options.limit}`] : []),
+      '--format=%x1e%H%x1f%h%x1f%P%x1f%D%x1f%an%x1f%ct%x1f%s%x1f%b%x1f',
+      '--raw', '--numstat', '-z',
+    ], root, DIFF_MAX_BUFFER)
+
+    return output.split('\x1e').filter(Boolean).map((record) => {
+      const [hash, shortHash, parents, refs, author, time, subject, body, changes = ''] = record.split('\x1f')
+
+      // After the header: --raw entries (":old new modes S\0path\0", or
+      // "...R100\0old\0new\0"), then --numstat entries as in listTrackedChanges
+      const files: GitCommitFile[] = []
+      const fields = changes.split('\0').map(field => field.replace(/^\n/, ''))
+      for (let i = 0; i < fields.length; i++) {
+        const field = fields[i]
+        if (field.startsWith(':')) {
+          const status = field.split(' ').pop() ?? ''
+          const oldPath = status[0] === 'R' || status[0] === 'C' ? fields[++i] : undefined
+          files.push({
+            path: fields[++i],
+            ...(oldPath !== undefined ? { oldPath } : {}),
+            change: CHANGE_KINDS[status[0]] ?? 'modified',
+            linesAdded: null,
+            linesRemoved: null,
+            binary: false,
+          })
+          continue
+        }
+        const match = field.match(/^(-|\d+)\t(-|\d+)\t([\s\S]*)$/)
+        if (!match) continue
+        const filePath = match[3] || fields[(i += 2)]
+        const file = files.find(f => f.path === filePath)
+        if (!file) continue
+        file.linesAdded = match[1] === '-' ? null : parseInt(match[1], 10)
+        file.linesRemoved = match[2] === '-' ? null : parseInt(match[2], 10)
+        file.binary = file.linesAdded === null
+      }
+
+      return {
+        hash,
+        shortHash,
+        parents: parents ? parents.split(' ') : [],
+        refs: refs ? refs.split(', ') : [],
+        subject,
+        body: body.trim(),
+        author,
+        timestamp: parseInt(time, 10) * 1000,
+        files,
+        linesAdded: files.reduce((sum, file) => sum + (file.linesAdded ?? 0), 0),
+        linesRemoved: files.reduce((sum, file) => sum + (file.linesRemoved ?? 0), 0),
+      }
+    })
+  }
+
   /**
    * Poll all tracked directories
    */
   private async pollAll(): Promise<void> {
-    const promises = Array.from(this.directories.entries()).map(
-      ([sessionId, directory]) => this.fetchStatus(sessionId, directory)
-    )
+    const promises = Array.from(this.directories.keys()).map(sessionId => this.poll(sessionId))
     await Promise.all(promises)
   }
 
   /**
-   * Fetch git status for a directory
+   * Poll the sessions whose next poll is due
+   */
+  private pollDue(): void {
+    const now = Date.now()
+    for (const [sessionId, schedule] of this.schedules) {
+      if (schedule.nextPollAt <= now) this.poll(sessionId)
+    }
+  }
+
+  /**
+   * Poll one session, backing off if nothing changed since the last poll
+   */
+  private async poll(sessionId: string): Promise<void> {
+    const directory = this.directories.get(sessionId)
+    const schedule = this.schedules.get(sessionId)
+    if (!directory || !schedule) return
+
+    // Not due again until this one is done
+    schedule.nextPollAt = Infinity
+    const before = this.statusCache.get(sessionId)
+    const status = await this.fetchStatus(sessionId, directory)
+    if (this.schedules.get(sessionId) !== schedule) return
+
+    const base = this.baseInterval(sessionId)
+    const max = base === this.SAFETY_POLL_MS ? this.MAX_SAFETY_POLL_MS : this.MAX_POLL_INTERVAL_MS
+    const changed = !before || this.hasStatusChanged(before, status)
+    schedule.interval = changed ? base : Math.min(Math.max(schedule.interval, base) * 2, max)
+    schedule.nextPollAt = Date.now() + schedule.interval
+  }
+
+  /**
+   * Polling interval for a session with recent activity: slow when its
+   * repository is watched, since the watchers catch changes
+   */
+  private baseInterval(sessionId: string): number {
+    const root = this.sessionRepos.get(sessionId)
+    const repo = root ? this.repos.get(root) : undefined
+    return repo && !repo.failed && repo.watchers.length > 0 ? this.SAFETY_POLL_MS : this.POLL_INTERVAL_MS
+  }
+
+  /**
+   * Fetch git status for a directory. Concurrent requests for a session
+   * share one fetch, which runs again if asked for while in progress.
+   */
+  private fetchStatus(sessionId: string, directory: string): Promise<GitStatus> {
+    const inProgress = this.fetches.get(sessionId)
+    if (inProgress) {
+      // It may have read the tree before whatever prompted this request
+      this.refetch.add(sessionId)
+      return inProgress
+    }
+
+    const fetch = (async () => {
+      try {
+        let status: GitStatus
+        do {
+          this.refetch.delete(sessionId)
+          status = await this.getGitStatus(directory)
+          this.applyStatus(sessionId, directory, status)
+        } while (this.refetch.has(sessionId) && this.directories.get(sessionId) === directory)
+        return status
+      } finally {
+        this.fetches.delete(sessionId)
+        this.refetch.delete(sessionId)
+      }
+    })()
+    this.fetches.set(sessionId, fetch)
+    return fetch
+  }
+
+  /**
+   * Cache a fetched status and notify if it changed
    */
-  private async fetchStatus(sessionId: string, directory: string): Promise<GitStatus> {
-    const status = await this.getGitStatus(directory)
+  private applyStatus(sessionId: string, directory: string, status: GitStatus): void {
+    // Untracked (or moved to another directory) while fetching
+    if (this.directories.get(sessionId) !== directory) return
 
     // Check if status changed
     const oldStatus = this.statusCache.get(sessionId)
@@ -132,8 +450,128 @@ export class GitStatusManager {
     if (changed && this.onUpdate) {
       this.onUpdate({ sessionId, status })
     }
+  }
 
-    return status
+  // ==========================================================================
+  // Watching
+  // ==========================================================================
+
+  /**
+   * Watch the repository a session works in (shared with other sessions
+   * in the same repository). Directories outside a repository aren't
+   * watched; polling notices if one becomes a repository.
+   */
+  private async watchSession(sessionId: string, directory: string): Promise<void> {
+    let dirs: string
+    try {
+      dirs = await this.execGit(['rev-parse', '--show-toplevel', '--absolute-git-dir', '--git-common-dir'], directory)
+    } catch {
+      return
+    }
+    // Untracked, or already watched, while git ran
+    if (this.directories.get(sessionId) !== directory || this.sessionRepos.has(sessionId)) return
+
+    const [root, gitDir, commonDir] = dirs.trim().split('\n')
+    let repo = this.repos.get(root)
+    const isNew = !repo
+    if (!repo) {
+      repo = { sessionIds: new Set(), watchers: [], failed: false }
+      this.repos.set(root, repo)
+    }
+    repo.sessionIds.add(sessionId)
+    this.sessionRepos.set(sessionId, root)
+
+    if (isNew) {
+      await this.startWatchers(root, repo, gitDir, resolve(directory, commonDir ?? gitDir))
+    }
+  }
+
+  /**
+   * Stop sharing a repository's watchers, closing them when no session is
+   * left in it
+   */
+  private unwatchSession(sessionId: string): void {
+    const root = this.sessionRepos.get(sessionId)
+    if (!root) return
+    this.sessionRepos.delete(sessionId)
+
+    const repo = this.repos.get(root)
+    if (!repo) return
+    repo.sessionIds.delete(sessionId)
+    if (repo.sessionIds.size === 0) {
+      this.closeWatchers(repo)
+      this.repos.delete(root)
+    }
+  }
+
+  /**
+   * Watch a repository's worktree (skipping ignored and heavy
+   * directories) and the git files that change on commit, checkout,
+   * staging and fetch. Any change refreshes every session in it.
+   */
+  private async startWatchers(root: string, repo: RepoWatch, gitDir: string, commonDir: string): Promise<void> {
+    // Ignored files and directories, listed once up front
+    const ignoredPaths = new Set<string>()
+    try {
+      const output = await this.execGit(
+        ['ls-files', '--others', '--ignored', '--exclude-standard', '--directory', '-z'],
+        root,
+        DIFF_MAX_BUFFER
+      )
+      for (const path of output.split('\0').filter(Boolean)) {
+        ignoredPaths.add(join(root, path.replace(/\/$/, '')))
+      }
+    } catch {
+      // Watch everything but the usual heavy directories
+    }
+    // All sessions left while listing
+    if (this.repos.get(root) !== repo) return
+
+    const isIgnored = (path: string): boolean => {
+      if (ignoredPaths.has(path)) return true
+      const rel = relative(root, path)
+      if (!rel || rel.startsWith('..')) return false
+      const parts = rel.split(sep)
+      let current = root
+      for (const part of parts) {
+        current = join(current, part)
+        if (UNWATCHED_DIRS.has(part) || ignoredPaths.has(current)) return true
+      }
+      return false
+    }
+
+    const onChange = () => {
+      for (const sessionId of repo.sessionIds) this.scheduleRefresh(sessionId)
+    }
+    const onError = (error: unknown) => {
+      if (repo.failed) return
+      console.error(`Can't watch ${root} for git changes, polling it instead: ${error}`)
+      repo.failed = true
+      this.closeWatchers(repo)
+      onChange()
+    }
+
+    const gitFiles = [join(gitDir, 'HEAD'), join(gitDir, 'index'), join(commonDir, 'refs'), join(commonDir, 'packed-refs')]
+    // Our own refs (checkpoints) don't change the status
+    const ownRefs = join(commonDir, 'refs', 'vibecraft2')
+    repo.watchers = [
+      watch(root, { ignoreInitial: true, ignored: isIgnored }),
+      watch(gitFiles, {
+        ignoreInitial: true,
+        ignored: (path: string) => path.endsWith('.lock') || path === ownRefs || path.startsWith(ownRefs + sep),
+      }),
+    ]
+    for (const watcher of repo.watchers) {
+      watcher.on('all', onChange)
+      watcher.on('error', onError)
+    }
+  }
+
+  private closeWatchers(repo: RepoWatch): void {
+    for (const watcher of repo.watchers) {
+      watcher.close().catch(() => {})
+    }
+    repo.watchers = []
   }
 
   /**
@@ -171,17 +609,20 @@ export class GitStatusManager {
       lastChecked: Date.now(),
     }
 
+    let gitDirs: string
     try {
-      // Check if it's a git repo
-      await this.execGit(['rev-parse', '--git-dir'], directory)
+      // Check if it's a git repo (a linked worktree has its own git dir)
+      gitDirs = await this.execGit(['rev-parse', '--absolute-git-dir', '--git-common-dir'], directory)
     } catch {
       // Not a git repo
       return emptyStatus
     }
 
+    const [gitDir, commonDir] = gitDirs.trim().split('\n')
     const status: GitStatus = {
       ...emptyStatus,
       isRepo: true,
+      isWorktree: resolve(directory, commonDir ?? gitDir) !== gitDir,
     }
 
     // Run all git commands in parallel
@@ -193,7 +634,9 @@ export class GitStatusManager {
       logResult,
     ] = await Promise.all([
       this.execGit(['rev-parse', '--abbrev-ref', 'HEAD'], directory).catch(() => ''),
-      this.execGit(['status', '--porcelain'], directory).catch(() => ''),
+      // Without optional locks status doesn't rewrite the index, which
+      // would set off the index watcher
+      this.execGit(['--no-optional-locks', 'status', '--porcelain'], directory).catch(() => ''),
       this.execGit(['diff', '--cached', '--shortstat'], directory).catch(() => ''),
       this.execGit(['diff', '--shortstat'], directory).catch(() => ''),
       this.execGit(['log', '-1', '--format=%ct|||%s'], directory).catch(() => ''),
@@ -269,15 +712,165 @@ export class GitStatusManager {
     return status
   }
 
+  /**
+   * git diff arguments for one side of the index. Paths are matched
+   * literally so names like `[id].tsx` aren't taken as globs.
+   */
+  private diffArgs(area: 'staged' | 'unstaged', path: string | undefined, ...format: string[]): string[] {
+    return [
+      '--literal-pathspecs', 'diff',
+      ...(area === 'staged' ? ['--cached'] : []),
+      '-M', '--no-color', '--no-ext-diff', ...format,
+      ...(path ? ['--', path] : []),
+    ]
+  }
+
+  /**
+   * Changed tracked files on one side of the index, with line counts
+   */
+  private async listTrackedChanges(root: string, area: 'staged' | 'unstaged', path?: string): Promise<GitFileChange[]> {
+    const [nameStatus, numstat] = await Promise.all([
+      this.execGit(this.diffArgs(area, path, '--name-status', '-z'), root, DIFF_MAX_BUFFER),
+      this.execGit(this.diffArgs(area, path, '--numstat', '-z'), root, DIFF_MAX_BUFFER),
+    ])
+
+    // numstat -z: "added\tremoved\tpath\0", or for renames and copies
+    // "added\tremoved\t\0old\0new\0"; binary files count as "-"
+    const counts = new Map<string, { added: number | null; removed: number | null }>()
+    const numstatFields = numstat.split('\0')
+    for (let i = 0; i < numstatFields.length; i++) {
+      const match = numstatFields[i].match(/^(-|\d+)\t(-|\d+)\t([\s\S]*)$/)
+      if (!match) continue
+      const filePath = match[3] || numstatFields[(i += 2)]
+      counts.set(filePath, {
+        added: match[1] === '-' ? null : parseInt(match[1], 10),
+        removed: match[2] === '-' ? null : parseInt(match[2], 10),
+      })
+    }
+
+    // name-status -z: "M\0path\0", or "R100\0old\0new\0"
+    const changes: GitFileChange[] = []
+    const fields = nameStatus.split('\0')
+    for (let i = 0; i < fields.length && fields[i]; ) {
+      const status = fields[i++]
+      const oldPath = status[0] === 'R' || status[0] === 'C' ? fields[i++] : undefined
+      const filePath = fields[i++]
+      const count = counts.get(filePath)
+      // An unmerged file is listed once per stage it differs in
+      if (changes.some(change => change.path === filePath)) continue
+      changes.push({
+        path: filePath,
+        ...(oldPath !== undefined ? { oldPath } : {}),
+        area,
+        change: CHANGE_KINDS[status[0]] ?? 'modified',
+        linesAdded: count?.added ?? null,
+        linesRemoved: count?.removed ?? null,
+        binary: !!count && count.added === null,
+      })
+    }
+    return changes
+  }
+
+  /**
+   * Diffs of changed tracked files on one side of the index
+   */
+  private async diffTracked(root: string, area: 'staged' | 'unstaged', path?: string): Promise<GitFileDiff[]> {
+    const [changes, patch] = await Promise.all([
+      this.listTrackedChanges(root, area, path),
+      this.execGit(this.diffArgs(area, path, '--patch'), root, DIFF_MAX_BUFFER),
+    ])
+
+    // git prints files in the same order for every output format, so the
+    // n-th "diff --git" (or "diff --cc" for conflicts) section is the n-th file
+    const sections = patch.split(/^(?=diff --(?:git|cc) )/m).filter(section => section.startsWith('diff --'))
+    return changes.map((change, i) => ({ ...change, ...truncateDiff(sections[i] ?? '') }))
+  }
+
+  /**
+   * Untracked files (not ignored), with their contents when they're text
+   * and small enough to show
+   */
+  private async listUntracked(root: string, path?: string): Promise<Array<{ change: GitFileChange; text: string | null }>> {
+    const output = await this.execGit(
+      ['--literal-pathspecs', 'ls-files', '--others', '--exclude-standard', '-z', ...(path ? ['--', path] : [])],
+      root,
+      DIFF_MAX_BUFFER
+    )
+
+    return Promise.all(output.split('\0').filter(Boolean).map(async (filePath) => {
+      let content: Buffer | null = null
+      try {
+        const info = await stat(join(root, filePath))
+        if (info.isFile() && info.size <= MAX_FILE_DIFF_CHARS) {
+          content = await readFile(join(root, filePath))
+        }
+      } catch {
+        // Deleted since it was listed
+      }
+
+      const binary = !!content && content.includes(0)
+      const text = content && !binary ? content.toString('utf-8') : null
+      const lineCount = text ? text.split('\n').length - (text.endsWith('\n') ? 1 : 0) : 0
+      return {
+        change: {
+          path: filePath,
+          area: 'untracked' as const,
+          change: 'added' as const,
+          linesAdded: text !== null ? lineCount : null,
+          linesRemoved: text !== null ? 0 : null,
+          binary,
+        },
+        text,
+      }
+    }))
+  }
+
+  /**
+   * Diffs of untracked files against nothing, in the form git diff would
+   * print once they're added
+   */
+  private async diffUntracked(root: string, path?: string): Promise<GitFileDiff[]> {
+    const files = await this.listUntracked(root, path)
+    return files.map(({ change, text }) => {
+      const header = `diff --git a/${change.path} b/${change.path}\nnew file mode 100644\n`
+      if (change.binary) {
+        return { ...change, diff: `${header}Binary files /dev/null and b/${change.path} differ\n`, truncated: false }
+      }
+      // Too large to read
+      if (text === null) {
+        return { ...change, diff: header, truncated: true }
+      }
+      if (text === '') {
+        return { ...change, diff: header, truncated: false }
+      }
+
+      const lines = text.replace(/\n$/, '').split('\n')
+      const body = lines.map(line => `+${line}\n`).join('')
+      const noNewline = text.endsWith('\n') ? '' : '\\ No newline at end of file\n'
+      const diff = `${header}--- /dev/null\n+++ b/${change.path}\n@@ -0,0 +1,${lines.length} @@\n${body}${noNewline}`
+      return { ...change, ...truncateDiff(diff) }
+    })
+  }
+
   /**
    * Execute a git command in a directory using execFile (no shell).
    * Args should be passed as an array, not a string, to prevent command injection.
    */
-  private async execGit(args: string[], cwd: string): Promise<string> {
+  private async execGit(args: string[], cwd: string, maxBuffer?: number): Promise<string> {
     const { stdout } = await execFileAsync('git', args, {
       cwd,
       timeout: this.EXEC_TIMEOUT_MS,
+      ...(maxBuffer ? { maxBuffer } : {}),
     })
     return stdout
   }
 }
+
+/**
+ * Cut a diff longer than MAX_FILE_DIFF_CHARS at the last line break that fits
+ */
+function truncateDiff(diff: string): { diff: string; truncated: boolean } {
+  if (diff.length <= MAX_FILE_DIFF_CHARS) return { diff, truncated: false }
+  const cut = diff.lastIndexOf('\n', MAX_FILE_DIFF_CHARS)
+  return { diff: diff.slice(0, cut > 0 ? cut + 1 : MAX_FILE_DIFF_CHARS), truncated: true }
+}
@@ -0,0 +1,179 @@
+/**
+ * PermissionAuditLog - Record of every permission prompt and its answer
+ *
+ * One JSON line per prompt, appended once it has been answered (from the
+ * UI, a WebSocket or REST client, a permission rule, or in the terminal
+ * itself). Kept next to events.jsonl; the log is held in memory for
+ * querying since prompts are few compared to events. Only the newest
+ * `keep` entries are kept: once the log grows a tenth past that, the
+ * oldest are dropped and the file is rewritten.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs'
+import { dirname } from 'path'
+import type { PermissionAnswerSource, PermissionAuditEntry } from '../shared/types.js'
+
+export interface AuditQuery {
+  /** Managed or Claude session ID */
+  sessionId?: string
+  tool?: string
+  source?: Set<PermissionAnswerSource>
+  /** Only prompts answered at or after this time (Unix ms) */
+  since?: number
+  /** Only prompts answered at or before this time (Unix ms) */
+  until?: number
+  /** nextCursor from the previous page */
+  cursor?: string
+  /** Page size (default 100, max 1000) */
+  limit?: number
+}
+
+export interface AuditPage {
+  /** Newest first */
+  entries: PermissionAuditEntry[]
+  /** Pass as `cursor` to get the next page (null when there is none) */
+  nextCursor: string | null
+}
+
+const DEFAULT_LIMIT = 100
+const MAX_LIMIT = 1000
+
+/** Columns of the CSV export, in order */
+const CSV_COLUMNS: Array<[string, (entry: PermissionAuditEntry) => string | number | undefined]> = [
+  ['answeredAt', e => new Date(e.answeredAt).toISOString()],
+  ['promptedAt', e => new Date(e.promptedAt).toISOString()],
+  ['waitMs', e => e.waitMs],
+  ['session', e => e.sessionName],
+  ['sessionId', e => e.sessionId],
+  ['claudeSessionId', e => e.claudeSessionId],
+  ['tool', e => e.tool],
+  ['option', e => e.option?.label],
+  ['source', e => e.source],
+  ['client', e => e.client],
+  ['rule', e => e.rule && JSON.stringify(e.rule)],
+  ['ruleFile', e => e.ruleFile],
+  ['context', e => e.context],
+]
+
+// ============================================================================
+// PermissionAuditLog
+// ============================================================================
+
+export class PermissionAuditLog {
+  /** Oldest first */
+  private entries: PermissionAuditEntry[] = []
+  /** Entries trimmed off the front (keeps cursors stable) */
+  private dropped = 0
+
+  /** `keep` is how many entries to keep (0 = all) */
+  constructor(private filePath: string, private keep = 0) {
+    this.load()
+    this.trim()
+  }
+
+  get size(): number {
+    return this.entries.length
+  }
+
+  /**
+   * Append an answered prompt
+   */
+  record(entry: PermissionAuditEntry): void {
+    this.entries.push(entry)
+    try {
+      const dir = dirname(this.filePath)
+      if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true })
+      }
+      appendFileSync(this.filePath, JSON.stringify(entry) + '\n')
+    } catch (e) {
+      console.error('Failed to write permission audit entry:', e)
+    }
+    this.trim()
+  }
+
+  /**
+   * One page of matching entries, newest first
+   */
+  query(query: AuditQuery = {}): AuditPage {
+    const limit = Math.min(Math.max(query.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT)
+    const entries: PermissionAuditEntry[] = []
+
+    // The cursor is the position to continue below, counting trimmed
+    // entries (entries are only appended)
+    let i = query.cursor !== undefined ? Number(query.cursor) - this.dropped : this.entries.length
+    for (i = Math.min(i, this.entries.length) - 1; i >= 0 && entries.length < limit; i--) {
+      if (matches(this.entries[i], query)) entries.push(this.entries[i])
+    }
+
+    return { entries, nextCursor: i >= 0 ? String(this.dropped + i + 1) : null }
+  }
+
+  /**
+   * Every matching entry, oldest first (for export)
+   */
+  matching(query: AuditQuery = {}): PermissionAuditEntry[] {
+    return this.entries.filter(entry => matches(entry, query))
+  }
+
+  private load(): void {
+    if (!existsSync(this.filePath)) return
+
+    try {
+      for (const line of readFileSync(this.filePath, 'utf-8').split('\n')) {
+        if (!line.trim()) continue
+        try {
+          this.entries.push(JSON.parse(line) as PermissionAuditEntry)
+        } catch {
+          // Skip a torn last line
+        }
+      }
+    } catch (e) {
+      console.error('Failed to load permission audit log:', e)
+    }
+  }
+
+  /**
+   * Drop the oldest entries once the log is a tenth over `keep`
+   */
+  private trim(): void {
+    if (this.keep <= 0 || this.entries.length <= this.keep + Math.ceil(this.keep / 10)) return
+
+    const excess = this.entries.length - this.keep
+    this.entries.splice(0, excess)
+    this.dropped += excess
+    try {
+      const tmp = `${this.filePath}.tmp`
+      writeFileSync(tmp, this.entries.map(entry => JSON.stringify(entry) + '\n').join(''))
+      renameSync(tmp, this.filePath)
+    } catch (e) {
+      console.error('Failed to trim permission audit log:', e)
+    }
+  }
+}
+
+/**
+ * Entries as CSV (RFC 4180), header row first
+ */
+export function auditToCsv(entries: PermissionAuditEntry[]): string {
+  const rows = [CSV_COLUMNS.map(([name]) => name)]
+  for (const entry of entries) {
+    rows.push(CSV_COLUMNS.map(([, value]) => String(value(entry) ?? '')))
+  }
+  return rows.map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n'
+}
+
+function csvField(value: string): string {
+  // Spreadsheets run cells starting with these as formulas
+  if (/^[=+\-@\t\r]/.test(value)) value = `'${value}`
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+function matches(entry: PermissionAuditEntry, query: AuditQuery): boolean {
+  if (query.sessionId && entry.sessionId !== query.sessionId && entry.claudeSessionId !== query.sessionId) return false
+  if (query.tool && entry.tool.toLowerCase() !== query.tool.toLowerCase()) return false
+  if (query.source && !query.source.has(entry.source)) return false
+  if (query.since !== undefined && entry.answeredAt < query.since) return false
+  if (query.until !== undefined && entry.answeredAt > query.until) return false
+  return true
+}
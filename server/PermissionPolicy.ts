@@ -0,0 +1,191 @@
+/**
+ * PermissionPolicy - Declarative rules for answering permission prompts
+ *
+ * Rules come from a global file (~/.vibecraft2/permissions.json) and from
+ * each project's .vibecraft2/permissions.json, both shaped
+ * `{"rules": [{"action": "allow", "tool": "Bash", "pattern": "npm test"}]}`.
+ * Files are re-read when they change, so edits apply to the next prompt.
+ *
+ * A prompt matched by any deny rule is denied; otherwise one matched by an
+ * ask rule is left for the user; otherwise one matched by an allow rule is
+ * allowed. Prompts no rule matches are left for the user.
+ *
+ * Deny and ask patterns may match anywhere in the prompt text. Allow rules
+ * are stricter, since a wrong match runs something unasked: their pattern
+ * must match the whole of the tool call's input (the Bash command, the
+ * file path, ...), and a Bash command using shell operators is never
+ * allowed unless the rule opts in with `allowShellOperators`. Project
+ * files live in the working tree the agent can write to, so their allow
+ * rules only count for projects listed in the global file's
+ * `trustedProjects`.
+ */
+
+import { existsSync, readFileSync, statSync } from 'fs'
+import { join, resolve } from 'path'
+import type { PermissionAction, PermissionOption, PermissionRule } from '../shared/types.js'
+
+/** Project rules file, relative to the session's cwd */
+export const PROJECT_RULES_FILE = join('.vibecraft2', 'permissions.json')
+
+const ACTIONS: PermissionAction[] = ['allow', 'deny', 'ask']
+
+/** Strongest action first */
+const PRECEDENCE: PermissionAction[] = ['deny', 'ask', 'allow']
+
+/**
+ * Shell syntax that chains, pipes, substitutes or redirects commands
+ * (`<` also covers process substitution, `<(...)`)
+ */
+const SHELL_OPERATORS = /[;&|`<>\n]|\$\(/
+
+interface CompiledRule {
+  rule: PermissionRule
+  /** Pattern anywhere in the text (deny and ask rules) */
+  regex: RegExp | null
+  /** Pattern over the whole tool input (allow rules) */
+  exact: RegExp | null
+  source: string
+}
+
+interface CachedRules {
+  mtimeMs: number
+  rules: CompiledRule[]
+  /** Projects whose own allow rules apply (global file only) */
+  trustedProjects: string[]
+}
+
+export interface PolicyDecision {
+  action: PermissionAction
+  /** The deciding rule (absent when no rule matched) */
+  rule?: PermissionRule
+  /** File the rule came from */
+  source?: string
+}
+
+// ============================================================================
+// PermissionPolicy
+// ============================================================================
+
+export class PermissionPolicy {
+  private cache = new Map<string, CachedRules>()
+  /** Untrusted project files already warned about (until they change) */
+  private warned = new Set<string>()
+
+  constructor(private globalFile: string) {}
+
+  /**
+   * Decide what to do with a prompt from a session working in `cwd`.
+   * `subject` is the prompted tool call's input (see toolSubject); without
+   * it, allow rules with a pattern - and any allow rule for Bash - can't
+   * match, so the user is asked.
+   */
+  evaluate(cwd: string, tool: string, context: string, subject: string | null = null): PolicyDecision {
+    const bash = tool.toLowerCase() === 'bash'
+    const matches = this.rulesFor(cwd).filter(({ rule, regex, exact }) => {
+      if (rule.tool && rule.tool !== '*' && rule.tool.toLowerCase() !== tool.toLowerCase()) return false
+      if (rule.action !== 'allow') {
+        return !regex || regex.test(context) || (subject !== null && regex.test(subject))
+      }
+      if ((exact || bash) && subject === null) return false
+      if (bash && SHELL_OPERATORS.test(subject!) && !rule.allowShellOperators) return false
+      return !exact || exact.test(subject!)
+    })
+
+    for (const action of PRECEDENCE) {
+      const match = matches.find(m => m.rule.action === action)
+      if (match) {
+        return { action, rule: match.rule, source: match.source }
+      }
+    }
+    return { action: 'ask' }
+  }
+
+  /**
+   * Project rules, then global rules. A project's allow rules are dropped
+   * unless the global file trusts the project.
+   */
+  private rulesFor(cwd: string): CompiledRule[] {
+    const global = this.load(this.globalFile)
+    if (!cwd) return global.rules
+
+    const file = join(cwd, PROJECT_RULES_FILE)
+    let project = this.load(file).rules
+    if (!global.trustedProjects.includes(resolve(cwd))) {
+      const untrusted = project.filter(({ rule }) => rule.action === 'allow')
+      if (untrusted.length > 0 && !this.warned.has(file)) {
+        this.warned.add(file)
+        console.error(`Ignoring ${untrusted.length} allow rule(s) in ${file}: add "${resolve(cwd)}" to trustedProjects in ${this.globalFile} to use them`)
+      }
+      project = project.filter(({ rule }) => rule.action !== 'allow')
+    }
+    return [...project, ...global.rules]
+  }
+
+  private load(file: string): Omit<CachedRules, 'mtimeMs'> {
+    if (!existsSync(file)) {
+      this.cache.delete(file)
+      return { rules: [], trustedProjects: [] }
+    }
+
+    try {
+      const { mtimeMs } = statSync(file)
+      const cached = this.cache.get(file)
+      if (cached?.mtimeMs === mtimeMs) return cached
+
+      const loaded = { mtimeMs, ...parseRules(readFileSync(file, 'utf-8'), file) }
+      this.cache.set(file, loaded)
+      this.warned.delete(file)
+      return loaded
+    } catch (e) {
+      console.error(`Failed to load permission rules from ${file}:`, e)
+      return { rules: [], trustedProjects: [] }
+    }
+  }
+}
+
+/**
+ * The input a tool call's allow rules are matched against: the Bash
+ * command, the file path, the URL... (null for tools with none)
+ */
+export function toolSubject(input: Record<string, unknown>): string | null {
+  const value = input.command ?? input.file_path ?? input.notebook_path ?? input.url ?? input.pattern ?? input.path
+  return typeof value === 'string' ? value : null
+}
+
+/**
+ * The option that carries out an action: the first "Yes" for allow, the
+ * first "No" for deny (null if the prompt has none)
+ */
+export function optionFor(action: 'allow' | 'deny', options: PermissionOption[]): PermissionOption | null {
+  const label = action === 'allow' ? /^yes\b/i : /^no\b/i
+  return options.find(option => label.test(option.label)) ?? null
+}
+
+function parseRules(json: string, source: string): Omit<CachedRules, 'mtimeMs'> {
+  const data = JSON.parse(json) as { rules?: unknown; trustedProjects?: unknown }
+  if (!Array.isArray(data.rules)) {
+    throw new Error('expected {"rules": [...]}')
+  }
+  const trustedProjects = Array.isArray(data.trustedProjects)
+    ? data.trustedProjects.filter((dir): dir is string => typeof dir === 'string').map(dir => resolve(dir))
+    : []
+
+  const rules: CompiledRule[] = []
+  data.rules.forEach((rule: PermissionRule, i: number) => {
+    if (!rule || !ACTIONS.includes(rule.action)) {
+      console.error(`Skipping permission rule ${i + 1} in ${source}: action must be allow, deny or ask`)
+      return
+    }
+    try {
+      rules.push({
+        rule,
+        regex: rule.pattern ? new RegExp(rule.pattern) : null,
+        exact: rule.pattern ? new RegExp(`^(?:${rule.pattern})$`) : null,
+        source,
+      })
+    } catch (e) {
+      console.error(`Skipping permission rule ${i + 1} in ${source}: ${(e as Error).message}`)
+    }
+  })
+  return { rules, trustedProjects }
+}
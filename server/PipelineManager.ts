@@ -0,0 +1,224 @@
+/**
+ * PipelineManager - Hand-offs between managed sessions
+ *
+ * A pipeline sends a prompt to a downstream session whenever its upstream
+ * session finishes a turn. The server decides when a session has finished
+ * and delivers the prompt; this class stores pipelines and renders their
+ * prompt templates.
+ *
+ * Data stored in ~/.vibecraft2/data/pipelines.json
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs'
+import { dirname } from 'path'
+import { randomUUID } from 'crypto'
+import type { SessionPipeline } from '../shared/types.js'
+
+// Re-export SessionPipeline for convenience
+export type { SessionPipeline }
+
+/** Values available to a pipeline's prompt template */
+export interface PipelineContext {
+  /** Upstream session name */
+  from: string
+  /** Upstream session's last response (may be empty) */
+  response: string
+}
+
+/** Longest upstream response inserted into a template */
+const MAX_RESPONSE_CHARS = 8000
+
+// ============================================================================
+// PipelineManager
+// ============================================================================
+
+export class PipelineManager {
+  private pipelines = new Map<string, SessionPipeline>() // pipelineId -> pipeline
+  private onUpdate: ((pipelines: SessionPipeline[]) => void) | null = null
+
+  constructor(private filePath: string) {
+    this.load()
+  }
+
+  /**
+   * Set callback for pipeline changes
+   */
+  setUpdateHandler(handler: (pipelines: SessionPipeline[]) => void): void {
+    this.onUpdate = handler
+  }
+
+  /**
+   * Get all pipelines (oldest first)
+   */
+  getAll(): SessionPipeline[] {
+    return Array.from(this.pipelines.values()).sort((a, b) => a.createdAt - b.createdAt)
+  }
+
+  /**
+   * Get a pipeline by ID
+   */
+  get(pipelineId: string): SessionPipeline | undefined {
+    return this.pipelines.get(pipelineId)
+  }
+
+  /**
+   * Pipelines that start at a session
+   */
+  getOutgoing(sessionId: string): SessionPipeline[] {
+    return this.getAll().filter(pipeline => pipeline.fromSessionId === sessionId)
+  }
+
+  /**
+   * Sessions a new pipeline from → to would loop through, or null if it
+   * closes no cycle. Hand-offs around a cycle never stop, so such a
+   * pipeline must be refused. Paused pipelines count too (they can be
+   * resumed); `ignorePipelineId` leaves out a pipeline being retargeted.
+   * @returns The loop, starting at `to` and ending at `from`
+   */
+  findCycle(fromSessionId: string, toSessionId: string, ignorePipelineId?: string): string[] | null {
+    if (fromSessionId === toSessionId) return [toSessionId]
+
+    // Depth-first search for a path back from `to` to `from`
+    const previous = new Map<string, string>([[toSessionId, toSessionId]])
+    const stack = [toSessionId]
+    while (stack.length > 0) {
+      const sessionId = stack.pop()!
+      for (const pipeline of this.pipelines.values()) {
+        if (pipeline.fromSessionId !== sessionId || pipeline.id === ignorePipelineId) continue
+        const next = pipeline.toSessionId
+        if (previous.has(next)) continue
+        previous.set(next, sessionId)
+        if (next === fromSessionId) {
+          const loop = [next]
+          for (let at = next; at !== toSessionId; at = previous.get(at)!) loop.unshift(previous.get(at)!)
+          return loop
+        }
+        stack.push(next)
+      }
+    }
+    return null
+  }
+
+  /**
+   * Create a pipeline
+   */
+  create(fromSessionId: string, toSessionId: string, prompt: string, enabled = true): SessionPipeline {
+    const pipeline: SessionPipeline = {
+      id: randomUUID(),
+      fromSessionId,
+      toSessionId,
+      prompt,
+      enabled,
+      createdAt: Date.now(),
+      lastFiredAt: null,
+      fireCount: 0,
+    }
+    this.pipelines.set(pipeline.id, pipeline)
+    this.changed()
+    return pipeline
+  }
+
+  /**
+   * Edit a pipeline. Returns null if it does not exist.
+   */
+  update(
+    pipelineId: string,
+    updates: { toSessionId?: string; prompt?: string; enabled?: boolean }
+  ): SessionPipeline | null {
+    const pipeline = this.pipelines.get(pipelineId)
+    if (!pipeline) return null
+
+    if (updates.toSessionId !== undefined) pipeline.toSessionId = updates.toSessionId
+    if (updates.prompt !== undefined) pipeline.prompt = updates.prompt
+    if (updates.enabled !== undefined) pipeline.enabled = updates.enabled
+
+    this.changed()
+    return pipeline
+  }
+
+  /**
+   * Delete a pipeline
+   */
+  remove(pipelineId: string): boolean {
+    if (!this.pipelines.delete(pipelineId)) return false
+    this.changed()
+    return true
+  }
+
+  /**
+   * Forget pipelines to or from a deleted session
+   */
+  removeSession(sessionId: string): void {
+    let removed = false
+    for (const [id, pipeline] of this.pipelines) {
+      if (pipeline.fromSessionId === sessionId || pipeline.toSessionId === sessionId) {
+        this.pipelines.delete(id)
+        removed = true
+      }
+    }
+    if (removed) {
+      this.save()
+    }
+  }
+
+  /**
+   * Record that a pipeline fired
+   */
+  markFired(pipelineId: string): void {
+    const pipeline = this.pipelines.get(pipelineId)
+    if (!pipeline) return
+
+    pipeline.lastFiredAt = Date.now()
+    pipeline.fireCount++
+    this.changed()
+  }
+
+  private changed(): void {
+    this.save()
+    this.onUpdate?.(this.getAll())
+  }
+
+  /**
+   * Load pipelines from disk
+   */
+  private load(): void {
+    if (!existsSync(this.filePath)) return
+
+    try {
+      const data = JSON.parse(readFileSync(this.filePath, 'utf-8')) as SessionPipeline[]
+      for (const pipeline of data) {
+        this.pipelines.set(pipeline.id, pipeline)
+      }
+    } catch (e) {
+      console.error('Failed to load pipelines:', e)
+    }
+  }
+
+  /**
+   * Save pipelines to disk
+   */
+  private save(): void {
+    try {
+      const dir = dirname(this.filePath)
+      if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true })
+      }
+      writeFileSync(this.filePath, JSON.stringify(this.getAll(), null, 2))
+    } catch (e) {
+      console.error('Failed to save pipelines:', e)
+    }
+  }
+}
+
+/**
+ * Fill in a pipeline prompt template ({{response}}, {{from}})
+ */
+export function renderPipelinePrompt(template: string, context: PipelineContext): string {
+  const response = context.response.length > MAX_RESPONSE_CHARS
+    ? context.response.slice(0, MAX_RESPONSE_CHARS) + '\n[...truncated]'
+    : context.response
+
+  return template.replace(/\{\{\s*(response|from)\s*\}\}/g, (_, key: 'response' | 'from') =>
+    key === 'response' ? response : context.from
+  )
+}
@@ -0,0 +1,191 @@
+/**
+ * PromptQueueManager - Ordered prompt backlog per managed session
+ *
+ * Prompts sent while a session is busy wait here until it goes idle.
+ * The server drains the queue; this class only stores, edits and
+ * persists it.
+ *
+ * Data stored in ~/.vibecraft2/data/prompt-queue.json
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs'
+import { dirname } from 'path'
+import { randomUUID } from 'crypto'
+import type { QueuedPrompt } from '../shared/types.js'
+
+// Re-export QueuedPrompt for convenience
+export type { QueuedPrompt }
+
+export interface PromptQueueUpdate {
+  sessionId: string
+  queue: QueuedPrompt[]
+}
+
+// ============================================================================
+// PromptQueueManager
+// ============================================================================
+
+export class PromptQueueManager {
+  private queues = new Map<string, QueuedPrompt[]>() // sessionId -> queue
+  private onUpdate: ((update: PromptQueueUpdate) => void) | null = null
+
+  constructor(private filePath: string) {
+    this.load()
+  }
+
+  /**
+   * Set callback for queue changes
+   */
+  setUpdateHandler(handler: (update: PromptQueueUpdate) => void): void {
+    this.onUpdate = handler
+  }
+
+  /**
+   * Get a session's queue (next prompt first)
+   */
+  getQueue(sessionId: string): QueuedPrompt[] {
+    return [...(this.queues.get(sessionId) ?? [])]
+  }
+
+  /**
+   * Number of prompts waiting for a session
+   */
+  size(sessionId: string): number {
+    return this.queues.get(sessionId)?.length ?? 0
+  }
+
+  /**
+   * Add a prompt to a session's queue
+   * @param position Insert index (0 = next up). Defaults to the end.
+   */
+  enqueue(sessionId: string, prompt: string, position?: number): QueuedPrompt {
+    const item: QueuedPrompt = {
+      id: randomUUID(),
+      prompt,
+      createdAt: Date.now(),
+    }
+    const queue = this.queues.get(sessionId) ?? []
+    queue.splice(clampPosition(position ?? queue.length, queue.length), 0, item)
+    this.queues.set(sessionId, queue)
+    this.changed(sessionId)
+    return item
+  }
+
+  /**
+   * Edit a queued prompt's text and/or move it
+   * Returns null if the item does not exist.
+   */
+  update(sessionId: string, itemId: string, updates: { prompt?: string; position?: number }): QueuedPrompt | null {
+    const queue = this.queues.get(sessionId)
+    const index = queue?.findIndex(item => item.id === itemId) ?? -1
+    if (!queue || index === -1) return null
+
+    const item = queue[index]
+    if (updates.prompt !== undefined) {
+      item.prompt = updates.prompt
+    }
+    if (updates.position !== undefined) {
+      queue.splice(index, 1)
+      queue.splice(clampPosition(updates.position, queue.length), 0, item)
+    }
+
+    this.changed(sessionId)
+    return item
+  }
+
+  /**
+   * Cancel a queued prompt
+   */
+  remove(sessionId: string, itemId: string): boolean {
+    const queue = this.queues.get(sessionId)
+    const index = queue?.findIndex(item => item.id === itemId) ?? -1
+    if (!queue || index === -1) return false
+
+    queue.splice(index, 1)
+    this.changed(sessionId)
+    return true
+  }
+
+  /**
+   * Take the next prompt off a session's queue
+   */
+  shift(sessionId: string): QueuedPrompt | null {
+    const item = this.queues.get(sessionId)?.shift()
+    if (!item) return null
+    this.changed(sessionId)
+    return item
+  }
+
+  /**
+   * Put a prompt back at the front (e.g. after a failed send)
+   */
+  unshift(sessionId: string, item: QueuedPrompt): void {
+    const queue = this.queues.get(sessionId) ?? []
+    queue.unshift(item)
+    this.queues.set(sessionId, queue)
+    this.changed(sessionId)
+  }
+
+  /**
+   * Cancel every queued prompt for a session
+   */
+  clear(sessionId: string): void {
+    if (!this.queues.has(sessionId)) return
+    this.queues.delete(sessionId)
+    this.changed(sessionId)
+  }
+
+  /**
+   * Forget a deleted session's queue
+   */
+  removeSession(sessionId: string): void {
+    if (this.queues.delete(sessionId)) {
+      this.save()
+    }
+  }
+
+  private changed(sessionId: string): void {
+    if (this.queues.get(sessionId)?.length === 0) {
+      this.queues.delete(sessionId)
+    }
+    this.save()
+    this.onUpdate?.({ sessionId, queue: this.getQueue(sessionId) })
+  }
+
+  /**
+   * Load queues from disk
+   */
+  private load(): void {
+    if (!existsSync(this.filePath)) return
+
+    try {
+      const data = JSON.parse(readFileSync(this.filePath, 'utf-8')) as Record<string, QueuedPrompt[]>
+      for (const [sessionId, queue] of Object.entries(data)) {
+        if (Array.isArray(queue) && queue.length > 0) {
+          this.queues.set(sessionId, queue)
+        }
+      }
+    } catch (e) {
+      console.error('Failed to load prompt queue:', e)
+    }
+  }
+
+  /**
+   * Save queues to disk
+   */
+  private save(): void {
+    try {
+      const dir = dirname(this.filePath)
+      if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true })
+      }
+      writeFileSync(this.filePath, JSON.stringify(Object.fromEntries(this.queues), null, 2))
+    } catch (e) {
+      console.error('Failed to save prompt queue:', e)
+    }
+  }
+}
+
+function clampPosition(position: number, length: number): number {
+  return Math.max(0, Math.min(Math.floor(position), length))
+}
@@ -0,0 +1,294 @@
+/**
+ * ScheduleManager - Scheduled and recurring prompts for managed sessions
+ *
+ * Each schedule fires on an interval or a cron expression. When a schedule
+ * comes due the run handler (supplied by the server) tries to send it; a
+ * busy session leaves the schedule pending until it goes idle. If the next
+ * occurrence arrives first, the pending run is recorded as skipped.
+ *
+ * Data stored in ~/.vibecraft2/data/schedules.json
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs'
+import { dirname } from 'path'
+import { randomUUID } from 'crypto'
+import type { PromptSchedule, ScheduleRun, ScheduleTrigger } from '../shared/types.js'
+import { parseCron, nextCronTime } from './cron.js'
+
+// Re-export schedule types for convenience
+export type { PromptSchedule, ScheduleRun, ScheduleTrigger }
+
+export interface ScheduleUpdate {
+  sessionId: string
+  schedules: PromptSchedule[]
+}
+
+/** What the run handler did with a due schedule */
+export type ScheduleRunResult =
+  | { status: 'sent' }
+  | { status: 'busy'; detail: string }
+  | { status: 'failed'; detail: string }
+
+export type ScheduleRunHandler = (schedule: PromptSchedule) => Promise<ScheduleRunResult>
+
+// ============================================================================
+// ScheduleManager
+// ============================================================================
+
+export class ScheduleManager {
+  private schedules = new Map<string, PromptSchedule>() // scheduleId -> schedule
+  private running = new Set<string>() // scheduleIds with a run in flight
+  private tickInterval: NodeJS.Timeout | null = null
+  private onUpdate: ((update: ScheduleUpdate) => void) | null = null
+  private runHandler: ScheduleRunHandler | null = null
+
+  // Configuration
+  private readonly TICK_INTERVAL_MS = 15000 // Check for due schedules every 15 seconds
+  private readonly MAX_RUNS = 20            // Run history kept per schedule
+  private readonly MIN_INTERVAL_MINUTES = 1
+
+  constructor(private filePath: string) {
+    this.load()
+  }
+
+  /**
+   * Set callback for schedule changes
+   */
+  setUpdateHandler(handler: (update: ScheduleUpdate) => void): void {
+    this.onUpdate = handler
+  }
+
+  /**
+   * Set the function that sends a due schedule's prompt
+   */
+  setRunHandler(handler: ScheduleRunHandler): void {
+    this.runHandler = handler
+  }
+
+  /**
+   * Start checking for due schedules
+   */
+  start(): void {
+    if (this.tickInterval) return
+
+    this.tickInterval = setInterval(() => {
+      this.runDue()
+    }, this.TICK_INTERVAL_MS)
+  }
+
+  /**
+   * Stop checking for due schedules
+   */
+  stop(): void {
+    if (this.tickInterval) {
+      clearInterval(this.tickInterval)
+      this.tickInterval = null
+    }
+  }
+
+  /**
+   * Get a session's schedules (oldest first)
+   */
+  getSchedules(sessionId: string): PromptSchedule[] {
+    return Array.from(this.schedules.values())
+      .filter(schedule => schedule.sessionId === sessionId)
+      .sort((a, b) => a.createdAt - b.createdAt)
+  }
+
+  /**
+   * Get a schedule by ID
+   */
+  getSchedule(scheduleId: string): PromptSchedule | undefined {
+    return this.schedules.get(scheduleId)
+  }
+
+  /**
+   * Create a schedule. Throws if the trigger is invalid.
+   */
+  create(sessionId: string, prompt: string, trigger: ScheduleTrigger, enabled = true): PromptSchedule {
+    const normalized = this.validateTrigger(trigger)
+    const now = Date.now()
+    const schedule: PromptSchedule = {
+      id: randomUUID(),
+      sessionId,
+      prompt,
+      trigger: normalized,
+      enabled,
+      createdAt: now,
+      nextRunAt: enabled ? nextRunTime(normalized, now) : null,
+      runs: [],
+    }
+    this.schedules.set(schedule.id, schedule)
+    this.changed(sessionId)
+    return schedule
+  }
+
+  /**
+   * Edit a schedule. Returns null if it does not exist; throws if the
+   * new trigger is invalid.
+   */
+  update(
+    scheduleId: string,
+    updates: { prompt?: string; trigger?: ScheduleTrigger; enabled?: boolean }
+  ): PromptSchedule | null {
+    const schedule = this.schedules.get(scheduleId)
+    if (!schedule) return null
+
+    const trigger = updates.trigger ? this.validateTrigger(updates.trigger) : null
+    if (updates.prompt !== undefined) {
+      schedule.prompt = updates.prompt
+    }
+    if (trigger) {
+      schedule.trigger = trigger
+    }
+    if (updates.enabled !== undefined) {
+      schedule.enabled = updates.enabled
+    }
+    if (trigger || updates.enabled !== undefined) {
+      schedule.nextRunAt = schedule.enabled ? nextRunTime(schedule.trigger, Date.now()) : null
+    }
+
+    this.changed(schedule.sessionId)
+    return schedule
+  }
+
+  /**
+   * Delete a schedule
+   */
+  remove(scheduleId: string): boolean {
+    const schedule = this.schedules.get(scheduleId)
+    if (!schedule) return false
+
+    this.schedules.delete(scheduleId)
+    this.changed(schedule.sessionId)
+    return true
+  }
+
+  /**
+   * Forget a deleted session's schedules
+   */
+  removeSession(sessionId: string): void {
+    let removed = false
+    for (const [id, schedule] of this.schedules) {
+      if (schedule.sessionId === sessionId) {
+        this.schedules.delete(id)
+        removed = true
+      }
+    }
+    if (removed) {
+      this.save()
+    }
+  }
+
+  /**
+   * Try every due schedule (optionally only one session's, e.g. when it
+   * has just gone idle)
+   */
+  runDue(sessionId?: string): void {
+    const now = Date.now()
+    for (const schedule of this.schedules.values()) {
+      if (sessionId && schedule.sessionId !== sessionId) continue
+      if (!schedule.enabled || schedule.nextRunAt === null || schedule.nextRunAt > now) continue
+      if (this.running.has(schedule.id)) continue
+      this.run(schedule, now)
+    }
+  }
+
+  private run(schedule: PromptSchedule, now: number): void {
+    if (!this.runHandler) return
+
+    // Still busy when the following occurrence arrives: give up on this one
+    const following = nextRunTime(schedule.trigger, schedule.nextRunAt ?? now)
+    const overdue = following !== null && following <= now
+
+    this.running.add(schedule.id)
+    this.runHandler(schedule).then((result) => {
+      if (result.status === 'busy' && !overdue) return
+
+      const run: ScheduleRun = result.status === 'sent'
+        ? { at: Date.now(), outcome: 'sent' }
+        : { at: Date.now(), outcome: result.status === 'busy' ? 'skipped' : 'failed', detail: result.detail }
+      this.recordRun(schedule, run)
+    }).catch((error: Error) => {
+      this.recordRun(schedule, { at: Date.now(), outcome: 'failed', detail: error.message })
+    }).finally(() => {
+      this.running.delete(schedule.id)
+    })
+  }
+
+  private recordRun(schedule: PromptSchedule, run: ScheduleRun): void {
+    // Deleted while the run was in flight
+    if (!this.schedules.has(schedule.id)) return
+
+    schedule.runs.unshift(run)
+    schedule.runs.length = Math.min(schedule.runs.length, this.MAX_RUNS)
+    schedule.nextRunAt = schedule.enabled ? nextRunTime(schedule.trigger, run.at) : null
+    this.changed(schedule.sessionId)
+  }
+
+  private validateTrigger(trigger: ScheduleTrigger): ScheduleTrigger {
+    if (trigger?.type === 'interval') {
+      const minutes = Number(trigger.minutes)
+      if (!Number.isFinite(minutes) || minutes < this.MIN_INTERVAL_MINUTES) {
+        throw new Error(`Interval must be at least ${this.MIN_INTERVAL_MINUTES} minute`)
+      }
+      return { type: 'interval', minutes }
+    }
+    if (trigger?.type === 'cron' && typeof trigger.expression === 'string') {
+      const expression = trigger.expression.trim().replace(/\s+/g, ' ')
+      parseCron(expression)
+      return { type: 'cron', expression }
+    }
+    throw new Error('Trigger must be {"type":"interval","minutes":N} or {"type":"cron","expression":"..."}')
+  }
+
+  private changed(sessionId: string): void {
+    this.save()
+    this.onUpdate?.({ sessionId, schedules: this.getSchedules(sessionId) })
+  }
+
+  /**
+   * Load schedules from disk
+   */
+  private load(): void {
+    if (!existsSync(this.filePath)) return
+
+    try {
+      const data = JSON.parse(readFileSync(this.filePath, 'utf-8')) as PromptSchedule[]
+      for (const schedule of data) {
+        this.schedules.set(schedule.id, schedule)
+      }
+    } catch (e) {
+      console.error('Failed to load schedules:', e)
+    }
+  }
+
+  /**
+   * Save schedules to disk
+   */
+  private save(): void {
+    try {
+      const dir = dirname(this.filePath)
+      if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true })
+      }
+      writeFileSync(this.filePath, JSON.stringify(Array.from(this.schedules.values()), null, 2))
+    } catch (e) {
+      console.error('Failed to save schedules:', e)
+    }
+  }
+}
+
+/**
+ * Next time (unix ms) a trigger fires after `after`
+ */
+function nextRunTime(trigger: ScheduleTrigger, after: number): number | null {
+  if (trigger.type === 'interval') {
+    return after + trigger.minutes * 60 * 1000
+  }
+  try {
+    return nextCronTime(parseCron(trigger.expression), after)
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * TerminalMirror - Streams managed sessions' screens to WebSocket clients
+ *
+ * While at least one client is subscribed to a session, its screen is
+ * captured on an interval (with ANSI escapes, via the session backend) and
+ * compared line by line with the previous capture. Clients get the whole
+ * screen when they subscribe and afterwards only the lines that changed,
+ * so an idle session costs one capture per interval and no traffic.
+ */
+
+import { WebSocket } from 'ws'
+import type { ServerMessage, TerminalFrame } from '../shared/types.js'
+
+interface MirroredSession {
+  /** Backend handle (ManagedSession.tmuxSession) */
+  handle: string
+  clients: Set<WebSocket>
+  /** Last captured screen */
+  lines: string[]
+  /** Last capture error (null while captures succeed) */
+  error: string | null
+  timer: ReturnType<typeof setInterval>
+  /** A capture is in flight (slow captures skip ticks instead of piling up) */
+  capturing: boolean
+}
+
+// ============================================================================
+// TerminalMirror
+// ============================================================================
+
+export class TerminalMirror {
+  private sessions = new Map<string, MirroredSession>() // sessionId -> mirror
+
+  /**
+   * @param captureScreen Capture a session's screen by backend handle
+   * @param intervalMs How often subscribed screens are captured
+   */
+  constructor(
+    private captureScreen: (handle: string) => Promise<string>,
+    private intervalMs: number
+  ) {}
+
+  /** Number of sessions being mirrored */
+  get size(): number {
+    return this.sessions.size
+  }
+
+  /**
+   * Start sending a session's screen to a client
+   */
+  subscribe(ws: WebSocket, sessionId: string, handle: string): void {
+    let mirror = this.sessions.get(sessionId)
+    if (!mirror) {
+      const created: MirroredSession = {
+        handle,
+        clients: new Set(),
+        lines: [],
+        error: null,
+        timer: setInterval(() => void this.capture(sessionId, created), this.intervalMs),
+        capturing: false,
+      }
+      created.timer.unref()
+      this.sessions.set(sessionId, created)
+      mirror = created
+      mirror.clients.add(ws)
+      // The first capture sends the full screen to every client
+      void this.capture(sessionId, mirror)
+      return
+    }
+
+    mirror.clients.add(ws)
+    if (mirror.error) {
+      send(ws, { sessionId, rows: 0, error: mirror.error })
+    } else if (!mirror.capturing || mirror.lines.length > 0) {
+      send(ws, { sessionId, rows: mirror.lines.length, lines: mirror.lines })
+    }
+  }
+
+  /**
+   * Stop sending a session's screen to a client
+   */
+  unsubscribe(ws: WebSocket, sessionId: string): void {
+    const mirror = this.sessions.get(sessionId)
+    if (!mirror) return
+
+    mirror.clients.delete(ws)
+    if (mirror.clients.size === 0) {
+      clearInterval(mirror.timer)
+      this.sessions.delete(sessionId)
+    }
+  }
+
+  /**
+   * Drop a disconnected client from every session
+   */
+  removeClient(ws: WebSocket): void {
+    for (const sessionId of [...this.sessions.keys()]) {
+      this.unsubscribe(ws, sessionId)
+    }
+  }
+
+  /**
+   * Stop mirroring a deleted session
+   */
+  removeSession(sessionId: string): void {
+    const mirror = this.sessions.get(sessionId)
+    if (!mirror) return
+
+    clearInterval(mirror.timer)
+    this.sessions.delete(sessionId)
+    for (const ws of mirror.clients) {
+      send(ws, { sessionId, rows: 0, error: 'Session deleted' })
+    }
+  }
+
+  private async capture(sessionId: string, mirror: MirroredSession): Promise<void> {
+    if (mirror.capturing) return
+    mirror.capturing = true
+
+    let frame: TerminalFrame | null
+    try {
+      const lines = (await this.captureScreen(mirror.handle)).replace(/\n$/, '').split('\n')
+      frame = diffScreen(sessionId, mirror, lines)
+      mirror.lines = lines
+      mirror.error = null
+    } catch (e) {
+      const error = (e as Error).message.trim() || 'Capture failed'
+      frame = error === mirror.error ? null : { sessionId, rows: 0, error }
+      mirror.lines = []
+      mirror.error = error
+    } finally {
+      mirror.capturing = false
+    }
+
+    // Unsubscribed while capturing
+    if (!frame || this.sessions.get(sessionId) !== mirror) return
+    for (const ws of mirror.clients) {
+      send(ws, frame)
+    }
+  }
+}
+
+/**
+ * The frame that turns the previous capture into `lines` (null if nothing
+ * changed). Clients that haven't had a screen yet get it whole.
+ */
+function diffScreen(sessionId: string, mirror: MirroredSession, lines: string[]): TerminalFrame | null {
+  if (mirror.error || mirror.lines.length === 0) {
+    return { sessionId, rows: lines.length, lines }
+  }
+
+  const changes: Array<[number, string]> = []
+  lines.forEach((line, i) => {
+    if (line !== mirror.lines[i]) changes.push([i, line])
+  })
+  if (changes.length === 0 && lines.length === mirror.lines.length) return null
+
+  // A mostly-redrawn screen is smaller sent whole
+  return changes.length > lines.length / 2
+    ? { sessionId, rows: lines.length, lines }
+    : { sessionId, rows: lines.length, changes }
+}
+
+function send(ws: WebSocket, frame: TerminalFrame): void {
+  if (ws.readyState !== WebSocket.OPEN) return
+  const message: ServerMessage = { type: 'terminal_frame', payload: frame }
+  ws.send(JSON.stringify(message))
+}
@@ -0,0 +1,375 @@
+/**
+ * WebhookManager - Outbound webhooks for broadcast messages
+ *
+ * Each webhook subscribes to message types (and/or hook event types) and,
+ * optionally, to particular sessions - matched the same way as
+ * GET /events/stream filters. Matching messages are POSTed to its URL as
+ * JSON (a WebhookPayload) signed with the webhook's secret:
+ *
+ *   X-Vibecraft2-Signature: sha256=<hex HMAC-SHA256 of "<timestamp>.<body>">
+ *   X-Vibecraft2-Timestamp: <unix ms of this attempt>
+ *
+ * Failed deliveries (network errors, timeouts, non-2xx responses) are
+ * retried with backoff. The most recent deliveries of each webhook are
+ * kept as a log; retries still pending when the server stops are not
+ * resumed.
+ *
+ * Data stored in ~/.vibecraft2/data/webhooks.json
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs'
+import { dirname } from 'path'
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from 'crypto'
+import type {
+  CreateWebhookRequest,
+  ManagedSession,
+  ServerMessage,
+  UpdateWebhookRequest,
+  Webhook,
+  WebhookDelivery,
+  WebhookPayload,
+} from '../shared/types.js'
+import { filterMessage } from './EventStreamManager.js'
+
+// Re-export Webhook for convenience
+export type { Webhook }
+
+interface StoredWebhook extends Webhook {
+  secret: string
+}
+
+interface WebhookFile {
+  webhooks: StoredWebhook[]
+  deliveries: WebhookDelivery[]
+}
+
+/** Wait before each retry; a delivery gets one attempt more than there are delays */
+const RETRY_DELAYS_MS = [1_000, 5_000, 30_000, 2 * 60_000, 10 * 60_000]
+
+/** Give up on an attempt after this long */
+const REQUEST_TIMEOUT_MS = 10_000
+
+/** Deliveries kept per webhook */
+const MAX_DELIVERIES = 50
+
+/** Delivery progress is written at most this often */
+const SAVE_DELAY_MS = 1000
+
+// ============================================================================
+// WebhookManager
+// ============================================================================
+
+export class WebhookManager {
+  private webhooks = new Map<string, StoredWebhook>() // webhookId -> webhook
+  private deliveries = new Map<string, WebhookDelivery[]>() // webhookId -> deliveries, newest first
+  private retryTimers = new Set<ReturnType<typeof setTimeout>>()
+  private saveTimer: ReturnType<typeof setTimeout> | null = null
+  private onDelivery: ((delivery: WebhookDelivery) => void) | null = null
+
+  /**
+   * @param findSession Look up a managed session by Claude session ID or
+   *   tmux session name (used to match session filters)
+   */
+  constructor(
+    private filePath: string,
+    private findSession: (key: string) => ManagedSession | undefined
+  ) {
+    this.load()
+  }
+
+  /**
+   * Set callback for deliveries that succeed or are given up on
+   */
+  setDeliveryHandler(handler: (delivery: WebhookDelivery) => void): void {
+    this.onDelivery = handler
+  }
+
+  /**
+   * Get all webhooks (oldest first)
+   */
+  getAll(): Webhook[] {
+    return Array.from(this.webhooks.values())
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .map(toPublic)
+  }
+
+  /**
+   * Get a webhook by ID
+   */
+  get(webhookId: string): Webhook | undefined {
+    const webhook = this.webhooks.get(webhookId)
+    return webhook && toPublic(webhook)
+  }
+
+  /**
+   * Create a webhook. The secret is returned only here.
+   */
+  create(request: CreateWebhookRequest): { webhook: Webhook; secret: string } {
+    const webhook: StoredWebhook = {
+      id: randomUUID(),
+      url: request.url,
+      events: request.events,
+      ...(request.sessions?.length ? { sessions: request.sessions } : {}),
+      ...(request.description ? { description: request.description } : {}),
+      enabled: request.enabled ?? true,
+      createdAt: Date.now(),
+      lastDeliveryAt: null,
+      consecutiveFailures: 0,
+      secret: request.secret ?? `whsec_${randomBytes(24).toString('hex')}`,
+    }
+    this.webhooks.set(webhook.id, webhook)
+    this.save()
+    return { webhook: toPublic(webhook), secret: webhook.secret }
+  }
+
+  /**
+   * Edit a webhook. Returns null if it does not exist.
+   */
+  update(webhookId: string, updates: UpdateWebhookRequest): Webhook | null {
+    const webhook = this.webhooks.get(webhookId)
+    if (!webhook) return null
+
+    if (updates.url !== undefined) webhook.url = updates.url
+    if (updates.events !== undefined) webhook.events = updates.events
+    if (updates.sessions !== undefined) {
+      if (updates.sessions?.length) webhook.sessions = updates.sessions
+      else delete webhook.sessions
+    }
+    if (updates.description !== undefined) webhook.description = updates.description
+    if (updates.enabled !== undefined) webhook.enabled = updates.enabled
+
+    this.save()
+    return toPublic(webhook)
+  }
+
+  /**
+   * Delete a webhook and its delivery log (pending retries are dropped)
+   */
+  remove(webhookId: string): boolean {
+    if (!this.webhooks.delete(webhookId)) return false
+    this.deliveries.delete(webhookId)
+    this.save()
+    return true
+  }
+
+  /**
+   * A webhook's recent deliveries, newest first
+   */
+  getDeliveries(webhookId: string): WebhookDelivery[] {
+    return this.deliveries.get(webhookId) ?? []
+  }
+
+  /**
+   * Send a message to every enabled webhook subscribed to it
+   */
+  dispatch(message: ServerMessage): void {
+    if (this.webhooks.size === 0) return
+
+    const timestamp = Date.now()
+    for (const webhook of this.webhooks.values()) {
+      if (!webhook.enabled) continue
+
+      const filtered = filterMessage({
+        types: new Set(webhook.events),
+        sessions: webhook.sessions ? new Set(webhook.sessions) : undefined,
+      }, message, this.findSession)
+      if (!filtered) continue
+
+      const event = filtered.type === 'event' ? filtered.payload.type : filtered.type
+      this.enqueue(webhook, event, filtered.payload, timestamp)
+    }
+  }
+
+  /**
+   * Send a 'ping' delivery to one webhook, whatever it subscribes to and
+   * even if it is disabled. Returns null if it does not exist.
+   */
+  ping(webhookId: string): WebhookDelivery | null {
+    const webhook = this.webhooks.get(webhookId)
+    if (!webhook) return null
+    return this.enqueue(webhook, 'ping', { webhookId }, Date.now())
+  }
+
+  // ==========================================================================
+  // Delivery
+  // ==========================================================================
+
+  private enqueue(webhook: StoredWebhook, event: string, data: unknown, timestamp: number): WebhookDelivery {
+    const delivery: WebhookDelivery = {
+      id: randomUUID(),
+      webhookId: webhook.id,
+      event,
+      status: 'pending',
+      attempts: 0,
+      responseStatus: null,
+      error: null,
+      createdAt: timestamp,
+      nextAttemptAt: timestamp,
+      completedAt: null,
+    }
+    const log = this.deliveries.get(webhook.id) ?? []
+    log.unshift(delivery)
+    log.length = Math.min(log.length, MAX_DELIVERIES)
+    this.deliveries.set(webhook.id, log)
+
+    const payload: WebhookPayload = { id: delivery.id, event, timestamp, data }
+    void this.attempt(webhook.id, delivery, JSON.stringify(payload))
+    return delivery
+  }
+
+  private async attempt(webhookId: string, delivery: WebhookDelivery, body: string): Promise<void> {
+    // The webhook may have been deleted while a retry was waiting
+    const webhook = this.webhooks.get(webhookId)
+    if (!webhook) return
+
+    delivery.attempts++
+    delivery.nextAttemptAt = null
+    const timestamp = Date.now()
+
+    try {
+      const response = await fetch(webhook.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'vibecraft2-webhook',
+          'X-Vibecraft2-Event': delivery.event,
+          'X-Vibecraft2-Delivery': delivery.id,
+          'X-Vibecraft2-Timestamp': String(timestamp),
+          'X-Vibecraft2-Signature': signWebhookPayload(webhook.secret, timestamp, body),
+        },
+        body,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        redirect: 'manual',
+      })
+      delivery.responseStatus = response.status
+      // Drain the body so the connection can be reused
+      await response.arrayBuffer().catch(() => undefined)
+      delivery.error = response.ok ? null : `HTTP ${response.status}`
+    } catch (e) {
+      delivery.responseStatus = null
+      delivery.error = describeError(e)
+    }
+
+    if (!delivery.error) {
+      this.finish(webhook, delivery, 'success')
+      return
+    }
+
+    const delay = RETRY_DELAYS_MS[delivery.attempts - 1]
+    if (delay === undefined) {
+      this.finish(webhook, delivery, 'failed')
+      return
+    }
+
+    delivery.nextAttemptAt = Date.now() + delay
+    const timer = setTimeout(() => {
+      this.retryTimers.delete(timer)
+      void this.attempt(webhookId, delivery, body)
+    }, delay)
+    timer.unref()
+    this.retryTimers.add(timer)
+    this.scheduleSave()
+  }
+
+  private finish(webhook: StoredWebhook, delivery: WebhookDelivery, status: 'success' | 'failed'): void {
+    delivery.status = status
+    delivery.completedAt = Date.now()
+    webhook.lastDeliveryAt = delivery.completedAt
+    webhook.consecutiveFailures = status === 'success' ? 0 : webhook.consecutiveFailures + 1
+    this.scheduleSave()
+    this.onDelivery?.(delivery)
+  }
+
+  // ==========================================================================
+  // Persistence
+  // ==========================================================================
+
+  private scheduleSave(): void {
+    if (this.saveTimer) return
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null
+      this.save()
+    }, SAVE_DELAY_MS)
+    this.saveTimer.unref()
+  }
+
+  /**
+   * Load webhooks and delivery logs from disk
+   */
+  private load(): void {
+    if (!existsSync(this.filePath)) return
+
+    try {
+      const data = JSON.parse(readFileSync(this.filePath, 'utf-8')) as WebhookFile
+      for (const webhook of data.webhooks ?? []) {
+        this.webhooks.set(webhook.id, webhook)
+      }
+      for (const delivery of data.deliveries ?? []) {
+        if (!this.webhooks.has(delivery.webhookId)) continue
+        // Retries don't survive a restart
+        if (delivery.status === 'pending') {
+          delivery.status = 'failed'
+          delivery.error = `${delivery.error ?? 'Not sent'} (server restarted before retrying)`
+          delivery.nextAttemptAt = null
+          delivery.completedAt = Date.now()
+        }
+        const log = this.deliveries.get(delivery.webhookId) ?? []
+        log.push(delivery)
+        this.deliveries.set(delivery.webhookId, log)
+      }
+    } catch (e) {
+      console.error('Failed to load webhooks:', e)
+    }
+  }
+
+  /**
+   * Save webhooks (with their secrets) and delivery logs to disk
+   */
+  private save(): void {
+    try {
+      const dir = dirname(this.filePath)
+      if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true })
+      }
+      const data: WebhookFile = {
+        webhooks: Array.from(this.webhooks.values()),
+        deliveries: Array.from(this.deliveries.values()).flat(),
+      }
+      writeFileSync(this.filePath, JSON.stringify(data, null, 2), { mode: 0o600 })
+    } catch (e) {
+      console.error('Failed to save webhooks:', e)
+    }
+  }
+}
+
+// ============================================================================
+// Signing
+// ============================================================================
+
+/**
+ * The X-Vibecraft2-Signature header for a request body
+ */
+export function signWebhookPayload(secret: string, timestamp: number | string, body: string): string {
+  return 'sha256=' + createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+}
+
+/**
+ * Check a received X-Vibecraft2-Signature header in constant time
+ */
+export function verifyWebhookSignature(secret: string, timestamp: string, body: string, signature: string): boolean {
+  const a = Buffer.from(signature)
+  const b = Buffer.from(signWebhookPayload(secret, timestamp, body))
+  return a.length === b.length && timingSafeEqual(a, b)
+}
+
+function toPublic({ secret: _secret, ...webhook }: StoredWebhook): Webhook {
+  return webhook
+}
+
+function describeError(e: unknown): string {
+  if (!(e instanceof Error)) return String(e)
+  if (e.name === 'TimeoutError') return `Timed out after ${REQUEST_TIMEOUT_MS / 1000}s`
+  // fetch wraps the interesting part (ECONNREFUSED, ENOTFOUND, ...) in `cause`
+  const cause = (e as Error & { cause?: unknown }).cause
+  return cause instanceof Error ? `${e.message}: ${cause.message}` : e.message
+}
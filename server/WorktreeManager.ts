@@ -0,0 +1,133 @@
+/**
+ * WorktreeManager - Git worktrees for isolated sessions
+ *
+ * Creates a worktree on a new branch for a session so parallel sessions
+ * on the same repository don't share a working tree, and removes it
+ * (optionally with its branch) when the session is deleted.
+ */
+
+import { execFile } from 'child_process'
+import { promisify } from 'util'
+import { existsSync, mkdirSync, realpathSync } from 'fs'
+import { basename, join, relative } from 'path'
+import { randomUUID } from 'crypto'
+import type { SessionWorktree } from '../shared/types.js'
+
+const execFileAsync = promisify(execFile)
+
+// Re-export SessionWorktree for convenience
+export type { SessionWorktree }
+
+export interface CreateWorktreeOptions {
+  /** Session name (used to pick a branch name) */
+  name: string
+  /** Branch to create (default: vibecraft2/<name>-<id>) */
+  branch?: string
+  /** Ref to branch from (default: HEAD) */
+  base?: string
+}
+
+export interface CreatedWorktree {
+  worktree: SessionWorktree
+  /** Directory inside the worktree matching the requested cwd */
+  cwd: string
+}
+
+// ============================================================================
+// WorktreeManager
+// ============================================================================
+
+export class WorktreeManager {
+  private readonly EXEC_TIMEOUT_MS = 30000 // Checkout of a large repo can take a while
+
+  constructor(private baseDir: string) {}
+
+  /**
+   * Create a worktree on a new branch for a directory inside a git repo.
+   * Throws with git's message if anything fails.
+   */
+  async create(directory: string, options: CreateWorktreeOptions): Promise<CreatedWorktree> {
+    let repoRoot: string
+    try {
+      repoRoot = (await this.execGit(['rev-parse', '--show-toplevel'], directory)).trim()
+    } catch {
+      throw new Error(`Not a git repository: ${directory}`)
+    }
+
+    const branch = options.branch?.trim() || `vibecraft2/${slugify(options.name)}-${randomUUID().slice(0, 6)}`
+    // The branch name becomes part of the session's directory, so keep it shell-safe
+    if (!/^[A-Za-z0-9._/-]+$/.test(branch)) {
+      throw new Error(`Invalid branch name: ${branch}`)
+    }
+    try {
+      await this.execGit(['check-ref-format', '--branch', branch], repoRoot)
+    } catch {
+      throw new Error(`Invalid branch name: ${branch}`)
+    }
+
+    const base = options.base?.trim() || 'HEAD'
+    if (base.startsWith('-')) {
+      throw new Error(`Invalid base ref: ${base}`)
+    }
+    const parent = join(this.baseDir, basename(repoRoot))
+    const path = join(parent, branch.replace(/\//g, '-'))
+    if (existsSync(path)) {
+      throw new Error(`Worktree directory already exists: ${path}`)
+    }
+    mkdirSync(parent, { recursive: true })
+
+    try {
+      await this.execGit(['worktree', 'add', '-b', branch, path, base], repoRoot)
+    } catch (error) {
+      throw new Error(`git worktree add failed: ${gitErrorMessage(error)}`)
+    }
+
+    // Keep the session in the same subdirectory it asked for
+    const subdir = relative(realpathSync(repoRoot), realpathSync(directory))
+    return {
+      worktree: { path, branch, repoRoot, base },
+      cwd: join(path, subdir),
+    }
+  }
+
+  /**
+   * Remove a worktree, optionally deleting its branch too.
+   * Uncommitted changes in the worktree are discarded.
+   */
+  async remove(worktree: SessionWorktree, options: { deleteBranch?: boolean } = {}): Promise<void> {
+    try {
+      if (existsSync(worktree.path)) {
+        await this.execGit(['worktree', 'remove', '--force', worktree.path], worktree.repoRoot)
+      } else {
+        // Directory already gone - just drop git's record of it
+        await this.execGit(['worktree', 'prune'], worktree.repoRoot)
+      }
+      if (options.deleteBranch) {
+        await this.execGit(['branch', '-D', worktree.branch], worktree.repoRoot)
+      }
+    } catch (error) {
+      throw new Error(`Failed to remove worktree: ${gitErrorMessage(error)}`)
+    }
+  }
+
+  /**
+   * Execute a git command in a directory using execFile (no shell).
+   */
+  private async execGit(args: string[], cwd: string): Promise<string> {
+    const { stdout } = await execFileAsync('git', args, {
+      cwd,
+      timeout: this.EXEC_TIMEOUT_MS,
+    })
+    return stdout
+  }
+}
+
+function slugify(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'session'
+}
+
+/** Prefer git's stderr over the generic "Command failed" message */
+function gitErrorMessage(error: unknown): string {
+  const stderr = (error as { stderr?: string }).stderr?.trim()
+  return stderr || (error instanceof Error ? error.message : String(error))
+}
@@ -0,0 +1,54 @@
+/**
+ * auth - Optional bearer-token authentication
+ *
+ * When enabled, the server keeps a random token in a file readable only by
+ * the current user. API requests must send it as
+ * `Authorization: Bearer <token>`, and WebSocket clients as a `token` query
+ * parameter (browsers can't set headers on WebSocket handshakes).
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs'
+import { dirname } from 'path'
+import { randomBytes, timingSafeEqual } from 'crypto'
+import type { IncomingMessage } from 'http'
+
+/**
+ * Read the token from a file, generating it on first use
+ */
+export function loadOrCreateToken(filePath: string): string {
+  if (existsSync(filePath)) {
+    const token = readFileSync(filePath, 'utf-8').trim()
+    if (token) return token
+  }
+
+  const token = randomBytes(32).toString('hex')
+  mkdirSync(dirname(filePath), { recursive: true })
+  writeFileSync(filePath, token + '\n', { mode: 0o600 })
+  return token
+}
+
+/**
+ * Get the token a request presented (Authorization header, or `token`
+ * query parameter for WebSocket handshakes)
+ */
+export function getRequestToken(req: IncomingMessage, allowQuery = false): string | null {
+  const header = req.headers.authorization
+  if (header?.startsWith('Bearer ')) {
+    return header.slice('Bearer '.length).trim()
+  }
+
+  if (allowQuery && req.url) {
+    return new URL(req.url, 'http://localhost').searchParams.get('token')
+  }
+  return null
+}
+
+/**
+ * Compare a presented token with the expected one in constant time
+ */
+export function tokenMatches(presented: string | null, expected: string): boolean {
+  if (!presented) return false
+  const a = Buffer.from(presented)
+  const b = Buffer.from(expected)
+  return a.length === b.length && timingSafeEqual(a, b)
+}
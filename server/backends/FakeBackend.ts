@@ -0,0 +1,129 @@
+/**
+ * FakeBackend - In-memory sessions with scripted screen output
+ *
+ * Nothing is spawned: each session is a screen buffer that tests (or the
+ * server in `VIBECRAFT2_SESSION_BACKEND=fake` mode) can script. Input sent
+ * to a session is recorded and echoed, and an optional responder can
+ * append output, e.g. to simulate a permission prompt appearing.
+ */
+
+import type { SessionBackend, SpawnOptions } from './SessionBackend.js'
+
+/** A single input delivered to a fake session */
+export interface FakeInput {
+  handle: string
+  kind: 'text' | 'keys'
+  /** Pasted text, or the key names sent */
+  value: string | string[]
+  timestamp: number
+}
+
+/**
+ * Scripts a session's reaction to input.
+ * Return text to append to the session's screen, or nothing.
+ */
+export type FakeResponder = (input: FakeInput) => string | void
+
+/** Lines shown by captureScreen */
+const SCREEN_LINES = 40
+
+interface FakeSession {
+  options: SpawnOptions
+  screen: string[]
+}
+
+export class FakeBackend implements SessionBackend {
+  readonly name = 'fake'
+
+  /** Every input received, in order (for assertions) */
+  readonly inputs: FakeInput[] = []
+
+  private sessions = new Map<string, FakeSession>()
+  private responder: FakeResponder | null = null
+
+  /**
+   * Set the responder called for every input
+   */
+  setResponder(responder: FakeResponder | null): void {
+    this.responder = responder
+  }
+
+  /**
+   * Replace a session's screen contents
+   */
+  setScreen(handle: string, output: string): void {
+    this.getSession(handle).screen = output.split('\n')
+  }
+
+  /**
+   * Append output to a session's screen
+   */
+  appendScreen(handle: string, output: string): void {
+    this.getSession(handle).screen.push(...output.split('\n'))
+  }
+
+  /**
+   * Simulate a session process exiting on its own
+   */
+  exit(handle: string): void {
+    this.sessions.delete(handle)
+  }
+
+  /**
+   * Get the options a session was spawned with
+   */
+  getSpawnOptions(handle: string): SpawnOptions | undefined {
+    return this.sessions.get(handle)?.options
+  }
+
+  async spawn(handle: string, options: SpawnOptions): Promise<void> {
+    if (this.sessions.has(handle)) {
+      throw new Error(`Session already exists: ${handle}`)
+    }
+    this.sessions.set(handle, { options, screen: [`$ ${options.command.join(' ')}`] })
+  }
+
+  async kill(handle: string): Promise<void> {
+    this.getSession(handle)
+    this.sessions.delete(handle)
+  }
+
+  async sendText(handle: string, text: string): Promise<void> {
+    const session = this.getSession(handle)
+    session.screen.push(`> ${text}`)
+    this.receive({ handle, kind: 'text', value: text, timestamp: Date.now() })
+  }
+
+  async sendKeys(handle: string, keys: string[]): Promise<void> {
+    this.getSession(handle)
+    this.receive({ handle, kind: 'keys', value: keys, timestamp: Date.now() })
+  }
+
+  async capture(handle: string, lines: number): Promise<string> {
+    return this.getSession(handle).screen.slice(-lines).join('\n') + '\n'
+  }
+
+  async captureScreen(handle: string): Promise<string> {
+    return this.capture(handle, SCREEN_LINES)
+  }
+
+  async listAlive(): Promise<Set<string>> {
+    return new Set(this.sessions.keys())
+  }
+
+  private receive(input: FakeInput): void {
+    this.inputs.push(input)
+    const output = this.responder?.(input)
+    if (output && this.sessions.has(input.handle)) {
+      this.appendScreen(input.handle, output)
+    }
+  }
+
+  private getSession(handle: string): FakeSession {
+    const session = this.sessions.get(handle)
+    if (!session) {
+      throw new Error(`Session not running: ${handle}`)
+    }
+    return session
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * ProcessBackend - Run managed sessions as plain child processes
+ *
+ * For machines without tmux. Each session is a child process of the
+ * server with piped stdio; its output is kept in a scrollback buffer
+ * that stands in for tmux's pane. Sessions die with the server, and the
+ * process has no TTY, so this suits agents that do not need a full
+ * terminal UI.
+ */
+
+import { spawn, type ChildProcess } from 'child_process'
+import type { SessionBackend, SpawnOptions } from './SessionBackend.js'
+
+/** Lines of scrollback kept per session */
+const SCROLLBACK_LINES = 2000
+
+/** Matches ANSI escape sequences (CSI, OSC and single-character escapes) */
+const ANSI_PATTERN = /\x1b\[[0-?]*[ -/]*[@-~]|\x1b\][^\x07]*(?:\x07|\x1b\\)|\x1b[@-_]/g
+
+/** Lines shown by captureScreen (there is no real screen to capture) */
+const SCREEN_LINES = 50
+
+/** tmux key names → bytes written to the process */
+const KEY_SEQUENCES: Record<string, string> = {
+  Enter: '\r',
+  Escape: '\x1b',
+  Tab: '\t',
+  BTab: '\x1b[Z',
+  Space: ' ',
+  BSpace: '\x7f',
+  Up: '\x1b[A',
+  Down: '\x1b[B',
+  Right: '\x1b[C',
+  Left: '\x1b[D',
+  Home: '\x1b[H',
+  End: '\x1b[F',
+  PageUp: '\x1b[5~',
+  PageDown: '\x1b[6~',
+}
+
+interface ProcessSession {
+  child: ChildProcess
+  /** Completed output lines (ANSI stripped) */
+  lines: string[]
+  /** Current incomplete line */
+  partial: string
+  /** Set once the process has exited or its input broke */
+  dead: boolean
+}
+
+export class ProcessBackend implements SessionBackend {
+  readonly name = 'process'
+
+  private sessions = new Map<string, ProcessSession>()
+
+  async spawn(handle: string, options: SpawnOptions): Promise<void> {
+    if (this.sessions.has(handle)) {
+      throw new Error(`Session already exists: ${handle}`)
+    }
+
+    const [cmd, ...args] = options.command
+    const child = spawn(cmd, args, {
+      cwd: options.cwd,
+      env: { ...process.env, PATH: options.path },
+      stdio: ['pipe', 'pipe', 'pipe'],
+    })
+
+    // Surface spawn failures (e.g. command not found) to the caller
+    await new Promise<void>((resolve, reject) => {
+      child.once('spawn', resolve)
+      child.once('error', reject)
+    })
+
+    const session: ProcessSession = { child, lines: [], partial: '', dead: false }
+    const onData = (chunk: Buffer) => this.appendOutput(session, chunk.toString('utf-8'))
+    child.stdout?.on('data', onData)
+    child.stderr?.on('data', onData)
+
+    // An 'error' with no listener would throw and take the server down
+    // (e.g. EPIPE writing to a process that just exited), so every error
+    // just marks the session dead; the health check then reports it offline
+    const markDead = () => {
+      session.dead = true
+      if (this.sessions.get(handle) === session) {
+        this.sessions.delete(handle)
+      }
+    }
+    child.on('exit', markDead)
+    child.on('error', markDead)
+    child.stdin?.on('error', markDead)
+
+    this.sessions.set(handle, session)
+  }
+
+  async kill(handle: string): Promise<void> {
+    const session = this.getSession(handle)
+    this.sessions.delete(handle)
+    session.child.kill('SIGTERM')
+  }
+
+  async sendText(handle: string, text: string): Promise<void> {
+    const session = this.getSession(handle)
+    await this.write(session, text)
+    await new Promise(r => setTimeout(r, 100)) // Match tmux paste → Enter delay
+    await this.write(session, KEY_SEQUENCES.Enter)
+  }
+
+  async sendKeys(handle: string, keys: string[]): Promise<void> {
+    const session = this.getSession(handle)
+    for (const key of keys) {
+      await this.write(session, keyToSequence(key))
+    }
+  }
+
+  async capture(handle: string, lines: number): Promise<string> {
+    const session = this.getSession(handle)
+    const all = session.partial ? [...session.lines, session.partial] : session.lines
+    return all.slice(-lines).join('\n') + '\n'
+  }
+
+  async captureScreen(handle: string): Promise<string> {
+    // Output is kept ANSI-stripped, so the mirror shows plain text
+    return this.capture(handle, SCREEN_LINES)
+  }
+
+  async listAlive(): Promise<Set<string>> {
+    return new Set(this.sessions.keys())
+  }
+
+  private getSession(handle: string): ProcessSession {
+    const session = this.sessions.get(handle)
+    if (!session) {
+      throw new Error(`Session not running: ${handle}`)
+    }
+    return session
+  }
+
+  private write(session: ProcessSession, data: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const stdin = session.child.stdin
+      if (session.dead || !stdin || stdin.destroyed || !stdin.writable) {
+        reject(new Error('Session input is closed'))
+        return
+      }
+      stdin.write(data, (error) => {
+        if (error) reject(error)
+        else resolve()
+      })
+    })
+  }
+
+  private appendOutput(session: ProcessSession, text: string): void {
+    const clean = text.replace(ANSI_PATTERN, '').replace(/\r(?!\n)/g, '\n').replace(/\r/g, '')
+    const parts = (session.partial + clean).split('\n')
+    session.partial = parts.pop() ?? ''
+    session.lines.push(...parts)
+    if (session.lines.length > SCROLLBACK_LINES) {
+      session.lines.splice(0, session.lines.length - SCROLLBACK_LINES)
+    }
+  }
+}
+
+/**
+ * Translate a tmux key name into the bytes a terminal would send.
+ * Supports named keys, C-<letter> control chords, and literal text.
+ */
+function keyToSequence(key: string): string {
+  const named = KEY_SEQUENCES[key]
+  if (named) return named
+
+  const ctrl = key.match(/^C-([a-z])$/i)
+  if (ctrl) {
+    return String.fromCharCode(ctrl[1].toLowerCase().charCodeAt(0) - 96)
+  }
+
+  return key
+}
@@ -0,0 +1,59 @@
+/**
+ * Session Backend Interface
+ *
+ * A backend owns the terminal processes behind managed sessions: it spawns
+ * them, types into them, captures what is on screen, and kills them.
+ * The server only talks to sessions through this interface, so Claude can
+ * run under tmux, as a plain child process, or against a scripted fake.
+ */
+
+/** Options for spawning a new session process */
+export interface SpawnOptions {
+  /** Working directory for the process */
+  cwd: string
+  /** Command and arguments (e.g. ['claude', '-c']) */
+  command: string[]
+  /** PATH to run the command with */
+  path: string
+}
+
+/**
+ * Backend interface for managed session processes.
+ *
+ * Every method takes a `handle` - the stable per-session name stored in
+ * ManagedSession.tmuxSession (e.g. "vibecraft2-a1b2c3d4").
+ */
+export interface SessionBackend {
+  /** Unique identifier for this backend ("tmux", "process", "fake") */
+  readonly name: string
+
+  /** Start a new detached session process */
+  spawn(handle: string, options: SpawnOptions): Promise<void>
+
+  /** Kill a session process. Rejects if it was not running. */
+  kill(handle: string): Promise<void>
+
+  /** Paste literal text into a session and press Enter */
+  sendText(handle: string, text: string): Promise<void>
+
+  /**
+   * Send key presses to a session.
+   * Keys use tmux key names ("Enter", "C-c", "Escape", "Up") or literal text ("2").
+   */
+  sendKeys(handle: string, keys: string[]): Promise<void>
+
+  /** Capture the last `lines` lines of the session's screen as plain text */
+  capture(handle: string, lines: number): Promise<string>
+
+  /**
+   * Capture what is on screen right now, keeping ANSI color and style
+   * escapes where the backend has them (for the live terminal mirror)
+   */
+  captureScreen(handle: string): Promise<string>
+
+  /**
+   * List handles of sessions that are currently alive.
+   * Rejects if the backend itself is unavailable (e.g. no tmux server).
+   */
+  listAlive(): Promise<Set<string>>
+}
@@ -0,0 +1,96 @@
+/**
+ * TmuxBackend - Run managed sessions inside detached tmux sessions
+ *
+ * The default backend. Each managed session is a tmux session, which
+ * means users can also `tmux attach` to watch or drive Claude directly.
+ */
+
+import { execFile } from 'child_process'
+import { writeFileSync, unlinkSync } from 'fs'
+import { randomBytes } from 'crypto'
+import type { SessionBackend, SpawnOptions } from './SessionBackend.js'
+
+export class TmuxBackend implements SessionBackend {
+  readonly name = 'tmux'
+
+  /** Environment for tmux invocations (extended PATH) */
+  private env: NodeJS.ProcessEnv
+
+  constructor(options: { path: string }) {
+    this.env = { ...process.env, PATH: options.path }
+  }
+
+  async spawn(handle: string, options: SpawnOptions): Promise<void> {
+    // Arguments are passed as array, not interpolated into a shell string.
+    // tmux runs the final argument through a shell, so callers must
+    // validate cwd and command before getting here.
+    await this.tmux([
+      'new-session',
+      '-d',
+      '-s', handle,
+      '-c', options.cwd,
+      `PATH=${options.path} ${options.command.join(' ')}`,
+    ])
+  }
+
+  async kill(handle: string): Promise<void> {
+    await this.tmux(['kill-session', '-t', handle])
+  }
+
+  /**
+   * Safely send text using load-buffer + paste-buffer.
+   * A temp file avoids passing prompt text through send-keys parsing.
+   */
+  async sendText(handle: string, text: string): Promise<void> {
+    // Create temp file with cryptographically secure random name
+    const tempFile = `/tmp/vibecraft2-prompt-${Date.now()}-${randomBytes(16).toString('hex')}.txt`
+    writeFileSync(tempFile, text)
+
+    try {
+      // Load text into tmux buffer
+      await this.tmux(['load-buffer', tempFile])
+      // Paste buffer into session
+      await this.tmux(['paste-buffer', '-t', handle])
+      // Send Enter to submit
+      await new Promise(r => setTimeout(r, 100)) // Small delay like original
+      await this.tmux(['send-keys', '-t', handle, 'Enter'])
+    } finally {
+      // Clean up temp file
+      try {
+        unlinkSync(tempFile)
+      } catch {
+        // Ignore cleanup errors
+      }
+    }
+  }
+
+  async sendKeys(handle: string, keys: string[]): Promise<void> {
+    await this.tmux(['send-keys', '-t', handle, ...keys])
+  }
+
+  async capture(handle: string, lines: number): Promise<string> {
+    return this.tmux(['capture-pane', '-t', handle, '-p', '-S', `-${lines}`])
+  }
+
+  async captureScreen(handle: string): Promise<string> {
+    // Visible pane only, with -e keeping SGR escapes
+    return this.tmux(['capture-pane', '-t', handle, '-p', '-e'])
+  }
+
+  async listAlive(): Promise<Set<string>> {
+    const stdout = await this.tmux(['list-sessions', '-F', '#{session_name}'])
+    return new Set(stdout.trim().split('\n').filter(Boolean))
+  }
+
+  /**
+   * Run a tmux command using execFile (no shell)
+   */
+  private tmux(args: string[]): Promise<string> {
+    return new Promise((resolve, reject) => {
+      execFile('tmux', args, { env: this.env, maxBuffer: 1024 * 1024 }, (error, stdout) => {
+        if (error) reject(error)
+        else resolve(stdout)
+      })
+    })
+  }
+}
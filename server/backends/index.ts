@@ -0,0 +1,37 @@
+/**
+ * Session Backends - Barrel Export
+ *
+ * Selects the backend that runs managed session processes.
+ */
+
+export type { SessionBackend, SpawnOptions } from './SessionBackend.js'
+export { TmuxBackend } from './TmuxBackend.js'
+export { ProcessBackend } from './ProcessBackend.js'
+export { FakeBackend, type FakeInput, type FakeResponder } from './FakeBackend.js'
+
+import type { SessionBackend } from './SessionBackend.js'
+import { TmuxBackend } from './TmuxBackend.js'
+import { ProcessBackend } from './ProcessBackend.js'
+import { FakeBackend } from './FakeBackend.js'
+
+/** Names accepted by createSessionBackend() */
+export const SESSION_BACKENDS = ['tmux', 'process', 'fake'] as const
+
+export type SessionBackendName = typeof SESSION_BACKENDS[number]
+
+/**
+ * Create a session backend by name.
+ * Throws on unknown names so a typo in config fails loudly at startup.
+ */
+export function createSessionBackend(name: string, options: { path: string }): SessionBackend {
+  switch (name) {
+    case 'tmux':
+      return new TmuxBackend(options)
+    case 'process':
+      return new ProcessBackend()
+    case 'fake':
+      return new FakeBackend()
+    default:
+      throw new Error(`Unknown session backend: ${name} (expected one of: ${SESSION_BACKENDS.join(', ')})`)
+  }
+}
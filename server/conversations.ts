@@ -0,0 +1,69 @@
+/**
+ * conversations - Where Claude keeps its conversation transcripts
+ *
+ * Claude saves each conversation as
+ * `<config dir>/projects/<project>/<session id>.jsonl`, where <project> is
+ * the working directory with everything but letters and digits replaced
+ * by `-`. `claude -r <id>` only looks in the directory it runs in, so a
+ * fork started somewhere else (in a new worktree) needs the parent's
+ * transcript copied there first.
+ */
+
+import { copyFile, mkdir, readdir, stat } from 'fs/promises'
+import { homedir } from 'os'
+import { join } from 'path'
+
+/**
+ * Directory holding Claude's per-project conversation folders
+ */
+export function claudeProjectsDir(): string {
+  return join(process.env.CLAUDE_CONFIG_DIR || join(homedir(), '.claude'), 'projects')
+}
+
+/**
+ * Name of the folder Claude keeps a working directory's conversations in
+ */
+export function projectDirName(cwd: string): string {
+  return cwd.replace(/[^a-zA-Z0-9]/g, '-')
+}
+
+/**
+ * Path of a conversation's transcript, in whichever project it belongs to
+ * (null if Claude has none)
+ */
+export async function findConversation(claudeSessionId: string): Promise<string | null> {
+  let projects: string[]
+  try {
+    projects = await readdir(claudeProjectsDir())
+  } catch {
+    return null
+  }
+
+  for (const project of projects) {
+    const path = join(claudeProjectsDir(), project, `${claudeSessionId}.jsonl`)
+    try {
+      if ((await stat(path)).isFile()) return path
+    } catch {
+      // Not in this project
+    }
+  }
+  return null
+}
+
+/**
+ * Make a conversation resumable from another working directory by copying
+ * its transcript into that directory's project folder. Throws if Claude
+ * has no transcript for it.
+ */
+export async function copyConversation(claudeSessionId: string, cwd: string): Promise<void> {
+  const source = await findConversation(claudeSessionId)
+  if (!source) {
+    throw new Error(`Claude has no saved conversation ${claudeSessionId} to resume`)
+  }
+
+  const dir = join(claudeProjectsDir(), projectDirName(cwd))
+  const target = join(dir, `${claudeSessionId}.jsonl`)
+  if (target === source) return
+  await mkdir(dir, { recursive: true })
+  await copyFile(source, target)
+}
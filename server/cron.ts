@@ -0,0 +1,129 @@
+/**
+ * cron - Minimal 5-field cron expression parser
+ *
+ * Supports `minute hour day-of-month month day-of-week` with `*`, lists
+ * (`1,15`), ranges (`1-5`) and steps (`*\/15`, `0-30/10`). Times are
+ * evaluated in the server's local timezone. As in standard cron, when both
+ * day-of-month and day-of-week are restricted a day matching either fires.
+ */
+
+export interface CronFields {
+  minutes: Set<number>
+  hours: Set<number>
+  daysOfMonth: Set<number>
+  months: Set<number>
+  daysOfWeek: Set<number>
+  /** Day-of-month field was `*` */
+  anyDayOfMonth: boolean
+  /** Day-of-week field was `*` */
+  anyDayOfWeek: boolean
+}
+
+const FIELD_RANGES: Array<[min: number, max: number, name: string]> = [
+  [0, 59, 'minute'],
+  [0, 23, 'hour'],
+  [1, 31, 'day of month'],
+  [1, 12, 'month'],
+  [0, 7, 'day of week'],
+]
+
+/** Give up looking for a match after this many years (e.g. `0 0 31 2 *`) */
+const MAX_SEARCH_YEARS = 5
+
+/**
+ * Parse a cron expression. Throws an Error describing the bad field.
+ */
+export function parseCron(expression: string): CronFields {
+  const parts = expression.trim().split(/\s+/)
+  if (parts.length !== 5) {
+    throw new Error(`Cron expression must have 5 fields (minute hour day month weekday), got ${parts.length}`)
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, i) =>
+    parseField(part, ...FIELD_RANGES[i])
+  )
+  // Both 0 and 7 mean Sunday
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0)
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: parts[2] === '*',
+    anyDayOfWeek: parts[4] === '*',
+  }
+}
+
+/**
+ * Next time (unix ms) strictly after `after` that matches, or null if none
+ * is found within a few years.
+ */
+export function nextCronTime(fields: CronFields, after: number): number | null {
+  const date = new Date(after)
+  date.setSeconds(0, 0)
+  date.setMinutes(date.getMinutes() + 1)
+
+  const limit = after + MAX_SEARCH_YEARS * 366 * 24 * 60 * 60 * 1000
+  while (date.getTime() <= limit) {
+    if (!fields.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1)
+      date.setHours(0, 0)
+      continue
+    }
+    if (!matchesDay(fields, date)) {
+      date.setDate(date.getDate() + 1)
+      date.setHours(0, 0)
+      continue
+    }
+    if (!fields.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0)
+      continue
+    }
+    if (!fields.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1)
+      continue
+    }
+    return date.getTime()
+  }
+  return null
+}
+
+function matchesDay(fields: CronFields, date: Date): boolean {
+  const dom = fields.daysOfMonth.has(date.getDate())
+  const dow = fields.daysOfWeek.has(date.getDay())
+  if (fields.anyDayOfMonth) return dow
+  if (fields.anyDayOfWeek) return dom
+  return dom || dow
+}
+
+function parseField(field: string, min: number, max: number, name: string): Set<number> {
+  const values = new Set<number>()
+
+  for (const item of field.split(',')) {
+    const match = item.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/)
+    if (!match) {
+      throw new Error(`Invalid ${name} field: ${field}`)
+    }
+
+    const [, range, start, end, step] = match
+    let from = min
+    let to = max
+    if (range !== '*') {
+      from = Number(start)
+      // A bare number with a step (`5/15`) runs to the end of the range
+      to = end !== undefined ? Number(end) : (step !== undefined ? max : from)
+    }
+    const increment = step !== undefined ? Number(step) : 1
+
+    if (from < min || to > max || from > to || increment < 1) {
+      throw new Error(`Invalid ${name} field: ${field} (allowed ${min}-${max})`)
+    }
+    for (let v = from; v <= to; v += increment) {
+      values.add(v)
+    }
+  }
+
+  return values
+}
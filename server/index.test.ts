@@ -0,0 +1,177 @@
+/**
+ * Integration tests: the HTTP API driving sessions on a FakeBackend
+ *
+ * Run with `npm test`. The server reads its settings when imported, so
+ * HOME and the events file point at a scratch directory first.
+ */
+
+import { after, before, describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { execFileSync } from 'child_process'
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { FakeBackend } from './backends/index.js'
+import type { GitCheckpoint, ManagedSession } from '../shared/types.js'
+
+const home = mkdtempSync(join(tmpdir(), 'vibecraft2-test-'))
+mkdirSync(join(home, '.vibecraft2', 'data'), { recursive: true })
+process.env.HOME = home
+process.env.VIBECRAFT2_EVENTS_FILE = join(home, 'data', 'events.jsonl')
+
+const { startServer } = await import('./index.js')
+type RunningServer = Awaited<ReturnType<typeof startServer>>
+
+const backend = new FakeBackend()
+let server: RunningServer
+
+async function api<T = Record<string, unknown>>(method: string, path: string, body?: unknown): Promise<{ status: number; body: T }> {
+  const response = await fetch(`http://localhost:${server.port}${path}`, {
+    method,
+    headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  })
+  return { status: response.status, body: await response.json() as T }
+}
+
+/** Wait for a condition the server reaches asynchronously */
+async function until(condition: () => boolean, timeoutMs = 3000): Promise<void> {
+  const deadline = Date.now() + timeoutMs
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting')
+    await new Promise(resolve => setTimeout(resolve, 20))
+  }
+}
+
+/** until() for conditions checked through the API */
+async function untilAsync(condition: () => Promise<boolean>, timeoutMs = 6000): Promise<void> {
+  const deadline = Date.now() + timeoutMs
+  while (!(await condition())) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting')
+    await new Promise(resolve => setTimeout(resolve, 100))
+  }
+}
+
+function textsSentTo(session: ManagedSession): string[] {
+  return backend.inputs
+    .filter(input => input.handle === session.tmuxSession && input.kind === 'text')
+    .map(input => input.value as string)
+}
+
+before(async () => {
+  server = await startServer({ backend, port: 0 })
+})
+
+after(async () => {
+  await server.close()
+  rmSync(home, { recursive: true, force: true })
+})
+
+describe('sessions', () => {
+  let session: ManagedSession
+
+  test('POST /sessions spawns claude through the backend', async () => {
+    const { status, body } = await api<{ ok: boolean; session: ManagedSession }>('POST', '/sessions', { name: 'worker', cwd: home })
+    assert.equal(status, 201)
+    assert.equal(body.ok, true)
+    session = body.session
+
+    const spawned = backend.getSpawnOptions(session.tmuxSession)
+    assert.ok(spawned, 'backend session was spawned')
+    assert.equal(spawned.cwd, home)
+    assert.equal(spawned.command[0], 'claude')
+
+    const list = await api<{ ok: boolean; sessions: ManagedSession[] }>('GET', '/sessions')
+    assert.deepEqual(list.body.sessions.map(s => s.id), [session.id])
+  })
+
+  test('POST /sessions/:id/prompt sends to an idle session', async () => {
+    const { status, body } = await api('POST', `/sessions/${session.id}/prompt`, { prompt: 'fix the tests' })
+    assert.equal(status, 200)
+    assert.deepEqual(body, { ok: true })
+    assert.deepEqual(textsSentTo(session), ['fix the tests'])
+  })
+
+  test('prompts to a working session are queued and sent when it stops', async () => {
+    const { body } = await api('POST', `/sessions/${session.id}/prompt`, { prompt: 'then update the docs' })
+    assert.deepEqual(body, { ok: true, queued: true, position: 1 })
+    assert.deepEqual(textsSentTo(session), ['fix the tests'])
+
+    // Claude finishing its turn drains the queue
+    await api('POST', `/sessions/${session.id}/link`, { claudeSessionId: 'claude-1' })
+    await api('POST', '/event', { id: 'stop-1', timestamp: Date.now(), type: 'stop', sessionId: 'claude-1', cwd: home, stopHookActive: false })
+    await until(() => textsSentTo(session).length === 2)
+    assert.deepEqual(textsSentTo(session), ['fix the tests', 'then update the docs'])
+  })
+
+  test('POST /sessions/:id/prompt to an unknown session is a 404', async () => {
+    const { status, body } = await api('POST', '/sessions/nope/prompt', { prompt: 'hello' })
+    assert.equal(status, 404)
+    assert.equal(body.ok, false)
+  })
+})
+
+describe('metrics', () => {
+  test('sessions sharing a name get separate series', async () => {
+    const first = await api<{ session: ManagedSession }>('POST', '/sessions', { name: 'twin', cwd: home })
+    const second = await api<{ session: ManagedSession }>('POST', '/sessions', { name: 'twin', cwd: home })
+
+    const response = await fetch(`http://localhost:${server.port}/metrics`)
+    const costs = (await response.text()).split('\n').filter(line => line.startsWith('vibecraft2_session_cost_usd{'))
+    for (const { session } of [first.body, second.body]) {
+      assert.ok(costs.includes(`vibecraft2_session_cost_usd{session_id="${session.id}",session="twin"} 0`), `series for ${session.id}`)
+    }
+    assert.equal(new Set(costs.map(line => line.split(' ')[0])).size, costs.length, 'no duplicate series')
+  })
+})
+
+describe('token tracking', () => {
+  test('a lower count after a reset is counted as new tokens', async () => {
+    const { body } = await api<{ session: ManagedSession }>('POST', '/sessions', { name: 'counter', cwd: home })
+    const handle = body.session.tmuxSession
+    let cumulative = 0
+    const poll = async () => {
+      const { body: current } = await api<{ session: ManagedSession }>('GET', `/sessions/${body.session.id}`)
+      cumulative = current.session.tokens?.cumulative ?? 0
+    }
+
+    backend.setScreen(handle, '✻ Working… (↓ 5,000 tokens)')
+    await untilAsync(async () => { await poll(); return cumulative === 5000 })
+
+    // A new conversation counts from zero again
+    backend.setScreen(handle, '✻ Working… (↓ 300 tokens)')
+    await untilAsync(async () => { await poll(); return cumulative === 5300 })
+  })
+})
+
+describe('checkpoints', () => {
+  test('a sent prompt is checkpointed before Claude can edit, then linked to its event', async () => {
+    const repo = join(home, 'repo')
+    mkdirSync(repo)
+    const git = (...args: string[]) => execFileSync('git', args, { cwd: repo })
+    git('init', '-q')
+    writeFileSync(join(repo, 'app.txt'), 'before\n')
+    git('add', '.')
+    git('-c', 'user.name=test', '-c', 'user.email=test@example.com', 'commit', '-qm', 'init')
+
+    const { body } = await api<{ session: ManagedSession }>('POST', '/sessions', { name: 'editor', cwd: repo })
+    const session = body.session
+    backend.setResponder(input => {
+      // Claude edits as soon as the prompt arrives
+      if (input.handle === session.tmuxSession && input.kind === 'text') writeFileSync(join(repo, 'app.txt'), 'after\n')
+    })
+    await api('POST', `/sessions/${session.id}/prompt`, { prompt: 'change app.txt' })
+    backend.setResponder(null)
+
+    await api('POST', `/sessions/${session.id}/link`, { claudeSessionId: 'claude-editor' })
+    await api('POST', '/event', { id: 'prompt-1', timestamp: Date.now(), type: 'user_prompt_submit', sessionId: 'claude-editor', cwd: repo, prompt: 'change app.txt' })
+
+    let checkpoints: GitCheckpoint[] = []
+    await untilAsync(async () => {
+      checkpoints = (await api<{ checkpoints: GitCheckpoint[] }>('GET', `/sessions/${session.id}/checkpoints`)).body.checkpoints
+      return checkpoints[0]?.eventId === 'prompt-1'
+    })
+    assert.equal(checkpoints.length, 1)
+    assert.equal(git('show', `${checkpoints[0].commit}:app.txt`).toString(), 'before\n')
+  })
+})
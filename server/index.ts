@@ -11,12 +11,11 @@
 
 import { createServer, IncomingMessage, ServerResponse } from 'http'
 import { WebSocketServer, WebSocket, RawData } from 'ws'
-import { watch } from 'chokidar'
-import { readFileSync, writeFileSync, existsSync, appendFileSync, mkdirSync, unlinkSync, statSync } from 'fs'
-import { exec, execFile } from 'child_process'
-import { dirname, resolve, join, extname } from 'path'
+import { watch, type FSWatcher } from 'chokidar'
+import { readFileSync, writeFileSync, existsSync, appendFileSync, mkdirSync, statSync, realpathSync } from 'fs'
+import { dirname, resolve, join, extname, isAbsolute } from 'path'
 import { hostname } from 'os'
-import { randomUUID, randomBytes } from 'crypto'
+import { randomUUID } from 'crypto'
 import { createClient, LiveTranscriptionEvents } from '@deepgram/sdk'
 import type { LiveClient } from '@deepgram/sdk'
 import type {
@@ -27,23 +26,60 @@ import type {
   PostToolUseEvent,
   UserPromptSubmitEvent,
   ManagedSession,
+  SessionStatus,
   CreateSessionRequest,
   UpdateSessionRequest,
-  SessionPromptRequest,
+  BroadcastPromptResult,
+  DeleteSessionRequest,
+  ForkSessionRequest,
+  SessionPipeline,
+  BudgetWarning,
+  PermissionAutoDecision,
+  PermissionAnswerSource,
+  PermissionRule,
+  DangerousCommandAlert,
+  SessionStatusChange,
+  GitCommit,
+  SessionCommit,
+  SessionCommitTool,
+  CreateWebhookRequest,
+  UpdateWebhookRequest,
+  BashToolInput,
+  CostReport,
   GitStatus,
   TextTile,
-  CreateTextTileRequest,
-  UpdateTextTileRequest,
   ReplaySessionSummary,
   HexArtState,
   HexArtDelta,
   PaintedHex,
+  PromptQueueError,
 } from '../shared/types.js'
 import { DEFAULTS } from '../shared/defaults.js'
-import type { UniversalEvent, AgentRegistration, RegisteredAgent } from '../shared/agent-protocol.js'
+import type { UniversalEvent, RegisteredAgent } from '../shared/agent-protocol.js'
 import { normalizeEvent } from '../shared/adapters/index.js'
-import { GitStatusManager } from './GitStatusManager.js'
+import { GitStatusManager, GIT_STATUS_MODES, type GitStatusMode } from './GitStatusManager.js'
+import { GitActions } from './GitActions.js'
+import { GitCheckpoints, type GitCheckpoint } from './GitCheckpoints.js'
+import { copyConversation } from './conversations.js'
 import { ProjectsManager } from './ProjectsManager.js'
+import { PromptQueueManager } from './PromptQueueManager.js'
+import { ScheduleManager, type PromptSchedule, type ScheduleRunResult } from './ScheduleManager.js'
+import { PipelineManager, renderPipelinePrompt } from './PipelineManager.js'
+import { WorktreeManager, type CreatedWorktree } from './WorktreeManager.js'
+import { EventStreamManager, type StreamFilter } from './EventStreamManager.js'
+import { EventStore, type EventQuery } from './EventStore.js'
+import { loadOrCreateToken, getRequestToken, tokenMatches } from './auth.js'
+import { MetricsRegistry, METRICS_CONTENT_TYPE } from './metrics.js'
+import { CostTracker } from './CostTracker.js'
+import { PermissionPolicy, optionFor, toolSubject } from './PermissionPolicy.js'
+import { PermissionAuditLog, auditToCsv, type AuditQuery } from './PermissionAuditLog.js'
+import { DangerousCommandDetector } from './DangerousCommandDetector.js'
+import { WebhookManager } from './WebhookManager.js'
+import { TerminalMirror } from './TerminalMirror.js'
+import { Router, HttpError, BodyTooLargeError } from './router.js'
+import { s } from './schema.js'
+import * as schemas from './schemas.js'
+import { createSessionBackend, type SessionBackend } from './backends/index.js'
 import { fileURLToPath } from 'url'
 
 // ============================================================================
@@ -86,15 +122,74 @@ function expandHome(path: string): string {
   return path
 }
 
+/** Parse VIBECRAFT2_TOKEN_PRICING (JSON object: model -> USD per million tokens) */
+function parsePricing(json: string | undefined): Record<string, number> | null {
+  if (!json) return null
+  try {
+    const pricing = JSON.parse(json) as unknown
+    if (pricing && typeof pricing === 'object' && Object.values(pricing).every(v => typeof v === 'number')) {
+      return pricing as Record<string, number>
+    }
+  } catch {
+    // Fall through
+  }
+  console.error('Ignoring invalid VIBECRAFT2_TOKEN_PRICING (expected e.g. {"sonnet": 15})')
+  return null
+}
+
+/** Parse VIBECRAFT2_DANGER_AUTO_CANCEL */
+function parseDangerAutoCancel(value: string | undefined): typeof DEFAULTS.DANGER_AUTO_CANCEL | null {
+  if (!value) return null
+  if (value === 'off' || value === 'skip-permissions' || value === 'always') return value
+  console.error(`Ignoring invalid VIBECRAFT2_DANGER_AUTO_CANCEL "${value}" (expected off, skip-permissions or always)`)
+  return null
+}
+
+/** Parse VIBECRAFT2_GIT_STATUS_MODE */
+function parseGitStatusMode(value: string | undefined): GitStatusMode | null {
+  if (!value) return null
+  if ((GIT_STATUS_MODES as readonly string[]).includes(value)) return value as GitStatusMode
+  console.error(`Ignoring invalid VIBECRAFT2_GIT_STATUS_MODE "${value}" (expected ${GIT_STATUS_MODES.join(' or ')})`)
+  return null
+}
+
 const PORT = parseInt(process.env.VIBECRAFT2_PORT ?? String(DEFAULTS.SERVER_PORT), 10)
 const EVENTS_FILE = resolve(expandHome(process.env.VIBECRAFT2_EVENTS_FILE ?? DEFAULTS.EVENTS_FILE))
-const PENDING_PROMPT_FILE = resolve(expandHome(process.env.VIBECRAFT2_PROMPT_FILE ?? '~/.vibecraft2/data/pending-prompt.txt'))
+const PROMPT_QUEUE_FILE = resolve(expandHome(process.env.VIBECRAFT2_PROMPT_QUEUE_FILE ?? '~/.vibecraft2/data/prompt-queue.json'))
+const SCHEDULES_FILE = resolve(expandHome(process.env.VIBECRAFT2_SCHEDULES_FILE ?? '~/.vibecraft2/data/schedules.json'))
+const WORKTREES_DIR = resolve(expandHome(process.env.VIBECRAFT2_WORKTREES_DIR ?? DEFAULTS.WORKTREES_DIR))
+const PIPELINES_FILE = resolve(expandHome(process.env.VIBECRAFT2_PIPELINES_FILE ?? '~/.vibecraft2/data/pipelines.json'))
+const PERMISSION_AUDIT_FILE = resolve(expandHome(process.env.VIBECRAFT2_PERMISSION_AUDIT_FILE ?? join(dirname(EVENTS_FILE), 'permissions-audit.jsonl')))
+const PERMISSION_AUDIT_KEEP = parseInt(process.env.VIBECRAFT2_PERMISSION_AUDIT_KEEP ?? String(DEFAULTS.PERMISSION_AUDIT_KEEP), 10)
+const PERMISSION_RULES_FILE = resolve(expandHome(process.env.VIBECRAFT2_PERMISSION_RULES_FILE ?? '~/.vibecraft2/permissions.json'))
+const DANGER_RULES_FILE = resolve(expandHome(process.env.VIBECRAFT2_DANGER_RULES_FILE ?? '~/.vibecraft2/dangerous-commands.json'))
+const DANGER_AUTO_CANCEL = parseDangerAutoCancel(process.env.VIBECRAFT2_DANGER_AUTO_CANCEL) ?? DEFAULTS.DANGER_AUTO_CANCEL
+const WEBHOOKS_FILE = resolve(expandHome(process.env.VIBECRAFT2_WEBHOOKS_FILE ?? '~/.vibecraft2/data/webhooks.json'))
+const COSTS_FILE = resolve(expandHome(process.env.VIBECRAFT2_COSTS_FILE ?? '~/.vibecraft2/data/costs.json'))
+const TOKEN_PRICING = parsePricing(process.env.VIBECRAFT2_TOKEN_PRICING) ?? DEFAULTS.TOKEN_PRICING
+const PRICING_MODEL = process.env.VIBECRAFT2_PRICING_MODEL ?? DEFAULTS.PRICING_MODEL
 const MAX_EVENTS = parseInt(process.env.VIBECRAFT2_MAX_EVENTS ?? String(DEFAULTS.MAX_EVENTS), 10)
+const EVENTS_ROTATE_MB = parseFloat(process.env.VIBECRAFT2_EVENTS_ROTATE_MB ?? String(DEFAULTS.EVENTS_ROTATE_MB))
+const EVENTS_ROTATE_HOURS = parseFloat(process.env.VIBECRAFT2_EVENTS_ROTATE_HOURS ?? String(DEFAULTS.EVENTS_ROTATE_HOURS))
+const EVENTS_RAW_RETENTION_DAYS = parseFloat(process.env.VIBECRAFT2_EVENTS_RAW_RETENTION_DAYS ?? String(DEFAULTS.EVENTS_RAW_RETENTION_DAYS))
+const EVENTS_RETENTION_DAYS = parseFloat(process.env.VIBECRAFT2_EVENTS_RETENTION_DAYS ?? String(DEFAULTS.EVENTS_RETENTION_DAYS))
 const DEBUG = process.env.VIBECRAFT2_DEBUG === 'true'
 const TMUX_SESSION = process.env.VIBECRAFT2_TMUX_SESSION ?? DEFAULTS.TMUX_SESSION
 const SESSIONS_FILE = resolve(expandHome(process.env.VIBECRAFT2_SESSIONS_FILE ?? DEFAULTS.SESSIONS_FILE))
 const TILES_FILE = resolve(expandHome(process.env.VIBECRAFT2_TILES_FILE ?? '~/.vibecraft2/data/tiles.json'))
 const HEXART_FILE = resolve(expandHome(process.env.VIBECRAFT2_HEXART_FILE ?? '~/.vibecraft2/data/hexart.json'))
+const SESSION_BACKEND = process.env.VIBECRAFT2_SESSION_BACKEND ?? DEFAULTS.SESSION_BACKEND
+const GIT_STATUS_MODE = parseGitStatusMode(process.env.VIBECRAFT2_GIT_STATUS_MODE) ?? DEFAULTS.GIT_STATUS_MODE
+const CHECKPOINTS_KEEP = parseInt(process.env.VIBECRAFT2_CHECKPOINTS_KEEP ?? String(DEFAULTS.CHECKPOINTS_KEEP), 10)
+const CHECKPOINTS_MAX_AGE_DAYS = parseFloat(process.env.VIBECRAFT2_CHECKPOINTS_MAX_AGE_DAYS ?? String(DEFAULTS.CHECKPOINTS_MAX_AGE_DAYS))
+const REQUIRE_TOKEN = process.env.VIBECRAFT2_REQUIRE_TOKEN === 'true'
+const TOKEN_FILE = resolve(expandHome(process.env.VIBECRAFT2_TOKEN_FILE ?? DEFAULTS.TOKEN_FILE))
+
+/** API token required on mutating requests and WebSocket connections (null = auth disabled) */
+const API_TOKEN = REQUIRE_TOKEN ? (process.env.VIBECRAFT2_TOKEN || loadOrCreateToken(TOKEN_FILE)) : null
+
+/** Tools that may change files, so the session's git status is refreshed after them */
+const FILE_CHANGING_TOOLS = new Set(['Write', 'Edit', 'MultiEdit', 'NotebookEdit', 'Bash'])
 
 /** Time before a "working" session auto-transitions to idle (failsafe for missed events) */
 const WORKING_TIMEOUT_MS = 120_000 // 2 minutes
@@ -102,10 +197,26 @@ const WORKING_TIMEOUT_MS = 120_000 // 2 minutes
 /** Maximum request body size (1MB) - prevents DoS via memory exhaustion */
 const MAX_BODY_SIZE = 1024 * 1024
 
+/** How often to check whether the events file needs rotating and old segments expiring */
+const EVENT_LOG_MAINTENANCE_INTERVAL_MS = 10 * 60_000 // 10 minutes
+
 /** How often to check for stale "working" sessions */
 const WORKING_CHECK_INTERVAL_MS = 10_000 // 10 seconds
 
-/** Extended PATH for exec() - includes Homebrew and user paths for macOS/Linux */
+/** Retries of a queued prompt that failed to send, doubling from the base delay (5s, 10s, ... 80s) */
+const QUEUE_RETRY_BASE_MS = 5000
+const QUEUE_MAX_RETRIES = 5
+
+/** How long a fork is watched for failing to resume its parent's conversation */
+const FORK_RESUME_CHECK_MS = 3000
+
+/** Longest a prompt waits for its checkpoint before being sent anyway */
+const CHECKPOINT_SEND_WAIT_MS = 5000
+
+/** How often mirrored terminal screens are captured */
+const TERMINAL_MIRROR_INTERVAL_MS = 250
+
+/** Extended PATH for spawned processes - includes Homebrew and user paths for macOS/Linux */
 const HOME = process.env.HOME || ''
 const EXEC_PATH = [
   `${HOME}/.local/bin`,     // User local bin (Claude CLI default location)
@@ -114,9 +225,6 @@ const EXEC_PATH = [
   process.env.PATH || '',
 ].join(':')
 
-/** Options for exec() with extended PATH */
-const EXEC_OPTIONS = { env: { ...process.env, PATH: EXEC_PATH } }
-
 /** Deepgram API key from environment */
 const DEEPGRAM_API_KEY_ENV = 'DEEPGRAM_API_KEY'
 
@@ -179,6 +287,17 @@ function validateDirectoryPath(inputPath: string): string {
   return resolved
 }
 
+/**
+ * Validate a Claude session ID before it goes on a command line.
+ * Claude session IDs are UUIDs.
+ */
+function validateClaudeSessionId(id: string): string {
+  if (!/^[a-zA-Z0-9-]+$/.test(id)) {
+    throw new Error(`Invalid Claude session ID: ${id}`)
+  }
+  return id
+}
+
 /**
  * Validate a tmux session name.
  * tmux session names should only contain alphanumeric, underscore, hyphen.
@@ -190,18 +309,6 @@ function validateTmuxSession(name: string): string {
   return name
 }
 
-/**
- * Promisified execFile helper
- */
-function execFileAsync(cmd: string, args: string[]): Promise<void> {
-  return new Promise((resolve, reject) => {
-    execFile(cmd, args, EXEC_OPTIONS, (error) => {
-      if (error) reject(error)
-      else resolve()
-    })
-  })
-}
-
 /**
  * Safely collect request body with size limit to prevent DoS.
  * Returns a promise that resolves with the body string or rejects on error/oversized.
@@ -227,39 +334,22 @@ function collectRequestBody(req: IncomingMessage, maxSize: number = MAX_BODY_SIZ
 }
 
 /**
- * Safely send text to a tmux session using load-buffer + paste-buffer.
- * Uses execFile with proper arguments to prevent shell injection.
+ * Safely send text to a session (pasted literally, then Enter).
+ * The backend handles escaping; we only validate the session name.
  */
 async function sendToTmuxSafe(tmuxSession: string, text: string): Promise<void> {
   // Validate session name
   validateTmuxSession(tmuxSession)
-
-  // Create temp file with cryptographically secure random name
-  const tempFile = `/tmp/vibecraft2-prompt-${Date.now()}-${randomBytes(16).toString('hex')}.txt`
-  writeFileSync(tempFile, text)
-
-  try {
-    // Load text into tmux buffer
-    await execFileAsync('tmux', ['load-buffer', tempFile])
-    // Paste buffer into session
-    await execFileAsync('tmux', ['paste-buffer', '-t', tmuxSession])
-    // Send Enter to submit
-    await new Promise(r => setTimeout(r, 100)) // Small delay like original
-    await execFileAsync('tmux', ['send-keys', '-t', tmuxSession, 'Enter'])
-  } finally {
-    // Clean up temp file
-    try {
-      unlinkSync(tempFile)
-    } catch {
-      // Ignore cleanup errors
-    }
-  }
+  await sessionBackend.sendText(tmuxSession, text)
 }
 
 // ============================================================================
 // State
 // ============================================================================
 
+/** Backend that runs session processes (tmux, child process, or fake) */
+let sessionBackend: SessionBackend = createSessionBackend(SESSION_BACKEND, { path: EXEC_PATH })
+
 /** All events in memory */
 const events: ClaudeEvent[] = []
 
@@ -272,8 +362,13 @@ const pendingToolUses = new Map<string, PreToolUseEvent>()
 /** Connected WebSocket clients */
 const clients = new Set<WebSocket>()
 
-/** Last read position in file */
-let lastFileSize = 0
+/** Indexed history of the events file and its rotated segments (events above is only the newest MAX_EVENTS) */
+const eventStore = new EventStore(EVENTS_FILE, {
+  rotateBytes: EVENTS_ROTATE_MB * 1024 * 1024,
+  rotateAgeMs: EVENTS_ROTATE_HOURS * 60 * 60_000,
+  rawRetentionMs: EVENTS_RAW_RETENTION_DAYS * 24 * 60 * 60_000,
+  retentionMs: EVENTS_RETENTION_DAYS * 24 * 60 * 60_000,
+})
 
 /** Token tracking per session */
 interface SessionTokens {
@@ -297,9 +392,28 @@ interface PermissionPrompt {
   context: string       // The full prompt text
   options: PermissionOption[]  // Available choices
   detectedAt: number
+  answeredBy?: PermissionAnswer  // Set once an answer is on its way
+}
+
+/** Who answered a permission prompt, for the audit log */
+interface PermissionAnswer {
+  source: PermissionAnswerSource
+  /** Remote address of the answering client */
+  client?: string
+  rule?: PermissionRule
+  ruleFile?: string
 }
 const pendingPermissions = new Map<string, PermissionPrompt>()
 
+/** Every permission prompt and who answered it */
+const permissionAudit = new PermissionAuditLog(PERMISSION_AUDIT_FILE, PERMISSION_AUDIT_KEEP)
+
+/** Rules that answer permission prompts without asking */
+const permissionPolicy = new PermissionPolicy(PERMISSION_RULES_FILE)
+
+/** Tool calls each session has started but not finished (by toolUseId) */
+const pendingToolCalls = new Map<string, Map<string, { tool: string; input: Record<string, unknown> }>>()
+
 /** Track sessions that have had the bypass permissions warning handled */
 const bypassWarningHandled = new Set<string>()
 
@@ -322,11 +436,66 @@ const registeredAgents = new Map<string, RegisteredAgent>()
 const universalEvents: UniversalEvent[] = []
 
 /** Git status tracker for managed sessions */
-const gitStatusManager = new GitStatusManager()
+const gitStatusManager = new GitStatusManager({ mode: GIT_STATUS_MODE })
+const gitActions = new GitActions()
+const gitCheckpoints = new GitCheckpoints({
+  keep: CHECKPOINTS_KEEP,
+  maxAgeMs: CHECKPOINTS_MAX_AGE_DAYS * 24 * 60 * 60_000,
+})
+
+/**
+ * Checkpoints taken just before the server sent a prompt, waiting for the
+ * prompt's user_prompt_submit event to link them to it (by session)
+ */
+const sentPromptCheckpoints = new Map<string, {
+  prompt: string
+  /** Still running if the prompt was sent without waiting for it */
+  taken: Promise<{ root: string; checkpoint: GitCheckpoint } | null>
+}>()
 
 /** Project directories manager */
 const projectsManager = new ProjectsManager()
 
+/** Per-session prompt queues (drained when a session goes idle) */
+const promptQueue = new PromptQueueManager(PROMPT_QUEUE_FILE)
+
+/** Sessions whose next queued prompt failed to send, with the pending retry */
+const queueFailures = new Map<string, { error: PromptQueueError; retry: NodeJS.Timeout | null }>()
+
+/** Scheduled and recurring prompts (sent only when a session is idle) */
+const scheduleManager = new ScheduleManager(SCHEDULES_FILE)
+
+/** Session-to-session hand-offs (fired when a session finishes its turn) */
+const pipelineManager = new PipelineManager(PIPELINES_FILE)
+
+/** Git worktrees for sessions created with the `worktree` option */
+const worktreeManager = new WorktreeManager(WORKTREES_DIR)
+
+/** Estimated token spend per session and per day */
+const costTracker = new CostTracker(COSTS_FILE, { perMillion: TOKEN_PRICING, model: PRICING_MODEL })
+
+/** Flags risky Bash commands in pre_tool_use events */
+const dangerDetector = new DangerousCommandDetector(DANGER_RULES_FILE)
+
+/** Status each session had in the last sessions broadcast (for session_status messages) */
+const broadcastStatuses = new Map<string, SessionStatus>()
+
+/** Highest budget threshold each session has been warned about */
+const budgetWarnings = new Map<string, number>()
+
+/** Server-Sent Events clients (GET /events/stream) */
+const eventStreams = new EventStreamManager(key =>
+  findManagedSession(key) ?? [...managedSessions.values()].find(s => s.tmuxSession === key)
+)
+
+/** Outbound webhooks (POSTs broadcast messages to subscribed URLs) */
+const webhookManager = new WebhookManager(WEBHOOKS_FILE, key =>
+  findManagedSession(key) ?? [...managedSessions.values()].find(s => s.tmuxSession === key)
+)
+
+/** Live terminal screens streamed to subscribed WebSocket clients */
+const terminalMirror = new TerminalMirror(handle => sessionBackend.captureScreen(handle), TERMINAL_MIRROR_INTERVAL_MS)
+
 /** Active voice transcription sessions (WebSocket client → Deepgram connection) */
 const voiceSessions = new Map<WebSocket, LiveClient>()
 
@@ -350,6 +519,79 @@ const claudeToManagedMap = new Map<string, string>()
 /** Counter for generating session names */
 let sessionCounter = 0
 
+// ============================================================================
+// Metrics (GET /metrics)
+// ============================================================================
+
+/** Tool duration histogram buckets (seconds) */
+const TOOL_DURATION_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300, 600]
+
+const metrics = new MetricsRegistry()
+
+const eventsIngested = metrics.counter('vibecraft2_events_total', 'Hook events ingested, by event type and session')
+
+const toolDurations = metrics.histogram(
+  'vibecraft2_tool_duration_seconds',
+  'Time from pre_tool_use to post_tool_use, by tool and session',
+  TOOL_DURATION_BUCKETS,
+)
+
+const permissionPromptsDetected = metrics.counter(
+  'vibecraft2_permission_prompts_total',
+  'Permission prompts detected in session terminals, by session and tool',
+)
+
+const dangerousCommands = metrics.counter(
+  'vibecraft2_dangerous_commands_total',
+  'Bash commands that tripped a dangerous-command detector, by session and detector',
+)
+
+const webhookDeliveries = metrics.counter(
+  'vibecraft2_webhook_deliveries_total',
+  'Finished webhook deliveries, by event and status (success or failed)',
+)
+
+const tmuxPollFailures = metrics.counter(
+  'vibecraft2_tmux_poll_failures_total',
+  'Failed terminal captures or session listings, by poller (tokens, permissions, health)',
+)
+
+metrics.gauge('vibecraft2_sessions', 'Managed sessions by status', () => {
+  const counts: Record<SessionStatus, number> = { idle: 0, working: 0, waiting: 0, offline: 0 }
+  for (const session of managedSessions.values()) {
+    counts[session.status]++
+  }
+  return Object.entries(counts).map(([status, count]) => [{ status }, count])
+})
+
+metrics.gauge('vibecraft2_websocket_clients', 'Connected WebSocket clients', () => [[{}, clients.size]])
+
+metrics.gauge('vibecraft2_event_stream_clients', 'Connected Server-Sent Events clients', () => [[{}, eventStreams.size]])
+
+metrics.counter('vibecraft2_session_tokens_total', 'Estimated tokens used, by session', () =>
+  [...sessionTokens].map(([tmuxSession, tokens]) => {
+    const session = [...managedSessions.values()].find(s => s.tmuxSession === tmuxSession)
+    return [session ? managedSessionLabels(session) : { session_id: tmuxSession, session: tmuxSession }, tokens.cumulative]
+  })
+)
+
+metrics.gauge('vibecraft2_session_cost_usd', 'Estimated spend in USD, by session', () =>
+  [...managedSessions.values()].map(session => [managedSessionLabels(session), session.cost ?? 0])
+)
+
+/**
+ * Session labels for metrics: the managed session's ID, which keeps series
+ * apart when names repeat or change, and its name for reading
+ */
+function sessionLabels(claudeSessionId: string): { session_id: string; session: string } {
+  const session = findManagedSession(claudeSessionId)
+  return session ? managedSessionLabels(session) : { session_id: 'unmanaged', session: 'unmanaged' }
+}
+
+function managedSessionLabels(session: ManagedSession): { session_id: string; session: string } {
+  return { session_id: session.id, session: session.name }
+}
+
 // ============================================================================
 // Logging
 // ============================================================================
@@ -413,12 +655,7 @@ function pollTokens(tmuxSession: string): void {
     return
   }
 
-  execFile('tmux', ['capture-pane', '-t', tmuxSession, '-p', '-S', '-50'], { ...EXEC_OPTIONS, maxBuffer: 1024 * 1024 }, (error, stdout) => {
-    if (error) {
-      debug(`Token poll failed: ${error.message}`)
-      return
-    }
-
+  sessionBackend.capture(tmuxSession, 50).then((stdout) => {
     // Simple hash to detect changes
     const hash = stdout.slice(-500)
     if (hash === lastTmuxHash) return
@@ -434,15 +671,23 @@ function pollTokens(tmuxSession: string): void {
       sessionTokens.set(tmuxSession, session)
     }
 
-    // If we see a higher token count, update cumulative
-    if (tokens > session.lastSeen) {
-      const delta = tokens - session.lastSeen
+    // A count lower than the last one means a new conversation started
+    // counting from zero, so all of it is new
+    const reset = tokens < session.lastSeen
+    const delta = reset ? tokens : tokens - session.lastSeen
+    if (delta > 0) {
+      if (reset) debug(`Token count reset detected: ${tokens}`)
       session.cumulative += delta
       session.lastSeen = tokens
       session.lastUpdate = Date.now()
 
       debug(`Tokens updated: ${tokens} (cumulative: ${session.cumulative})`)
 
+      const managed = [...managedSessions.values()].find(s => s.tmuxSession === tmuxSession)
+      if (managed) {
+        recordSessionTokens(managed, tokens, session.cumulative, delta)
+      }
+
       // Broadcast token update
       broadcast({
         type: 'tokens',
@@ -452,21 +697,115 @@ function pollTokens(tmuxSession: string): void {
           cumulative: session.cumulative,
         },
       } as ServerMessage)
-    } else if (tokens < session.lastSeen && tokens > 0) {
-      // Token count dropped - likely new conversation, reset tracking
-      session.lastSeen = tokens
-      session.lastUpdate = Date.now()
-      debug(`Token count reset detected: ${tokens}`)
     }
+  }).catch((error: Error) => {
+    tmuxPollFailures.inc({ poller: 'tokens' })
+    debug(`Token poll failed: ${error.message}`)
+  })
+}
+
+/**
+ * Record how a permission prompt was answered. Answers sent without a
+ * detected prompt are recorded too, with an unknown tool.
+ */
+function auditPermission(
+  sessionId: string,
+  prompt: PermissionPrompt | undefined,
+  option: PermissionOption | null,
+  answer: PermissionAnswer,
+): void {
+  const session = managedSessions.get(sessionId)
+  const now = Date.now()
+  const promptedAt = prompt?.detectedAt ?? now
+  permissionAudit.record({
+    id: randomUUID(),
+    sessionId,
+    sessionName: session?.name ?? sessionId,
+    claudeSessionId: session?.claudeSessionId,
+    tool: prompt?.tool ?? 'Unknown',
+    context: prompt?.context ?? '',
+    options: prompt?.options ?? [],
+    promptedAt,
+    answeredAt: now,
+    waitMs: now - promptedAt,
+    option,
+    ...answer,
   })
 }
 
+// ============================================================================
+// Costs & Budgets
+// ============================================================================
+
+/** Budget warning thresholds (fractions of the limit) when a budget doesn't set its own */
+const DEFAULT_BUDGET_THRESHOLDS = [0.5, 0.8, 1]
+
+/**
+ * Store a session's new token counts, add the new tokens to the cost
+ * ledger and check its budget
+ */
+function recordSessionTokens(session: ManagedSession, current: number, cumulative: number, delta: number): void {
+  costTracker.record(session.id, delta)
+  session.tokens = { current, cumulative }
+  session.cost = costTracker.sessionTotal(session.id).costUsd
+  checkBudget(session)
+  broadcastSessions()
+}
+
+/**
+ * Warn once per threshold as a session's cost crosses its budget
+ * thresholds. Reaching the limit can also interrupt the session.
+ */
+function checkBudget(session: ManagedSession): void {
+  const budget = session.budget
+  if (!budget) return
+
+  const cost = session.cost ?? 0
+  const fraction = budget.limitUsd > 0 ? cost / budget.limitUsd : Infinity
+  // The limit itself always counts as a threshold
+  const thresholds = [...(budget.warnAt ?? DEFAULT_BUDGET_THRESHOLDS), 1].filter(t => fraction >= t)
+  if (thresholds.length === 0) return
+
+  const threshold = Math.max(...thresholds)
+  if (threshold <= (budgetWarnings.get(session.id) ?? 0)) return
+  budgetWarnings.set(session.id, threshold)
+
+  const busy = session.status === 'working' || session.status === 'waiting'
+  const cancelled = threshold >= 1 && !!budget.cancelOnExceed && busy
+  log(`Session "${session.name}" at ${Math.round(fraction * 100)}% of its $${budget.limitUsd} budget${cancelled ? ', interrupting' : ''}`)
+  if (cancelled) {
+    cancelSession(session).catch((error: Error) => {
+      log(`Failed to interrupt ${session.name} over budget: ${error.message}`)
+    })
+  }
+
+  const warning: BudgetWarning = {
+    sessionId: session.id,
+    costUsd: cost,
+    limitUsd: budget.limitUsd,
+    threshold,
+    cancelled,
+  }
+  broadcast({ type: 'budget_warning', payload: warning })
+}
+
+/**
+ * Why a session may not take new prompts (its budget is used up and
+ * blocks prompts), or null if it may
+ */
+function budgetBlockReason(session: ManagedSession): string | null {
+  const budget = session.budget
+  const cost = session.cost ?? 0
+  if (!budget?.blockPrompts || cost < budget.limitUsd) return null
+  return `${session.name} has used its budget ($${cost.toFixed(2)} of $${budget.limitUsd.toFixed(2)})`
+}
+
 /**
  * Start polling for tokens
  */
-function startTokenPolling(): void {
+function startTokenPolling(): NodeJS.Timeout {
   // Poll every 2 seconds - poll all managed sessions
-  setInterval(() => {
+  const timer = setInterval(() => {
     for (const session of managedSessions.values()) {
       if (session.status !== 'offline') {
         pollTokens(session.tmuxSession)
@@ -478,6 +817,7 @@ function startTokenPolling(): void {
     }
   }, 2000)
   log(`Token polling started`)
+  return timer
 }
 
 // ============================================================================
@@ -631,23 +971,16 @@ function pollPermissions(sessionId: string, tmuxSession: string): void {
     return
   }
 
-  execFile('tmux', ['capture-pane', '-t', tmuxSession, '-p', '-S', '-50'], { ...EXEC_OPTIONS, maxBuffer: 1024 * 1024 }, (error, stdout) => {
-    if (error) {
-      debug(`Permission poll failed for ${tmuxSession}: ${error.message}`)
-      return
-    }
-
+  sessionBackend.capture(tmuxSession, 50).then((stdout) => {
     // Check for bypass permissions warning (first-time use of --dangerously-skip-permissions)
     if (detectBypassWarning(stdout) && !bypassWarningHandled.has(sessionId)) {
       log(`Bypass permissions warning detected for session ${sessionId}, auto-accepting...`)
       bypassWarningHandled.add(sessionId)
       // Send "2" to accept the warning
-      execFile('tmux', ['send-keys', '-t', tmuxSession, '2'], EXEC_OPTIONS, (err) => {
-        if (err) {
-          log(`Failed to auto-accept bypass warning: ${err.message}`)
-        } else {
-          log(`Bypass permissions warning accepted for session ${sessionId}`)
-        }
+      sessionBackend.sendKeys(tmuxSession, ['2']).then(() => {
+        log(`Bypass permissions warning accepted for session ${sessionId}`)
+      }).catch((err: Error) => {
+        log(`Failed to auto-accept bypass warning: ${err.message}`)
       })
       return // Don't process further this poll cycle
     }
@@ -665,6 +998,11 @@ function pollPermissions(sessionId: string, tmuxSession: string): void {
       })
 
       log(`Permission prompt detected for session ${sessionId}: ${prompt.tool} (${prompt.options.length} options)`)
+      const managedSession = managedSessions.get(sessionId)
+      const labels = managedSession ? managedSessionLabels(managedSession) : { session_id: sessionId, session: sessionId }
+      permissionPromptsDetected.inc({ ...labels, tool: prompt.tool })
+
+      if (autoAnswerPermission(sessionId, prompt)) return
 
       // Broadcast to clients with options
       broadcast({
@@ -688,6 +1026,9 @@ function pollPermissions(sessionId: string, tmuxSession: string): void {
       // Permission prompt was resolved (user responded in terminal or elsewhere)
       pendingPermissions.delete(sessionId)
       log(`Permission prompt resolved for session ${sessionId}`)
+      if (!existing.answeredBy) {
+        auditPermission(sessionId, existing, null, { source: 'terminal' })
+      }
 
       // Broadcast resolution
       broadcast({
@@ -703,15 +1044,58 @@ function pollPermissions(sessionId: string, tmuxSession: string): void {
         broadcastSessions()
       }
     }
+  }).catch((error: Error) => {
+    tmuxPollFailures.inc({ poller: 'permissions' })
+    debug(`Permission poll failed for ${tmuxSession}: ${error.message}`)
   })
 }
 
+/**
+ * Answer a permission prompt from the rules files if a rule decides it.
+ * Returns true if it was answered (the user isn't asked).
+ */
+function autoAnswerPermission(sessionId: string, prompt: { tool: string; context: string; options: PermissionOption[] }): boolean {
+  const session = managedSessions.get(sessionId)
+  if (!session) return false
+
+  // Allow rules match the prompted call's own input, which only the hook
+  // events carry - use it when exactly one running call is for this tool
+  const calls = [...(pendingToolCalls.get(sessionId)?.values() ?? [])]
+    .filter(call => call.tool.toLowerCase() === prompt.tool.toLowerCase())
+  const subject = calls.length === 1 ? toolSubject(calls[0].input) : null
+
+  const decision = permissionPolicy.evaluate(session.cwd ?? '', prompt.tool, prompt.context, subject)
+  if (decision.action === 'ask' || !decision.rule || !decision.source) return false
+
+  const option = optionFor(decision.action, prompt.options)
+  if (!option) {
+    log(`Permission rule says ${decision.action} for ${session.name}, but the prompt has no matching option - asking`)
+    return false
+  }
+  if (!sendPermissionResponse(sessionId, option.number, { source: 'rule', rule: decision.rule, ruleFile: decision.source })) return false
+
+  log(`Auto-${decision.action === 'allow' ? 'approved' : 'denied'} ${prompt.tool} for ${session.name} (rule from ${decision.source})`)
+  const autoDecision: PermissionAutoDecision = {
+    sessionId,
+    claudeSessionId: session.claudeSessionId,
+    tool: prompt.tool,
+    context: prompt.context,
+    action: decision.action,
+    option,
+    rule: decision.rule,
+    source: decision.source,
+    timestamp: Date.now(),
+  }
+  broadcast({ type: 'permission_auto_decision', payload: autoDecision })
+  return true
+}
+
 /**
  * Start polling for permission prompts
  */
-function startPermissionPolling(): void {
+function startPermissionPolling(): NodeJS.Timeout {
   // Poll every 1 second (more frequent than tokens since permissions are time-sensitive)
-  setInterval(() => {
+  const timer = setInterval(() => {
     for (const session of managedSessions.values()) {
       if (session.status !== 'offline') {
         pollPermissions(session.id, session.tmuxSession)
@@ -719,13 +1103,14 @@ function startPermissionPolling(): void {
     }
   }, 1000)
   log(`Permission polling started`)
+  return timer
 }
 
 /**
  * Send a permission response to a session.
  * The response should be the option number ("1", "2", "3", etc.)
  */
-function sendPermissionResponse(sessionId: string, optionNumber: string): boolean {
+function sendPermissionResponse(sessionId: string, optionNumber: string, answer: PermissionAnswer): boolean {
   const session = managedSessions.get(sessionId)
   if (!session) {
     log(`Cannot send permission response: session ${sessionId} not found`)
@@ -746,14 +1131,15 @@ function sendPermissionResponse(sessionId: string, optionNumber: string): boolea
     return false
   }
 
-  // Send the option number to tmux - Claude Code expects just the number
-  execFile('tmux', ['send-keys', '-t', session.tmuxSession, optionNumber], EXEC_OPTIONS, (error) => {
-    if (error) {
-      log(`Failed to send permission response: ${error.message}`)
-      return
-    }
+  // Mark the prompt answered now, so a poll seeing it vanish doesn't count it as answered in the terminal
+  const pending = pendingPermissions.get(sessionId)
+  if (pending) pending.answeredBy = answer
 
+  // Send the option number to the session - Claude Code expects just the number
+  sessionBackend.sendKeys(session.tmuxSession, [optionNumber]).then(() => {
     log(`Sent permission response to ${session.name}: option ${optionNumber}`)
+    const option = pending?.options.find(o => o.number === optionNumber) ?? { number: optionNumber, label: optionNumber }
+    auditPermission(sessionId, pending, option, answer)
 
     // Clear the pending permission
     pendingPermissions.delete(sessionId)
@@ -762,6 +1148,8 @@ function sendPermissionResponse(sessionId: string, optionNumber: string): boolea
     session.status = 'working'
     session.currentTool = undefined
     broadcastSessions()
+  }).catch((error: Error) => {
+    log(`Failed to send permission response: ${error.message}`)
   })
 
   return true
@@ -779,9 +1167,19 @@ function shortId(): string {
 }
 
 /**
- * Create a new managed session
+ * Whether sessions started with these flags skip permission prompts
+ * (the default, unless skipPermissions is false)
+ */
+function skipsPermissions(flags: CreateSessionRequest['flags']): boolean {
+  return flags?.skipPermissions !== false
+}
+
+/**
+ * Create a new managed session.
+ * With `forkOf`, the session resumes that session's Claude conversation
+ * as a new branch of it instead of starting or continuing one.
  */
-function createSession(options: CreateSessionRequest = {}): Promise<ManagedSession> {
+function createSession(options: CreateSessionRequest = {}, forkOf?: ManagedSession): Promise<ManagedSession> {
   return new Promise((resolve, reject) => {
     const id = randomUUID()
     sessionCounter++
@@ -799,13 +1197,16 @@ function createSession(options: CreateSessionRequest = {}): Promise<ManagedSessi
 
     // Build claude command with flags
     const flags = options.flags || {}
-    const claudeArgs: string[] = []
+    const claudeArgs: string[] = ['claude']
 
     // Defaults: continue=true, skipPermissions=true, chrome=false
-    if (flags.continue !== false) {
+    if (forkOf?.claudeSessionId) {
+      // --fork-session gives the fork its own Claude session ID
+      claudeArgs.push('-r', validateClaudeSessionId(forkOf.claudeSessionId), '--fork-session')
+    } else if (flags.continue !== false) {
       claudeArgs.push('-c')
     }
-    if (flags.skipPermissions !== false) {
+    if (skipsPermissions(flags)) {
       // --permission-mode=bypassPermissions skips the workspace trust dialog
       // --dangerously-skip-permissions skips tool permission prompts
       claudeArgs.push('--permission-mode=bypassPermissions')
@@ -815,52 +1216,128 @@ function createSession(options: CreateSessionRequest = {}): Promise<ManagedSessi
       claudeArgs.push('--chrome')
     }
 
-    const claudeCmd = claudeArgs.length > 0 ? `claude ${claudeArgs.join(' ')}` : 'claude'
+    const claudeCmd = claudeArgs.join(' ')
+
+    prepareWorktree(cwd, name, options.worktree).catch((error: Error) => {
+      log(`Failed to create worktree: ${error.message}`)
+      throw new Error(`Failed to create worktree: ${error.message}`)
+    }).then((created) => {
+      const sessionCwd = created?.cwd ?? cwd
+
+      // Claude only resumes conversations of the directory it runs in, so a
+      // fork into a new worktree takes a copy of the parent's conversation
+      const resumable = forkOf?.claudeSessionId && created
+        ? copyConversation(forkOf.claudeSessionId, sessionCwd)
+        : Promise.resolve()
+
+      // Spawn the session process through the backend (arguments passed as array)
+      return resumable.then(() => sessionBackend.spawn(tmuxSession, { cwd: sessionCwd, command: claudeArgs, path: EXEC_PATH })).then(() => {
+        const session: ManagedSession = {
+          id,
+          name,
+          tmuxSession,
+          status: 'idle',
+          createdAt: Date.now(),
+          lastActivity: Date.now(),
+          cwd: sessionCwd,
+          worktree: created?.worktree,
+          flags: options.flags,
+          forkedFrom: forkOf?.id,
+        }
 
-    // Spawn tmux session with claude using execFile to prevent shell injection
-    // Arguments are passed as array, not interpolated into a shell string
-    execFile('tmux', [
-      'new-session',
-      '-d',
-      '-s', tmuxSession,
-      '-c', cwd,
-      `PATH=${EXEC_PATH} ${claudeCmd}`
-    ], EXEC_OPTIONS, (error) => {
-      if (error) {
-        log(`Failed to spawn session: ${error.message}`)
-        reject(new Error(`Failed to spawn session: ${error.message}`))
-        return
-      }
+        managedSessions.set(id, session)
+        log(`Created session: ${name} (${id.slice(0, 8)}) -> ${sessionBackend.name}:${tmuxSession} cmd:'${claudeCmd}'`)
 
-      const session: ManagedSession = {
-        id,
-        name,
-        tmuxSession,
-        status: 'idle',
-        createdAt: Date.now(),
-        lastActivity: Date.now(),
-        cwd,
-      }
+        // Track git status for this session (the worktree, if it has one)
+        gitStatusManager.track(id, sessionCwd)
+        // Remember the original directory for future autocomplete
+        projectsManager.addProject(cwd, name)
 
-      managedSessions.set(id, session)
-      log(`Created session: ${name} (${id.slice(0, 8)}) -> tmux:${tmuxSession} cmd:'${claudeCmd}'`)
+        // Broadcast and persist
+        broadcastSessions()
+        saveSessions()
 
-      // Track git status for this session
-      if (cwd) {
-        gitStatusManager.track(id, cwd)
-        // Remember this directory for future autocomplete
-        projectsManager.addProject(cwd, name)
-      }
+        resolve(session)
+      }, (error: Error) => {
+        log(`Failed to spawn session: ${error.message}`)
+        // Don't leave an unused worktree and branch behind
+        if (created) {
+          worktreeManager.remove(created.worktree, { deleteBranch: true }).catch((e: Error) => {
+            log(`Warning: ${e.message}`)
+          })
+        }
+        throw new Error(`Failed to spawn session: ${error.message}`)
+      })
+    }).catch(reject)
+  })
+}
 
-      // Broadcast and persist
-      broadcastSessions()
-      saveSessions()
+/**
+ * Fork a session: a new session in the same directory (or a fresh worktree
+ * of it) with the same flags, resuming the parent's Claude conversation
+ */
+function forkSession(parent: ManagedSession, options: ForkSessionRequest = {}): Promise<ManagedSession> {
+  if (!parent.claudeSessionId) {
+    return Promise.reject(new Error('Session has no Claude conversation to fork yet'))
+  }
 
-      resolve(session)
-    })
+  return createSession({
+    name: options.name || `${parent.name} (fork)`,
+    cwd: parent.cwd,
+    flags: parent.flags,
+    worktree: options.worktree,
+  }, parent).then(async (session) => {
+    const failure = await checkResumed(session)
+    if (failure) {
+      // Don't leave a fresh conversation posing as the fork
+      await deleteSession(session.id, { worktree: 'remove', deleteBranch: true })
+      throw new Error(`Fork failed to resume ${parent.name}'s conversation: ${failure}`)
+    }
+    log(`Forked ${parent.name} (${parent.id.slice(0, 8)}) -> ${session.name} (${session.id.slice(0, 8)})`)
+    return session
   })
 }
 
+/**
+ * Watch a just-started fork for a moment for signs that `claude -r` could
+ * not resume the conversation: the process exiting, or Claude saying so.
+ * Returns what went wrong, or null if it looks resumed.
+ */
+async function checkResumed(session: ManagedSession): Promise<string | null> {
+  for (let waited = 0; waited < FORK_RESUME_CHECK_MS; waited += 250) {
+    await new Promise(r => setTimeout(r, 250))
+    if (!(await sessionBackend.listAlive()).has(session.tmuxSession)) {
+      return 'the session exited'
+    }
+    const screen = await sessionBackend.capture(session.tmuxSession, 50).catch(() => '')
+    const notFound = screen.match(/No conversation found[^\n]*/i)
+    if (notFound) return notFound[0].trim()
+  }
+  return null
+}
+
+/**
+ * Create the git worktree a new session asked for (undefined if none)
+ */
+async function prepareWorktree(
+  cwd: string,
+  name: string,
+  option: CreateSessionRequest['worktree']
+): Promise<CreatedWorktree | undefined> {
+  if (!option) return undefined
+
+  const created = await worktreeManager.create(cwd, { name, ...(option === true ? {} : option) })
+  try {
+    validateDirectoryPath(created.cwd)
+  } catch (error) {
+    await worktreeManager.remove(created.worktree, { deleteBranch: true }).catch(() => {})
+    throw error
+  }
+
+  log(`Created worktree ${created.worktree.path} on branch ${created.worktree.branch}`)
+  return created
+}
+
 /**
  * Get all managed sessions
  */
@@ -868,6 +1345,11 @@ function getSessions(): ManagedSession[] {
   return Array.from(managedSessions.values()).map(session => ({
     ...session,
     gitStatus: gitStatusManager.getStatus(session.id) ?? undefined,
+    promptQueue: promptQueue.getQueue(session.id),
+    // A failure outlives its prompt only until the next drain; don't show it for an empty queue
+    promptQueueError: promptQueue.size(session.id) > 0 ? queueFailures.get(session.id)?.error : undefined,
+    schedules: scheduleManager.getSchedules(session.id),
+    pipelines: pipelineManager.getOutgoing(session.id),
   }))
 }
 
@@ -891,6 +1373,12 @@ function updateSession(id: string, updates: UpdateSessionRequest): ManagedSessio
   if (updates.zonePosition) {
     session.zonePosition = updates.zonePosition
   }
+  if (updates.budget !== undefined) {
+    session.budget = updates.budget ?? undefined
+    // Warn afresh against the new limit
+    budgetWarnings.delete(id)
+    checkBudget(session)
+  }
 
   log(`Updated session: ${session.name} (${id.slice(0, 8)})`)
   broadcastSessions()
@@ -900,31 +1388,43 @@ function updateSession(id: string, updates: UpdateSessionRequest): ManagedSessio
 
 /**
  * Delete/kill a session
+ * Resolves false if the session does not exist; a worktree that could not
+ * be removed is reported as worktreeError (the session is still deleted).
  */
-function deleteSession(id: string): Promise<boolean> {
+function deleteSession(
+  id: string,
+  options: DeleteSessionRequest = {}
+): Promise<{ deleted: boolean; worktreeError?: string }> {
   return new Promise((resolve) => {
     const session = managedSessions.get(id)
     if (!session) {
-      resolve(false)
+      resolve({ deleted: false })
       return
     }
 
-    // Kill the tmux session using execFile to prevent shell injection
+    // Validate the session name before handing it to the backend
     try {
       validateTmuxSession(session.tmuxSession)
     } catch {
       log(`Invalid tmux session name: ${session.tmuxSession}`)
-      resolve(false)
+      resolve({ deleted: false })
       return
     }
 
-    execFile('tmux', ['kill-session', '-t', session.tmuxSession], EXEC_OPTIONS, (error) => {
-      if (error) {
-        log(`Warning: Failed to kill tmux session: ${error.message}`)
-      }
-
+    sessionBackend.kill(session.tmuxSession).catch((error: Error) => {
+      log(`Warning: Failed to kill session process: ${error.message}`)
+    }).then(() => {
       managedSessions.delete(id)
+      budgetWarnings.delete(id)
       gitStatusManager.untrack(id)
+      removeCheckpoints(session)
+      promptQueue.removeSession(id)
+      clearQueueFailure(id)
+      pendingToolCalls.delete(id)
+      sentPromptCheckpoints.delete(id)
+      scheduleManager.removeSession(id)
+      pipelineManager.removeSession(id)
+      terminalMirror.removeSession(id)
       // Clean up mapping
       for (const [claudeId, managedId] of claudeToManagedMap) {
         if (managedId === id) {
@@ -935,7 +1435,20 @@ function deleteSession(id: string): Promise<boolean> {
       log(`Deleted session: ${session.name} (${id.slice(0, 8)})`)
       broadcastSessions()
       saveSessions()
-      resolve(true)
+
+      // Worktrees are kept unless asked otherwise (they may hold unmerged work)
+      const worktree = session.worktree
+      if (!worktree || options.worktree !== 'remove') {
+        resolve({ deleted: true })
+        return
+      }
+      worktreeManager.remove(worktree, { deleteBranch: options.deleteBranch }).then(() => {
+        log(`Removed worktree ${worktree.path}${options.deleteBranch ? ` and branch ${worktree.branch}` : ''}`)
+        resolve({ deleted: true })
+      }).catch((error: Error) => {
+        log(error.message)
+        resolve({ deleted: true, worktreeError: error.message })
+      })
     })
   })
 }
@@ -949,12 +1462,22 @@ async function sendPromptToSession(id: string, prompt: string): Promise<{ ok: bo
     return { ok: false, error: 'Session not found' }
   }
 
+  const blocked = budgetBlockReason(session)
+  if (blocked) {
+    log(`Prompt refused: ${blocked}`)
+    return { ok: false, error: blocked }
+  }
+
+  // Snapshot before Claude sees the prompt, so none of its edits get in
+  await checkpointBeforeSend(session, prompt)
+
   try {
     await sendToTmuxSafe(session.tmuxSession, prompt)
     session.lastActivity = Date.now()
     log(`Prompt sent to ${session.name}: ${prompt.slice(0, 50)}...`)
     return { ok: true }
   } catch (error) {
+    sentPromptCheckpoints.delete(session.id)
     const msg = error instanceof Error ? error.message : String(error)
     log(`Failed to send prompt to ${session.name}: ${msg}`)
     return { ok: false, error: msg }
@@ -962,87 +1485,282 @@ async function sendPromptToSession(id: string, prompt: string): Promise<{ ok: bo
 }
 
 /**
- * Check if tmux sessions are still alive and update status
+ * Send Ctrl+C to a session (interrupts whatever Claude is doing)
  */
-function checkSessionHealth(): void {
-  exec('tmux list-sessions -F "#{session_name}"', EXEC_OPTIONS, (error, stdout) => {
-    if (error) {
-      // tmux might not be running
-      for (const session of managedSessions.values()) {
-        if (session.status !== 'offline') {
-          session.status = 'offline'
-        }
-      }
-      return
-    }
-
-    const activeSessions = new Set(stdout.trim().split('\n'))
-    let changed = false
-
-    for (const session of managedSessions.values()) {
-      const isAlive = activeSessions.has(session.tmuxSession)
-      const newStatus = isAlive ? (session.status === 'offline' ? 'idle' : session.status) : 'offline'
-
-      if (session.status !== newStatus) {
-        session.status = newStatus
-        changed = true
-      }
-    }
-
-    if (changed) {
-      broadcastSessions()
-      saveSessions() // Persist state changes
-    }
-  })
+async function cancelSession(session: ManagedSession): Promise<void> {
+  validateTmuxSession(session.tmuxSession)
+  await sessionBackend.sendKeys(session.tmuxSession, ['C-c'])
+  log(`Sent Ctrl+C to ${session.name}`)
 }
 
 /**
- * Check for stale "working" sessions and transition them to idle
- * This is a failsafe for missed stop events
+ * Send a prompt now if the session is idle, otherwise queue it.
+ * Prompts also queue behind any already waiting so order is preserved.
  */
-function checkWorkingTimeout(): void {
-  const now = Date.now()
-  let changed = false
+async function submitPromptToSession(id: string, prompt: string): Promise<{ ok: boolean; error?: string; queued?: boolean; position?: number }> {
+  const session = managedSessions.get(id)
+  if (!session) {
+    return { ok: false, error: 'Session not found' }
+  }
 
-  for (const session of managedSessions.values()) {
-    if (session.status === 'working') {
-      const timeSinceActivity = now - session.lastActivity
-      if (timeSinceActivity > WORKING_TIMEOUT_MS) {
-        log(`Session "${session.name}" timed out after ${Math.round(timeSinceActivity / 1000)}s of no activity`)
-        session.status = 'idle'
-        session.currentTool = undefined
-        changed = true
-      }
-    }
+  // Don't queue what could never be sent
+  const blocked = budgetBlockReason(session)
+  if (blocked) {
+    log(`Prompt refused: ${blocked}`)
+    return { ok: false, error: blocked }
   }
 
-  if (changed) {
+  if (session.status !== 'idle' || promptQueue.size(id) > 0) {
+    promptQueue.enqueue(id, prompt)
+    log(`Prompt queued for ${session.name} (${promptQueue.size(id)} waiting): ${prompt.slice(0, 50)}...`)
+    drainPromptQueue(id)
+    return { ok: true, queued: true, position: promptQueue.size(id) }
+  }
+
+  // Mark working before sending (which waits for the checkpoint) so a
+  // concurrent submit queues instead of sending too
+  markPromptSent(session)
+  const result = await sendPromptToSession(id, prompt)
+  if (!result.ok) {
+    session.status = 'idle'
     broadcastSessions()
-    saveSessions()
   }
+  return result
 }
 
 /**
- * Save sessions to disk for persistence across restarts
+ * Send the same prompt to several sessions (each queues if busy)
  */
-function saveSessions(): void {
-  try {
-    const data = {
-      sessions: Array.from(managedSessions.values()),
-      claudeToManagedMap: Array.from(claudeToManagedMap.entries()),
-      sessionCounter,
-    }
-    writeFileSync(SESSIONS_FILE, JSON.stringify(data, null, 2))
-    debug(`Saved ${managedSessions.size} sessions to ${SESSIONS_FILE}`)
-  } catch (e) {
-    console.error('Failed to save sessions:', e)
-  }
+async function broadcastPrompt(sessionIds: string[], prompt: string): Promise<BroadcastPromptResult[]> {
+  const unique = [...new Set(sessionIds)]
+  const results = await Promise.all(unique.map(async (sessionId): Promise<BroadcastPromptResult> => {
+    const result = await submitPromptToSession(sessionId, prompt)
+    return { sessionId, ...result }
+  }))
+
+  const delivered = results.filter(r => r.ok).length
+  log(`Broadcast prompt to ${delivered}/${results.length} sessions: ${prompt.slice(0, 50)}...`)
+  return results
 }
 
 /**
- * Load sessions from disk on startup
+ * Send the next queued prompt if the session is idle
  */
-function loadSessions(): void {
+function drainPromptQueue(id: string): void {
+  const session = managedSessions.get(id)
+  if (!session || session.status !== 'idle') return
+
+  const next = promptQueue.shift(id)
+  if (!next) {
+    clearQueueFailure(id)
+    return
+  }
+
+  // Mark working right away so a second drain can't send the next prompt too
+  markPromptSent(session)
+
+  sendPromptToSession(id, next.prompt).then((result) => {
+    if (!result.ok) {
+      // Put it back so it isn't lost. The session is idle, so no stop
+      // event will drain it again - retry on a timer instead
+      promptQueue.unshift(id, next)
+      session.status = 'idle'
+      scheduleQueueRetry(session, result.error ?? 'Failed to send prompt')
+      broadcastSessions()
+      return
+    }
+    if (clearQueueFailure(id)) broadcastSessions()
+    log(`Sent queued prompt to ${session.name} (${promptQueue.size(id)} remaining)`)
+  })
+}
+
+/**
+ * Record a failed queued send and retry it with backoff. Once the retries
+ * are used up the queue stays stuck, with the error on the session, until
+ * it is retried by hand or the session next finishes a turn.
+ */
+function scheduleQueueRetry(session: ManagedSession, message: string): void {
+  const attempts = (queueFailures.get(session.id)?.error.attempts ?? 0) + 1
+  clearQueueFailure(session.id)
+
+  if (attempts > QUEUE_MAX_RETRIES) {
+    log(`Queue for ${session.name} is stuck after ${attempts} failed sends: ${message}`)
+    queueFailures.set(session.id, { error: { message, attempts, at: Date.now(), retryAt: null }, retry: null })
+    return
+  }
+
+  const delay = QUEUE_RETRY_BASE_MS * 2 ** (attempts - 1)
+  log(`Retrying queued prompt for ${session.name} in ${delay / 1000}s: ${message}`)
+  const retry = setTimeout(() => {
+    const failure = queueFailures.get(session.id)
+    if (failure) failure.retry = null
+    drainPromptQueue(session.id)
+  }, delay)
+  queueFailures.set(session.id, { error: { message, attempts, at: Date.now(), retryAt: Date.now() + delay }, retry })
+}
+
+/**
+ * Forget a session's queue failure and cancel its retry.
+ * Returns true if there was one.
+ */
+function clearQueueFailure(id: string): boolean {
+  const failure = queueFailures.get(id)
+  if (!failure) return false
+  if (failure.retry) clearTimeout(failure.retry)
+  queueFailures.delete(id)
+  return true
+}
+
+/**
+ * Send a due scheduled prompt. Only idle sessions with nothing queued
+ * receive it; otherwise the schedule stays pending.
+ */
+async function runScheduledPrompt(schedule: PromptSchedule): Promise<ScheduleRunResult> {
+  const session = managedSessions.get(schedule.sessionId)
+  if (!session) {
+    return { status: 'failed', detail: 'Session not found' }
+  }
+  if (session.status !== 'idle') {
+    return { status: 'busy', detail: `Session was ${session.status}` }
+  }
+  if (promptQueue.size(session.id) > 0) {
+    return { status: 'busy', detail: 'Prompts were queued' }
+  }
+
+  // Mark working before sending so a concurrent drain or schedule waits
+  markPromptSent(session)
+  const result = await sendPromptToSession(session.id, schedule.prompt)
+  if (!result.ok) {
+    session.status = 'idle'
+    broadcastSessions()
+    return { status: 'failed', detail: result.error ?? 'Send failed' }
+  }
+  log(`Sent scheduled prompt to ${session.name}`)
+  return { status: 'sent' }
+}
+
+/**
+ * Hand off to downstream sessions after a session finishes its turn.
+ * Prompts go through the downstream session's queue if it is busy.
+ */
+function firePipelines(upstream: ManagedSession, response: string): void {
+  for (const pipeline of pipelineManager.getOutgoing(upstream.id)) {
+    if (!pipeline.enabled) continue
+
+    const downstream = managedSessions.get(pipeline.toSessionId)
+    if (!downstream) continue
+
+    const prompt = renderPipelinePrompt(pipeline.prompt, { from: upstream.name, response })
+    submitPromptToSession(downstream.id, prompt).then((result) => {
+      if (!result.ok) {
+        log(`Pipeline ${upstream.name} → ${downstream.name} failed: ${result.error}`)
+        return
+      }
+      log(`Pipeline ${upstream.name} → ${downstream.name}${result.queued ? ' (queued)' : ''}`)
+      pipelineManager.markFired(pipeline.id)
+      broadcast({
+        type: 'pipeline_fired',
+        payload: {
+          pipelineId: pipeline.id,
+          fromSessionId: upstream.id,
+          toSessionId: downstream.id,
+          queued: result.queued ?? false,
+        },
+      })
+    })
+  }
+}
+
+/**
+ * Optimistically mark a session working after a prompt was sent
+ * (the user_prompt_submit hook event confirms it shortly after)
+ */
+function markPromptSent(session: ManagedSession): void {
+  if (session.status === 'idle') {
+    session.status = 'working'
+    broadcastSessions()
+  }
+}
+
+/**
+ * Check if session processes are still alive and update status
+ */
+function checkSessionHealth(): void {
+  sessionBackend.listAlive().then((activeSessions) => {
+    let changed = false
+
+    for (const session of managedSessions.values()) {
+      const isAlive = activeSessions.has(session.tmuxSession)
+      const newStatus = isAlive ? (session.status === 'offline' ? 'idle' : session.status) : 'offline'
+
+      if (session.status !== newStatus) {
+        session.status = newStatus
+        changed = true
+      }
+    }
+
+    if (changed) {
+      broadcastSessions()
+      saveSessions() // Persist state changes
+    }
+  }).catch(() => {
+    // Backend unavailable (e.g. tmux server not running)
+    tmuxPollFailures.inc({ poller: 'health' })
+    for (const session of managedSessions.values()) {
+      if (session.status !== 'offline') {
+        session.status = 'offline'
+      }
+    }
+  })
+}
+
+/**
+ * Check for stale "working" sessions and transition them to idle
+ * This is a failsafe for missed stop events
+ */
+function checkWorkingTimeout(): void {
+  const now = Date.now()
+  let changed = false
+
+  for (const session of managedSessions.values()) {
+    if (session.status === 'working') {
+      const timeSinceActivity = now - session.lastActivity
+      if (timeSinceActivity > WORKING_TIMEOUT_MS) {
+        log(`Session "${session.name}" timed out after ${Math.round(timeSinceActivity / 1000)}s of no activity`)
+        session.status = 'idle'
+        session.currentTool = undefined
+        changed = true
+      }
+    }
+  }
+
+  if (changed) {
+    broadcastSessions()
+    saveSessions()
+  }
+}
+
+/**
+ * Save sessions to disk for persistence across restarts
+ */
+function saveSessions(): void {
+  try {
+    const data = {
+      sessions: Array.from(managedSessions.values()),
+      claudeToManagedMap: Array.from(claudeToManagedMap.entries()),
+      sessionCounter,
+    }
+    writeFileSync(SESSIONS_FILE, JSON.stringify(data, null, 2))
+    debug(`Saved ${managedSessions.size} sessions to ${SESSIONS_FILE}`)
+  } catch (e) {
+    console.error('Failed to save sessions:', e)
+  }
+}
+
+/**
+ * Load sessions from disk on startup
+ */
+function loadSessions(): void {
   if (!existsSync(SESSIONS_FILE)) {
     debug('No saved sessions file found')
     return
@@ -1058,6 +1776,8 @@ function loadSessions(): void {
         // Mark all as offline initially - health check will update
         session.status = 'offline'
         session.currentTool = undefined
+        const spent = costTracker.sessionTotal(session.id).costUsd
+        if (spent > 0) session.cost = spent
         managedSessions.set(session.id, session)
         // Track git status if session has a cwd
         if (session.cwd) {
@@ -1088,10 +1808,146 @@ function loadSessions(): void {
  * Broadcast current sessions to all clients
  */
 function broadcastSessions(): void {
+  const sessions = getSessions()
   broadcast({
     type: 'sessions',
-    payload: getSessions(),
+    payload: sessions,
   })
+  broadcastStatusChanges(sessions)
+}
+
+/**
+ * Broadcast a session_status message for each session whose status
+ * differs from the last sessions broadcast
+ */
+function broadcastStatusChanges(sessions: ManagedSession[]): void {
+  const current = new Set<string>()
+  for (const session of sessions) {
+    current.add(session.id)
+    const from = broadcastStatuses.get(session.id)
+    broadcastStatuses.set(session.id, session.status)
+    // New sessions have no previous status to report
+    if (from === undefined || from === session.status) continue
+
+    const change: SessionStatusChange = {
+      sessionId: session.id,
+      ...(session.claudeSessionId ? { claudeSessionId: session.claudeSessionId } : {}),
+      name: session.name,
+      from,
+      to: session.status,
+      timestamp: Date.now(),
+    }
+    broadcast({ type: 'session_status', payload: change })
+  }
+
+  for (const id of broadcastStatuses.keys()) {
+    if (!current.has(id)) broadcastStatuses.delete(id)
+  }
+}
+
+/**
+ * Snapshot a session's working tree so the files can be rewound to how
+ * they were before a prompt. Failures are only logged (null) - a missing
+ * checkpoint must never hold up the prompt.
+ */
+async function takeCheckpoint(
+  session: ManagedSession,
+  prompt: string,
+  eventId?: string
+): Promise<{ root: string; checkpoint: GitCheckpoint } | null> {
+  if (CHECKPOINTS_KEEP <= 0 || !session.cwd) return null
+  try {
+    const root = await gitStatusManager.getRepoRoot(session.cwd)
+    if (!root) return null
+    const checkpoint = await gitCheckpoints.create(root, session.id, { label: prompt, eventId })
+    debug(`Checkpoint ${checkpoint.id} for ${session.name} at ${checkpoint.commit.slice(0, 8)}`)
+    await gitCheckpoints.prune(root, session.id)
+    return { root, checkpoint }
+  } catch (error) {
+    log(`Warning: Failed to checkpoint ${session.name}: ${(error as Error).message}`)
+    return null
+  }
+}
+
+/**
+ * Checkpoint a session before the server sends it a prompt. The prompt's
+ * hook event only arrives once Claude is already working on it. Waits at
+ * most CHECKPOINT_SEND_WAIT_MS, so a huge working tree can't hold up
+ * queued, scheduled and pipeline prompts; a slow checkpoint finishes on its own.
+ */
+async function checkpointBeforeSend(session: ManagedSession, prompt: string): Promise<void> {
+  const taken = takeCheckpoint(session, prompt)
+  sentPromptCheckpoints.set(session.id, { prompt, taken })
+
+  let timer: NodeJS.Timeout | undefined
+  const waited = new Promise<'timeout'>(resolve => { timer = setTimeout(() => resolve('timeout'), CHECKPOINT_SEND_WAIT_MS) })
+  if (await Promise.race([taken, waited]) === 'timeout') {
+    log(`Warning: Checkpoint of ${session.name} is taking over ${CHECKPOINT_SEND_WAIT_MS / 1000}s - sending the prompt without waiting`)
+  }
+  clearTimeout(timer)
+}
+
+/**
+ * Link a prompt event to the checkpoint taken when the server sent it.
+ * Prompts typed in the terminal have none, so they are checkpointed now -
+ * late, as Claude may already have started editing.
+ */
+async function checkpointPrompt(session: ManagedSession, event: UserPromptSubmitEvent): Promise<void> {
+  const sent = sentPromptCheckpoints.get(session.id)
+  if (sent && normalizePrompt(sent.prompt) === normalizePrompt(event.prompt)) {
+    sentPromptCheckpoints.delete(session.id)
+    const taken = await sent.taken
+    if (taken) {
+      try {
+        await gitCheckpoints.setEventId(taken.root, session.id, taken.checkpoint, event.id)
+      } catch (error) {
+        log(`Warning: Failed to link checkpoint ${taken.checkpoint.id} of ${session.name}: ${(error as Error).message}`)
+      }
+      return
+    }
+  }
+  await takeCheckpoint(session, event.prompt, event.id)
+}
+
+/** Prompt text compared loosely (terminals may reflow whitespace) */
+function normalizePrompt(prompt: string): string {
+  return prompt.replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * Delete a session's checkpoints once the session is gone
+ */
+function removeCheckpoints(session: ManagedSession): void {
+  if (!session.cwd) return
+  gitStatusManager.getRepoRoot(session.cwd)
+    .then(root => root ? gitCheckpoints.remove(root, session.id) : 0)
+    .catch((error: Error) => log(`Warning: Failed to remove checkpoints of ${session.name}: ${error.message}`))
+}
+
+/**
+ * Apply the checkpoint limits to every session's repository, and delete
+ * checkpoints of sessions deleted while the server was down
+ */
+async function pruneCheckpoints(): Promise<void> {
+  const sessionIds = new Set(managedSessions.keys())
+  const repos = new Map<string, ManagedSession[]>()
+  for (const session of managedSessions.values()) {
+    const root = session.cwd ? await gitStatusManager.getRepoRoot(session.cwd) : null
+    if (root) repos.set(root, [...(repos.get(root) ?? []), session])
+  }
+
+  let pruned = 0
+  for (const [root, sessions] of repos) {
+    try {
+      pruned += await gitCheckpoints.removeOrphans(root, sessionIds)
+      for (const session of sessions) {
+        pruned += await gitCheckpoints.prune(root, session.id)
+      }
+    } catch (error) {
+      log(`Warning: Failed to prune checkpoints in ${root}: ${(error as Error).message}`)
+    }
+  }
+  if (pruned > 0) log(`Pruned ${pruned} git checkpoints`)
 }
 
 // ============================================================================
@@ -1235,12 +2091,15 @@ function applyHexArtDelta(delta: HexArtDelta): void {
  * Broadcast a hex art delta to all clients except the sender
  */
 function broadcastHexArtDelta(delta: HexArtDelta, excludeWs?: WebSocket): void {
-  const data = JSON.stringify({ type: 'hexart_delta', payload: delta } as ServerMessage)
+  const message: ServerMessage = { type: 'hexart_delta', payload: delta }
+  const data = JSON.stringify(message)
   for (const client of clients) {
     if (client !== excludeWs && client.readyState === WebSocket.OPEN) {
       client.send(data)
     }
   }
+  eventStreams.send(message)
+  webhookManager.dispatch(message)
 }
 
 // ============================================================================
@@ -1366,7 +2225,11 @@ function findManagedSession(claudeSessionId: string): ManagedSession | undefined
 // Event Processing
 // ============================================================================
 
-function processEvent(event: ClaudeEvent): ClaudeEvent {
+/**
+ * Track tool durations. `live` is false for events replayed from the
+ * file at startup (kept out of metrics).
+ */
+function processEvent(event: ClaudeEvent, live = true): ClaudeEvent {
   // Track pre_tool_use for duration calculation
   if (event.type === 'pre_tool_use') {
     const preEvent = event as PreToolUseEvent
@@ -1382,6 +2245,9 @@ function processEvent(event: ClaudeEvent): ClaudeEvent {
       postEvent.duration = postEvent.timestamp - preEvent.timestamp
       pendingToolUses.delete(postEvent.toolUseId)
       debug(`Tool ${postEvent.tool} took ${postEvent.duration}ms`)
+      if (live) {
+        toolDurations.observe({ tool: postEvent.tool, ...sessionLabels(postEvent.sessionId) }, postEvent.duration / 1000)
+      }
     }
   }
 
@@ -1403,6 +2269,7 @@ function addEvent(event: ClaudeEvent) {
     idsToKeep.forEach(id => seenEventIds.add(id))
   }
 
+  eventsIngested.inc({ type: event.type, ...sessionLabels(event.sessionId) })
   const processed = processEvent(event)
   events.push(processed)
 
@@ -1420,27 +2287,37 @@ function addEvent(event: ClaudeEvent) {
 
     // Update status based on event type
     switch (event.type) {
-      case 'pre_tool_use':
+      case 'pre_tool_use': {
+        const { tool, toolInput, toolUseId } = event as PreToolUseEvent
         managedSession.status = 'working'
-        managedSession.currentTool = (event as PreToolUseEvent).tool
+        managedSession.currentTool = tool
+        if (!pendingToolCalls.has(managedSession.id)) pendingToolCalls.set(managedSession.id, new Map())
+        pendingToolCalls.get(managedSession.id)!.set(toolUseId, { tool, input: toolInput ?? {} })
         break
+      }
 
       case 'post_tool_use':
         // Tool completed - update activity time but stay "working"
         // (Claude might be using more tools, stop event marks idle)
         managedSession.currentTool = undefined
+        pendingToolCalls.get(managedSession.id)?.delete((event as PostToolUseEvent).toolUseId)
+        if (FILE_CHANGING_TOOLS.has((event as PostToolUseEvent).tool)) {
+          gitStatusManager.scheduleRefresh(managedSession.id)
+        }
         break
 
       case 'user_prompt_submit':
         // User submitted prompt - Claude is now processing
         managedSession.status = 'working'
         managedSession.currentTool = undefined
+        void checkpointPrompt(managedSession, event as UserPromptSubmitEvent)
         break
 
       case 'stop':
       case 'session_end':
         managedSession.status = 'idle'
         managedSession.currentTool = undefined
+        pendingToolCalls.delete(managedSession.id)
         break
     }
 
@@ -1449,10 +2326,59 @@ function addEvent(event: ClaudeEvent) {
       broadcastSessions()
       saveSessions()
     }
+
+    // Session finished its turn - send the next queued prompt
+    if (event.type === 'stop' && prevStatus !== 'idle' && managedSession.status === 'idle') {
+      drainPromptQueue(managedSession.id)
+      scheduleManager.runDue(managedSession.id)
+      firePipelines(managedSession, event.response ?? '')
+    }
   }
 
   // Broadcast to all clients
   broadcast({ type: 'event', payload: processed })
+
+  if (event.type === 'pre_tool_use' && (event as PreToolUseEvent).tool === 'Bash') {
+    checkDangerousCommand(event as PreToolUseEvent, managedSession)
+  }
+}
+
+/**
+ * Alert (and optionally interrupt) when a Bash command about to run
+ * trips a dangerous-command detector
+ */
+function checkDangerousCommand(event: PreToolUseEvent, session: ManagedSession | undefined): void {
+  const command = (event.toolInput as Partial<BashToolInput>).command
+  if (typeof command !== 'string') return
+
+  const matches = dangerDetector.check(command, event.cwd)
+  if (matches.length === 0) return
+
+  const cancel = !!session && (
+    DANGER_AUTO_CANCEL === 'always' ||
+    (DANGER_AUTO_CANCEL === 'skip-permissions' && skipsPermissions(session.flags))
+  )
+  log(`Dangerous command in ${session?.name ?? event.sessionId.slice(0, 8)} (${matches.map(m => m.id).join(', ')}): ${command}${cancel ? ' - interrupting' : ''}`)
+  for (const match of matches) {
+    dangerousCommands.inc({ ...sessionLabels(event.sessionId), rule: match.id })
+  }
+  if (cancel) {
+    cancelSession(session!).catch((error: Error) => {
+      log(`Failed to interrupt ${session!.name}: ${error.message}`)
+    })
+  }
+
+  const alert: DangerousCommandAlert = {
+    sessionId: session?.id,
+    claudeSessionId: event.sessionId,
+    toolUseId: event.toolUseId,
+    command,
+    cwd: event.cwd,
+    matches,
+    cancelled: cancel,
+    timestamp: event.timestamp,
+  }
+  broadcast({ type: 'dangerous_command', payload: alert })
 }
 
 /**
@@ -1570,29 +2496,20 @@ function universalToClaudeEvent(event: UniversalEvent): ClaudeEvent | null {
 // ============================================================================
 
 function loadEventsFromFile() {
-  if (!existsSync(EVENTS_FILE)) {
-    debug(`Events file not found: ${EVENTS_FILE}`)
+  if (eventStore.size === 0) {
+    debug(`No events in ${EVENTS_FILE}`)
     return
   }
 
-  const content = readFileSync(EVENTS_FILE, 'utf-8')
-  const lines = content.trim().split('\n').filter(Boolean)
-
-  for (const line of lines) {
-    try {
-      const event = JSON.parse(line) as ClaudeEvent
-      processEvent(event)
-      events.push(event)
-    } catch (e) {
-      debug(`Failed to parse event line: ${line}`)
-    }
+  for (const event of eventStore.tail(MAX_EVENTS)) {
+    processEvent(event, false)
+    events.push(event)
   }
 
-  lastFileSize = content.length
-  log(`Loaded ${events.length} events from file`)
+  log(`Loaded ${events.length} of ${eventStore.size} events from file`)
 }
 
-function watchEventsFile() {
+function watchEventsFile(): FSWatcher {
   // Ensure directory exists
   const dir = dirname(EVENTS_FILE)
   if (!existsSync(dir)) {
@@ -1610,33 +2527,36 @@ function watchEventsFile() {
     interval: 100,
   })
 
-  watcher.on('change', () => {
+  const onChange = () => {
     try {
-      const content = readFileSync(EVENTS_FILE, 'utf-8')
-
-      // Only process new content
-      if (content.length > lastFileSize) {
-        const newContent = content.slice(lastFileSize)
-        const newLines = newContent.trim().split('\n').filter(Boolean)
-
-        for (const line of newLines) {
-          try {
-            const event = JSON.parse(line) as ClaudeEvent
-            addEvent(event)
-            debug(`New event from file: ${event.type}`)
-          } catch (e) {
-            debug(`Failed to parse new event: ${line}`)
-          }
-        }
-
-        lastFileSize = content.length
+      // Only new lines (the store tracks how far it has read)
+      for (const event of eventStore.update()) {
+        addEvent(event)
+        debug(`New event from file: ${event.type}`)
       }
+      if (eventStore.needsRotation()) maintainEventLog()
     } catch (e) {
       debug(`Error reading events file: ${e}`)
     }
-  })
+  }
+  // Rotation replaces the file, which the watcher may report as unlink + add
+  watcher.on('change', onChange)
+  watcher.on('add', onChange)
 
   log(`Watching events file: ${EVENTS_FILE}`)
+  return watcher
+}
+
+/**
+ * Rotate the events file and expire old segments per the retention
+ * settings. Events that arrived during rotation are broadcast like any other.
+ */
+function maintainEventLog() {
+  eventStore.maintain().then(late => {
+    for (const event of late) {
+      addEvent(event)
+    }
+  })
 }
 
 // ============================================================================
@@ -1650,9 +2570,11 @@ function broadcast(message: ServerMessage) {
       client.send(data)
     }
   }
+  eventStreams.send(message)
+  webhookManager.dispatch(message)
 }
 
-function handleClientMessage(ws: WebSocket, message: ClientMessage) {
+function handleClientMessage(ws: WebSocket, message: ClientMessage, client?: string) {
   switch (message.type) {
     case 'subscribe':
       debug('Client subscribed')
@@ -1681,7 +2603,7 @@ function handleClientMessage(ws: WebSocket, message: ClientMessage) {
 
     case 'permission_response': {
       const { sessionId, response } = message.payload
-      sendPermissionResponse(sessionId, response)
+      sendPermissionResponse(sessionId, response, { source: 'websocket', client })
       break
     }
 
@@ -1694,127 +2616,202 @@ function handleClientMessage(ws: WebSocket, message: ClientMessage) {
       break
     }
 
+    case 'terminal_subscribe': {
+      const session = managedSessions.get(message.payload.sessionId)
+      if (!session) {
+        const response: ServerMessage = {
+          type: 'terminal_frame',
+          payload: { sessionId: message.payload.sessionId, rows: 0, error: 'Session not found' },
+        }
+        ws.send(JSON.stringify(response))
+        break
+      }
+      terminalMirror.subscribe(ws, session.id, session.tmuxSession)
+      debug(`Terminal mirror: ${session.name} (${terminalMirror.size} mirrored)`)
+      break
+    }
+
+    case 'terminal_unsubscribe':
+      terminalMirror.unsubscribe(ws, message.payload.sessionId)
+      break
+
     default:
       debug(`Unknown message type: ${(message as { type: string }).type}`)
   }
 }
 
 // ============================================================================
-// HTTP Server (for hook notifications)
+// HTTP Routes
 // ============================================================================
 
-function handleHttpRequest(req: IncomingMessage, res: ServerResponse) {
-  const origin = req.headers.origin
+/**
+ * Route table for the HTTP API. Each route declares its body and response
+ * schemas (server/schemas.ts); the same declarations produce the OpenAPI
+ * document at GET /openapi.json.
+ */
+const router = new Router(req => collectRequestBody(req).catch(() => {
+  throw new BodyTooLargeError()
+}))
+
+/** Get a managed session, or fail the request with 404 */
+function requireSession(id: string): ManagedSession {
+  const session = getSession(id)
+  if (!session) throw new HttpError(404, 'Session not found')
+  return session
+}
 
-  // CORS headers - only allow specific origins
-  if (origin && isOriginAllowed(origin)) {
-    res.setHeader('Access-Control-Allow-Origin', origin)
-    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PATCH, DELETE, OPTIONS')
-    res.setHeader('Access-Control-Allow-Headers', 'Content-Type')
+/** Validate a tmux session name, or fail the request with 400 */
+function requireTmuxSession(name: string): string {
+  try {
+    return validateTmuxSession(name)
+  } catch {
+    throw new HttpError(400, 'Invalid tmux session name')
   }
+}
 
-  if (req.method === 'OPTIONS') {
-    // Preflight: reject if origin not allowed
-    if (!origin || !isOriginAllowed(origin)) {
-      res.writeHead(403)
-      res.end()
-      return
-    }
-    res.writeHead(204)
-    res.end()
-    return
-  }
+/** Parse a comma-separated query parameter (undefined if absent or empty) */
+function parseListParam(value: string | null): Set<string> | undefined {
+  const items = value?.split(',').map(item => item.trim()).filter(Boolean) ?? []
+  return items.length > 0 ? new Set(items) : undefined
+}
 
-  if (req.method === 'POST' && req.url === '/event') {
-    collectRequestBody(req).then(body => {
-      try {
-        const raw = JSON.parse(body) as Record<string, unknown>
-
-        // Auto-detect format: try adapter normalization first for universal events,
-        // then fall back to treating as Claude Code event (existing behavior).
-        // Claude Code events have 'sessionId' and known types, so the adapter will
-        // handle them. Events already in universal format are also handled.
-        if (raw.sessionId || raw.type === 'pre_tool_use' || raw.type === 'post_tool_use') {
-          // Claude Code format - use existing handler for maximum backward compatibility
-          const event = raw as unknown as ClaudeEvent
-          addEvent(event)
-          debug(`Received event via HTTP: ${event.type}`)
-        } else {
-          // Try universal format via adapter system
-          const normalized = normalizeEvent(raw)
-          if (normalized) {
-            addUniversalEvent(normalized)
-            debug(`Received universal event via HTTP: ${normalized.type}`)
-          } else {
-            // Last resort: treat as Claude event
-            const event = raw as unknown as ClaudeEvent
-            addEvent(event)
-            debug(`Received unrecognized event via HTTP, passed through: ${event.type}`)
-          }
-        }
+/**
+ * Buffered events after the one with this ID. If the ID is no longer in
+ * the buffer (aged out, or from before a restart), everything still held
+ * is returned.
+ */
+function eventsAfter(lastEventId: string): ClaudeEvent[] {
+  const index = events.findIndex(e => e.id === lastEventId)
+  return events.slice(index + 1)
+}
 
-        res.writeHead(200, { 'Content-Type': 'application/json' })
-        res.end(JSON.stringify({ ok: true }))
-      } catch (e) {
-        debug(`Failed to parse HTTP event: ${e}`)
-        res.writeHead(400, { 'Content-Type': 'application/json' })
-        res.end(JSON.stringify({ error: 'Invalid JSON' }))
-      }
-    }).catch(() => {
-      res.writeHead(413, { 'Content-Type': 'application/json' })
-      res.end(JSON.stringify({ error: 'Request body too large' }))
-    })
-    return
-  }
+/**
+ * Read a time query parameter given as Unix ms or an ISO date
+ * (undefined if absent; 400 if unparseable)
+ */
+function parseTimeParam(query: URLSearchParams, name: string): number | undefined {
+  const value = query.get(name)
+  if (!value) return undefined
+  const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value)
+  if (Number.isNaN(time)) throw new HttpError(400, `${name} must be a Unix ms timestamp or an ISO date`)
+  return time
+}
 
-  // Health check
-  if (req.method === 'GET' && req.url === '/health') {
-    res.writeHead(200, { 'Content-Type': 'application/json' })
-    res.end(JSON.stringify({
+/** Send the full hex art state to every client */
+function broadcastHexArtState(): void {
+  broadcast({ type: 'hexart_state', payload: hexArtState })
+}
+
+// -------------------------------------------------------------------------
+// Events & server info
+// -------------------------------------------------------------------------
+
+router.add({
+  method: 'POST',
+  path: '/event',
+  summary: 'Receive a hook event (Claude Code or any supported agent format)',
+  tag: 'Events',
+  body: schemas.RawEvent,
+  response: schemas.OkResponse,
+  handler: ({ body: raw }) => {
+    // Auto-detect format: try adapter normalization first for universal events,
+    // then fall back to treating as Claude Code event (existing behavior).
+    // Claude Code events have 'sessionId' and known types, so the adapter will
+    // handle them. Events already in universal format are also handled.
+    if (raw.sessionId || raw.type === 'pre_tool_use' || raw.type === 'post_tool_use') {
+      // Claude Code format - use existing handler for maximum backward compatibility
+      const event = raw as unknown as ClaudeEvent
+      addEvent(event)
+      debug(`Received event via HTTP: ${event.type}`)
+    } else {
+      // Try universal format via adapter system
+      const normalized = normalizeEvent(raw)
+      if (normalized) {
+        addUniversalEvent(normalized)
+        debug(`Received universal event via HTTP: ${normalized.type}`)
+      } else {
+        // Last resort: treat as Claude event
+        const event = raw as unknown as ClaudeEvent
+        addEvent(event)
+        debug(`Received unrecognized event via HTTP, passed through: ${event.type}`)
+      }
+    }
+    return { body: { ok: true } }
+  },
+})
+
+router.add({
+  method: 'GET',
+  path: '/health',
+  summary: 'Health check',
+  tag: 'Server',
+  response: schemas.HealthResponse,
+  // Read before the client has a token, to learn that one is required
+  auth: 'public',
+  handler: () => ({
+    body: {
       ok: true,
       version: VERSION,
       clients: clients.size,
       events: events.length,
       voiceEnabled: !!deepgramApiKey,
-    }))
-    return
-  }
-
-  // Config (username, etc)
-  if (req.method === 'GET' && req.url === '/config') {
-    const username = process.env.USER || process.env.USERNAME || 'claude-user'
-    const host = hostname()
-    res.writeHead(200, { 'Content-Type': 'application/json' })
-    res.end(JSON.stringify({
-      username,
-      hostname: host,
+      authRequired: !!API_TOKEN,
+    },
+  }),
+})
+
+router.add({
+  method: 'GET',
+  path: '/openapi.json',
+  summary: 'This API, as an OpenAPI 3.1 document',
+  tag: 'Server',
+  response: s.unknown('OpenAPI document'),
+  handler: () => ({
+    body: router.openApiDocument({
+      title: 'Vibecraft2 API',
+      version: VERSION,
+      description: 'Errors are returned as { ok: false, error, issues? } (see ErrorResponse).',
+    }),
+  }),
+})
+
+router.add({
+  method: 'GET',
+  path: '/config',
+  summary: 'Username, hostname and default tmux session',
+  tag: 'Server',
+  response: schemas.ConfigResponse,
+  handler: () => ({
+    body: {
+      username: process.env.USER || process.env.USERNAME || 'claude-user',
+      hostname: hostname(),
       tmuxSession: TMUX_SESSION,
-    }))
-    return
-  }
-
-  // Stats
-  if (req.method === 'GET' && req.url === '/stats') {
-    const toolCounts: Record<string, number> = {}
-    const toolDurations: Record<string, number[]> = {}
-
-    for (const event of events) {
-      if (event.type === 'post_tool_use') {
-        const e = event as PostToolUseEvent
-        toolCounts[e.tool] = (toolCounts[e.tool] ?? 0) + 1
-        if (e.duration !== undefined) {
-          toolDurations[e.tool] = toolDurations[e.tool] ?? []
-          toolDurations[e.tool].push(e.duration)
-        }
-      }
-    }
-
-    const avgDurations: Record<string, number> = {}
-    for (const [tool, durations] of Object.entries(toolDurations)) {
-      avgDurations[tool] = Math.round(
-        durations.reduce((a, b) => a + b, 0) / durations.length
-      )
-    }
+    },
+  }),
+})
+
+router.add({
+  method: 'GET',
+  path: '/info',
+  summary: 'Server working directory',
+  tag: 'Server',
+  response: schemas.okWith('cwd', s.string()),
+  handler: () => ({ body: { ok: true, cwd: process.cwd() } }),
+})
+
+router.add({
+  method: 'GET',
+  path: '/stats',
+  summary: 'Tool usage counts, average durations and token usage',
+  tag: 'Server',
+  query: {
+    since: 'Only count events at or after this time (Unix ms or ISO date)',
+    until: 'Only count events at or before this time (Unix ms or ISO date)',
+  },
+  response: schemas.StatsResponse,
+  handler: ({ query }) => {
+    // Counts come from the whole event history, not just the in-memory window
+    const stats = eventStore.toolStats(parseTimeParam(query, 'since'), parseTimeParam(query, 'until'))
 
     // Collect token data
     const tokens: Record<string, { current: number; cumulative: number }> = {}
@@ -1822,802 +2819,1432 @@ function handleHttpRequest(req: IncomingMessage, res: ServerResponse) {
       tokens[session] = { current: data.lastSeen, cumulative: data.cumulative }
     }
 
-    res.writeHead(200, { 'Content-Type': 'application/json' })
-    res.end(JSON.stringify({
-      totalEvents: events.length,
-      toolCounts,
-      avgDurations,
-      tokens,
-    }))
-    return
-  }
-
-  // Submit prompt from browser
-  if (req.method === 'POST' && req.url === '/prompt') {
-    collectRequestBody(req).then(body => {
-      try {
-        const { prompt, send } = JSON.parse(body) as { prompt: string; send?: boolean }
-        if (!prompt || typeof prompt !== 'string') {
-          res.writeHead(400, { 'Content-Type': 'application/json' })
-          res.end(JSON.stringify({ error: 'Prompt is required' }))
-          return
-        }
-
-        // Write prompt to file
-        const dir = dirname(PENDING_PROMPT_FILE)
-        if (!existsSync(dir)) {
-          mkdirSync(dir, { recursive: true })
-        }
-        writeFileSync(PENDING_PROMPT_FILE, prompt, 'utf-8')
-        log(`Prompt saved: ${prompt.slice(0, 50)}...`)
-
-        // If send=true, inject into tmux session
-        if (send) {
-          // Use safe helper to prevent command injection
-          sendToTmuxSafe(TMUX_SESSION, prompt)
-            .then(() => {
-              log(`Prompt sent to tmux session: ${TMUX_SESSION}`)
-              res.writeHead(200, { 'Content-Type': 'application/json' })
-              res.end(JSON.stringify({ ok: true, saved: PENDING_PROMPT_FILE, sent: true }))
-            })
-            .catch((error) => {
-              log(`tmux send failed: ${error.message}`)
-              res.writeHead(200, { 'Content-Type': 'application/json' })
-              res.end(JSON.stringify({
-                ok: true,
-                saved: PENDING_PROMPT_FILE,
-                sent: false,
-                tmuxError: error.message
-              }))
-            })
-          return
-        }
+    return { body: { ...stats, tokens } }
+  },
+})
+
+router.add({
+  method: 'GET',
+  path: '/costs',
+  summary: 'Estimated spend per session and per day',
+  tag: 'Server',
+  query: {
+    days: 'Days of history, newest first (default 30)',
+  },
+  response: schemas.okWith('costs', schemas.CostReport),
+  handler: ({ query }) => {
+    const days = query.get('days')
+    if (days !== null && !/^\d+$/.test(days)) throw new HttpError(400, 'days must be a positive integer')
+
+    const costs: CostReport = {
+      pricing: costTracker.pricing.perMillion,
+      model: costTracker.pricing.model,
+      sessions: getSessions().map((session) => {
+        const total = costTracker.sessionTotal(session.id)
+        return { sessionId: session.id, name: session.name, tokens: total.tokens, costUsd: total.costUsd, budget: session.budget }
+      }),
+      days: costTracker.dailyCosts(days !== null ? Number(days) : undefined),
+    }
+    return { body: { ok: true, costs } }
+  },
+})
+
+router.add({
+  method: 'GET',
+  path: '/metrics',
+  summary: 'Prometheus metrics (text exposition format)',
+  tag: 'Server',
+  contentType: METRICS_CONTENT_TYPE,
+  response: s.unknown('Prometheus text format'),
+  handler: ({ res }) => {
+    res.writeHead(200, { 'Content-Type': METRICS_CONTENT_TYPE })
+    res.end(metrics.render())
+    return undefined
+  },
+})
+
+router.add({
+  method: 'GET',
+  path: '/events',
+  summary: 'Page through the full event history (newest first by default)',
+  tag: 'Events',
+  query: {
+    session: 'Claude session ID',
+    type: "Hook event type ('pre_tool_use', 'stop', ...)",
+    tool: 'Tool name',
+    since: 'Events at or after this time (Unix ms or ISO date)',
+    until: 'Events at or before this time (Unix ms or ISO date)',
+    q: 'Case-insensitive text search',
+    cursor: 'nextCursor from the previous page',
+    limit: 'Page size (default 100, max 1000)',
+    order: "'desc' (default) or 'asc'",
+  },
+  response: schemas.EventPageResponse,
+  handler: ({ query }) => {
+    const cursor = query.get('cursor') ?? undefined
+    if (cursor !== undefined && !/^\d+$/.test(cursor)) throw new HttpError(400, 'Invalid cursor')
+    const order = query.get('order') ?? 'desc'
+    if (order !== 'asc' && order !== 'desc') throw new HttpError(400, "order must be 'asc' or 'desc'")
+    const limit = query.get('limit')
+    if (limit !== null && !/^\d+$/.test(limit)) throw new HttpError(400, 'limit must be a positive integer')
+
+    const eventQuery: EventQuery = {
+      sessionId: query.get('session') || undefined,
+      type: query.get('type') || undefined,
+      tool: query.get('tool') || undefined,
+      since: parseTimeParam(query, 'since'),
+      until: parseTimeParam(query, 'until'),
+      q: query.get('q') || undefined,
+      cursor,
+      limit: limit !== null ? Number(limit) : undefined,
+      order,
+    }
+    return { body: { ok: true, ...eventStore.query(eventQuery) } }
+  },
+})
+
+router.add({
+  method: 'GET',
+  path: '/permissions/audit',
+  summary: 'Permission prompts and how they were answered (newest first)',
+  tag: 'Sessions',
+  query: {
+    session: 'Managed or Claude session ID',
+    tool: 'Tool name',
+    source: "Comma-separated answer sources ('ui', 'websocket', 'rest', 'rule', 'terminal')",
+    since: 'Answered at or after this time (Unix ms or ISO date)',
+    until: 'Answered at or before this time (Unix ms or ISO date)',
+    cursor: 'nextCursor from the previous page',
+    limit: 'Page size (default 100, max 1000)',
+    format: "'json' or 'csv' to download every matching entry instead of a page",
+  },
+  response: schemas.PermissionAuditPage,
+  // Every command and file path that was approved or denied
+  auth: 'token',
+  handler: ({ res, query }) => {
+    const cursor = query.get('cursor') ?? undefined
+    if (cursor !== undefined && !/^\d+$/.test(cursor)) throw new HttpError(400, 'Invalid cursor')
+    const limit = query.get('limit')
+    if (limit !== null && !/^\d+$/.test(limit)) throw new HttpError(400, 'limit must be a positive integer')
+    const format = query.get('format')
+    if (format !== null && format !== 'json' && format !== 'csv') throw new HttpError(400, "format must be 'json' or 'csv'")
+    const sources = parseListParam(query.get('source'))
+    const validSources: PermissionAnswerSource[] = ['ui', 'websocket', 'rest', 'rule', 'terminal']
+    for (const source of sources ?? []) {
+      if (!validSources.includes(source as PermissionAnswerSource)) throw new HttpError(400, `Unknown source: ${source}`)
+    }
 
-        res.writeHead(200, { 'Content-Type': 'application/json' })
-        res.end(JSON.stringify({ ok: true, saved: PENDING_PROMPT_FILE }))
-      } catch (e) {
-        debug(`Failed to save prompt: ${e}`)
-        res.writeHead(400, { 'Content-Type': 'application/json' })
-        res.end(JSON.stringify({ error: 'Invalid JSON' }))
-      }
-    }).catch(() => {
-      res.writeHead(413, { 'Content-Type': 'application/json' })
-      res.end(JSON.stringify({ error: 'Request body too large' }))
-    })
-    return
-  }
+    const auditQuery: AuditQuery = {
+      sessionId: query.get('session') || undefined,
+      tool: query.get('tool') || undefined,
+      source: sources as Set<PermissionAnswerSource> | undefined,
+      since: parseTimeParam(query, 'since'),
+      until: parseTimeParam(query, 'until'),
+      cursor,
+      limit: limit !== null ? Number(limit) : undefined,
+    }
 
-  // Get pending prompt
-  if (req.method === 'GET' && req.url === '/prompt') {
-    if (existsSync(PENDING_PROMPT_FILE)) {
-      const prompt = readFileSync(PENDING_PROMPT_FILE, 'utf-8')
-      res.writeHead(200, { 'Content-Type': 'application/json' })
-      res.end(JSON.stringify({ prompt, file: PENDING_PROMPT_FILE }))
-    } else {
-      res.writeHead(200, { 'Content-Type': 'application/json' })
-      res.end(JSON.stringify({ prompt: null }))
+    if (format) {
+      const entries = permissionAudit.matching(auditQuery)
+      const filename = `permissions-audit-${new Date().toISOString().slice(0, 10)}.${format}`
+      res.writeHead(200, {
+        'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      })
+      res.end(format === 'csv' ? auditToCsv(entries) : JSON.stringify(entries, null, 2))
+      return undefined
     }
-    return
-  }
 
-  // Clear pending prompt
-  if (req.method === 'DELETE' && req.url === '/prompt') {
-    if (existsSync(PENDING_PROMPT_FILE)) {
-      unlinkSync(PENDING_PROMPT_FILE)
-      log('Pending prompt cleared')
+    return { body: { ok: true, ...permissionAudit.query(auditQuery) } }
+  },
+})
+
+router.add({
+  method: 'GET',
+  path: '/events/stream',
+  summary: 'Server-Sent Events stream of the messages WebSocket clients receive',
+  tag: 'Events',
+  query: {
+    session: 'Comma-separated managed or Claude session IDs to follow',
+    type: "Comma-separated message types ('event', 'sessions', 'tokens', ...) or hook event types ('pre_tool_use', ...)",
+    lastEventId: 'Resume after this event ID (same as the Last-Event-ID header)',
+    token: 'API token, when the server requires one (EventSource cannot send an Authorization header)',
+  },
+  contentType: 'text/event-stream',
+  response: s.unknown('SSE stream; each data line is a ServerMessage as JSON, hook events carry their ID as the SSE id'),
+  // EventSource can't send an Authorization header
+  auth: 'query-token',
+  handler: ({ req, res, query }) => {
+    const filter: StreamFilter = {
+      sessions: parseListParam(query.get('session')),
+      types: parseListParam(query.get('type')),
     }
-    res.writeHead(200, { 'Content-Type': 'application/json' })
-    res.end(JSON.stringify({ ok: true }))
-    return
-  }
 
-  // Get tmux output (Claude's responses)
-  if (req.method === 'GET' && req.url === '/tmux-output') {
+    // Resume: replay buffered events after the last one the client saw
+    const header = req.headers['last-event-id']
+    const lastEventId = (Array.isArray(header) ? header[0] : header) ?? query.get('lastEventId')
+    const backlog: ServerMessage[] = lastEventId
+      ? eventsAfter(lastEventId).map(event => ({ type: 'event', payload: event }))
+      : []
+
+    eventStreams.add(res, filter, backlog)
+    log(`Event stream opened (${eventStreams.size} total)${backlog.length > 0 ? `, resumed with ${backlog.length} events` : ''}`)
+    res.on('close', () => log(`Event stream closed (${eventStreams.size} total)`))
+    return undefined
+  },
+})
+
+// -------------------------------------------------------------------------
+// Default tmux session (legacy single-session API)
+// -------------------------------------------------------------------------
+
+router.add({
+  method: 'POST',
+  path: '/prompt',
+  summary: 'Send a prompt to the default tmux session',
+  tag: 'Legacy',
+  body: s.object<{ prompt: string }>({ prompt: s.string({ minLength: 1 }) }),
+  response: s.object<{ ok: boolean; sent: boolean; error?: string }>({
+    ok: s.boolean(),
+    sent: s.boolean(),
+    error: s.optional(s.string()),
+  }),
+  handler: async ({ body }) => {
     try {
-      validateTmuxSession(TMUX_SESSION)
-    } catch {
-      res.writeHead(400, { 'Content-Type': 'application/json' })
-      res.end(JSON.stringify({ ok: false, error: 'Invalid tmux session name', output: '' }))
-      return
+      // Use safe helper to prevent command injection
+      await sendToTmuxSafe(TMUX_SESSION, body.prompt)
+      log(`Prompt sent to tmux session: ${TMUX_SESSION}`)
+      return { body: { ok: true, sent: true } }
+    } catch (error) {
+      log(`tmux send failed: ${(error as Error).message}`)
+      return { body: { ok: false, sent: false, error: (error as Error).message } }
     }
-
-    // Capture last 100 lines from tmux pane
-    execFile('tmux', ['capture-pane', '-t', TMUX_SESSION, '-p', '-S', '-100'], { ...EXEC_OPTIONS, maxBuffer: 1024 * 1024 }, (error, stdout) => {
-      if (error) {
-        res.writeHead(200, { 'Content-Type': 'application/json' })
-        res.end(JSON.stringify({ ok: false, error: error.message, output: '' }))
-        return
-      }
-      res.writeHead(200, { 'Content-Type': 'application/json' })
-      res.end(JSON.stringify({ ok: true, output: stdout }))
-    })
-    return
-  }
-
-  // Cancel - send Ctrl+C to tmux (legacy, for backwards compat)
-  if (req.method === 'POST' && req.url === '/cancel') {
+  },
+})
+
+router.add({
+  method: 'GET',
+  path: '/tmux-output',
+  summary: "Last 100 lines of the default tmux session's screen",
+  tag: 'Legacy',
+  response: s.object<{ ok: boolean; output: string; error?: string }>({
+    ok: s.boolean(),
+    output: s.string(),
+    error: s.optional(s.string()),
+  }),
+  handler: async () => {
+    requireTmuxSession(TMUX_SESSION)
     try {
-      validateTmuxSession(TMUX_SESSION)
-    } catch {
-      res.writeHead(400, { 'Content-Type': 'application/json' })
-      res.end(JSON.stringify({ ok: false, error: 'Invalid tmux session name' }))
-      return
+      return { body: { ok: true, output: await sessionBackend.capture(TMUX_SESSION, 100) } }
+    } catch (error) {
+      return { body: { ok: false, error: (error as Error).message, output: '' } }
     }
-
-    execFile('tmux', ['send-keys', '-t', TMUX_SESSION, 'C-c'], EXEC_OPTIONS, (error) => {
-      res.writeHead(200, { 'Content-Type': 'application/json' })
-      if (error) {
-        log(`Cancel failed: ${error.message}`)
-        res.end(JSON.stringify({ ok: false, error: error.message }))
-      } else {
-        log(`Sent Ctrl+C to tmux session: ${TMUX_SESSION}`)
-        res.end(JSON.stringify({ ok: true }))
-      }
-    })
-    return
-  }
-
-  // ============================================================================
-  // Session Management Endpoints
-  // ============================================================================
-
-  // Get server info (cwd, etc.)
-  if (req.method === 'GET' && req.url === '/info') {
-    res.writeHead(200, { 'Content-Type': 'application/json' })
-    res.end(JSON.stringify({ ok: true, cwd: process.cwd() }))
-    return
-  }
-
-  // List all sessions
-  if (req.method === 'GET' && req.url === '/sessions') {
-    res.writeHead(200, { 'Content-Type': 'application/json' })
-    res.end(JSON.stringify({ ok: true, sessions: getSessions() }))
-    return
-  }
-
-  // Force refresh sessions (trigger health check)
-  if (req.method === 'POST' && req.url === '/sessions/refresh') {
+  },
+})
+
+router.add({
+  method: 'POST',
+  path: '/cancel',
+  summary: 'Send Ctrl+C to the default tmux session',
+  tag: 'Legacy',
+  response: schemas.OkResponse,
+  handler: async () => {
+    requireTmuxSession(TMUX_SESSION)
+    try {
+      await sessionBackend.sendKeys(TMUX_SESSION, ['C-c'])
+      log(`Sent Ctrl+C to tmux session: ${TMUX_SESSION}`)
+      return { body: { ok: true } }
+    } catch (error) {
+      log(`Cancel failed: ${(error as Error).message}`)
+      return { body: { ok: false, error: (error as Error).message } }
+    }
+  },
+})
+
+// -------------------------------------------------------------------------
+// Sessions
+// -------------------------------------------------------------------------
+
+router.add({
+  method: 'GET',
+  path: '/sessions',
+  summary: 'List managed sessions',
+  tag: 'Sessions',
+  response: schemas.SessionListResponse,
+  handler: () => ({ body: { ok: true, sessions: getSessions() } }),
+})
+
+router.add({
+  method: 'POST',
+  path: '/sessions',
+  summary: 'Create a session',
+  tag: 'Sessions',
+  body: s.optional(schemas.CreateSessionRequest),
+  response: schemas.SessionResponse,
+  status: 201,
+  handler: async ({ body }) => {
+    try {
+      return { body: { ok: true, session: await createSession(body ?? {}) } }
+    } catch (e) {
+      throw new HttpError(500, (e as Error).message)
+    }
+  },
+})
+
+router.add({
+  method: 'POST',
+  path: '/sessions/refresh',
+  summary: 'Run a session health check now',
+  tag: 'Sessions',
+  response: schemas.SessionListResponse,
+  handler: () => {
     log('Manual session refresh requested')
     checkSessionHealth()
     // Return current sessions (health check updates async, but we give immediate response)
-    res.writeHead(200, { 'Content-Type': 'application/json' })
-    res.end(JSON.stringify({ ok: true, sessions: getSessions() }))
-    return
-  }
-
-  // Create a new session
-  if (req.method === 'POST' && req.url === '/sessions') {
-    collectRequestBody(req).then(async body => {
-      try {
-        const options = body ? JSON.parse(body) as CreateSessionRequest : {}
-        const session = await createSession(options)
-        res.writeHead(201, { 'Content-Type': 'application/json' })
-        res.end(JSON.stringify({ ok: true, session }))
-      } catch (e) {
-        res.writeHead(500, { 'Content-Type': 'application/json' })
-        res.end(JSON.stringify({ ok: false, error: (e as Error).message }))
-      }
-    }).catch(() => {
-      res.writeHead(413, { 'Content-Type': 'application/json' })
-      res.end(JSON.stringify({ error: 'Request body too large' }))
-    })
-    return
-  }
-
-  // ============================================================================
-  // Replay API (session history for replay mode)
-  // ============================================================================
-
-  // GET /replay/sessions — list past sessions available for replay
-  if (req.method === 'GET' && req.url === '/replay/sessions') {
-    // Group events by sessionId
-    const sessionMap = new Map<string, ClaudeEvent[]>()
-    for (const event of events) {
-      let list = sessionMap.get(event.sessionId)
-      if (!list) {
-        list = []
-        sessionMap.set(event.sessionId, list)
-      }
-      list.push(event)
+    return { body: { ok: true, sessions: getSessions() } }
+  },
+})
+
+router.add({
+  method: 'POST',
+  path: '/sessions/broadcast',
+  summary: 'Send one prompt to several sessions',
+  tag: 'Sessions',
+  body: schemas.BroadcastPromptRequest,
+  response: schemas.okWith('results', s.array(schemas.BroadcastPromptResult)),
+  handler: async ({ body }) => {
+    const results = await broadcastPrompt(body.sessionIds, body.prompt)
+    return { body: { ok: results.every(r => r.ok), results } }
+  },
+})
+
+router.add({
+  method: 'GET',
+  path: '/sessions/:id',
+  summary: 'Get a session',
+  tag: 'Sessions',
+  response: schemas.SessionResponse,
+  handler: ({ params }) => ({ body: { ok: true, session: requireSession(params.id) } }),
+})
+
+router.add({
+  method: 'PATCH',
+  path: '/sessions/:id',
+  summary: 'Rename a session or move its zone',
+  tag: 'Sessions',
+  body: schemas.UpdateSessionRequest,
+  response: schemas.SessionResponse,
+  handler: ({ params, body }) => {
+    const session = updateSession(params.id, body)
+    if (!session) throw new HttpError(404, 'Session not found')
+    return { body: { ok: true, session } }
+  },
+})
+
+router.add({
+  method: 'DELETE',
+  path: '/sessions/:id',
+  summary: 'Kill a session (the body says what to do with its worktree)',
+  tag: 'Sessions',
+  body: s.optional(schemas.DeleteSessionRequest),
+  response: schemas.DeleteSessionResponse,
+  handler: async ({ params, body }) => {
+    const { deleted, worktreeError } = await deleteSession(params.id, body ?? {})
+    if (!deleted) throw new HttpError(404, 'Session not found')
+    return { body: worktreeError ? { ok: true, worktreeError } : { ok: true } }
+  },
+})
+
+router.add({
+  method: 'POST',
+  path: '/sessions/:id/prompt',
+  summary: 'Send a prompt to a session (queued while it is busy, unless immediate)',
+  tag: 'Sessions',
+  body: schemas.SessionPromptRequest,
+  response: schemas.PromptResult,
+  handler: async ({ params, body }) => {
+    const result = body.immediate
+      ? await sendPromptToSession(params.id, body.prompt)
+      : await submitPromptToSession(params.id, body.prompt)
+    return { status: result.ok ? 200 : managedSessions.has(params.id) ? 409 : 404, body: result }
+  },
+})
+
+router.add({
+  method: 'POST',
+  path: '/sessions/:id/cancel',
+  summary: 'Send Ctrl+C to a session',
+  tag: 'Sessions',
+  response: schemas.OkResponse,
+  handler: async ({ params }) => {
+    const session = requireSession(params.id)
+    requireTmuxSession(session.tmuxSession)
+    try {
+      await cancelSession(session)
+      return { body: { ok: true } }
+    } catch (error) {
+      return { body: { ok: false, error: (error as Error).message } }
     }
-
-    const summaries: ReplaySessionSummary[] = []
-
-    for (const [sessionId, sessionEvents] of sessionMap) {
-      // Filter out sessions with too few events to be interesting
-      if (sessionEvents.length < 3) continue
-
-      // Find first prompt
-      let firstPrompt: string | null = null
-      for (const e of sessionEvents) {
-        if (e.type === 'user_prompt_submit') {
-          firstPrompt = (e as UserPromptSubmitEvent).prompt
-          break
-        }
-      }
-
-      // Count tools
-      const tools: Record<string, number> = {}
-      let toolCount = 0
-      for (const e of sessionEvents) {
-        if (e.type === 'pre_tool_use') {
-          const tool = (e as PreToolUseEvent).tool
-          tools[tool] = (tools[tool] ?? 0) + 1
-          toolCount++
-        }
-      }
-
-      // Determine name from managed session if available
-      const managed = findManagedSession(sessionId)
-      const name = managed?.name ?? `Session ${sessionId.slice(0, 8)}`
-
-      // Time range
-      const startTime = sessionEvents[0].timestamp
-      const endTime = sessionEvents[sessionEvents.length - 1].timestamp
-
-      // CWD from first event
-      const cwd = sessionEvents[0].cwd || null
-
-      summaries.push({
-        sessionId,
-        name,
-        firstPrompt,
-        toolCount,
-        eventCount: sessionEvents.length,
-        startTime,
-        endTime,
-        cwd,
-        tools,
-      })
+  },
+})
+
+router.add({
+  method: 'POST',
+  path: '/sessions/:id/keys',
+  summary: 'Send key presses (arrows, Esc, Tab, Enter, ...) to a session',
+  tag: 'Sessions',
+  body: schemas.SendKeysRequest,
+  response: schemas.OkResponse,
+  handler: async ({ params, body }) => {
+    const session = requireSession(params.id)
+    requireTmuxSession(session.tmuxSession)
+    try {
+      await sessionBackend.sendKeys(session.tmuxSession, body.keys)
+      debug(`Sent keys to ${session.name}: ${body.keys.join(' ')}`)
+      return { body: { ok: true } }
+    } catch (error) {
+      return { body: { ok: false, error: (error as Error).message } }
     }
-
-    // Sort most recent first
-    summaries.sort((a, b) => b.endTime - a.endTime)
-
-    res.writeHead(200, { 'Content-Type': 'application/json' })
-    res.end(JSON.stringify({ ok: true, sessions: summaries }))
-    return
-  }
-
-  // GET /replay/sessions/:sessionId/events — get all events for a session
-  const replayMatch = req.url?.match(/^\/replay\/sessions\/([^/?]+)\/events$/)
-  if (req.method === 'GET' && replayMatch) {
-    const sessionId = decodeURIComponent(replayMatch[1])
-    const sessionEvents = events.filter(e => e.sessionId === sessionId)
-
-    res.writeHead(200, { 'Content-Type': 'application/json' })
-    res.end(JSON.stringify({ ok: true, events: sessionEvents }))
-    return
-  }
-
-  // ============================================================================
-  // Projects API (known directories for autocomplete)
-  // ============================================================================
-
-  // List all known projects
-  if (req.method === 'GET' && req.url === '/projects') {
-    res.writeHead(200, { 'Content-Type': 'application/json' })
-    res.end(JSON.stringify({ ok: true, projects: projectsManager.getProjects() }))
-    return
-  }
-
-  // Autocomplete path
-  if (req.method === 'GET' && req.url?.startsWith('/projects/autocomplete')) {
-    const url = new URL(req.url, `http://localhost:${PORT}`)
-    const query = url.searchParams.get('q') || ''
-    const results = projectsManager.autocomplete(query)
-    res.writeHead(200, { 'Content-Type': 'application/json' })
-    res.end(JSON.stringify({ ok: true, results }))
-    return
-  }
-
-  // Remove a project from the list
-  if (req.method === 'DELETE' && req.url?.startsWith('/projects/')) {
-    const path = decodeURIComponent(req.url.slice('/projects/'.length))
-    projectsManager.removeProject(path)
-    res.writeHead(200, { 'Content-Type': 'application/json' })
-    res.end(JSON.stringify({ ok: true }))
-    return
-  }
-
-  // Session-specific endpoints: /sessions/:id
-  const sessionMatch = req.url?.match(/^\/sessions\/([a-f0-9-]+)(?:\/(.+))?$/)
-  if (sessionMatch) {
-    const sessionId = sessionMatch[1]
-    const action = sessionMatch[2] // e.g., "prompt", "cancel"
-
-    // GET /sessions/:id - Get session details
-    if (req.method === 'GET' && !action) {
-      const session = getSession(sessionId)
-      if (session) {
-        res.writeHead(200, { 'Content-Type': 'application/json' })
-        res.end(JSON.stringify({ ok: true, session }))
-      } else {
-        res.writeHead(404, { 'Content-Type': 'application/json' })
-        res.end(JSON.stringify({ ok: false, error: 'Session not found' }))
-      }
-      return
+  },
+})
+
+router.add({
+  method: 'POST',
+  path: '/sessions/:id/permission',
+  summary: 'Answer a permission prompt',
+  tag: 'Sessions',
+  body: s.object<{ response: string; source?: 'ui' }>({
+    response: s.string({ minLength: 1, description: 'Option number to select' }),
+    source: s.optional(s.literal('ui')),
+  }),
+  response: schemas.OkResponse,
+  handler: ({ req, params, body }) => {
+    requireSession(params.id)
+    sendPermissionResponse(params.id, body.response, { source: body.source ?? 'rest', client: req.socket.remoteAddress })
+    return { body: { ok: true } }
+  },
+})
+
+router.add({
+  method: 'POST',
+  path: '/sessions/:id/fork',
+  summary: "Create a session resuming this one's conversation",
+  tag: 'Sessions',
+  body: s.optional(schemas.ForkSessionRequest),
+  response: schemas.SessionResponse,
+  status: 201,
+  handler: async ({ params, body }) => {
+    const session = requireSession(params.id)
+    if (!session.claudeSessionId) {
+      throw new HttpError(409, 'Session has no Claude conversation to fork yet')
     }
-
-    // PATCH /sessions/:id - Update session (rename)
-    if (req.method === 'PATCH' && !action) {
-      collectRequestBody(req).then(body => {
-        try {
-          const updates = JSON.parse(body) as UpdateSessionRequest
-          const session = updateSession(sessionId, updates)
-          if (session) {
-            res.writeHead(200, { 'Content-Type': 'application/json' })
-            res.end(JSON.stringify({ ok: true, session }))
-          } else {
-            res.writeHead(404, { 'Content-Type': 'application/json' })
-            res.end(JSON.stringify({ ok: false, error: 'Session not found' }))
-          }
-        } catch (e) {
-          res.writeHead(400, { 'Content-Type': 'application/json' })
-          res.end(JSON.stringify({ ok: false, error: 'Invalid JSON' }))
-        }
-      }).catch(() => {
-        res.writeHead(413, { 'Content-Type': 'application/json' })
-        res.end(JSON.stringify({ error: 'Request body too large' }))
-      })
-      return
+    try {
+      return { body: { ok: true, session: await forkSession(session, body ?? {}) } }
+    } catch (error) {
+      throw new HttpError(500, (error as Error).message)
     }
-
-    // DELETE /sessions/:id - Kill session
-    if (req.method === 'DELETE' && !action) {
-      deleteSession(sessionId).then((deleted) => {
-        if (deleted) {
-          res.writeHead(200, { 'Content-Type': 'application/json' })
-          res.end(JSON.stringify({ ok: true }))
-        } else {
-          res.writeHead(404, { 'Content-Type': 'application/json' })
-          res.end(JSON.stringify({ ok: false, error: 'Session not found' }))
-        }
-      })
-      return
+  },
+})
+
+router.add({
+  method: 'POST',
+  path: '/sessions/:id/restart',
+  summary: 'Restart an offline session',
+  tag: 'Sessions',
+  response: schemas.SessionResponse,
+  handler: async ({ params }) => {
+    const session = requireSession(params.id)
+
+    // Validate inputs to prevent command injection
+    requireTmuxSession(session.tmuxSession)
+    let cwd: string
+    try {
+      cwd = validateDirectoryPath(session.cwd || process.cwd())
+    } catch (err) {
+      throw new HttpError(400, `Invalid directory: ${err instanceof Error ? err.message : err}`)
     }
 
-    // POST /sessions/:id/prompt - Send prompt to specific session
-    if (req.method === 'POST' && action === 'prompt') {
-      collectRequestBody(req).then(async body => {
-        try {
-          const { prompt } = JSON.parse(body) as SessionPromptRequest
-          if (!prompt) {
-            res.writeHead(400, { 'Content-Type': 'application/json' })
-            res.end(JSON.stringify({ ok: false, error: 'Prompt is required' }))
-            return
-          }
-          const result = await sendPromptToSession(sessionId, prompt)
-          res.writeHead(result.ok ? 200 : 404, { 'Content-Type': 'application/json' })
-          res.end(JSON.stringify(result))
-        } catch (e) {
-          res.writeHead(400, { 'Content-Type': 'application/json' })
-          res.end(JSON.stringify({ ok: false, error: 'Invalid JSON' }))
-        }
-      }).catch(() => {
-        res.writeHead(413, { 'Content-Type': 'application/json' })
-        res.end(JSON.stringify({ error: 'Request body too large' }))
+    try {
+      // Kill existing session process if it exists (ignore errors)
+      await sessionBackend.kill(session.tmuxSession).catch(() => {})
+      // Respawn the session process with claude
+      await sessionBackend.spawn(session.tmuxSession, {
+        cwd,
+        command: ['claude', '-c', '--permission-mode=bypassPermissions', '--dangerously-skip-permissions'],
+        path: EXEC_PATH,
       })
-      return
+    } catch (error) {
+      throw new HttpError(500, `Failed to restart: ${(error as Error).message}`)
     }
 
-    // POST /sessions/:id/cancel - Send Ctrl+C to specific session
-    if (req.method === 'POST' && action === 'cancel') {
-      const session = getSession(sessionId)
-      if (!session) {
-        res.writeHead(404, { 'Content-Type': 'application/json' })
-        res.end(JSON.stringify({ ok: false, error: 'Session not found' }))
-        return
-      }
+    // Update session state
+    session.status = 'idle'
+    session.lastActivity = Date.now()
+    session.claudeSessionId = undefined // Will be re-linked when events come in
+    session.currentTool = undefined
 
-      try {
-        validateTmuxSession(session.tmuxSession)
-      } catch {
-        res.writeHead(400, { 'Content-Type': 'application/json' })
-        res.end(JSON.stringify({ ok: false, error: 'Invalid tmux session name' }))
-        return
+    // Clear old linking
+    for (const [claudeId, managedId] of claudeToManagedMap) {
+      if (managedId === session.id) {
+        claudeToManagedMap.delete(claudeId)
       }
-
-      execFile('tmux', ['send-keys', '-t', session.tmuxSession, 'C-c'], EXEC_OPTIONS, (error) => {
-        res.writeHead(200, { 'Content-Type': 'application/json' })
-        if (error) {
-          res.end(JSON.stringify({ ok: false, error: error.message }))
-        } else {
-          log(`Sent Ctrl+C to ${session.name}`)
-          res.end(JSON.stringify({ ok: true }))
-        }
-      })
-      return
     }
 
-    // POST /sessions/:id/permission - Respond to a permission prompt
-    if (req.method === 'POST' && action === 'permission') {
-      const session = getSession(sessionId)
-      if (!session) {
-        res.writeHead(404, { 'Content-Type': 'application/json' })
-        res.end(JSON.stringify({ ok: false, error: 'Session not found' }))
-        return
-      }
+    log(`Restarted session: ${session.name} (${session.id.slice(0, 8)})`)
+    broadcastSessions()
+    saveSessions()
+    return { body: { ok: true, session } }
+  },
+})
+
+router.add({
+  method: 'POST',
+  path: '/sessions/:id/link',
+  summary: 'Link a Claude session ID to a managed session',
+  tag: 'Sessions',
+  body: s.object<{ claudeSessionId: string }>({ claudeSessionId: s.string({ minLength: 1 }) }),
+  response: schemas.SessionResponse,
+  handler: ({ params, body: { claudeSessionId } }) => {
+    const session = requireSession(params.id)
+    linkClaudeSession(claudeSessionId, session.id)
+    session.claudeSessionId = claudeSessionId
+    log(`Linked Claude session ${claudeSessionId.slice(0, 8)} to ${session.name}`)
+    broadcastSessions()
+    saveSessions()
+    return { body: { ok: true, session } }
+  },
+})
+
+// -------------------------------------------------------------------------
+// Prompt queue
+// -------------------------------------------------------------------------
+
+router.add({
+  method: 'GET',
+  path: '/sessions/:id/queue',
+  summary: 'List queued prompts',
+  tag: 'Queue',
+  response: schemas.okWith('queue', s.array(schemas.QueuedPrompt)),
+  handler: ({ params }) => {
+    requireSession(params.id)
+    return { body: { ok: true, queue: promptQueue.getQueue(params.id) } }
+  },
+})
+
+router.add({
+  method: 'POST',
+  path: '/sessions/:id/queue',
+  summary: 'Add a prompt to the queue',
+  tag: 'Queue',
+  body: schemas.EnqueuePromptRequest,
+  response: schemas.okWith('item', schemas.QueuedPrompt),
+  status: 201,
+  handler: ({ params, body }) => {
+    requireSession(params.id)
+    const item = promptQueue.enqueue(params.id, body.prompt, body.position)
+    drainPromptQueue(params.id)
+    return { body: { ok: true, item } }
+  },
+})
+
+router.add({
+  method: 'DELETE',
+  path: '/sessions/:id/queue',
+  summary: 'Cancel all queued prompts',
+  tag: 'Queue',
+  response: schemas.OkResponse,
+  handler: ({ params }) => {
+    requireSession(params.id)
+    promptQueue.clear(params.id)
+    if (clearQueueFailure(params.id)) broadcastSessions()
+    return { body: { ok: true } }
+  },
+})
+
+router.add({
+  method: 'POST',
+  path: '/sessions/:id/queue/retry',
+  summary: 'Retry sending the next queued prompt now (after sends failed)',
+  tag: 'Queue',
+  response: schemas.OkResponse,
+  handler: ({ params }) => {
+    requireSession(params.id)
+    if (clearQueueFailure(params.id)) broadcastSessions()
+    drainPromptQueue(params.id)
+    return { body: { ok: true } }
+  },
+})
+
+router.add({
+  method: 'PATCH',
+  path: '/sessions/:id/queue/:itemId',
+  summary: 'Edit or move a queued prompt',
+  tag: 'Queue',
+  body: schemas.UpdateQueuedPromptRequest,
+  response: schemas.okWith('item', schemas.QueuedPrompt),
+  handler: ({ params, body }) => {
+    const item = promptQueue.update(params.id, params.itemId, body)
+    if (!item) throw new HttpError(404, 'Queued prompt not found')
+    return { body: { ok: true, item } }
+  },
+})
+
+router.add({
+  method: 'DELETE',
+  path: '/sessions/:id/queue/:itemId',
+  summary: 'Cancel a queued prompt',
+  tag: 'Queue',
+  response: schemas.OkResponse,
+  handler: ({ params }) => {
+    if (!promptQueue.remove(params.id, params.itemId)) throw new HttpError(404, 'Queued prompt not found')
+    return { body: { ok: true } }
+  },
+})
+
+// -------------------------------------------------------------------------
+// Schedules
+// -------------------------------------------------------------------------
+
+/** Get a session's schedule, or fail the request with 404 */
+function requireSchedule(sessionId: string, scheduleId: string): PromptSchedule {
+  const schedule = scheduleManager.getSchedule(scheduleId)
+  if (!schedule || schedule.sessionId !== sessionId) throw new HttpError(404, 'Schedule not found')
+  return schedule
+}
 
-      collectRequestBody(req).then(body => {
-        try {
-          const { response } = JSON.parse(body) as { response: string }
-          if (!response) {
-            res.writeHead(400, { 'Content-Type': 'application/json' })
-            res.end(JSON.stringify({ ok: false, error: 'Missing response field' }))
-            return
-          }
-
-          sendPermissionResponse(sessionId, response)
-          res.writeHead(200, { 'Content-Type': 'application/json' })
-          res.end(JSON.stringify({ ok: true }))
-        } catch (e) {
-          res.writeHead(400, { 'Content-Type': 'application/json' })
-          res.end(JSON.stringify({ ok: false, error: 'Invalid JSON' }))
-        }
-      }).catch(() => {
-        res.writeHead(413, { 'Content-Type': 'application/json' })
-        res.end(JSON.stringify({ error: 'Request body too large' }))
-      })
-      return
+router.add({
+  method: 'GET',
+  path: '/sessions/:id/schedules',
+  summary: 'List scheduled prompts',
+  tag: 'Schedules',
+  response: schemas.okWith('schedules', s.array(schemas.PromptSchedule)),
+  handler: ({ params }) => {
+    requireSession(params.id)
+    return { body: { ok: true, schedules: scheduleManager.getSchedules(params.id) } }
+  },
+})
+
+router.add({
+  method: 'POST',
+  path: '/sessions/:id/schedules',
+  summary: 'Create a scheduled prompt',
+  tag: 'Schedules',
+  body: schemas.CreateScheduleRequest,
+  response: schemas.okWith('schedule', schemas.PromptSchedule),
+  status: 201,
+  handler: ({ params, body }) => {
+    requireSession(params.id)
+    try {
+      return { body: { ok: true, schedule: scheduleManager.create(params.id, body.prompt, body.trigger, body.enabled ?? true) } }
+    } catch (e) {
+      throw new HttpError(400, (e as Error).message)
     }
-
-    // POST /sessions/:id/restart - Restart an offline session
-    if (req.method === 'POST' && action === 'restart') {
-      const session = getSession(sessionId)
-      if (!session) {
-        res.writeHead(404, { 'Content-Type': 'application/json' })
-        res.end(JSON.stringify({ ok: false, error: 'Session not found' }))
-        return
-      }
-
-      // Validate inputs to prevent command injection
-      try {
-        validateTmuxSession(session.tmuxSession)
-      } catch {
-        res.writeHead(400, { 'Content-Type': 'application/json' })
-        res.end(JSON.stringify({ ok: false, error: 'Invalid tmux session name' }))
-        return
-      }
-
-      let cwd: string
-      try {
-        cwd = validateDirectoryPath(session.cwd || process.cwd())
-      } catch (err) {
-        res.writeHead(400, { 'Content-Type': 'application/json' })
-        res.end(JSON.stringify({ ok: false, error: `Invalid directory: ${err instanceof Error ? err.message : err}` }))
-        return
-      }
-
-      // Kill existing tmux session if it exists (ignore errors)
-      execFile('tmux', ['kill-session', '-t', session.tmuxSession], EXEC_OPTIONS, () => {
-        // Respawn tmux session with claude using execFile
-        execFile('tmux', [
-          'new-session',
-          '-d',
-          '-s', session.tmuxSession,
-          '-c', cwd,
-          `PATH=${EXEC_PATH} claude -c --permission-mode=bypassPermissions --dangerously-skip-permissions`
-        ], EXEC_OPTIONS, (error) => {
-          if (error) {
-            res.writeHead(500, { 'Content-Type': 'application/json' })
-            res.end(JSON.stringify({ ok: false, error: `Failed to restart: ${error.message}` }))
-            return
-          }
-
-          // Update session state
-          session.status = 'idle'
-          session.lastActivity = Date.now()
-          session.claudeSessionId = undefined // Will be re-linked when events come in
-          session.currentTool = undefined
-
-          // Clear old linking
-          for (const [claudeId, managedId] of claudeToManagedMap) {
-            if (managedId === session.id) {
-              claudeToManagedMap.delete(claudeId)
-            }
-          }
-
-          log(`Restarted session: ${session.name} (${session.id.slice(0, 8)})`)
-          broadcastSessions()
-          saveSessions()
-
-          res.writeHead(200, { 'Content-Type': 'application/json' })
-          res.end(JSON.stringify({ ok: true, session }))
-        })
-      })
-      return
+  },
+})
+
+router.add({
+  method: 'PATCH',
+  path: '/sessions/:id/schedules/:scheduleId',
+  summary: 'Edit, pause or resume a schedule',
+  tag: 'Schedules',
+  body: schemas.UpdateScheduleRequest,
+  response: schemas.okWith('schedule', schemas.PromptSchedule),
+  handler: ({ params, body }) => {
+    const schedule = requireSchedule(params.id, params.scheduleId)
+    let updated: PromptSchedule | null
+    try {
+      updated = scheduleManager.update(schedule.id, body)
+    } catch (e) {
+      throw new HttpError(400, (e as Error).message)
     }
+    if (!updated) throw new HttpError(404, 'Schedule not found')
+    return { body: { ok: true, schedule: updated } }
+  },
+})
+
+router.add({
+  method: 'DELETE',
+  path: '/sessions/:id/schedules/:scheduleId',
+  summary: 'Delete a schedule',
+  tag: 'Schedules',
+  response: schemas.OkResponse,
+  handler: ({ params }) => {
+    scheduleManager.remove(requireSchedule(params.id, params.scheduleId).id)
+    return { body: { ok: true } }
+  },
+})
+
+// -------------------------------------------------------------------------
+// Git (changes in a session's repository)
+// -------------------------------------------------------------------------
+
+/** Root of the repository a session works in, or fail the request with 400 */
+async function requireSessionRepo(id: string): Promise<string> {
+  const session = requireSession(id)
+  if (!session.cwd) throw new HttpError(400, 'Session has no working directory')
+  const root = await gitStatusManager.getRepoRoot(session.cwd)
+  if (!root) throw new HttpError(400, `Not a git repository: ${session.cwd}`)
+  return root
+}
 
-    // POST /sessions/:id/link - Link Claude session ID to managed session
-    if (req.method === 'POST' && action === 'link') {
-      collectRequestBody(req).then(body => {
-        try {
-          const { claudeSessionId } = JSON.parse(body) as { claudeSessionId: string }
-          if (!claudeSessionId) {
-            res.writeHead(400, { 'Content-Type': 'application/json' })
-            res.end(JSON.stringify({ ok: false, error: 'claudeSessionId is required' }))
-            return
-          }
-          const session = getSession(sessionId)
-          if (!session) {
-            res.writeHead(404, { 'Content-Type': 'application/json' })
-            res.end(JSON.stringify({ ok: false, error: 'Session not found' }))
-            return
-          }
-          linkClaudeSession(claudeSessionId, sessionId)
-          session.claudeSessionId = claudeSessionId
-          log(`Linked Claude session ${claudeSessionId.slice(0, 8)} to ${session.name}`)
-          broadcastSessions()
-          saveSessions()
-          res.writeHead(200, { 'Content-Type': 'application/json' })
-          res.end(JSON.stringify({ ok: true, session }))
-        } catch (e) {
-          res.writeHead(400, { 'Content-Type': 'application/json' })
-          res.end(JSON.stringify({ ok: false, error: 'Invalid JSON' }))
-        }
-      }).catch(() => {
-        res.writeHead(413, { 'Content-Type': 'application/json' })
-        res.end(JSON.stringify({ error: 'Request body too large' }))
-      })
-      return
-    }
+/** Check a path names something inside the repository, or fail the request with 400 */
+function requireRepoPath(path: string): string {
+  if (isAbsolute(path) || path.split(/[\\/]/).includes('..')) {
+    throw new HttpError(400, 'Paths must be relative to the repository root')
   }
+  return path
+}
 
-  // -------------------------------------------------------------------------
-  // Text Tiles API
-  // -------------------------------------------------------------------------
+/**
+ * Run a git action in a session's repository and refresh its git status
+ * straight away. Refused while the session is working, so the action
+ * can't race Claude's own edits; git refusing is a 409 with git's message.
+ */
+async function runGitAction(
+  id: string,
+  describe: string,
+  action: (root: string) => Promise<Partial<schemas.GitActionResponse> | void>
+): Promise<{ body: schemas.GitActionResponse }> {
+  const session = requireSession(id)
+  if (session.status === 'working') {
+    throw new HttpError(409, 'Session is working - wait until it stops')
+  }
+  const root = await requireSessionRepo(id)
 
-  // GET /tiles - List all text tiles
-  if (req.method === 'GET' && req.url === '/tiles') {
-    res.writeHead(200, { 'Content-Type': 'application/json' })
-    res.end(JSON.stringify({ ok: true, tiles: getTiles() }))
-    return
+  let result: Partial<schemas.GitActionResponse> | void
+  try {
+    result = await action(root)
+  } catch (error) {
+    throw new HttpError(409, (error as Error).message)
   }
+  log(`Git ${describe} in ${session.name}`)
 
-  // POST /tiles - Create a new text tile
-  if (req.method === 'POST' && req.url === '/tiles') {
-    collectRequestBody(req).then(body => {
-      try {
-        const data = JSON.parse(body) as CreateTextTileRequest
+  const gitStatus = await gitStatusManager.refresh(id)
+  return { body: { ...result, ok: true, gitStatus } }
+}
 
-        if (!data.text || !data.position) {
-          res.writeHead(400, { 'Content-Type': 'application/json' })
-          res.end(JSON.stringify({ ok: false, error: 'Missing text or position' }))
-          return
-        }
+router.add({
+  method: 'GET',
+  path: '/sessions/:id/git/files',
+  summary: 'Changed files (staged, unstaged and untracked) in the session repository',
+  tag: 'Git',
+  response: schemas.okWith('files', s.array(schemas.GitFileChange)),
+  handler: async ({ params }) => {
+    const root = await requireSessionRepo(params.id)
+    return { body: { ok: true, files: await gitStatusManager.getChangedFiles(root) } }
+  },
+})
+
+router.add({
+  method: 'GET',
+  path: '/sessions/:id/git/diff',
+  summary: 'Unified diff of each changed file in the session repository',
+  tag: 'Git',
+  query: {
+    path: 'Only this file (relative to the repository root)',
+    area: "Only 'staged', 'unstaged' or 'untracked' changes",
+  },
+  response: schemas.okWith('diffs', s.array(schemas.GitFileDiff)),
+  // Serves file contents from the working tree
+  auth: 'token',
+  handler: async ({ params, query }) => {
+    const area = query.get('area') ?? undefined
+    if (area !== undefined && area !== 'staged' && area !== 'unstaged' && area !== 'untracked') {
+      throw new HttpError(400, "area must be 'staged', 'unstaged' or 'untracked'")
+    }
+    const path = query.get('path') || undefined
+    if (path !== undefined) requireRepoPath(path)
 
-        const tile: TextTile = {
-          id: crypto.randomUUID(),
-          text: data.text,
-          position: data.position,
-          color: data.color,
-          createdAt: Date.now(),
-        }
+    const root = await requireSessionRepo(params.id)
+    return { body: { ok: true, diffs: await gitStatusManager.getDiffs(root, { path, area }) } }
+  },
+})
 
-        textTiles.set(tile.id, tile)
-        saveTiles()
-        broadcastTiles()
+/** Commits listed per session by default, and at most */
+const DEFAULT_COMMIT_LIMIT = 100
+const MAX_COMMIT_LIMIT = 500
 
-        log(`Created text tile: "${tile.text}" at (${tile.position.q}, ${tile.position.r})`)
-        res.writeHead(201, { 'Content-Type': 'application/json' })
-        res.end(JSON.stringify({ ok: true, tile }))
-      } catch (e) {
-        res.writeHead(400, { 'Content-Type': 'application/json' })
-        res.end(JSON.stringify({ ok: false, error: 'Invalid JSON' }))
-      }
-    }).catch(() => {
-      res.writeHead(413, { 'Content-Type': 'application/json' })
-      res.end(JSON.stringify({ error: 'Request body too large' }))
-    })
-    return
-  }
+/** Most tool calls listed per commit (the ones nearest the commit) */
+const MAX_COMMIT_TOOLS = 50
 
-  // Handle /tiles/:id routes
-  const tilesIdMatch = req.url?.match(/^\/tiles\/([^/?]+)/)
-  if (tilesIdMatch) {
-    const tileId = tilesIdMatch[1]
-    const tile = textTiles.get(tileId)
+/**
+ * Match commits with the session's activity: the last prompt before each
+ * commit and the tool calls since then (or since the previous commit, if
+ * that was later). Commits are newest first; the commit time only has
+ * second precision, so events up to the end of that second count.
+ */
+function correlateCommits(session: ManagedSession, commits: GitCommit[]): SessionCommit[] {
+  const claudeSessionId = session.claudeSessionId
+  return commits.map((commit, i) => {
+    if (!claudeSessionId) return { ...commit, prompt: null, tools: [] }
+
+    const until = commit.timestamp + 999
+    const [promptEvent] = eventStore.query({
+      sessionId: claudeSessionId,
+      type: 'user_prompt_submit',
+      since: session.createdAt,
+      until,
+      limit: 1,
+    }).events as UserPromptSubmitEvent[]
+
+    const previous = commits[i + 1]
+    const since = Math.max(promptEvent?.timestamp ?? session.createdAt, previous ? previous.timestamp + 1000 : 0)
+    const tools: SessionCommitTool[] = (eventStore.query({
+      sessionId: claudeSessionId,
+      type: 'pre_tool_use',
+      since,
+      until,
+      limit: MAX_COMMIT_TOOLS,
+    }).events as PreToolUseEvent[]).reverse().map(event => ({
+      eventId: event.id,
+      timestamp: event.timestamp,
+      tool: event.tool,
+      summary: toolCallSummary(event.toolInput),
+    }))
 
-    // PUT /tiles/:id - Update a text tile
-    if (req.method === 'PUT') {
-      if (!tile) {
-        res.writeHead(404, { 'Content-Type': 'application/json' })
-        res.end(JSON.stringify({ ok: false, error: 'Tile not found' }))
-        return
-      }
+    return {
+      ...commit,
+      prompt: promptEvent ? { eventId: promptEvent.id, timestamp: promptEvent.timestamp, text: promptEvent.prompt } : null,
+      tools,
+    }
+  })
+}
 
-      collectRequestBody(req).then(body => {
-        try {
-          const data = JSON.parse(body) as UpdateTextTileRequest
+/** What a tool call was about, from its input */
+function toolCallSummary(input: Record<string, unknown>): string {
+  const value = input.file_path ?? input.notebook_path ?? input.command ?? input.pattern ?? input.path ?? input.url ?? ''
+  const summary = typeof value === 'string' ? value : ''
+  return summary.length > 200 ? `${summary.slice(0, 200)}…` : summary
+}
 
-          if (data.text !== undefined) tile.text = data.text
-          if (data.position !== undefined) tile.position = data.position
-          if (data.color !== undefined) tile.color = data.color
+router.add({
+  method: 'GET',
+  path: '/sessions/:id/git/commits',
+  summary: 'Commits made since the session was created, with the prompt and tool calls behind each',
+  tag: 'Git',
+  query: {
+    limit: 'Most commits to list (default 100, newest first)',
+  },
+  response: schemas.okWith('commits', s.array(schemas.SessionCommit)),
+  handler: async ({ params, query }) => {
+    const limit = query.get('limit')
+    if (limit !== null && !/^[1-9]\d*$/.test(limit)) throw new HttpError(400, 'limit must be a positive integer')
+
+    const session = requireSession(params.id)
+    const root = await requireSessionRepo(params.id)
+    const commits = await gitStatusManager.getCommits(root, {
+      since: session.createdAt,
+      limit: Math.min(limit !== null ? Number(limit) : DEFAULT_COMMIT_LIMIT, MAX_COMMIT_LIMIT),
+    })
+    return { body: { ok: true, commits: correlateCommits(session, commits) } }
+  },
+})
+
+router.add({
+  method: 'POST',
+  path: '/sessions/:id/git/stage',
+  summary: 'Stage files (new, changed or deleted)',
+  tag: 'Git',
+  body: schemas.GitPathsRequest,
+  response: schemas.GitActionResponse,
+  handler: ({ params, body }) => {
+    const paths = body.paths.map(requireRepoPath)
+    return runGitAction(params.id, `stage ${paths.length} file(s)`, root => gitActions.stage(root, paths))
+  },
+})
+
+router.add({
+  method: 'POST',
+  path: '/sessions/:id/git/unstage',
+  summary: 'Unstage files, keeping their changes',
+  tag: 'Git',
+  body: schemas.GitPathsRequest,
+  response: schemas.GitActionResponse,
+  handler: ({ params, body }) => {
+    const paths = body.paths.map(requireRepoPath)
+    return runGitAction(params.id, `unstage ${paths.length} file(s)`, root => gitActions.unstage(root, paths))
+  },
+})
+
+router.add({
+  method: 'POST',
+  path: '/sessions/:id/git/commit',
+  summary: 'Commit the staged changes',
+  tag: 'Git',
+  body: schemas.GitCommitRequest,
+  response: schemas.GitActionResponse,
+  handler: ({ params, body }) => runGitAction(params.id, 'commit', async (root) => ({
+    commit: await gitActions.commit(root, body.message),
+  })),
+})
+
+router.add({
+  method: 'POST',
+  path: '/sessions/:id/git/stash',
+  summary: 'Stash the working tree and index',
+  tag: 'Git',
+  body: s.optional(schemas.GitStashRequest),
+  response: schemas.GitActionResponse,
+  handler: ({ params, body }) => runGitAction(params.id, 'stash', root => gitActions.stash(root, body ?? {})),
+})
+
+router.add({
+  method: 'POST',
+  path: '/sessions/:id/git/stash/pop',
+  summary: 'Apply and drop the latest stash',
+  tag: 'Git',
+  response: schemas.GitActionResponse,
+  handler: ({ params }) => runGitAction(params.id, 'stash pop', root => gitActions.stashPop(root)),
+})
+
+router.add({
+  method: 'POST',
+  path: '/sessions/:id/git/discard',
+  summary: "Throw away a file's working tree changes (or some of its hunks)",
+  tag: 'Git',
+  body: schemas.GitDiscardRequest,
+  response: schemas.GitActionResponse,
+  handler: ({ params, body }) => {
+    const path = requireRepoPath(body.path)
+    return runGitAction(params.id, `discard ${path}`, root => gitActions.discard(root, path, body.hunks))
+  },
+})
+
+router.add({
+  method: 'GET',
+  path: '/sessions/:id/git/branches',
+  summary: 'Local branches of the session repository',
+  tag: 'Git',
+  response: schemas.okWith('branches', schemas.GitBranches),
+  handler: async ({ params }) => {
+    const root = await requireSessionRepo(params.id)
+    return { body: { ok: true, branches: await gitActions.branches(root) } }
+  },
+})
+
+router.add({
+  method: 'POST',
+  path: '/sessions/:id/git/checkout',
+  summary: 'Switch to a branch (or create one from HEAD)',
+  tag: 'Git',
+  body: schemas.GitCheckoutRequest,
+  response: schemas.GitActionResponse,
+  handler: ({ params, body }) => runGitAction(
+    params.id,
+    `${body.create ? 'create and switch to' : 'switch to'} ${body.branch}`,
+    root => gitActions.checkout(root, body.branch, body.create)
+  ),
+})
+
+router.add({
+  method: 'GET',
+  path: '/sessions/:id/checkpoints',
+  summary: "Snapshots of the session's working tree taken before each prompt, newest first",
+  tag: 'Git',
+  response: schemas.okWith('checkpoints', s.array(schemas.GitCheckpoint)),
+  handler: async ({ params }) => {
+    const root = await requireSessionRepo(params.id)
+    return { body: { ok: true, checkpoints: await gitCheckpoints.list(root, params.id) } }
+  },
+})
+
+router.add({
+  method: 'POST',
+  path: '/sessions/:id/checkpoints/:checkpointId/restore',
+  summary: 'Rewind the working tree to a checkpoint (the current files are checkpointed first)',
+  tag: 'Git',
+  response: schemas.GitActionResponse,
+  handler: async ({ params }) => {
+    const root = await requireSessionRepo(params.id)
+    const checkpoint = (await gitCheckpoints.list(root, params.id)).find(c => c.id === params.checkpointId)
+    if (!checkpoint) throw new HttpError(404, 'Checkpoint not found')
+    return runGitAction(
+      params.id,
+      `rewind to checkpoint ${checkpoint.id}`,
+      async () => {
+        const backup = await gitCheckpoints.restore(root, params.id, checkpoint)
+        await gitCheckpoints.prune(root, params.id)
+        return { checkpoint: backup }
+      }
+    )
+  },
+})
+
+// -------------------------------------------------------------------------
+// Pipelines (session hand-offs)
+// -------------------------------------------------------------------------
+
+/** Get a pipeline, or fail the request with 404 */
+function requirePipeline(id: string): SessionPipeline {
+  const pipeline = pipelineManager.get(id)
+  if (!pipeline) throw new HttpError(404, 'Pipeline not found')
+  return pipeline
+}
 
-          saveTiles()
-          broadcastTiles()
+/** Check a pipeline from → to closes no loop, or fail the request with 409 */
+function requireNoPipelineCycle(fromSessionId: string, toSessionId: string, ignorePipelineId?: string): void {
+  const loop = pipelineManager.findCycle(fromSessionId, toSessionId, ignorePipelineId)
+  if (!loop) return
+  const names = [fromSessionId, ...loop].map(id => managedSessions.get(id)?.name ?? id.slice(0, 8))
+  throw new HttpError(409, `Pipeline would loop forever: ${names.join(' → ')}`)
+}
 
-          log(`Updated text tile: "${tile.text}"`)
-          res.writeHead(200, { 'Content-Type': 'application/json' })
-          res.end(JSON.stringify({ ok: true, tile }))
-        } catch (e) {
-          res.writeHead(400, { 'Content-Type': 'application/json' })
-          res.end(JSON.stringify({ ok: false, error: 'Invalid JSON' }))
-        }
-      }).catch(() => {
-        res.writeHead(413, { 'Content-Type': 'application/json' })
-        res.end(JSON.stringify({ error: 'Request body too large' }))
-      })
-      return
+router.add({
+  method: 'GET',
+  path: '/pipelines',
+  summary: 'List pipelines',
+  tag: 'Pipelines',
+  response: schemas.okWith('pipelines', s.array(schemas.SessionPipeline)),
+  handler: () => ({ body: { ok: true, pipelines: pipelineManager.getAll() } }),
+})
+
+router.add({
+  method: 'POST',
+  path: '/pipelines',
+  summary: 'Create a pipeline',
+  tag: 'Pipelines',
+  body: schemas.CreatePipelineRequest,
+  response: schemas.okWith('pipeline', schemas.SessionPipeline),
+  status: 201,
+  handler: ({ body }) => {
+    const from = requireSession(body.fromSessionId)
+    const to = requireSession(body.toSessionId)
+    if (from.id === to.id) {
+      throw new HttpError(400, 'A pipeline must connect two different sessions')
     }
-
-    // DELETE /tiles/:id - Delete a text tile
-    if (req.method === 'DELETE') {
-      if (!tile) {
-        res.writeHead(404, { 'Content-Type': 'application/json' })
-        res.end(JSON.stringify({ ok: false, error: 'Tile not found' }))
-        return
+    requireNoPipelineCycle(from.id, to.id)
+
+    const pipeline = pipelineManager.create(from.id, to.id, body.prompt, body.enabled ?? true)
+    log(`Created pipeline: ${from.name} → ${to.name}`)
+    return { body: { ok: true, pipeline } }
+  },
+})
+
+router.add({
+  method: 'PATCH',
+  path: '/pipelines/:id',
+  summary: 'Edit, pause or resume a pipeline',
+  tag: 'Pipelines',
+  body: schemas.UpdatePipelineRequest,
+  response: schemas.okWith('pipeline', schemas.SessionPipeline),
+  handler: ({ params, body }) => {
+    const pipeline = requirePipeline(params.id)
+    if (body.toSessionId !== undefined) {
+      requireSession(body.toSessionId)
+      if (body.toSessionId === pipeline.fromSessionId) {
+        throw new HttpError(400, 'A pipeline must connect two different sessions')
       }
-
-      textTiles.delete(tileId)
-      saveTiles()
-      broadcastTiles()
-
-      log(`Deleted text tile: "${tile.text}"`)
-      res.writeHead(200, { 'Content-Type': 'application/json' })
-      res.end(JSON.stringify({ ok: true }))
-      return
+      requireNoPipelineCycle(pipeline.fromSessionId, body.toSessionId, pipeline.id)
     }
-  }
 
-  // -------------------------------------------------------------------------
-  // Hex Art API (Collaborative Canvas)
-  // -------------------------------------------------------------------------
+    const updated = pipelineManager.update(pipeline.id, body)
+    if (!updated) throw new HttpError(404, 'Pipeline not found')
+    return { body: { ok: true, pipeline: updated } }
+  },
+})
+
+router.add({
+  method: 'DELETE',
+  path: '/pipelines/:id',
+  summary: 'Delete a pipeline',
+  tag: 'Pipelines',
+  response: schemas.OkResponse,
+  handler: ({ params }) => {
+    pipelineManager.remove(requirePipeline(params.id).id)
+    return { body: { ok: true } }
+  },
+})
+
+// -------------------------------------------------------------------------
+// Webhooks
+// -------------------------------------------------------------------------
+
+/** Check a webhook exists, or fail the request with 404 */
+function requireWebhook(id: string): string {
+  if (!webhookManager.get(id)) throw new HttpError(404, 'Webhook not found')
+  return id
+}
 
-  // GET /hexart — Get full hex art state
-  if (req.method === 'GET' && req.url === '/hexart') {
-    res.writeHead(200, { 'Content-Type': 'application/json' })
-    res.end(JSON.stringify({ ok: true, ...hexArtState }))
-    return
+/** Reject session filters naming sessions that don't exist */
+function checkWebhookSessions(request: CreateWebhookRequest | UpdateWebhookRequest): void {
+  for (const id of request.sessions ?? []) {
+    if (!managedSessions.has(id) && !findManagedSession(id)) {
+      throw new HttpError(400, `Unknown session: ${id}`)
+    }
   }
+}
 
-  // POST /hexart — Full state replacement (for migration from localStorage)
-  if (req.method === 'POST' && req.url === '/hexart') {
-    collectRequestBody(req).then(body => {
-      try {
-        const data = JSON.parse(body) as HexArtState
-        hexArtState = {
-          hexes: Array.isArray(data.hexes) ? data.hexes : [],
-          zoneElevations: data.zoneElevations || {},
-        }
-        saveHexArt()
-
-        // Broadcast full state to all clients
-        const msg: ServerMessage = { type: 'hexart_state', payload: hexArtState }
-        const msgStr = JSON.stringify(msg)
-        for (const client of clients) {
-          if (client.readyState === WebSocket.OPEN) {
-            client.send(msgStr)
-          }
-        }
+router.add({
+  method: 'GET',
+  path: '/webhooks',
+  summary: 'List webhooks',
+  tag: 'Webhooks',
+  response: schemas.okWith('webhooks', s.array(schemas.Webhook)),
+  handler: () => ({ body: { ok: true, webhooks: webhookManager.getAll() } }),
+})
+
+router.add({
+  method: 'POST',
+  path: '/webhooks',
+  summary: 'Create a webhook (the response carries its signing secret, which is not shown again)',
+  tag: 'Webhooks',
+  body: schemas.CreateWebhookRequest,
+  response: schemas.CreateWebhookResponse,
+  status: 201,
+  handler: ({ body }) => {
+    checkWebhookSessions(body)
+    const { webhook, secret } = webhookManager.create(body)
+    log(`Created webhook ${webhook.id} → ${webhook.url} (${webhook.events.join(', ')})`)
+    return { body: { ok: true, webhook, secret } }
+  },
+})
+
+router.add({
+  method: 'PATCH',
+  path: '/webhooks/:id',
+  summary: 'Edit, pause or resume a webhook',
+  tag: 'Webhooks',
+  body: schemas.UpdateWebhookRequest,
+  response: schemas.okWith('webhook', schemas.Webhook),
+  handler: ({ params, body }) => {
+    checkWebhookSessions(body)
+    const webhook = webhookManager.update(requireWebhook(params.id), body)
+    if (!webhook) throw new HttpError(404, 'Webhook not found')
+    return { body: { ok: true, webhook } }
+  },
+})
+
+router.add({
+  method: 'DELETE',
+  path: '/webhooks/:id',
+  summary: 'Delete a webhook and its delivery log',
+  tag: 'Webhooks',
+  response: schemas.OkResponse,
+  handler: ({ params }) => {
+    webhookManager.remove(requireWebhook(params.id))
+    return { body: { ok: true } }
+  },
+})
+
+router.add({
+  method: 'GET',
+  path: '/webhooks/:id/deliveries',
+  summary: "A webhook's recent deliveries, newest first",
+  tag: 'Webhooks',
+  response: schemas.okWith('deliveries', s.array(schemas.WebhookDelivery)),
+  handler: ({ params }) => ({ body: { ok: true, deliveries: webhookManager.getDeliveries(requireWebhook(params.id)) } }),
+})
+
+router.add({
+  method: 'POST',
+  path: '/webhooks/:id/test',
+  summary: "Send a 'ping' delivery (check the deliveries log for the outcome)",
+  tag: 'Webhooks',
+  response: schemas.okWith('delivery', schemas.WebhookDelivery),
+  status: 202,
+  handler: ({ params }) => {
+    const delivery = webhookManager.ping(requireWebhook(params.id))
+    if (!delivery) throw new HttpError(404, 'Webhook not found')
+    return { body: { ok: true, delivery } }
+  },
+})
+
+// -------------------------------------------------------------------------
+// Replay (session history for replay mode)
+// -------------------------------------------------------------------------
+
+router.add({
+  method: 'GET',
+  path: '/replay/sessions',
+  summary: 'List past sessions available for replay',
+  tag: 'Replay',
+  response: schemas.okWith('sessions', s.array(schemas.ReplaySessionSummary)),
+  handler: () => {
+    // Sessions with fewer events aren't interesting to replay
+    const summaries: ReplaySessionSummary[] = eventStore.sessionSummaries(3).map(summary => ({
+      ...summary,
+      // Determine name from managed session if available
+      name: findManagedSession(summary.sessionId)?.name ?? `Session ${summary.sessionId.slice(0, 8)}`,
+    }))
+    return { body: { ok: true, sessions: summaries } }
+  },
+})
+
+router.add({
+  method: 'GET',
+  path: '/replay/sessions/:sessionId/events',
+  summary: "All of a Claude session's events",
+  tag: 'Replay',
+  response: schemas.okWith('events', s.array(schemas.ClaudeEvent)),
+  handler: ({ params }) => ({
+    body: { ok: true, events: eventStore.sessionEvents(params.sessionId) },
+  }),
+})
+
+// -------------------------------------------------------------------------
+// Projects (known directories for autocomplete)
+// -------------------------------------------------------------------------
+
+router.add({
+  method: 'GET',
+  path: '/projects',
+  summary: 'List known project directories',
+  tag: 'Projects',
+  response: schemas.okWith('projects', s.array(schemas.KnownProject)),
+  handler: () => ({ body: { ok: true, projects: projectsManager.getProjects() } }),
+})
+
+router.add({
+  method: 'GET',
+  path: '/projects/autocomplete',
+  summary: 'Complete a directory path',
+  tag: 'Projects',
+  query: { q: 'Partial path' },
+  response: schemas.okWith('results', s.array(s.string())),
+  handler: ({ query }) => ({
+    body: { ok: true, results: projectsManager.autocomplete(query.get('q') || '') },
+  }),
+})
+
+router.add({
+  method: 'DELETE',
+  path: '/projects/:path',
+  summary: 'Forget a project directory (path URL-encoded)',
+  tag: 'Projects',
+  response: schemas.OkResponse,
+  handler: ({ params }) => {
+    projectsManager.removeProject(params.path)
+    return { body: { ok: true } }
+  },
+})
+
+// -------------------------------------------------------------------------
+// Text Tiles
+// -------------------------------------------------------------------------
+
+/** Get a text tile, or fail the request with 404 */
+function requireTile(id: string): TextTile {
+  const tile = textTiles.get(id)
+  if (!tile) throw new HttpError(404, 'Tile not found')
+  return tile
+}
 
-        log(`Hex art uploaded: ${hexArtState.hexes.length} hexes, ${Object.keys(hexArtState.zoneElevations).length} elevations`)
-        res.writeHead(200, { 'Content-Type': 'application/json' })
-        res.end(JSON.stringify({ ok: true }))
-      } catch (e) {
-        res.writeHead(400, { 'Content-Type': 'application/json' })
-        res.end(JSON.stringify({ ok: false, error: 'Invalid JSON' }))
-      }
-    }).catch(() => {
-      res.writeHead(413, { 'Content-Type': 'application/json' })
-      res.end(JSON.stringify({ error: 'Request body too large' }))
-    })
-    return
-  }
+router.add({
+  method: 'GET',
+  path: '/tiles',
+  summary: 'List text tiles',
+  tag: 'Tiles',
+  response: schemas.okWith('tiles', s.array(schemas.TextTile)),
+  handler: () => ({ body: { ok: true, tiles: getTiles() } }),
+})
+
+router.add({
+  method: 'POST',
+  path: '/tiles',
+  summary: 'Create a text tile',
+  tag: 'Tiles',
+  body: schemas.CreateTextTileRequest,
+  response: schemas.okWith('tile', schemas.TextTile),
+  status: 201,
+  handler: ({ body }) => {
+    const tile: TextTile = {
+      id: randomUUID(),
+      text: body.text,
+      position: body.position,
+      color: body.color,
+      createdAt: Date.now(),
+    }
 
-  // DELETE /hexart — Clear all hex art
-  if (req.method === 'DELETE' && req.url === '/hexart') {
+    textTiles.set(tile.id, tile)
+    saveTiles()
+    broadcastTiles()
+
+    log(`Created text tile: "${tile.text}" at (${tile.position.q}, ${tile.position.r})`)
+    return { body: { ok: true, tile } }
+  },
+})
+
+router.add({
+  method: 'PUT',
+  path: '/tiles/:id',
+  summary: 'Update a text tile',
+  tag: 'Tiles',
+  body: schemas.UpdateTextTileRequest,
+  response: schemas.okWith('tile', schemas.TextTile),
+  handler: ({ params, body }) => {
+    const tile = requireTile(params.id)
+    if (body.text !== undefined) tile.text = body.text
+    if (body.position !== undefined) tile.position = body.position
+    if (body.color !== undefined) tile.color = body.color
+
+    saveTiles()
+    broadcastTiles()
+
+    log(`Updated text tile: "${tile.text}"`)
+    return { body: { ok: true, tile } }
+  },
+})
+
+router.add({
+  method: 'DELETE',
+  path: '/tiles/:id',
+  summary: 'Delete a text tile',
+  tag: 'Tiles',
+  response: schemas.OkResponse,
+  handler: ({ params }) => {
+    const tile = requireTile(params.id)
+    textTiles.delete(tile.id)
+    saveTiles()
+    broadcastTiles()
+
+    log(`Deleted text tile: "${tile.text}"`)
+    return { body: { ok: true } }
+  },
+})
+
+// -------------------------------------------------------------------------
+// Hex Art (collaborative canvas)
+// -------------------------------------------------------------------------
+
+router.add({
+  method: 'GET',
+  path: '/hexart',
+  summary: 'Get the full hex art state',
+  tag: 'Hex Art',
+  response: schemas.HexArtResponse,
+  handler: () => ({ body: { ok: true, ...hexArtState } }),
+})
+
+router.add({
+  method: 'POST',
+  path: '/hexart',
+  summary: 'Replace the hex art state (for migration from localStorage)',
+  tag: 'Hex Art',
+  body: schemas.HexArtState,
+  response: schemas.OkResponse,
+  handler: ({ body }) => {
+    hexArtState = body
+    saveHexArt()
+    broadcastHexArtState()
+
+    log(`Hex art uploaded: ${hexArtState.hexes.length} hexes, ${Object.keys(hexArtState.zoneElevations).length} elevations`)
+    return { body: { ok: true } }
+  },
+})
+
+router.add({
+  method: 'DELETE',
+  path: '/hexart',
+  summary: 'Clear all hex art',
+  tag: 'Hex Art',
+  response: schemas.OkResponse,
+  handler: () => {
     hexArtState = { hexes: [], zoneElevations: {} }
     saveHexArt()
-
-    // Broadcast empty state to all clients
-    const msg: ServerMessage = { type: 'hexart_state', payload: hexArtState }
-    const msgStr = JSON.stringify(msg)
-    for (const client of clients) {
-      if (client.readyState === WebSocket.OPEN) {
-        client.send(msgStr)
-      }
-    }
+    broadcastHexArtState()
 
     log('Hex art cleared')
-    res.writeHead(200, { 'Content-Type': 'application/json' })
-    res.end(JSON.stringify({ ok: true }))
-    return
-  }
-
-  // =========================================================================
-  // Universal Agent Protocol (v2 API)
-  // =========================================================================
-
-  // POST /v2/agents/register — Register a new agent
-  if (req.method === 'POST' && req.url === '/v2/agents/register') {
-    collectRequestBody(req).then(body => {
-      try {
-        const registration = JSON.parse(body) as AgentRegistration
-        if (!registration.name || !registration.framework) {
-          res.writeHead(400, { 'Content-Type': 'application/json' })
-          res.end(JSON.stringify({ ok: false, error: 'name and framework are required' }))
-          return
-        }
+    return { body: { ok: true } }
+  },
+})
+
+// -------------------------------------------------------------------------
+// Universal Agent Protocol (v2 API)
+// -------------------------------------------------------------------------
+
+router.add({
+  method: 'POST',
+  path: '/v2/agents/register',
+  summary: 'Register an agent',
+  tag: 'Agents',
+  body: schemas.AgentRegistration,
+  response: schemas.okWith('agent', schemas.RegisteredAgent),
+  status: 201,
+  handler: ({ body }) => {
+    const agentId = randomUUID()
+    const agent: RegisteredAgent = {
+      ...body,
+      agentId,
+      registeredAt: Date.now(),
+    }
+    registeredAgents.set(agentId, agent)
+
+    log(`Agent registered: ${agent.name} (${agent.framework}) -> ${agentId.slice(0, 8)}`)
+    return { body: { ok: true, agent } }
+  },
+})
+
+router.add({
+  method: 'GET',
+  path: '/v2/agents',
+  summary: 'List registered agents',
+  tag: 'Agents',
+  response: schemas.okWith('agents', s.array(schemas.RegisteredAgent)),
+  handler: () => ({ body: { ok: true, agents: Array.from(registeredAgents.values()) } }),
+})
+
+router.add({
+  method: 'POST',
+  path: '/v2/event',
+  summary: 'Receive a universal agent event',
+  tag: 'Agents',
+  body: schemas.RawEvent,
+  response: schemas.OkResponse,
+  handler: ({ body: raw }) => {
+    // Auto-fill id and timestamp if missing
+    if (!raw.id) raw.id = randomUUID()
+    if (!raw.timestamp) raw.timestamp = Date.now()
+
+    // Normalize through adapter system (generic adapter handles universal format)
+    const normalized = normalizeEvent(raw)
+    if (!normalized) throw new HttpError(400, 'Unrecognized event format')
+
+    addUniversalEvent(normalized)
+    debug(`Received v2 event: ${normalized.type} from ${normalized.source}`)
+    return { body: { ok: true } }
+  },
+})
 
-        const agentId = randomUUID()
-        const agent: RegisteredAgent = {
-          ...registration,
-          agentId,
-          registeredAt: Date.now(),
-        }
-        registeredAgents.set(agentId, agent)
+// ============================================================================
+// HTTP Server (for hook notifications)
+// ============================================================================
 
-        log(`Agent registered: ${agent.name} (${agent.framework}) -> ${agentId.slice(0, 8)}`)
+function handleHttpRequest(req: IncomingMessage, res: ServerResponse) {
+  const origin = req.headers.origin
 
-        res.writeHead(201, { 'Content-Type': 'application/json' })
-        res.end(JSON.stringify({ ok: true, agent }))
-      } catch (e) {
-        res.writeHead(400, { 'Content-Type': 'application/json' })
-        res.end(JSON.stringify({ ok: false, error: 'Invalid JSON' }))
-      }
-    }).catch(() => {
-      res.writeHead(413, { 'Content-Type': 'application/json' })
-      res.end(JSON.stringify({ error: 'Request body too large' }))
-    })
-    return
+  // CORS headers - only allow specific origins
+  if (origin && isOriginAllowed(origin)) {
+    res.setHeader('Access-Control-Allow-Origin', origin)
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PATCH, DELETE, OPTIONS')
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization')
   }
 
-  // GET /v2/agents — List registered agents
-  if (req.method === 'GET' && req.url === '/v2/agents') {
-    res.writeHead(200, { 'Content-Type': 'application/json' })
-    res.end(JSON.stringify({
-      ok: true,
-      agents: Array.from(registeredAgents.values()),
-    }))
+  if (req.method === 'OPTIONS') {
+    // Preflight: reject if origin not allowed
+    if (!origin || !isOriginAllowed(origin)) {
+      res.writeHead(403)
+      res.end()
+      return
+    }
+    res.writeHead(204)
+    res.end()
     return
   }
 
-  // POST /v2/event — Accept pre-normalized universal events
-  if (req.method === 'POST' && req.url === '/v2/event') {
-    collectRequestBody(req).then(body => {
-      try {
-        const raw = JSON.parse(body) as Record<string, unknown>
-
-        // Auto-fill id and timestamp if missing
-        if (!raw.id) raw.id = randomUUID()
-        if (!raw.timestamp) raw.timestamp = Date.now()
-
-        // Normalize through adapter system (generic adapter handles universal format)
-        const normalized = normalizeEvent(raw)
-        if (!normalized) {
-          res.writeHead(400, { 'Content-Type': 'application/json' })
-          res.end(JSON.stringify({ ok: false, error: 'Unrecognized event format' }))
-          return
-        }
-
-        addUniversalEvent(normalized)
-        debug(`Received v2 event: ${normalized.type} from ${normalized.source}`)
-
-        res.writeHead(200, { 'Content-Type': 'application/json' })
-        res.end(JSON.stringify({ ok: true }))
-      } catch (e) {
-        res.writeHead(400, { 'Content-Type': 'application/json' })
-        res.end(JSON.stringify({ ok: false, error: 'Invalid JSON' }))
-      }
-    }).catch(() => {
-      res.writeHead(413, { 'Content-Type': 'application/json' })
-      res.end(JSON.stringify({ error: 'Request body too large' }))
-    })
+  // With auth enabled, every API route needs the API token unless it is
+  // public, and so does anything else that changes state. Static UI files
+  // stay open (the UI fetches the token-free health check to find out it
+  // needs one).
+  const route = router.match(req)
+  const needsToken = route ? route.auth !== 'public' : req.method !== 'GET' && req.method !== 'HEAD'
+  if (API_TOKEN && needsToken && !tokenMatches(getRequestToken(req, route?.auth === 'query-token'), API_TOKEN)) {
+    res.writeHead(401, { 'Content-Type': 'application/json', 'WWW-Authenticate': 'Bearer' })
+    res.end(JSON.stringify({ ok: false, error: 'Unauthorized: missing or invalid API token' }))
     return
   }
 
+  if (router.handle(req, res)) return
+
   // Static file serving for frontend (production mode)
   serveStaticFile(req, res)
 }
@@ -2694,8 +4321,30 @@ function serveStaticFile(req: IncomingMessage, res: ServerResponse): void {
 // Main
 // ============================================================================
 
-function main() {
+export interface ServerOptions {
+  /** Runs the session processes (default: the one VIBECRAFT2_SESSION_BACKEND names) */
+  backend?: SessionBackend
+  /** Port to listen on (default VIBECRAFT2_PORT; 0 picks a free one) */
+  port?: number
+}
+
+export interface RunningServer {
+  /** Port the server is listening on */
+  port: number
+  /** Stop listening, polling and watching */
+  close(): Promise<void>
+}
+
+/**
+ * Load saved state and start the server. Settings and data paths come
+ * from the environment when this module is imported, and its state is
+ * module-wide, so only one server runs per process.
+ */
+export function startServer(options: ServerOptions = {}): Promise<RunningServer> {
+  if (options.backend) sessionBackend = options.backend
+
   log('Starting Vibecraft2 server...')
+  log(`Session backend: ${sessionBackend.name}`)
 
   // Load Deepgram API key for voice transcription
   deepgramApiKey = loadDeepgramKey()
@@ -2722,9 +4371,46 @@ function main() {
     }
   })
   gitStatusManager.start()
+  void pruneCheckpoints()
+
+  // Broadcast prompt queue changes so every client sees the backlog
+  promptQueue.setUpdateHandler(({ sessionId, queue }) => {
+    if (managedSessions.has(sessionId)) {
+      debug(`Prompt queue updated for ${sessionId.slice(0, 8)}: ${queue.length} waiting`)
+      broadcastSessions()
+    }
+  })
+
+  // Run scheduled prompts and broadcast schedule changes (runs, edits)
+  scheduleManager.setRunHandler(runScheduledPrompt)
+  scheduleManager.setUpdateHandler(({ sessionId, schedules }) => {
+    if (managedSessions.has(sessionId)) {
+      debug(`Schedules updated for ${sessionId.slice(0, 8)}: ${schedules.length} total`)
+      broadcastSessions()
+    }
+  })
+  scheduleManager.start()
+
+  // Broadcast pipeline changes (edits, fire counts)
+  pipelineManager.setUpdateHandler((pipelines) => {
+    debug(`Pipelines updated: ${pipelines.length} total`)
+    broadcastSessions()
+  })
+
+  // Count and log finished webhook deliveries
+  webhookManager.setDeliveryHandler((delivery) => {
+    webhookDeliveries.inc({ event: delivery.event, status: delivery.status })
+    if (delivery.status === 'failed') {
+      log(`Webhook delivery ${delivery.id} (${delivery.event}) failed after ${delivery.attempts} attempts: ${delivery.error}`)
+    } else {
+      debug(`Webhook delivery ${delivery.id} (${delivery.event}) succeeded`)
+    }
+  })
 
   // Watch for new events
-  watchEventsFile()
+  const watcher = watchEventsFile()
+  maintainEventLog()
+  const timers = [setInterval(maintainEventLog, EVENT_LOG_MAINTENANCE_INTERVAL_MS)]
 
   // Create HTTP server
   const httpServer = createServer(handleHttpRequest)
@@ -2741,6 +4427,13 @@ function main() {
       return
     }
 
+    // Browsers pass the API token in the URL (no custom headers on WebSockets)
+    if (API_TOKEN && !tokenMatches(getRequestToken(req, true), API_TOKEN)) {
+      log(`Rejected WebSocket connection without a valid API token${origin ? ` from ${origin}` : ''}`)
+      ws.close(1008, 'Unauthorized')
+      return
+    }
+
     clients.add(ws)
     log(`Client connected (${clients.size} total)${origin ? ` from ${origin}` : ''}`)
 
@@ -2798,7 +4491,7 @@ function main() {
       // Handle JSON messages
       try {
         const message = JSON.parse(data.toString()) as ClientMessage
-        handleClientMessage(ws, message)
+        handleClientMessage(ws, message, req.socket.remoteAddress)
       } catch (e) {
         debug(`Failed to parse client message: ${e}`)
       }
@@ -2806,6 +4499,7 @@ function main() {
 
     ws.on('close', () => {
       stopVoiceSession(ws) // Clean up any voice session
+      terminalMirror.removeClient(ws)
       clients.delete(ws)
       log(`Client disconnected (${clients.size} total)`)
     })
@@ -2813,44 +4507,78 @@ function main() {
     ws.on('error', (error) => {
       debug(`WebSocket error: ${error}`)
       stopVoiceSession(ws) // Clean up any voice session
+      terminalMirror.removeClient(ws)
       clients.delete(ws)
     })
   })
 
-  httpServer.listen(PORT, () => {
-    log(`Server running on port ${PORT}`)
-    log(``)
-    log(`Open https://vibecraft2.sh to view your workshop`)
-    log(``)
-    log(`Local API endpoints:`)
-    log(`  WebSocket: ws://localhost:${PORT}`)
-    log(`  Events: http://localhost:${PORT}/event`)
-    log(`  Prompt: http://localhost:${PORT}/prompt`)
-    log(`  Health: http://localhost:${PORT}/health`)
-    log(`  Stats: http://localhost:${PORT}/stats`)
-    log(`  Sessions: http://localhost:${PORT}/sessions`)
-    log(`  Hex Art: http://localhost:${PORT}/hexart`)
-    log(``)
-    log(`Universal Agent Protocol (v2):`)
-    log(`  Register: POST http://localhost:${PORT}/v2/agents/register`)
-    log(`  Events:   POST http://localhost:${PORT}/v2/event`)
-    log(`  Agents:   GET  http://localhost:${PORT}/v2/agents`)
-
-    // Start token polling after server is ready
-    startTokenPolling()
-
-    // Start permission prompt polling
-    startPermissionPolling()
-
-    // Start session health checking (every 5 seconds)
-    setInterval(checkSessionHealth, 5000)
-
-    // Start working timeout checking (every 10 seconds)
-    setInterval(checkWorkingTimeout, WORKING_CHECK_INTERVAL_MS)
-
-    // Run initial health check to update session statuses
-    checkSessionHealth()
+  return new Promise((resolveStart, rejectStart) => {
+    httpServer.once('error', rejectStart)
+    httpServer.listen(options.port ?? PORT, () => {
+      const address = httpServer.address()
+      const port = typeof address === 'object' && address ? address.port : PORT
+      log(`Server running on port ${port}`)
+      log(``)
+      log(`Open https://vibecraft2.sh to view your workshop`)
+      if (API_TOKEN) {
+        // The fragment never reaches a server; the client saves it and drops it from the URL
+        log(`API token required${process.env.VIBECRAFT2_TOKEN ? '' : ` (${TOKEN_FILE})`}. Open a link once to authorize the browser:`)
+        log(`  https://vibecraft2.sh/#token=${API_TOKEN}`)
+        log(`  http://localhost:${port}/#token=${API_TOKEN}`)
+      }
+      log(``)
+      log(`Local API endpoints:`)
+      log(`  WebSocket: ws://localhost:${port}`)
+      log(`  Events: http://localhost:${port}/event`)
+      log(`  Prompt: http://localhost:${port}/prompt`)
+      log(`  Health: http://localhost:${port}/health`)
+      log(`  Stats: http://localhost:${port}/stats`)
+      log(`  Sessions: http://localhost:${port}/sessions`)
+      log(`  Hex Art: http://localhost:${port}/hexart`)
+      log(``)
+      log(`Universal Agent Protocol (v2):`)
+      log(`  Register: POST http://localhost:${port}/v2/agents/register`)
+      log(`  Events:   POST http://localhost:${port}/v2/event`)
+      log(`  Agents:   GET  http://localhost:${port}/v2/agents`)
+
+      // Start token polling after server is ready
+      timers.push(startTokenPolling())
+
+      // Start permission prompt polling
+      timers.push(startPermissionPolling())
+
+      // Start session health checking (every 5 seconds)
+      timers.push(setInterval(checkSessionHealth, 5000))
+
+      // Start working timeout checking (every 10 seconds)
+      timers.push(setInterval(checkWorkingTimeout, WORKING_CHECK_INTERVAL_MS))
+
+      // Run initial health check to update session statuses
+      checkSessionHealth()
+
+      httpServer.off('error', rejectStart)
+      resolveStart({
+        port,
+        async close() {
+          timers.forEach(clearInterval)
+          costTracker.flush()
+          gitStatusManager.stop()
+          scheduleManager.stop()
+          await watcher.close()
+          for (const ws of clients) ws.terminate()
+          wss.close()
+          httpServer.closeAllConnections()
+          await new Promise<void>(resolveClose => httpServer.close(() => resolveClose()))
+        },
+      })
+    })
   })
 }
 
-main()
+// Start when run as a program (node/tsx server/index.ts), not when imported
+if (process.argv[1] && realpathSync(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  startServer().catch((error: Error) => {
+    log(`Failed to start: ${error.message}`)
+    process.exit(1)
+  })
+}
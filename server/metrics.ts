@@ -0,0 +1,193 @@
+/**
+ * Metrics - Prometheus counters, gauges and histograms for GET /metrics
+ *
+ * Just enough of the Prometheus text exposition format (0.0.4) for the
+ * server's own metrics; no client library needed. Metrics either record
+ * values as things happen (inc/set/observe) or are collected from server
+ * state at scrape time (a `collect` callback).
+ */
+
+export type Labels = Record<string, string>
+
+/** Content type of the text exposition format */
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8'
+
+/** Label values -> current value, for callbacks collecting at scrape time */
+export type Samples = Array<[Labels, number]>
+
+type MetricType = 'counter' | 'gauge' | 'histogram'
+
+abstract class Metric {
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly type: MetricType,
+  ) {}
+
+  render(): string {
+    return [`# HELP ${this.name} ${escapeHelp(this.help)}`, `# TYPE ${this.name} ${this.type}`, ...this.lines()].join('\n')
+  }
+
+  protected abstract lines(): string[]
+}
+
+// ============================================================================
+// Counter / Gauge
+// ============================================================================
+
+class ValueMetric extends Metric {
+  private values = new Map<string, { labels: Labels; value: number }>()
+
+  constructor(name: string, help: string, type: MetricType, private collect?: () => Samples) {
+    super(name, help, type)
+  }
+
+  protected add(labels: Labels, delta: number, replace: boolean): void {
+    const key = labelKey(labels)
+    const current = this.values.get(key)
+    if (current) {
+      current.value = replace ? delta : current.value + delta
+    } else {
+      this.values.set(key, { labels, value: delta })
+    }
+  }
+
+  protected lines(): string[] {
+    const samples: Samples = this.collect
+      ? this.collect()
+      : [...this.values.values()].map(({ labels, value }) => [labels, value])
+    return samples.map(([labels, value]) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`)
+  }
+}
+
+/** A value that only goes up (resets when the server restarts) */
+export class Counter extends ValueMetric {
+  constructor(name: string, help: string, collect?: () => Samples) {
+    super(name, help, 'counter', collect)
+  }
+
+  inc(labels: Labels = {}, value = 1): void {
+    this.add(labels, value, false)
+  }
+}
+
+/** A value that goes up and down */
+export class Gauge extends ValueMetric {
+  constructor(name: string, help: string, collect?: () => Samples) {
+    super(name, help, 'gauge', collect)
+  }
+
+  set(labels: Labels, value: number): void {
+    this.add(labels, value, true)
+  }
+}
+
+// ============================================================================
+// Histogram
+// ============================================================================
+
+interface HistogramSeries {
+  labels: Labels
+  /** Observations per bucket (not cumulative; summed when rendered) */
+  counts: number[]
+  sum: number
+  count: number
+}
+
+/** Observations counted into fixed buckets (upper bounds, ascending) */
+export class Histogram extends Metric {
+  private series = new Map<string, HistogramSeries>()
+
+  constructor(name: string, help: string, private buckets: number[]) {
+    super(name, help, 'histogram')
+  }
+
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(labels)
+    let series = this.series.get(key)
+    if (!series) {
+      series = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 }
+      this.series.set(key, series)
+    }
+    const bucket = this.buckets.findIndex(bound => value <= bound)
+    if (bucket !== -1) series.counts[bucket]++
+    series.sum += value
+    series.count++
+  }
+
+  protected lines(): string[] {
+    const lines: string[] = []
+    for (const { labels, counts, sum, count } of this.series.values()) {
+      let cumulative = 0
+      this.buckets.forEach((bound, i) => {
+        cumulative += counts[i]
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${cumulative}`)
+      })
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`)
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(sum)}`)
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`)
+    }
+    return lines
+  }
+}
+
+// ============================================================================
+// MetricsRegistry
+// ============================================================================
+
+export class MetricsRegistry {
+  private metrics: Metric[] = []
+
+  counter(name: string, help: string, collect?: () => Samples): Counter {
+    return this.register(new Counter(name, help, collect))
+  }
+
+  gauge(name: string, help: string, collect?: () => Samples): Gauge {
+    return this.register(new Gauge(name, help, collect))
+  }
+
+  histogram(name: string, help: string, buckets: number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets))
+  }
+
+  /** Every metric in the text exposition format */
+  render(): string {
+    return this.metrics.map(metric => metric.render()).join('\n') + '\n'
+  }
+
+  private register<M extends Metric>(metric: M): M {
+    if (this.metrics.some(m => m.name === metric.name)) {
+      throw new Error(`Duplicate metric: ${metric.name}`)
+    }
+    this.metrics.push(metric)
+    return metric
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)))
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`)
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : ''
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN'
+  if (value === Infinity) return '+Inf'
+  if (value === -Infinity) return '-Inf'
+  return String(value)
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')
+}
+
+function escapeHelp(help: string): string {
+  return help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')
+}
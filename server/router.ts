@@ -0,0 +1,297 @@
+/**
+ * Router - Declarative HTTP route table for the server API
+ *
+ * Routes declare their method, path, request body schema and response
+ * schema. The router matches requests, reads and validates JSON bodies,
+ * turns thrown errors into JSON error responses, and generates the
+ * OpenAPI document served at GET /openapi.json.
+ *
+ * Every error response has the shape { ok: false, error, issues? }:
+ * - 400 Invalid JSON / validation failures (issues lists each problem)
+ * - 404/409/... from HttpError thrown by handlers
+ * - 405 when the path exists but not for this method
+ * - 413 Request body too large
+ */
+
+import type { IncomingMessage, ServerResponse } from 'http'
+import {
+  ValidationError,
+  type JsonSchema,
+  type Schema,
+  type OptionalSchema,
+  type SchemaComponents,
+  type ValidationIssue,
+} from './schema.js'
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE'
+
+/** Body of every error response */
+export interface ErrorResponse {
+  ok: false
+  error: string
+  /** Validation problems, for 400 responses to invalid bodies */
+  issues?: ValidationIssue[]
+}
+
+/** What a handler returns */
+export interface RouteReply<T> {
+  /** HTTP status (default 200) */
+  status?: number
+  body: T
+}
+
+export interface RouteContext<TBody> {
+  req: IncomingMessage
+  res: ServerResponse
+  /** Path parameters (`:id` in the route path), URL-decoded */
+  params: Record<string, string>
+  query: URLSearchParams
+  /** Validated request body (undefined for routes without a body schema) */
+  body: TBody
+}
+
+export interface RouteDefinition<TBody, TResponse> {
+  method: HttpMethod
+  /** Path with `:name` parameters, e.g. /sessions/:id/queue/:itemId */
+  path: string
+  /** One-line description for the OpenAPI document */
+  summary: string
+  /** OpenAPI tag (groups routes in generated docs) */
+  tag: string
+  /** Query parameters: name -> description */
+  query?: Record<string, string>
+  /** Request body schema (wrap in s.optional(...) if the body may be empty) */
+  body?: Schema<TBody> | OptionalSchema<TBody>
+  /** Successful response body schema */
+  response: Schema<TResponse>
+  /** Successful response content type (default application/json) */
+  contentType?: string
+  /** Status of a successful response (default 200) */
+  status?: number
+  /**
+   * Who may call the route when the server requires an API token: 'token'
+   * (default) needs it in the Authorization header, 'query-token' also
+   * takes a `token` query parameter (for clients that can't set headers),
+   * 'public' needs none
+   */
+  auth?: 'token' | 'query-token' | 'public'
+  /**
+   * Handle the request. Return a reply, or throw HttpError. Return
+   * undefined only if the handler wrote the response itself.
+   */
+  handler(ctx: RouteContext<TBody>): RouteReply<TResponse | ErrorResponse> | undefined
+    | Promise<RouteReply<TResponse | ErrorResponse> | undefined>
+}
+
+/**
+ * Throw from a handler to send { ok: false, error } with a status
+ */
+export class HttpError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message)
+    this.name = 'HttpError'
+  }
+}
+
+/** Thrown by the body reader when a request exceeds the size limit */
+export class BodyTooLargeError extends Error {
+  constructor() {
+    super('Request body too large')
+    this.name = 'BodyTooLargeError'
+  }
+}
+
+interface CompiledRoute {
+  definition: RouteDefinition<unknown, unknown>
+  pattern: RegExp
+  paramNames: string[]
+}
+
+// ============================================================================
+// Router
+// ============================================================================
+
+export class Router {
+  private routes: CompiledRoute[] = []
+
+  /**
+   * @param readBody Reads a request body as text (rejects with
+   *   BodyTooLargeError when over the limit)
+   */
+  constructor(private readBody: (req: IncomingMessage) => Promise<string>) {}
+
+  /**
+   * Register a route. Routes are matched in registration order.
+   */
+  add<TBody = undefined, TResponse = unknown>(definition: RouteDefinition<TBody, TResponse>): void {
+    const paramNames: string[] = []
+    const source = definition.path.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/:(\w+)/g, (_, name: string) => {
+      paramNames.push(name)
+      return '([^/]+)'
+    })
+    this.routes.push({
+      definition: definition as unknown as RouteDefinition<unknown, unknown>,
+      pattern: new RegExp(`^${source}$`),
+      paramNames,
+    })
+  }
+
+  /**
+   * The route a request is for: the one with its method, else the first
+   * with its path (null if no route has the path)
+   */
+  match(req: IncomingMessage): RouteDefinition<unknown, unknown> | null {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost')
+    const routes = this.routes.filter(route => route.pattern.test(pathname))
+    return (routes.find(route => route.definition.method === req.method) ?? routes[0])?.definition ?? null
+  }
+
+  /**
+   * Handle a request if it matches a route. Returns false if no route
+   * has this path (so the caller can fall back, e.g. to static files).
+   */
+  handle(req: IncomingMessage, res: ServerResponse): boolean {
+    const url = new URL(req.url ?? '/', 'http://localhost')
+    let pathMatched = false
+
+    for (const route of this.routes) {
+      const match = route.pattern.exec(url.pathname)
+      if (!match) continue
+      pathMatched = true
+      if (route.definition.method !== req.method) continue
+
+      let params: Record<string, string>
+      try {
+        params = Object.fromEntries(route.paramNames.map((name, i) => [name, decodeURIComponent(match[i + 1])]))
+      } catch {
+        sendError(res, 400, 'Invalid URL encoding')
+        return true
+      }
+
+      this.run(route.definition, { req, res, params, query: url.searchParams, body: undefined })
+      return true
+    }
+
+    if (pathMatched) {
+      sendError(res, 405, `Method ${req.method} not allowed`)
+      return true
+    }
+    return false
+  }
+
+  /**
+   * Generate an OpenAPI 3.1 document describing every route
+   */
+  openApiDocument(info: { title: string; version: string; description?: string }): JsonSchema {
+    const components: SchemaComponents = {}
+    const paths: Record<string, Record<string, unknown>> = {}
+    const errorResponse = {
+      description: 'Error',
+      content: { 'application/json': { schema: { $ref: '#/components/schemas/ErrorResponse' } } },
+    }
+
+    for (const { definition, paramNames } of this.routes) {
+      const path = definition.path.replace(/:(\w+)/g, '{$1}')
+      const parameters = [
+        ...paramNames.map(name => ({ name, in: 'path', required: true, schema: { type: 'string' } })),
+        ...Object.entries(definition.query ?? {}).map(([name, description]) => ({
+          name, in: 'query', required: false, description, schema: { type: 'string' },
+        })),
+      ]
+
+      paths[path] ??= {}
+      paths[path][definition.method.toLowerCase()] = {
+        summary: definition.summary,
+        tags: [definition.tag],
+        ...(parameters.length > 0 && { parameters }),
+        ...(definition.body && {
+          requestBody: {
+            required: !definition.body.optional,
+            content: { 'application/json': { schema: definition.body.toJsonSchema(components) } },
+          },
+        }),
+        responses: {
+          [String(definition.status ?? 200)]: {
+            description: 'Success',
+            content: { [definition.contentType ?? 'application/json']: { schema: definition.response.toJsonSchema(components) } },
+          },
+          default: errorResponse,
+        },
+      }
+    }
+
+    components.ErrorResponse = {
+      type: 'object',
+      properties: {
+        ok: { const: false },
+        error: { type: 'string' },
+        issues: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: { path: { type: 'string' }, message: { type: 'string' } },
+            required: ['path', 'message'],
+          },
+        },
+      },
+      required: ['ok', 'error'],
+    }
+
+    return {
+      openapi: '3.1.0',
+      info,
+      paths,
+      components: { schemas: components },
+    }
+  }
+
+  private async run(definition: RouteDefinition<unknown, unknown>, ctx: RouteContext<unknown>): Promise<void> {
+    const { res } = ctx
+    try {
+      if (definition.body) {
+        ctx.body = await this.parseBody(ctx.req, definition.body)
+      }
+      const reply = await definition.handler(ctx)
+      if (reply) {
+        sendJson(res, reply.status ?? definition.status ?? 200, reply.body)
+      }
+    } catch (error) {
+      if (res.headersSent) {
+        res.end()
+      } else if (error instanceof HttpError) {
+        sendError(res, error.status, error.message)
+      } else if (error instanceof ValidationError) {
+        sendJson(res, 400, { ok: false, error: `Invalid request body: ${error.message}`, issues: error.issues })
+      } else if (error instanceof BodyTooLargeError) {
+        sendError(res, 413, error.message)
+      } else {
+        sendError(res, 500, error instanceof Error ? error.message : String(error))
+      }
+    }
+  }
+
+  private async parseBody(req: IncomingMessage, schema: Schema<unknown> | OptionalSchema<unknown>): Promise<unknown> {
+    const text = await this.readBody(req)
+    if (!text.trim()) {
+      if (!schema.optional) throw new HttpError(400, 'Request body is required')
+      return undefined
+    }
+
+    let json: unknown
+    try {
+      json = JSON.parse(text)
+    } catch {
+      throw new HttpError(400, 'Invalid JSON')
+    }
+    return schema.parse(json)
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' })
+  res.end(JSON.stringify(body))
+}
+
+function sendError(res: ServerResponse, status: number, error: string): void {
+  sendJson(res, status, { ok: false, error } satisfies ErrorResponse)
+}
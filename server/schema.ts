@@ -0,0 +1,336 @@
+/**
+ * schema - Minimal typed JSON schemas for the HTTP API
+ *
+ * Each schema validates untrusted JSON into a typed value and describes
+ * itself as JSON Schema for the OpenAPI document. Object schemas are
+ * written against the interfaces in shared/types.ts (`s.object<T>(...)`),
+ * so a field added to a shared type without a matching schema entry is a
+ * compile error.
+ *
+ * Usage:
+ * ```typescript
+ * const Tile = s.object<CreateTextTileRequest>({
+ *   text: s.string({ minLength: 1 }),
+ *   position: HexCoord,
+ *   color: s.optional(s.string()),
+ * })
+ * const tile = Tile.parse(JSON.parse(body))   // throws ValidationError
+ * ```
+ */
+
+/** A JSON Schema fragment (OpenAPI 3.1 dialect) */
+export type JsonSchema = Record<string, unknown>
+
+/** Named schemas collected while generating a document (components/schemas) */
+export type SchemaComponents = Record<string, JsonSchema>
+
+/** One problem found while validating a value */
+export interface ValidationIssue {
+  /** Where in the value, e.g. "trigger.minutes" (empty for the root) */
+  path: string
+  message: string
+}
+
+/**
+ * Thrown by Schema.parse with every problem found
+ */
+export class ValidationError extends Error {
+  constructor(public readonly issues: ValidationIssue[]) {
+    super(issues.map(formatIssue).join('; '))
+    this.name = 'ValidationError'
+  }
+}
+
+function formatIssue(issue: ValidationIssue): string {
+  return issue.path ? `${issue.path} ${issue.message}` : issue.message
+}
+
+interface SchemaBase<T> {
+  /** Validate a JSON value, throwing ValidationError if it doesn't match */
+  parse(value: unknown): T
+  /** JSON Schema for this value; named schemas are added to `components` */
+  toJsonSchema(components: SchemaComponents): JsonSchema
+  /** @internal Collect issues instead of throwing */
+  check(value: unknown, path: string, issues: ValidationIssue[]): T
+}
+
+/** Schema for a value that must be present */
+export interface Schema<T> extends SchemaBase<T> {
+  readonly optional: false
+}
+
+/** Schema for an object property that may be omitted */
+export interface OptionalSchema<T> extends SchemaBase<T | undefined> {
+  readonly optional: true
+}
+
+/**
+ * Object schema shape for T: optional properties need s.optional(...),
+ * required ones must not use it
+ */
+export type Shape<T> = {
+  [K in keyof T]-?: undefined extends T[K]
+    ? OptionalSchema<Exclude<T[K], undefined>>
+    : Schema<T[K]>
+}
+
+/** The type a schema validates to */
+export type Infer<S> = S extends SchemaBase<infer T> ? T : never
+
+// ============================================================================
+// Builders
+// ============================================================================
+
+function define<T>(
+  check: (value: unknown, path: string, issues: ValidationIssue[]) => T,
+  toJsonSchema: (components: SchemaComponents) => JsonSchema
+): Schema<T> {
+  return {
+    optional: false,
+    check,
+    toJsonSchema,
+    parse(value: unknown): T {
+      const issues: ValidationIssue[] = []
+      const result = check(value, '', issues)
+      if (issues.length > 0) throw new ValidationError(issues)
+      return result
+    },
+  }
+}
+
+function join(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`
+  return path ? `${path}.${key}` : key
+}
+
+function typeName(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  return typeof value
+}
+
+/** Check a value's JSON type, recording an issue if it's wrong */
+function expectType(value: unknown, type: string, path: string, issues: ValidationIssue[]): boolean {
+  if (typeName(value) === type) return true
+  issues.push({ path, message: `must be ${type === 'array' || type === 'object' ? 'an' : 'a'} ${type} (got ${typeName(value)})` })
+  return false
+}
+
+function string(options: { minLength?: number; maxLength?: number; pattern?: RegExp; description?: string } = {}): Schema<string> {
+  return define(
+    (value, path, issues) => {
+      if (!expectType(value, 'string', path, issues)) return value as string
+      const str = value as string
+      if (options.minLength !== undefined && str.length < options.minLength) {
+        issues.push({ path, message: options.minLength === 1 ? 'must not be empty' : `must be at least ${options.minLength} characters` })
+      } else if (options.maxLength !== undefined && str.length > options.maxLength) {
+        issues.push({ path, message: `must be at most ${options.maxLength} characters` })
+      } else if (options.pattern && !options.pattern.test(str)) {
+        issues.push({ path, message: `must match ${options.pattern.source}` })
+      }
+      return str
+    },
+    () => ({
+      type: 'string',
+      ...(options.minLength !== undefined && { minLength: options.minLength }),
+      ...(options.maxLength !== undefined && { maxLength: options.maxLength }),
+      ...(options.pattern && { pattern: options.pattern.source }),
+      ...(options.description && { description: options.description }),
+    })
+  )
+}
+
+function number(options: { integer?: boolean; minimum?: number; maximum?: number; description?: string } = {}): Schema<number> {
+  return define(
+    (value, path, issues) => {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        issues.push({ path, message: `must be a number (got ${typeName(value)})` })
+        return value as number
+      }
+      if (options.integer && !Number.isInteger(value)) {
+        issues.push({ path, message: 'must be an integer' })
+      } else if (options.minimum !== undefined && value < options.minimum) {
+        issues.push({ path, message: `must be >= ${options.minimum}` })
+      } else if (options.maximum !== undefined && value > options.maximum) {
+        issues.push({ path, message: `must be <= ${options.maximum}` })
+      }
+      return value
+    },
+    () => ({
+      type: options.integer ? 'integer' : 'number',
+      ...(options.minimum !== undefined && { minimum: options.minimum }),
+      ...(options.maximum !== undefined && { maximum: options.maximum }),
+      ...(options.description && { description: options.description }),
+    })
+  )
+}
+
+function boolean(): Schema<boolean> {
+  return define(
+    (value, path, issues) => {
+      expectType(value, 'boolean', path, issues)
+      return value as boolean
+    },
+    () => ({ type: 'boolean' })
+  )
+}
+
+/** One of a fixed set of string or number values */
+function literal<const V extends readonly (string | number | boolean)[]>(...values: V): Schema<V[number]> {
+  return define(
+    (value, path, issues) => {
+      if (!values.includes(value as V[number])) {
+        issues.push({ path, message: `must be one of ${values.map(v => JSON.stringify(v)).join(', ')}` })
+      }
+      return value as V[number]
+    },
+    () => (values.length === 1 ? { const: values[0] } : { enum: [...values] })
+  )
+}
+
+/** Any JSON value (passed through unchecked) */
+function unknown(description?: string): Schema<unknown> {
+  return define(
+    (value) => value,
+    () => (description ? { description } : {})
+  )
+}
+
+function array<T>(item: Schema<T>, options: { minItems?: number; maxItems?: number } = {}): Schema<T[]> {
+  return define(
+    (value, path, issues) => {
+      if (!expectType(value, 'array', path, issues)) return value as T[]
+      const list = value as unknown[]
+      if (options.minItems !== undefined && list.length < options.minItems) {
+        issues.push({ path, message: options.minItems === 1 ? 'must not be empty' : `must have at least ${options.minItems} items` })
+      } else if (options.maxItems !== undefined && list.length > options.maxItems) {
+        issues.push({ path, message: `must have at most ${options.maxItems} items` })
+      }
+      return list.map((entry, i) => item.check(entry, join(path, i), issues))
+    },
+    (components) => ({
+      type: 'array',
+      items: item.toJsonSchema(components),
+      ...(options.minItems !== undefined && { minItems: options.minItems }),
+      ...(options.maxItems !== undefined && { maxItems: options.maxItems }),
+    })
+  )
+}
+
+/** Object with arbitrary keys and values of one type */
+function record<T>(value: Schema<T>): Schema<Record<string, T>> {
+  return define(
+    (input, path, issues) => {
+      if (!expectType(input, 'object', path, issues)) return input as Record<string, T>
+      const result: Record<string, T> = {}
+      for (const [key, entry] of Object.entries(input as Record<string, unknown>)) {
+        result[key] = value.check(entry, join(path, key), issues)
+      }
+      return result
+    },
+    (components) => ({ type: 'object', additionalProperties: value.toJsonSchema(components) })
+  )
+}
+
+/**
+ * Object with known properties. Unknown properties are dropped.
+ * Pass the shared type explicitly: `s.object<CreateSessionRequest>({...})`.
+ */
+function object<T>(shape: Shape<T>, options: { description?: string } = {}): Schema<T> {
+  const entries = Object.entries(shape) as Array<[string, SchemaBase<unknown> & { optional: boolean }]>
+  return define(
+    (value, path, issues) => {
+      if (!expectType(value, 'object', path, issues)) return value as T
+      const input = value as Record<string, unknown>
+      const result: Record<string, unknown> = {}
+      for (const [key, schema] of entries) {
+        if (input[key] === undefined) {
+          if (!schema.optional) issues.push({ path: join(path, key), message: 'is required' })
+          continue
+        }
+        result[key] = schema.check(input[key], join(path, key), issues)
+      }
+      return result as T
+    },
+    (components) => {
+      const required = entries.filter(([, schema]) => !schema.optional).map(([key]) => key)
+      return {
+        type: 'object',
+        properties: Object.fromEntries(entries.map(([key, schema]) => [key, schema.toJsonSchema(components)])),
+        ...(required.length > 0 && { required }),
+        ...(options.description && { description: options.description }),
+      }
+    }
+  )
+}
+
+/** Value matching the first schema that accepts it */
+function union<A, B>(first: Schema<A>, second: Schema<B>): Schema<A | B>
+function union<A, B, C>(first: Schema<A>, second: Schema<B>, third: Schema<C>): Schema<A | B | C>
+function union(...options: Schema<unknown>[]): Schema<unknown> {
+  return define(
+    (value, path, issues) => {
+      const attempts: ValidationIssue[][] = []
+      for (const option of options) {
+        const optionIssues: ValidationIssue[] = []
+        const result = option.check(value, path, optionIssues)
+        if (optionIssues.length === 0) return result
+        attempts.push(optionIssues)
+      }
+      // Report the closest match (fewest problems)
+      attempts.sort((a, b) => a.length - b.length)
+      issues.push(...attempts[0])
+      return value
+    },
+    (components) => ({ anyOf: options.map(option => option.toJsonSchema(components)) })
+  )
+}
+
+function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return define(
+    (value, path, issues) => (value === null ? null : schema.check(value, path, issues)),
+    (components) => ({ anyOf: [schema.toJsonSchema(components), { type: 'null' }] })
+  )
+}
+
+/** Mark an object property as optional */
+function optional<T>(schema: Schema<T>): OptionalSchema<T> {
+  return {
+    optional: true,
+    check: (value, path, issues) => (value === undefined ? undefined : schema.check(value, path, issues)),
+    toJsonSchema: (components) => schema.toJsonSchema(components),
+    parse: (value) => (value === undefined ? undefined : schema.parse(value)),
+  }
+}
+
+/**
+ * Give a schema a name: it appears once under components/schemas in the
+ * OpenAPI document and is referenced from everywhere it's used
+ */
+function named<T>(name: string, schema: Schema<T>): Schema<T> {
+  return define(
+    (value, path, issues) => schema.check(value, path, issues),
+    (components) => {
+      if (!(name in components)) {
+        components[name] = {} // Placeholder first, in case the schema refers to itself
+        components[name] = schema.toJsonSchema(components)
+      }
+      return { $ref: `#/components/schemas/${name}` }
+    }
+  )
+}
+
+export const s = {
+  string,
+  number,
+  boolean,
+  literal,
+  unknown,
+  array,
+  record,
+  object,
+  union,
+  nullable,
+  optional,
+  named,
+}
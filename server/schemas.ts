@@ -0,0 +1,701 @@
+/**
+ * API schemas for the types in shared/types.ts
+ *
+ * Request schemas validate incoming bodies; response schemas document what
+ * the server sends back. Both are checked against the shared interfaces at
+ * compile time (see s.object in schema.ts).
+ */
+
+import { s, type Schema, type Shape } from './schema.js'
+import type * as T from '../shared/types.js'
+import type * as Agent from '../shared/agent-protocol.js'
+import { SESSION_KEYS } from '../shared/types.js'
+
+/** Response to requests that only report success */
+export interface OkResponse {
+  ok: boolean
+  error?: string
+}
+
+/** Response carrying one payload field next to `ok` */
+export type OkWith<K extends string, T> = { ok: boolean } & { [P in K]: T }
+
+// ============================================================================
+// Building blocks
+// ============================================================================
+
+const Id = s.string({ minLength: 1 })
+const Prompt = s.string({ minLength: 1 })
+const Timestamp = s.number({ description: 'Unix ms' })
+
+/** Longest key sequence one request may send */
+const MAX_KEYS_PER_REQUEST = 32
+
+export const HexCoord = s.named('HexCoord', s.object<{ q: number; r: number }>({
+  q: s.number({ integer: true }),
+  r: s.number({ integer: true }),
+}))
+
+export const OkResponse = s.named('OkResponse', s.object<OkResponse>({
+  ok: s.boolean(),
+  error: s.optional(s.string()),
+}))
+
+/**
+ * Schema for `{ ok, <key>: value }`, the shape most endpoints respond with
+ */
+export function okWith<K extends string, T>(key: K, value: Schema<T>): Schema<OkWith<K, T>> {
+  const shape = { ok: s.boolean(), [key]: value }
+  return s.object<OkWith<K, T>>(shape as unknown as Shape<OkWith<K, T>>)
+}
+
+/** Claude Code hook events are passed through as-is */
+export const ClaudeEvent = s.named('ClaudeEvent', s.unknown('Claude Code hook event (see shared/types.ts ClaudeEvent)') as Schema<T.ClaudeEvent>)
+
+// ============================================================================
+// Sessions
+// ============================================================================
+
+const FileCounts = s.object<T.GitStatus['staged']>({
+  added: s.number(),
+  modified: s.number(),
+  deleted: s.number(),
+})
+
+export const GitStatus = s.named('GitStatus', s.object<T.GitStatus>({
+  branch: s.string(),
+  ahead: s.number(),
+  behind: s.number(),
+  staged: FileCounts,
+  unstaged: FileCounts,
+  untracked: s.number(),
+  totalFiles: s.number(),
+  linesAdded: s.number(),
+  linesRemoved: s.number(),
+  lastCommitTime: s.nullable(s.number({ description: 'Unix seconds' })),
+  lastCommitMessage: s.nullable(s.string()),
+  isRepo: s.boolean(),
+  isWorktree: s.optional(s.boolean()),
+  lastChecked: Timestamp,
+}))
+
+const GitChangeArea = s.literal('staged', 'unstaged', 'untracked')
+
+const gitCommitFileShape = {
+  path: s.string({ description: 'Relative to the repository root' }),
+  oldPath: s.optional(s.string({ description: 'Path before a rename or copy' })),
+  change: s.literal('added', 'modified', 'deleted', 'renamed', 'copied', 'typechange', 'conflicted'),
+  linesAdded: s.nullable(s.number()),
+  linesRemoved: s.nullable(s.number()),
+  binary: s.boolean(),
+}
+
+const gitFileChangeShape = {
+  ...gitCommitFileShape,
+  area: GitChangeArea,
+}
+
+export const GitFileChange = s.named('GitFileChange', s.object<T.GitFileChange>(gitFileChangeShape))
+
+export const GitFileDiff = s.named('GitFileDiff', s.object<T.GitFileDiff>({
+  ...gitFileChangeShape,
+  diff: s.string({ description: 'Unified diff' }),
+  truncated: s.boolean(),
+}))
+
+const GitCommitFile = s.named('GitCommitFile', s.object<T.GitCommitFile>(gitCommitFileShape))
+
+const SessionCommitPrompt = s.object<T.SessionCommitPrompt>({
+  eventId: s.string(),
+  timestamp: Timestamp,
+  text: s.string(),
+})
+
+const SessionCommitTool = s.object<T.SessionCommitTool>({
+  eventId: s.string(),
+  timestamp: Timestamp,
+  tool: s.string(),
+  summary: s.string({ description: 'File path, command or pattern' }),
+})
+
+export const SessionCommit = s.named('SessionCommit', s.object<T.SessionCommit>({
+  hash: s.string(),
+  shortHash: s.string(),
+  parents: s.array(s.string()),
+  refs: s.array(s.string({ description: 'Branch or tag name, as git log --decorate prints it' })),
+  subject: s.string(),
+  body: s.string(),
+  author: s.string(),
+  timestamp: Timestamp,
+  files: s.array(GitCommitFile),
+  linesAdded: s.number(),
+  linesRemoved: s.number(),
+  prompt: s.nullable(SessionCommitPrompt),
+  tools: s.array(SessionCommitTool),
+}))
+
+export const SessionWorktree = s.named('SessionWorktree', s.object<T.SessionWorktree>({
+  path: s.string(),
+  branch: s.string(),
+  repoRoot: s.string(),
+  base: s.string(),
+}))
+
+export const QueuedPrompt = s.named('QueuedPrompt', s.object<T.QueuedPrompt>({
+  id: Id,
+  prompt: s.string(),
+  createdAt: Timestamp,
+}))
+
+export const PromptQueueError = s.named('PromptQueueError', s.object<T.PromptQueueError>({
+  message: s.string(),
+  attempts: s.number(),
+  at: Timestamp,
+  retryAt: s.nullable(Timestamp),
+}))
+
+export const ScheduleTrigger = s.named('ScheduleTrigger', s.union(
+  s.object<Extract<T.ScheduleTrigger, { type: 'interval' }>>({
+    type: s.literal('interval'),
+    minutes: s.number({ minimum: 1 }),
+  }),
+  s.object<Extract<T.ScheduleTrigger, { type: 'cron' }>>({
+    type: s.literal('cron'),
+    expression: s.string({ minLength: 1, description: '5-field cron expression' }),
+  })
+))
+
+const ScheduleRun = s.object<T.ScheduleRun>({
+  at: Timestamp,
+  outcome: s.literal('sent', 'skipped', 'failed'),
+  detail: s.optional(s.string()),
+})
+
+export const PromptSchedule = s.named('PromptSchedule', s.object<T.PromptSchedule>({
+  id: Id,
+  sessionId: Id,
+  prompt: s.string(),
+  trigger: ScheduleTrigger,
+  enabled: s.boolean(),
+  createdAt: Timestamp,
+  nextRunAt: s.nullable(Timestamp),
+  runs: s.array(ScheduleRun),
+}))
+
+export const SessionPipeline = s.named('SessionPipeline', s.object<T.SessionPipeline>({
+  id: Id,
+  fromSessionId: Id,
+  toSessionId: Id,
+  prompt: s.string(),
+  enabled: s.boolean(),
+  createdAt: Timestamp,
+  lastFiredAt: s.nullable(Timestamp),
+  fireCount: s.number(),
+}))
+
+const SessionFlags = s.object<NonNullable<T.CreateSessionRequest['flags']>>({
+  continue: s.optional(s.boolean()),
+  skipPermissions: s.optional(s.boolean()),
+  chrome: s.optional(s.boolean()),
+})
+
+const WorktreeOption = s.union(
+  s.boolean(),
+  s.object<{ branch?: string; base?: string }>({
+    branch: s.optional(s.string({ minLength: 1 })),
+    base: s.optional(s.string({ minLength: 1 })),
+  })
+)
+
+export const SessionBudget = s.named('SessionBudget', s.object<T.SessionBudget>({
+  limitUsd: s.number({ minimum: 0, description: 'Limit in USD' }),
+  warnAt: s.optional(s.array(s.number({ minimum: 0, description: 'Fraction of the limit' }))),
+  cancelOnExceed: s.optional(s.boolean()),
+  blockPrompts: s.optional(s.boolean()),
+}))
+
+export const ManagedSession = s.named('ManagedSession', s.object<T.ManagedSession>({
+  id: Id,
+  name: s.string(),
+  tmuxSession: s.string(),
+  status: s.literal('idle', 'working', 'waiting', 'offline'),
+  claudeSessionId: s.optional(s.string()),
+  createdAt: Timestamp,
+  lastActivity: Timestamp,
+  cwd: s.optional(s.string()),
+  currentTool: s.optional(s.string()),
+  tokens: s.optional(s.object<NonNullable<T.ManagedSession['tokens']>>({
+    current: s.number(),
+    cumulative: s.number(),
+  })),
+  cost: s.optional(s.number({ description: 'Estimated spend in USD' })),
+  budget: s.optional(SessionBudget),
+  gitStatus: s.optional(GitStatus),
+  zonePosition: s.optional(HexCoord),
+  promptQueue: s.optional(s.array(QueuedPrompt)),
+  promptQueueError: s.optional(PromptQueueError),
+  schedules: s.optional(s.array(PromptSchedule)),
+  pipelines: s.optional(s.array(SessionPipeline)),
+  worktree: s.optional(SessionWorktree),
+  flags: s.optional(SessionFlags),
+  forkedFrom: s.optional(Id),
+}))
+
+export const SessionResponse = s.named('SessionResponse', s.object<T.SessionResponse>({
+  ok: s.boolean(),
+  session: s.optional(ManagedSession),
+  error: s.optional(s.string()),
+}))
+
+export const SessionListResponse = s.named('SessionListResponse', s.object<T.SessionListResponse>({
+  ok: s.boolean(),
+  sessions: s.array(ManagedSession),
+}))
+
+export const CreateSessionRequest = s.named('CreateSessionRequest', s.object<T.CreateSessionRequest>({
+  name: s.optional(s.string()),
+  cwd: s.optional(s.string()),
+  flags: s.optional(SessionFlags),
+  worktree: s.optional(WorktreeOption),
+}))
+
+export const ForkSessionRequest = s.named('ForkSessionRequest', s.object<T.ForkSessionRequest>({
+  name: s.optional(s.string()),
+  worktree: s.optional(WorktreeOption),
+}))
+
+export const DeleteSessionRequest = s.named('DeleteSessionRequest', s.object<T.DeleteSessionRequest>({
+  worktree: s.optional(s.literal('keep', 'remove')),
+  deleteBranch: s.optional(s.boolean()),
+}))
+
+export const UpdateSessionRequest = s.named('UpdateSessionRequest', s.object<T.UpdateSessionRequest>({
+  name: s.optional(s.string({ minLength: 1 })),
+  budget: s.optional(s.nullable(SessionBudget)),
+  zonePosition: s.optional(HexCoord),
+}))
+
+export const SessionPromptRequest = s.named('SessionPromptRequest', s.object<T.SessionPromptRequest>({
+  prompt: Prompt,
+  send: s.optional(s.boolean()),
+  immediate: s.optional(s.boolean()),
+}))
+
+export const BroadcastPromptRequest = s.named('BroadcastPromptRequest', s.object<T.BroadcastPromptRequest>({
+  sessionIds: s.array(Id, { minItems: 1 }),
+  prompt: Prompt,
+}))
+
+export const BroadcastPromptResult = s.named('BroadcastPromptResult', s.object<T.BroadcastPromptResult>({
+  sessionId: Id,
+  ok: s.boolean(),
+  error: s.optional(s.string()),
+  queued: s.optional(s.boolean()),
+  position: s.optional(s.number()),
+}))
+
+export const EnqueuePromptRequest = s.named('EnqueuePromptRequest', s.object<T.EnqueuePromptRequest>({
+  prompt: Prompt,
+  position: s.optional(s.number({ integer: true, minimum: 0 })),
+}))
+
+export const UpdateQueuedPromptRequest = s.named('UpdateQueuedPromptRequest', s.object<T.UpdateQueuedPromptRequest>({
+  prompt: s.optional(Prompt),
+  position: s.optional(s.number({ integer: true, minimum: 0 })),
+}))
+
+export const CreateScheduleRequest = s.named('CreateScheduleRequest', s.object<T.CreateScheduleRequest>({
+  prompt: Prompt,
+  trigger: ScheduleTrigger,
+  enabled: s.optional(s.boolean()),
+}))
+
+export const UpdateScheduleRequest = s.named('UpdateScheduleRequest', s.object<T.UpdateScheduleRequest>({
+  prompt: s.optional(Prompt),
+  trigger: s.optional(ScheduleTrigger),
+  enabled: s.optional(s.boolean()),
+}))
+
+export const CreatePipelineRequest = s.named('CreatePipelineRequest', s.object<T.CreatePipelineRequest>({
+  fromSessionId: Id,
+  toSessionId: Id,
+  prompt: Prompt,
+  enabled: s.optional(s.boolean()),
+}))
+
+export const UpdatePipelineRequest = s.named('UpdatePipelineRequest', s.object<T.UpdatePipelineRequest>({
+  toSessionId: s.optional(Id),
+  prompt: s.optional(Prompt),
+  enabled: s.optional(s.boolean()),
+}))
+
+// ============================================================================
+// Projects, tiles, hex art, replay
+// ============================================================================
+
+export const KnownProject = s.named('KnownProject', s.object<T.KnownProject>({
+  path: s.string(),
+  name: s.string(),
+  lastUsed: Timestamp,
+  useCount: s.number(),
+}))
+
+export const TextTile = s.named('TextTile', s.object<T.TextTile>({
+  id: Id,
+  text: s.string(),
+  position: HexCoord,
+  color: s.optional(s.string()),
+  createdAt: Timestamp,
+}))
+
+export const CreateTextTileRequest = s.named('CreateTextTileRequest', s.object<T.CreateTextTileRequest>({
+  text: s.string({ minLength: 1 }),
+  position: HexCoord,
+  color: s.optional(s.string()),
+}))
+
+export const UpdateTextTileRequest = s.named('UpdateTextTileRequest', s.object<T.UpdateTextTileRequest>({
+  text: s.optional(s.string({ minLength: 1 })),
+  position: s.optional(HexCoord),
+  color: s.optional(s.string()),
+}))
+
+const PaintedHex = s.object<T.PaintedHex>({
+  q: s.number({ integer: true }),
+  r: s.number({ integer: true }),
+  color: s.number(),
+  height: s.number(),
+})
+
+export const HexArtState = s.named('HexArtState', s.object<T.HexArtState>({
+  hexes: s.array(PaintedHex),
+  zoneElevations: s.record(s.number()),
+}))
+
+export const HexArtResponse = s.named('HexArtResponse', s.object<{ ok: boolean } & T.HexArtState>({
+  ok: s.boolean(),
+  hexes: s.array(PaintedHex),
+  zoneElevations: s.record(s.number()),
+}))
+
+export const ReplaySessionSummary = s.named('ReplaySessionSummary', s.object<T.ReplaySessionSummary>({
+  sessionId: s.string(),
+  name: s.string(),
+  firstPrompt: s.nullable(s.string()),
+  toolCount: s.number(),
+  eventCount: s.number(),
+  startTime: Timestamp,
+  endTime: Timestamp,
+  cwd: s.nullable(s.string()),
+  tools: s.record(s.number()),
+}))
+
+export const SendKeysRequest = s.named('SendKeysRequest', s.object<T.SendKeysRequest>({
+  keys: s.array(s.literal(...SESSION_KEYS), { minItems: 1, maxItems: MAX_KEYS_PER_REQUEST }),
+}))
+
+// ============================================================================
+// Git
+// ============================================================================
+
+/** Most paths one stage/unstage request may name */
+const MAX_GIT_PATHS = 1000
+
+const RepoPath = s.string({ minLength: 1, description: 'Relative to the repository root' })
+
+export const GitPathsRequest = s.named('GitPathsRequest', s.object<T.GitPathsRequest>({
+  paths: s.array(RepoPath, { minItems: 1, maxItems: MAX_GIT_PATHS }),
+}))
+
+export const GitCommitRequest = s.named('GitCommitRequest', s.object<T.GitCommitRequest>({
+  message: s.string({ pattern: /\S/ }),
+}))
+
+export const GitStashRequest = s.named('GitStashRequest', s.object<T.GitStashRequest>({
+  message: s.optional(s.string()),
+  includeUntracked: s.optional(s.boolean()),
+}))
+
+export const GitDiscardRequest = s.named('GitDiscardRequest', s.object<T.GitDiscardRequest>({
+  path: RepoPath,
+  hunks: s.optional(s.array(s.number({ integer: true, minimum: 0 }), { minItems: 1 })),
+}))
+
+export const GitCheckoutRequest = s.named('GitCheckoutRequest', s.object<T.GitCheckoutRequest>({
+  branch: s.string({ pattern: /^[^-]/ }),
+  create: s.optional(s.boolean()),
+}))
+
+export const GitBranches = s.named('GitBranches', s.object<T.GitBranches>({
+  current: s.nullable(s.string()),
+  branches: s.array(s.string()),
+}))
+
+export const GitCheckpoint = s.named('GitCheckpoint', s.object<T.GitCheckpoint>({
+  id: s.string(),
+  commit: s.string(),
+  head: s.nullable(s.string()),
+  eventId: s.nullable(s.string({ description: 'user_prompt_submit event it was taken for' })),
+  label: s.string(),
+  timestamp: Timestamp,
+}))
+
+export interface GitActionResponse {
+  ok: boolean
+  /** The session's git status after the action */
+  gitStatus: T.GitStatus | null
+  /** Hash of the commit created (commit only) */
+  commit?: string
+  /** Checkpoint of the files as they were before rewinding (rewind only) */
+  checkpoint?: T.GitCheckpoint
+}
+
+export const GitActionResponse = s.named('GitActionResponse', s.object<GitActionResponse>({
+  ok: s.boolean(),
+  gitStatus: s.nullable(GitStatus),
+  commit: s.optional(s.string()),
+  checkpoint: s.optional(GitCheckpoint),
+}))
+
+// ============================================================================
+// Webhooks
+// ============================================================================
+
+const WebhookUrl = s.string({ pattern: /^https?:\/\/\S+$/, description: 'http(s) URL to POST to' })
+
+const WebhookEvents = s.array(
+  s.string({ pattern: /^[a-z_]+$/, description: "Message type ('session_status', ...) or hook event type ('stop', ...)" }),
+  { minItems: 1 },
+)
+
+export const Webhook = s.named('Webhook', s.object<T.Webhook>({
+  id: Id,
+  url: s.string(),
+  events: s.array(s.string()),
+  sessions: s.optional(s.array(s.string())),
+  description: s.optional(s.string()),
+  enabled: s.boolean(),
+  createdAt: Timestamp,
+  lastDeliveryAt: s.nullable(Timestamp),
+  consecutiveFailures: s.number(),
+}))
+
+export const WebhookDelivery = s.named('WebhookDelivery', s.object<T.WebhookDelivery>({
+  id: Id,
+  webhookId: Id,
+  event: s.string(),
+  status: s.literal('pending', 'success', 'failed'),
+  attempts: s.number(),
+  responseStatus: s.nullable(s.number()),
+  error: s.nullable(s.string()),
+  createdAt: Timestamp,
+  nextAttemptAt: s.nullable(Timestamp),
+  completedAt: s.nullable(Timestamp),
+}))
+
+export const CreateWebhookRequest = s.named('CreateWebhookRequest', s.object<T.CreateWebhookRequest>({
+  url: WebhookUrl,
+  events: WebhookEvents,
+  sessions: s.optional(s.array(Id)),
+  description: s.optional(s.string({ maxLength: 200 })),
+  secret: s.optional(s.string({ minLength: 16, description: 'Signing secret (generated if absent)' })),
+  enabled: s.optional(s.boolean()),
+}))
+
+export const UpdateWebhookRequest = s.named('UpdateWebhookRequest', s.object<T.UpdateWebhookRequest>({
+  url: s.optional(WebhookUrl),
+  events: s.optional(WebhookEvents),
+  sessions: s.optional(s.nullable(s.array(Id))),
+  description: s.optional(s.string({ maxLength: 200 })),
+  enabled: s.optional(s.boolean()),
+}))
+
+export interface CreateWebhookResponse {
+  ok: boolean
+  webhook: T.Webhook
+  /** Signing secret - not returned again */
+  secret: string
+}
+
+export const CreateWebhookResponse = s.named('CreateWebhookResponse', s.object<CreateWebhookResponse>({
+  ok: s.boolean(),
+  webhook: Webhook,
+  secret: s.string(),
+}))
+
+// ============================================================================
+// Universal Agent Protocol
+// ============================================================================
+
+export const AgentRegistration = s.named('AgentRegistration', s.object<Agent.AgentRegistration>({
+  name: s.string({ minLength: 1 }),
+  framework: s.string({ minLength: 1 }),
+  cwd: s.optional(s.string()),
+  metadata: s.optional(s.record(s.unknown())),
+}))
+
+export const RegisteredAgent = s.named('RegisteredAgent', s.object<Agent.RegisteredAgent>({
+  name: s.string(),
+  framework: s.string(),
+  cwd: s.optional(s.string()),
+  metadata: s.optional(s.record(s.unknown())),
+  agentId: Id,
+  registeredAt: Timestamp,
+}))
+
+/** Raw event body: a Claude Code hook event or a universal agent event */
+export const RawEvent = s.record(s.unknown())
+
+// ============================================================================
+// Server responses
+// ============================================================================
+
+export interface HealthResponse {
+  ok: boolean
+  version: string
+  clients: number
+  events: number
+  voiceEnabled: boolean
+  authRequired: boolean
+}
+
+export const HealthResponse = s.named('HealthResponse', s.object<HealthResponse>({
+  ok: s.boolean(),
+  version: s.string(),
+  clients: s.number({ description: 'Connected WebSocket clients' }),
+  events: s.number({ description: 'Events held in memory' }),
+  voiceEnabled: s.boolean(),
+  authRequired: s.boolean(),
+}))
+
+export interface ConfigResponse {
+  username: string
+  hostname: string
+  tmuxSession: string
+}
+
+export const ConfigResponse = s.named('ConfigResponse', s.object<ConfigResponse>({
+  username: s.string(),
+  hostname: s.string(),
+  tmuxSession: s.string(),
+}))
+
+export interface StatsResponse {
+  totalEvents: number
+  toolCounts: Record<string, number>
+  avgDurations: Record<string, number>
+  tokens: Record<string, { current: number; cumulative: number }>
+}
+
+export const StatsResponse = s.named('StatsResponse', s.object<StatsResponse>({
+  totalEvents: s.number(),
+  toolCounts: s.record(s.number()),
+  avgDurations: s.record(s.number({ description: 'Average duration in ms' })),
+  tokens: s.record(s.object<{ current: number; cumulative: number }>({
+    current: s.number(),
+    cumulative: s.number(),
+  })),
+}))
+
+/** Result of sending a prompt to a session (queued if the session is busy) */
+export interface PromptResult {
+  ok: boolean
+  error?: string
+  queued?: boolean
+  position?: number
+}
+
+export const PromptResult = s.named('PromptResult', s.object<PromptResult>({
+  ok: s.boolean(),
+  error: s.optional(s.string()),
+  queued: s.optional(s.boolean()),
+  position: s.optional(s.number({ description: 'Position in the queue (when queued)' })),
+}))
+
+export interface EventPageResponse {
+  ok: boolean
+  events: T.ClaudeEvent[]
+  /** Pass as `cursor` for the next page (null at the end) */
+  nextCursor: string | null
+}
+
+export const EventPageResponse = s.named('EventPageResponse', s.object<EventPageResponse>({
+  ok: s.boolean(),
+  events: s.array(ClaudeEvent),
+  nextCursor: s.nullable(s.string()),
+}))
+
+export const DailyCost = s.named('DailyCost', s.object<T.DailyCost>({
+  date: s.string({ description: 'YYYY-MM-DD (server local time)' }),
+  tokens: s.number(),
+  costUsd: s.number(),
+  sessions: s.record(s.number()),
+}))
+
+export const CostReport = s.named('CostReport', s.object<T.CostReport>({
+  pricing: s.record(s.number()),
+  model: s.string(),
+  sessions: s.array(s.object<T.CostReport['sessions'][number]>({
+    sessionId: Id,
+    name: s.string(),
+    tokens: s.number(),
+    costUsd: s.number(),
+    budget: s.optional(SessionBudget),
+  })),
+  days: s.array(DailyCost),
+}))
+
+export const PermissionOption = s.named('PermissionOption', s.object<T.PermissionOption>({
+  number: s.string({ description: 'Key to send, e.g. "1"' }),
+  label: s.string(),
+}))
+
+export const PermissionRule = s.named('PermissionRule', s.object<T.PermissionRule>({
+  action: s.literal('allow', 'deny', 'ask'),
+  tool: s.optional(s.string()),
+  pattern: s.optional(s.string({ description: 'Regular expression tested against the prompt text; allow rules must match the whole tool input' })),
+  allowShellOperators: s.optional(s.boolean()),
+  description: s.optional(s.string()),
+}))
+
+export const PermissionAuditEntry = s.named('PermissionAuditEntry', s.object<T.PermissionAuditEntry>({
+  id: Id,
+  sessionId: Id,
+  sessionName: s.string(),
+  claudeSessionId: s.optional(s.string()),
+  tool: s.string(),
+  context: s.string(),
+  options: s.array(PermissionOption),
+  promptedAt: s.number({ description: 'Unix ms' }),
+  answeredAt: s.number({ description: 'Unix ms' }),
+  waitMs: s.number(),
+  option: s.nullable(PermissionOption),
+  source: s.literal('ui', 'websocket', 'rest', 'rule', 'terminal'),
+  client: s.optional(s.string({ description: 'Remote address of the client that answered' })),
+  rule: s.optional(PermissionRule),
+  ruleFile: s.optional(s.string()),
+}))
+
+export interface PermissionAuditPage {
+  ok: boolean
+  entries: T.PermissionAuditEntry[]
+  /** Pass as `cursor` for the next page (null at the end) */
+  nextCursor: string | null
+}
+
+export const PermissionAuditPage = s.named('PermissionAuditPage', s.object<PermissionAuditPage>({
+  ok: s.boolean(),
+  entries: s.array(PermissionAuditEntry),
+  nextCursor: s.nullable(s.string()),
+}))
+
+export interface DeleteSessionResponse {
+  ok: boolean
+  /** Set when the session was deleted but its worktree couldn't be removed */
+  worktreeError?: string
+}
+
+export const DeleteSessionResponse = s.named('DeleteSessionResponse', s.object<DeleteSessionResponse>({
+  ok: s.boolean(),
+  worktreeError: s.optional(s.string()),
+}))
@@ -0,0 +1,74 @@
+/**
+ * webhook-receiver - Local endpoint for trying out webhooks
+ *
+ * Prints each delivery it receives and checks its signature:
+ *
+ *   npm run webhook-receiver -- --port 4010 --secret whsec_...
+ *   curl -X POST localhost:4003/webhooks -H 'Content-Type: application/json' \
+ *     -d '{"url": "http://localhost:4010/", "events": ["session_status", "stop"], "secret": "whsec_..."}'
+ *
+ * Without --secret (or VIBECRAFT2_WEBHOOK_SECRET) signatures are shown but
+ * not checked. --fail makes it answer 500, to watch retries happen.
+ */
+
+import { createServer } from 'http'
+import { parseArgs } from 'util'
+import type { WebhookPayload } from '../../shared/types.js'
+import { verifyWebhookSignature } from '../WebhookManager.js'
+
+/** Reject deliveries signed longer ago than this (replays) */
+const MAX_AGE_MS = 5 * 60_000
+
+const { values: args } = parseArgs({
+  options: {
+    port: { type: 'string', default: '4010' },
+    secret: { type: 'string', default: process.env.VIBECRAFT2_WEBHOOK_SECRET },
+    fail: { type: 'boolean', default: false },
+  },
+})
+
+const port = parseInt(args.port, 10)
+const secret = args.secret
+
+const server = createServer((req, res) => {
+  const chunks: Buffer[] = []
+  req.on('data', (chunk: Buffer) => chunks.push(chunk))
+  req.on('end', () => {
+    const body = Buffer.concat(chunks).toString('utf-8')
+    const header = (name: string) => String(req.headers[name] ?? '')
+    const timestamp = header('x-vibecraft2-timestamp')
+    const signature = header('x-vibecraft2-signature')
+
+    let verdict = 'unchecked (no --secret)'
+    if (secret) {
+      if (!verifyWebhookSignature(secret, timestamp, body, signature)) {
+        verdict = 'INVALID'
+      } else if (Math.abs(Date.now() - Number(timestamp)) > MAX_AGE_MS) {
+        verdict = 'valid but stale'
+      } else {
+        verdict = 'valid'
+      }
+    }
+
+    let payload: WebhookPayload | null = null
+    try {
+      payload = JSON.parse(body) as WebhookPayload
+    } catch {
+      // Shown raw below
+    }
+
+    console.log(`\n[${new Date().toLocaleTimeString()}] ${req.method} ${req.url} ${header('x-vibecraft2-event')}`)
+    console.log(`  delivery:  ${header('x-vibecraft2-delivery')}`)
+    console.log(`  signature: ${verdict}`)
+    console.log(payload ? JSON.stringify(payload.data, null, 2).replace(/^/gm, '  ') : `  ${body}`)
+
+    const ok = !args.fail && (!secret || verdict === 'valid')
+    res.writeHead(ok ? 200 : args.fail ? 500 : 401, { 'Content-Type': 'text/plain' })
+    res.end(ok ? 'ok\n' : 'rejected\n')
+  })
+})
+
+server.listen(port, () => {
+  console.log(`Webhook receiver listening on http://localhost:${port}/`)
+  if (args.fail) console.log('Answering every delivery with 500 (--fail)')
+})
@@ -29,8 +29,79 @@ export const DEFAULTS = {
   /** Max events to keep in memory */
   MAX_EVENTS: 1000,
 
+  /**
+   * Rotate the events file into a dated gzip segment once it reaches this
+   * size (MB) or its first event is this old (hours). 0 disables either.
+   */
+  EVENTS_ROTATE_MB: 32,
+  EVENTS_ROTATE_HOURS: 24,
+
+  /**
+   * Days to keep raw tool inputs/outputs in rotated segments; older
+   * segments keep only summaries. 0 keeps raw events forever.
+   */
+  EVENTS_RAW_RETENTION_DAYS: 30,
+
+  /** Days to keep rotated segments at all. 0 keeps them forever. */
+  EVENTS_RETENTION_DAYS: 0,
+
+  /**
+   * USD per million tokens by model, applied to the "↓ N tokens" counts
+   * scraped from session terminals (mostly output tokens).
+   * Override with VIBECRAFT2_TOKEN_PRICING='{"sonnet": 15}'.
+   */
+  TOKEN_PRICING: { opus: 25, sonnet: 15, haiku: 5 } as Record<string, number>,
+
+  /** Row of TOKEN_PRICING used for cost estimates */
+  PRICING_MODEL: 'sonnet',
+
+  /**
+   * Send Ctrl+C to a managed session about to run a dangerous Bash command.
+   * 'off', 'skip-permissions' (only sessions started with
+   * --dangerously-skip-permissions) or 'always'.
+   */
+  DANGER_AUTO_CANCEL: 'off' as 'off' | 'skip-permissions' | 'always',
+
   /** tmux session name */
   TMUX_SESSION: 'claude',
+
+  /**
+   * Backend that runs managed sessions.
+   * 'tmux' (default), 'process' (plain child processes, no tmux needed),
+   * or 'fake' (in-memory scripted sessions, for tests).
+   */
+  SESSION_BACKEND: 'tmux',
+
+  /**
+   * How managed sessions' git status is kept current.
+   * 'watch' (watch each repository for changes, poll rarely) or 'poll'
+   * (poll every few seconds, slowing down while nothing changes).
+   */
+  GIT_STATUS_MODE: 'watch' as 'watch' | 'poll',
+
+  /**
+   * Git checkpoints (snapshots of the working tree taken before each
+   * prompt) kept per managed session. 0 turns checkpoints off.
+   */
+  CHECKPOINTS_KEEP: 50,
+
+  /** Days after which checkpoints are deleted (0 = only the count limit applies) */
+  CHECKPOINTS_MAX_AGE_DAYS: 14,
+
+  /** Permission audit entries kept, newest first (0 = keep all) */
+  PERMISSION_AUDIT_KEEP: 10000,
+
+  /**
+   * Parent directory for git worktrees created for sessions.
+   * Each worktree lands in <dir>/<repo name>/<branch>.
+   */
+  WORKTREES_DIR: '~/.vibecraft2/worktrees',
+
+  /**
+   * API token file, created when the server requires a token
+   * (VIBECRAFT2_REQUIRE_TOKEN=true). Hooks and clients read it from here.
+   */
+  TOKEN_FILE: '~/.vibecraft2/token',
 } as const
 
 export type Defaults = typeof DEFAULTS
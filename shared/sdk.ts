@@ -9,6 +9,7 @@
  * import { Vibecraft2Client } from 'vibecraft2/sdk'
  *
  * const client = new Vibecraft2Client('http://localhost:4003')
+ * // If the server requires a token: new Vibecraft2Client(url, { token })
  * const agentId = await client.register('My Agent', 'custom')
  *
  * await client.toolStart({ name: 'readFile', category: 'read', id: 'tool-1' })
@@ -67,6 +68,15 @@ export interface ToolEndOptions {
   output?: Record<string, unknown>
 }
 
+export interface Vibecraft2ClientOptions {
+  /**
+   * API token for servers started with VIBECRAFT2_REQUIRE_TOKEN=true
+   * (the contents of ~/.vibecraft2/token). Defaults to the
+   * VIBECRAFT2_TOKEN environment variable when running in Node.
+   */
+  token?: string
+}
+
 export interface SubagentSpawnOptions {
   /** Description of the sub-agent's task */
   description?: string
@@ -82,9 +92,13 @@ export class Vibecraft2Client {
   private baseUrl: string
   private agentId: string | null = null
   private source: string = 'custom'
+  private token: string | null
 
-  constructor(url: string = 'http://localhost:4003') {
+  constructor(url: string = 'http://localhost:4003', options: Vibecraft2ClientOptions = {}) {
     this.baseUrl = url.replace(/\/$/, '')
+    this.token = options.token
+      ?? (typeof process !== 'undefined' ? process.env?.VIBECRAFT2_TOKEN : undefined)
+      ?? null
   }
 
   /**
@@ -97,7 +111,7 @@ export class Vibecraft2Client {
 
     const response = await fetch(`${this.baseUrl}/v2/agents/register`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: this.headers(),
       body: JSON.stringify(registration),
     })
 
@@ -248,6 +262,14 @@ export class Vibecraft2Client {
     return this.agentId
   }
 
+  private headers(): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+    if (this.token) {
+      headers.Authorization = `Bearer ${this.token}`
+    }
+    return headers
+  }
+
   private async send(partialEvent: Record<string, unknown>): Promise<void> {
     const event = {
       ...partialEvent,
@@ -259,7 +281,7 @@ export class Vibecraft2Client {
 
     const response = await fetch(`${this.baseUrl}/v2/event`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: this.headers(),
       body: JSON.stringify(event),
     })
 
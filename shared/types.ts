@@ -198,6 +198,12 @@ export type ServerMessage =
   | { type: 'text_tiles'; payload: TextTile[] }
   | { type: 'hexart_state'; payload: HexArtState }
   | { type: 'hexart_delta'; payload: HexArtDelta }
+  | { type: 'pipeline_fired'; payload: PipelineFiredPayload }
+  | { type: 'budget_warning'; payload: BudgetWarning }
+  | { type: 'permission_auto_decision'; payload: PermissionAutoDecision }
+  | { type: 'dangerous_command'; payload: DangerousCommandAlert }
+  | { type: 'session_status'; payload: SessionStatusChange }
+  | { type: 'terminal_frame'; payload: TerminalFrame }
 
 /** Client -> Server messages */
 export type ClientMessage =
@@ -208,6 +214,8 @@ export type ClientMessage =
   | { type: 'voice_stop' }
   | { type: 'permission_response'; payload: { sessionId: string; response: string } }
   | { type: 'hexart_delta'; payload: HexArtDelta }
+  | { type: 'terminal_subscribe'; payload: { sessionId: string } }
+  | { type: 'terminal_unsubscribe'; payload: { sessionId: string } }
 
 // ============================================================================
 // Visualization State
@@ -321,6 +329,10 @@ export interface ManagedSession {
     current: number
     cumulative: number
   }
+  /** Estimated spend in USD (tokens priced with the server's pricing table) */
+  cost?: number
+  /** Spending limit */
+  budget?: SessionBudget
   /** Git status for this session's working directory */
   gitStatus?: GitStatus
   /** Zone position in hex grid (for layout persistence) */
@@ -328,6 +340,356 @@ export interface ManagedSession {
     q: number
     r: number
   }
+  /** Prompts waiting to be sent when the session next goes idle */
+  promptQueue?: QueuedPrompt[]
+  /** Set while the next queued prompt keeps failing to send */
+  promptQueueError?: PromptQueueError
+  /** Scheduled and recurring prompts for this session */
+  schedules?: PromptSchedule[]
+  /** Pipelines that hand off to other sessions when this one finishes */
+  pipelines?: SessionPipeline[]
+  /** Git worktree created for this session (cwd is inside it) */
+  worktree?: SessionWorktree
+  /** Claude command flags the session was started with */
+  flags?: CreateSessionRequest['flags']
+  /** Managed session this one was forked from */
+  forkedFrom?: string
+}
+
+/** A git worktree a session runs in, on its own branch */
+export interface SessionWorktree {
+  /** Worktree directory */
+  path: string
+  /** Branch created for the worktree */
+  branch: string
+  /** Main working tree of the repository it was created from */
+  repoRoot: string
+  /** Ref the branch was created from */
+  base: string
+}
+
+/** A prompt waiting in a session's queue */
+export interface QueuedPrompt {
+  /** Unique ID (UUID) */
+  id: string
+  /** The prompt text */
+  prompt: string
+  /** When it was queued (unix ms) */
+  createdAt: number
+}
+
+/** Why a session's queue is stuck: sending its next prompt failed */
+export interface PromptQueueError {
+  message: string
+  /** Failed sends in a row */
+  attempts: number
+  /** When the last send failed (unix ms) */
+  at: number
+  /** When the send is retried (null = retries used up; retry by hand) */
+  retryAt: number | null
+}
+
+/** When a scheduled prompt fires: every N minutes, or a 5-field cron expression */
+export type ScheduleTrigger =
+  | { type: 'interval'; minutes: number }
+  | { type: 'cron'; expression: string }
+
+/** Outcome of one scheduled run */
+export type ScheduleRunOutcome = 'sent' | 'skipped' | 'failed'
+
+/** One run of a scheduled prompt */
+export interface ScheduleRun {
+  /** When the run happened (unix ms) */
+  at: number
+  outcome: ScheduleRunOutcome
+  /** Why it was skipped or failed */
+  detail?: string
+}
+
+/** A prompt sent to a session on a schedule */
+export interface PromptSchedule {
+  /** Unique ID (UUID) */
+  id: string
+  /** Managed session the prompt is sent to */
+  sessionId: string
+  /** The prompt text */
+  prompt: string
+  trigger: ScheduleTrigger
+  /** Paused schedules keep their history but never fire */
+  enabled: boolean
+  /** When it was created (unix ms) */
+  createdAt: number
+  /** Next time it is due (unix ms), null while paused */
+  nextRunAt: number | null
+  /** Most recent runs, newest first */
+  runs: ScheduleRun[]
+}
+
+/**
+ * Sends a prompt to one session when another finishes its turn.
+ * The prompt may use {{response}} (upstream's last response) and
+ * {{from}} (upstream session name).
+ */
+export interface SessionPipeline {
+  /** Unique ID (UUID) */
+  id: string
+  /** Upstream managed session (fires when it goes working -> idle) */
+  fromSessionId: string
+  /** Downstream managed session that receives the prompt */
+  toSessionId: string
+  /** Prompt template */
+  prompt: string
+  /** Paused pipelines never fire */
+  enabled: boolean
+  /** When it was created (unix ms) */
+  createdAt: number
+  /** Last time it fired (unix ms) */
+  lastFiredAt: number | null
+  /** Number of times it has fired */
+  fireCount: number
+}
+
+/** Broadcast when a pipeline hands a prompt to its downstream session */
+export interface PipelineFiredPayload {
+  pipelineId: string
+  /** Managed session IDs */
+  fromSessionId: string
+  toSessionId: string
+  /** True if the downstream session was busy and the prompt was queued */
+  queued: boolean
+}
+
+/** Spending limit for a session (checked against its estimated cost) */
+export interface SessionBudget {
+  /** Limit in USD */
+  limitUsd: number
+  /** Fractions of the limit that raise a warning (default [0.5, 0.8, 1]) */
+  warnAt?: number[]
+  /** Send Ctrl+C when the limit is reached */
+  cancelOnExceed?: boolean
+  /** Refuse new prompts once the limit is reached */
+  blockPrompts?: boolean
+}
+
+/** Broadcast when a session's cost crosses one of its budget thresholds */
+export interface BudgetWarning {
+  /** Managed session ID */
+  sessionId: string
+  costUsd: number
+  limitUsd: number
+  /** Threshold crossed, as a fraction of the limit (1 = limit reached) */
+  threshold: number
+  /** Ctrl+C was sent to the session */
+  cancelled: boolean
+}
+
+/** Estimated spend per session and per day (GET /costs) */
+export interface CostReport {
+  /** USD per million tokens, by model */
+  pricing: Record<string, number>
+  /** Model whose price applies */
+  model: string
+  sessions: Array<{
+    /** Managed session ID */
+    sessionId: string
+    name: string
+    tokens: number
+    costUsd: number
+    budget?: SessionBudget
+  }>
+  /** Newest first */
+  days: DailyCost[]
+}
+
+/** Estimated spend for one day (local time) */
+export interface DailyCost {
+  /** YYYY-MM-DD */
+  date: string
+  tokens: number
+  costUsd: number
+  /** Managed session ID -> USD */
+  sessions: Record<string, number>
+}
+
+/** What a permission rule does with a matching prompt */
+export type PermissionAction = 'allow' | 'deny' | 'ask'
+
+/**
+ * Rule for answering permission prompts automatically, from
+ * ~/.vibecraft2/permissions.json or <project>/.vibecraft2/permissions.json
+ * (`{"rules": [...]}`). A matching deny beats ask, which beats allow.
+ */
+export interface PermissionRule {
+  action: PermissionAction
+  /** Tool name, e.g. "Bash" (omit or "*" for any tool) */
+  tool?: string
+  /**
+   * Regular expression tested against the prompt text (omit to match any).
+   * Allow rules must instead match the tool call's whole input.
+   */
+  pattern?: string
+  /** Let an allow rule approve Bash commands that chain, pipe or redirect */
+  allowShellOperators?: boolean
+  /** Shown with the decision */
+  description?: string
+}
+
+/** Broadcast when a permission prompt was answered by a rule */
+export interface PermissionAutoDecision {
+  /** Managed session ID */
+  sessionId: string
+  /** Claude session ID (for feed filtering), if linked */
+  claudeSessionId?: string
+  tool: string
+  /** The prompt text */
+  context: string
+  action: 'allow' | 'deny'
+  /** Option sent to the session */
+  option: PermissionOption
+  rule: PermissionRule
+  /** Rules file the rule came from */
+  source: string
+  timestamp: number
+}
+
+/** Who answered a permission prompt ('terminal' = someone typed in the session itself) */
+export type PermissionAnswerSource = 'ui' | 'websocket' | 'rest' | 'rule' | 'terminal'
+
+/** One permission prompt and how it was answered (GET /permissions/audit) */
+export interface PermissionAuditEntry {
+  id: string
+  /** Managed session ID */
+  sessionId: string
+  sessionName: string
+  claudeSessionId?: string
+  tool: string
+  /** The prompt text */
+  context: string
+  options: PermissionOption[]
+  /** When the prompt was detected (unix ms) */
+  promptedAt: number
+  /** When it was answered or went away (unix ms) */
+  answeredAt: number
+  /** How long the session waited (ms) */
+  waitMs: number
+  /** Option chosen (null when answered in the terminal) */
+  option: PermissionOption | null
+  source: PermissionAnswerSource
+  /** Remote address of the client that answered */
+  client?: string
+  /** The rule that answered (source 'rule') */
+  rule?: PermissionRule
+  /** Rules file the rule came from */
+  ruleFile?: string
+}
+
+/** A dangerous-command detector a Bash command tripped */
+export interface DangerousCommandMatch {
+  /** Detector ID, e.g. "force-push" */
+  id: string
+  description: string
+}
+
+/** Broadcast when a Bash command about to run looks dangerous */
+export interface DangerousCommandAlert {
+  /** Managed session ID (absent for sessions vibecraft2 didn't start) */
+  sessionId?: string
+  claudeSessionId: string
+  toolUseId: string
+  command: string
+  cwd: string
+  matches: DangerousCommandMatch[]
+  /** Ctrl+C was sent to the session */
+  cancelled: boolean
+  timestamp: number
+}
+
+/** Broadcast when a managed session moves between idle, working, waiting and offline */
+export interface SessionStatusChange {
+  /** Managed session ID */
+  sessionId: string
+  claudeSessionId?: string
+  name: string
+  from: SessionStatus
+  to: SessionStatus
+  timestamp: number
+}
+
+/**
+ * A managed session's screen, sent over the WebSocket to clients that sent
+ * terminal_subscribe. The first frame after subscribing is the whole
+ * screen; later ones carry only the lines that changed.
+ */
+export interface TerminalFrame {
+  /** Managed session ID */
+  sessionId: string
+  /** Lines on screen (the screen is truncated to this length) */
+  rows: number
+  /** Every line, with ANSI escapes (full frames) */
+  lines?: string[]
+  /** [line index, new content] for lines that changed (incremental frames) */
+  changes?: Array<[number, string]>
+  /** Set when the screen could not be captured (e.g. the session is offline) */
+  error?: string
+}
+
+/**
+ * Outbound webhook: ServerMessages of the chosen types are POSTed to the
+ * URL as signed JSON. The signing secret is only returned on creation.
+ */
+export interface Webhook {
+  /** Unique ID (UUID) */
+  id: string
+  url: string
+  /**
+   * Message types ('session_status', 'permission_prompt', ...) and/or
+   * hook event types ('stop', 'pre_tool_use', ...), as for GET /events/stream
+   */
+  events: string[]
+  /** Only messages about these managed or Claude session IDs (all if absent) */
+  sessions?: string[]
+  description?: string
+  /** Disabled webhooks receive nothing */
+  enabled: boolean
+  /** When it was created (unix ms) */
+  createdAt: number
+  /** Last delivery that finished, successfully or not (unix ms) */
+  lastDeliveryAt: number | null
+  /** Deliveries that failed in a row (reset on success) */
+  consecutiveFailures: number
+}
+
+/** One message sent (or being sent) to a webhook */
+export interface WebhookDelivery {
+  /** Unique ID (UUID), also sent as X-Vibecraft2-Delivery */
+  id: string
+  webhookId: string
+  /** Hook event type for 'event' messages, otherwise the message type */
+  event: string
+  /** pending while attempts remain */
+  status: 'pending' | 'success' | 'failed'
+  /** Attempts made so far */
+  attempts: number
+  /** HTTP status of the last attempt (null if it got no response) */
+  responseStatus: number | null
+  /** Why the last attempt failed */
+  error: string | null
+  createdAt: number
+  /** When the next retry is due (null if none is) */
+  nextAttemptAt: number | null
+  /** When it succeeded or was given up on */
+  completedAt: number | null
+}
+
+/** Body POSTed to a webhook URL */
+export interface WebhookPayload {
+  /** Delivery ID (the same across retries) */
+  id: string
+  event: string
+  /** When the message was broadcast (unix ms) */
+  timestamp: number
+  /** The ServerMessage payload */
+  data: unknown
 }
 
 /** Git repository status */
@@ -364,10 +726,149 @@ export interface GitStatus {
   lastCommitMessage: string | null
   /** Whether directory is a git repo */
   isRepo: boolean
+  /** Whether directory is a linked worktree (not the main working tree) */
+  isWorktree?: boolean
   /** Last time we checked (unix ms) */
   lastChecked: number
 }
 
+/** Where a change sits: in the index, in the working tree, or not yet tracked */
+export type GitChangeArea = 'staged' | 'unstaged' | 'untracked'
+
+/** What happened to a changed file */
+export type GitChangeKind = 'added' | 'modified' | 'deleted' | 'renamed' | 'copied' | 'typechange' | 'conflicted'
+
+/**
+ * One changed file in a session's repository. A file with both staged and
+ * unstaged changes is listed once for each area.
+ */
+export interface GitFileChange {
+  /** Path relative to the repository root */
+  path: string
+  /** Path before a rename or copy */
+  oldPath?: string
+  area: GitChangeArea
+  change: GitChangeKind
+  /** Lines added (null for binary files and untracked files too large to read) */
+  linesAdded: number | null
+  /** Lines removed (null when linesAdded is) */
+  linesRemoved: number | null
+  binary: boolean
+}
+
+/** A changed file with its unified diff */
+export interface GitFileDiff extends GitFileChange {
+  /** Unified diff (`git diff` output for the file) */
+  diff: string
+  /** The diff was cut short at the size limit */
+  truncated: boolean
+}
+
+/** A file changed by a commit (line counts are null for binary files) */
+export type GitCommitFile = Omit<GitFileChange, 'area'>
+
+/** A commit in a session's repository */
+export interface GitCommit {
+  hash: string
+  shortHash: string
+  /** Parent hashes (two or more for merges) */
+  parents: string[]
+  /** Branches and tags pointing at it, as `git log --decorate` names them */
+  refs: string[]
+  /** First line of the message */
+  subject: string
+  /** Rest of the message */
+  body: string
+  author: string
+  /** Commit time (unix ms) */
+  timestamp: number
+  /** Files changed (empty for merges) */
+  files: GitCommitFile[]
+  linesAdded: number
+  linesRemoved: number
+}
+
+/** The session's prompt a commit answered */
+export interface SessionCommitPrompt {
+  /** Event ID of the user_prompt_submit event */
+  eventId: string
+  timestamp: number
+  text: string
+}
+
+/** A tool call that led up to a commit */
+export interface SessionCommitTool {
+  /** Event ID of the pre_tool_use event */
+  eventId: string
+  timestamp: number
+  tool: string
+  /** File path, command or pattern it was called with */
+  summary: string
+}
+
+/** A commit made since a session was created, with the activity behind it */
+export interface SessionCommit extends GitCommit {
+  /** The session's last prompt before the commit (null if none) */
+  prompt: SessionCommitPrompt | null
+  /** Tool calls since that prompt (or the previous commit), oldest first */
+  tools: SessionCommitTool[]
+}
+
+/** A snapshot of a session's working tree, taken before a prompt */
+export interface GitCheckpoint {
+  /** Unique per session (its creation time, as a string) */
+  id: string
+  /** Commit holding the snapshot */
+  commit: string
+  /** HEAD when it was taken (null before the first commit) */
+  head: string | null
+  /** Event ID of the user_prompt_submit event it was taken for (null if taken by hand or before a rewind) */
+  eventId: string | null
+  /** The prompt, or what the checkpoint was taken for */
+  label: string
+  timestamp: number
+}
+
+/** Local branches of a session's repository */
+export interface GitBranches {
+  /** Checked-out branch (null when HEAD is detached) */
+  current: string | null
+  branches: string[]
+}
+
+/** Request to stage or unstage files */
+export interface GitPathsRequest {
+  /** Paths relative to the repository root */
+  paths: string[]
+}
+
+/** Request to commit the staged changes */
+export interface GitCommitRequest {
+  message: string
+}
+
+/** Request to stash the working tree and index */
+export interface GitStashRequest {
+  message?: string
+  /** Stash untracked files too */
+  includeUntracked?: boolean
+}
+
+/** Request to throw away a file's working tree changes */
+export interface GitDiscardRequest {
+  /** Path relative to the repository root */
+  path: string
+  /** Only these hunks of the file's unstaged diff (0-based; default: the whole file) */
+  hunks?: number[]
+}
+
+/** Request to switch branches */
+export interface GitCheckoutRequest {
+  branch: string
+  /** Create the branch from HEAD first */
+  create?: boolean
+}
+
 /** Known project directory for autocomplete */
 export interface KnownProject {
   /** Absolute path to the directory */
@@ -390,11 +891,34 @@ export interface CreateSessionRequest {
     skipPermissions?: boolean  // --dangerously-skip-permissions
     chrome?: boolean        // --chrome
   }
+  /**
+   * Run in a new git worktree on a new branch (cwd must be inside a repo).
+   * `true` picks a branch name; `base` defaults to the current HEAD.
+   */
+  worktree?: boolean | { branch?: string; base?: string }
+}
+
+/** Request to fork a session into a new one resuming the same conversation */
+export interface ForkSessionRequest {
+  /** Name for the fork (default: "<parent> (fork)") */
+  name?: string
+  /** Run the fork in a new git worktree, as for CreateSessionRequest */
+  worktree?: CreateSessionRequest['worktree']
+}
+
+/** Options when deleting a session */
+export interface DeleteSessionRequest {
+  /** What to do with the session's worktree (default 'keep') */
+  worktree?: 'keep' | 'remove'
+  /** Also delete the worktree's branch (only with worktree: 'remove') */
+  deleteBranch?: boolean
 }
 
 /** Request to update a session */
 export interface UpdateSessionRequest {
   name?: string
+  /** Set the spending limit (null removes it) */
+  budget?: SessionBudget | null
   zonePosition?: {
     q: number
     r: number
@@ -405,6 +929,109 @@ export interface UpdateSessionRequest {
 export interface SessionPromptRequest {
   prompt: string
   send?: boolean
+  /** Send now even if the session is busy (skips the queue) */
+  immediate?: boolean
+}
+
+/** Request to send one prompt to several sessions */
+export interface BroadcastPromptRequest {
+  /** Managed session IDs */
+  sessionIds: string[]
+  prompt: string
+}
+
+/** Delivery result for one session of a broadcast */
+export interface BroadcastPromptResult {
+  sessionId: string
+  ok: boolean
+  error?: string
+  /** True if the session was busy and the prompt was queued */
+  queued?: boolean
+  /** Queue length after queueing */
+  position?: number
+}
+
+/** Request to add a prompt to a session's queue */
+export interface EnqueuePromptRequest {
+  prompt: string
+  /** Insert position (0 = next up). Defaults to the end. */
+  position?: number
+}
+
+/** Request to edit or move a queued prompt */
+export interface UpdateQueuedPromptRequest {
+  prompt?: string
+  /** New position in the queue (0 = next up) */
+  position?: number
+}
+
+/** Request to create a scheduled prompt */
+export interface CreateScheduleRequest {
+  prompt: string
+  trigger: ScheduleTrigger
+  enabled?: boolean
+}
+
+/** Request to edit a scheduled prompt */
+export interface UpdateScheduleRequest {
+  prompt?: string
+  trigger?: ScheduleTrigger
+  enabled?: boolean
+}
+
+/** Request to create a pipeline */
+export interface CreatePipelineRequest {
+  fromSessionId: string
+  toSessionId: string
+  prompt: string
+  enabled?: boolean
+}
+
+/** Request to edit a pipeline */
+export interface UpdatePipelineRequest {
+  toSessionId?: string
+  prompt?: string
+  enabled?: boolean
+}
+
+/**
+ * tmux key names POST /sessions/:id/keys accepts: enough to move through
+ * Claude's menus, plan-mode prompts and "Esc to cancel" states
+ */
+export const SESSION_KEYS = [
+  'Enter', 'Escape', 'Tab', 'BTab', 'Space', 'BSpace',
+  'Up', 'Down', 'Left', 'Right', 'Home', 'End', 'PageUp', 'PageDown',
+  'C-c', 'C-o', 'C-r',
+  '0', '1', '2', '3', '4', '5', '6', '7', '8', '9', 'y', 'n',
+] as const
+
+export type SessionKey = typeof SESSION_KEYS[number]
+
+/** Request to send key presses to a session */
+export interface SendKeysRequest {
+  /** Sent in order */
+  keys: SessionKey[]
+}
+
+/** Request to create a webhook */
+export interface CreateWebhookRequest {
+  url: string
+  events: string[]
+  sessions?: string[]
+  description?: string
+  /** Signing secret (generated if absent) */
+  secret?: string
+  enabled?: boolean
+}
+
+/** Request to edit a webhook */
+export interface UpdateWebhookRequest {
+  url?: string
+  events?: string[]
+  /** null delivers messages about every session */
+  sessions?: string[] | null
+  description?: string
+  enabled?: boolean
 }
 
 /** Response for session operations */
@@ -0,0 +1,56 @@
+/**
+ * EventsAPI - Pure API layer for the event history (GET /events)
+ *
+ * All functions are pure HTTP calls with no DOM/state dependencies.
+ */
+
+import type { ClaudeEvent } from '../../shared/types'
+import { apiFetch } from './auth'
+
+export interface EventHistoryQuery {
+  /** Claude session ID */
+  session?: string
+  type?: string
+  tool?: string
+  /** Unix ms */
+  since?: number
+  /** Unix ms */
+  until?: number
+  q?: string
+  cursor?: string
+  limit?: number
+  order?: 'asc' | 'desc'
+}
+
+export interface EventHistoryPage {
+  ok: boolean
+  events: ClaudeEvent[]
+  nextCursor: string | null
+  error?: string
+}
+
+/**
+ * Create an EventsAPI instance bound to a specific API URL
+ */
+export function createEventsAPI(apiUrl: string) {
+  return {
+    /**
+     * Get one page of past events (newest first unless order is 'asc')
+     */
+    async getEvents(query: EventHistoryQuery = {}): Promise<EventHistoryPage> {
+      const params = new URLSearchParams()
+      for (const [key, value] of Object.entries(query)) {
+        if (value !== undefined && value !== '') params.set(key, String(value))
+      }
+      try {
+        const response = await apiFetch(`${apiUrl}/events?${params}`)
+        return await response.json()
+      } catch (e) {
+        console.error('Error fetching event history:', e)
+        return { ok: false, events: [], nextCursor: null, error: 'Network error' }
+      }
+    },
+  }
+}
+
+export type EventsAPI = ReturnType<typeof createEventsAPI>
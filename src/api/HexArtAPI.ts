@@ -5,6 +5,7 @@
  */
 
 import type { HexArtState } from '../../shared/types'
+import { apiFetch } from './auth'
 
 export interface SimpleResponse {
   ok: boolean
@@ -21,7 +22,7 @@ export function createHexArtAPI(apiUrl: string) {
      */
     async getHexArt(): Promise<HexArtState> {
       try {
-        const response = await fetch(`${apiUrl}/hexart`)
+        const response = await apiFetch(`${apiUrl}/hexart`)
         const data = await response.json()
         return {
           hexes: data.hexes || [],
@@ -38,7 +39,7 @@ export function createHexArtAPI(apiUrl: string) {
      */
     async uploadHexArt(state: HexArtState): Promise<boolean> {
       try {
-        const response = await fetch(`${apiUrl}/hexart`, {
+        const response = await apiFetch(`${apiUrl}/hexart`, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify(state),
@@ -56,7 +57,7 @@ export function createHexArtAPI(apiUrl: string) {
      */
     async clearHexArt(): Promise<boolean> {
       try {
-        const response = await fetch(`${apiUrl}/hexart`, {
+        const response = await apiFetch(`${apiUrl}/hexart`, {
           method: 'DELETE',
         })
         const data = await response.json()
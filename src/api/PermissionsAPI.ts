@@ -0,0 +1,73 @@
+/**
+ * PermissionsAPI - Pure API layer for the permission audit log (GET /permissions/audit)
+ *
+ * All functions are pure HTTP calls with no DOM/state dependencies.
+ */
+
+import type { PermissionAnswerSource, PermissionAuditEntry } from '../../shared/types'
+import { apiFetch } from './auth'
+
+export interface PermissionAuditQuery {
+  /** Managed or Claude session ID */
+  session?: string
+  tool?: string
+  source?: PermissionAnswerSource
+  /** Unix ms */
+  since?: number
+  /** Unix ms */
+  until?: number
+  cursor?: string
+  limit?: number
+}
+
+export interface PermissionAuditPage {
+  ok: boolean
+  entries: PermissionAuditEntry[]
+  nextCursor: string | null
+  error?: string
+}
+
+function toParams(query: PermissionAuditQuery): URLSearchParams {
+  const params = new URLSearchParams()
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined && value !== '') params.set(key, String(value))
+  }
+  return params
+}
+
+/**
+ * Create a PermissionsAPI instance bound to a specific API URL
+ */
+export function createPermissionsAPI(apiUrl: string) {
+  return {
+    /**
+     * Get one page of answered permission prompts, newest first
+     */
+    async getAudit(query: PermissionAuditQuery = {}): Promise<PermissionAuditPage> {
+      try {
+        const response = await apiFetch(`${apiUrl}/permissions/audit?${toParams(query)}`)
+        return await response.json()
+      } catch (e) {
+        console.error('Error fetching permission audit log:', e)
+        return { ok: false, entries: [], nextCursor: null, error: 'Network error' }
+      }
+    },
+
+    /**
+     * Download every matching entry as a CSV or JSON file (null on failure)
+     */
+    async exportAudit(query: PermissionAuditQuery, format: 'csv' | 'json'): Promise<Blob | null> {
+      const params = toParams({ ...query, cursor: undefined, limit: undefined })
+      params.set('format', format)
+      try {
+        const response = await apiFetch(`${apiUrl}/permissions/audit?${params}`)
+        return response.ok ? await response.blob() : null
+      } catch (e) {
+        console.error('Error exporting permission audit log:', e)
+        return null
+      }
+    },
+  }
+}
+
+export type PermissionsAPI = ReturnType<typeof createPermissionsAPI>
@@ -5,7 +5,28 @@
  * UI logic and state updates are handled by the caller (main.ts).
  */
 
-import type { ManagedSession } from '../../shared/types'
+import type {
+  ManagedSession,
+  QueuedPrompt,
+  PromptSchedule,
+  ScheduleTrigger,
+  SessionPipeline,
+  BroadcastPromptResult,
+  CreateSessionRequest,
+  DeleteSessionRequest,
+  ForkSessionRequest,
+  SessionBudget,
+  SessionKey,
+  GitBranches,
+  GitCheckpoint,
+  GitChangeArea,
+  GitFileChange,
+  GitFileDiff,
+  GitStashRequest,
+  GitStatus,
+  SessionCommit,
+} from '../../shared/types'
+import { apiFetch } from './auth'
 
 export interface SessionFlags {
   continue?: boolean
@@ -24,6 +45,88 @@ export interface SimpleResponse {
   error?: string
 }
 
+export interface DeleteSessionResponse {
+  ok: boolean
+  error?: string
+  /** Set if the session was deleted but its worktree could not be removed */
+  worktreeError?: string
+}
+
+export interface SendPromptResponse {
+  ok: boolean
+  error?: string
+  /** True if the session was busy and the prompt was queued */
+  queued?: boolean
+  /** Queue length after queueing */
+  position?: number
+}
+
+export interface BroadcastPromptResponse {
+  ok: boolean
+  error?: string
+  /** Per-session delivery results */
+  results?: BroadcastPromptResult[]
+}
+
+export interface QueueItemResponse {
+  ok: boolean
+  error?: string
+  item?: QueuedPrompt
+}
+
+export interface ScheduleResponse {
+  ok: boolean
+  error?: string
+  schedule?: PromptSchedule
+}
+
+export interface PipelineResponse {
+  ok: boolean
+  error?: string
+  pipeline?: SessionPipeline
+}
+
+export interface GitFilesResponse {
+  ok: boolean
+  error?: string
+  files?: GitFileChange[]
+}
+
+export interface GitDiffResponse {
+  ok: boolean
+  error?: string
+  diffs?: GitFileDiff[]
+}
+
+export interface GitCommitsResponse {
+  ok: boolean
+  error?: string
+  commits?: SessionCommit[]
+}
+
+export interface GitActionResponse {
+  ok: boolean
+  error?: string
+  /** The session's git status after the action */
+  gitStatus?: GitStatus | null
+  /** Hash of the commit created (commit only) */
+  commit?: string
+  /** Checkpoint of the files as they were before rewinding (rewind only) */
+  checkpoint?: GitCheckpoint
+}
+
+export interface GitCheckpointsResponse {
+  ok: boolean
+  error?: string
+  checkpoints?: GitCheckpoint[]
+}
+
+export interface GitBranchesResponse {
+  ok: boolean
+  error?: string
+  branches?: GitBranches
+}
+
 export interface ServerInfoResponse {
   ok: boolean
   cwd?: string
@@ -41,13 +144,14 @@ export function createSessionAPI(apiUrl: string) {
     async createSession(
       name?: string,
       cwd?: string,
-      flags?: SessionFlags
+      flags?: SessionFlags,
+      worktree?: CreateSessionRequest['worktree']
     ): Promise<CreateSessionResponse> {
       try {
-        const response = await fetch(`${apiUrl}/sessions`, {
+        const response = await apiFetch(`${apiUrl}/sessions`, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ name, cwd, flags }),
+          body: JSON.stringify({ name, cwd, flags, worktree }),
         })
         return await response.json()
       } catch (e) {
@@ -56,12 +160,29 @@ export function createSessionAPI(apiUrl: string) {
       }
     },
 
+    /**
+     * Fork a session into a new one resuming the same conversation
+     */
+    async forkSession(sessionId: string, options: ForkSessionRequest = {}): Promise<CreateSessionResponse> {
+      try {
+        const response = await apiFetch(`${apiUrl}/sessions/${sessionId}/fork`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(options),
+        })
+        return await response.json()
+      } catch (e) {
+        console.error('Error forking session:', e)
+        return { ok: false, error: 'Network error' }
+      }
+    },
+
     /**
      * Fetch server info (cwd, etc.)
      */
     async getServerInfo(): Promise<ServerInfoResponse> {
       try {
-        const response = await fetch(`${apiUrl}/info`)
+        const response = await apiFetch(`${apiUrl}/info`)
         return await response.json()
       } catch (e) {
         console.error('Error fetching server info:', e)
@@ -74,7 +195,7 @@ export function createSessionAPI(apiUrl: string) {
      */
     async renameSession(sessionId: string, name: string): Promise<SimpleResponse> {
       try {
-        const response = await fetch(`${apiUrl}/sessions/${sessionId}`, {
+        const response = await apiFetch(`${apiUrl}/sessions/${sessionId}`, {
           method: 'PATCH',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({ name }),
@@ -94,7 +215,7 @@ export function createSessionAPI(apiUrl: string) {
       position: { q: number; r: number }
     ): Promise<SimpleResponse> {
       try {
-        const response = await fetch(`${apiUrl}/sessions/${sessionId}`, {
+        const response = await apiFetch(`${apiUrl}/sessions/${sessionId}`, {
           method: 'PATCH',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({ zonePosition: position }),
@@ -107,12 +228,50 @@ export function createSessionAPI(apiUrl: string) {
     },
 
     /**
-     * Delete a managed session
+     * Set (or with null, remove) a session's spending budget
+     */
+    async setBudget(sessionId: string, budget: SessionBudget | null): Promise<SimpleResponse> {
+      try {
+        const response = await apiFetch(`${apiUrl}/sessions/${sessionId}`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ budget }),
+        })
+        return await response.json()
+      } catch (e) {
+        console.error('Error setting budget:', e)
+        return { ok: false, error: 'Network error' }
+      }
+    },
+
+    /**
+     * Send key presses (tmux key names from SESSION_KEYS) to a session
+     */
+    async sendKeys(sessionId: string, keys: SessionKey[]): Promise<SimpleResponse> {
+      try {
+        const response = await apiFetch(`${apiUrl}/sessions/${sessionId}/keys`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ keys }),
+        })
+        return await response.json()
+      } catch (e) {
+        console.error('Error sending keys:', e)
+        return { ok: false, error: 'Network error' }
+      }
+    },
+
+    /**
+     * Delete a managed session (options say what to do with its worktree)
      */
-    async deleteSession(sessionId: string): Promise<SimpleResponse> {
+    async deleteSession(sessionId: string, options?: DeleteSessionRequest): Promise<DeleteSessionResponse> {
       try {
-        const response = await fetch(`${apiUrl}/sessions/${sessionId}`, {
+        const response = await apiFetch(`${apiUrl}/sessions/${sessionId}`, {
           method: 'DELETE',
+          ...(options && {
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(options),
+          }),
         })
         return await response.json()
       } catch (e) {
@@ -126,7 +285,7 @@ export function createSessionAPI(apiUrl: string) {
      */
     async restartSession(sessionId: string): Promise<SimpleResponse> {
       try {
-        const response = await fetch(`${apiUrl}/sessions/${sessionId}/restart`, {
+        const response = await apiFetch(`${apiUrl}/sessions/${sessionId}/restart`, {
           method: 'POST',
         })
         return await response.json()
@@ -137,14 +296,14 @@ export function createSessionAPI(apiUrl: string) {
     },
 
     /**
-     * Send a prompt to a managed session
+     * Send a prompt to a managed session (queued by the server if it's busy)
      */
     async sendPrompt(
       sessionId: string,
       prompt: string
-    ): Promise<SimpleResponse> {
+    ): Promise<SendPromptResponse> {
       try {
-        const response = await fetch(`${apiUrl}/sessions/${sessionId}/prompt`, {
+        const response = await apiFetch(`${apiUrl}/sessions/${sessionId}/prompt`, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({ prompt }),
@@ -156,6 +315,353 @@ export function createSessionAPI(apiUrl: string) {
       }
     },
 
+    /**
+     * Send one prompt to several sessions (busy ones queue it)
+     */
+    async broadcastPrompt(sessionIds: string[], prompt: string): Promise<BroadcastPromptResponse> {
+      try {
+        const response = await apiFetch(`${apiUrl}/sessions/broadcast`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ sessionIds, prompt }),
+        })
+        return await response.json()
+      } catch (e) {
+        console.error('Error broadcasting prompt:', e)
+        return { ok: false, error: 'Network error' }
+      }
+    },
+
+    /**
+     * Add a prompt to a session's queue
+     */
+    async enqueuePrompt(
+      sessionId: string,
+      prompt: string,
+      position?: number
+    ): Promise<QueueItemResponse> {
+      try {
+        const response = await apiFetch(`${apiUrl}/sessions/${sessionId}/queue`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ prompt, position }),
+        })
+        return await response.json()
+      } catch (e) {
+        console.error('Error queueing prompt:', e)
+        return { ok: false, error: 'Network error' }
+      }
+    },
+
+    /**
+     * Edit and/or move a queued prompt
+     */
+    async updateQueuedPrompt(
+      sessionId: string,
+      itemId: string,
+      updates: { prompt?: string; position?: number }
+    ): Promise<QueueItemResponse> {
+      try {
+        const response = await apiFetch(`${apiUrl}/sessions/${sessionId}/queue/${itemId}`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(updates),
+        })
+        return await response.json()
+      } catch (e) {
+        console.error('Error updating queued prompt:', e)
+        return { ok: false, error: 'Network error' }
+      }
+    },
+
+    /**
+     * Cancel a queued prompt
+     */
+    async removeQueuedPrompt(sessionId: string, itemId: string): Promise<SimpleResponse> {
+      try {
+        const response = await apiFetch(`${apiUrl}/sessions/${sessionId}/queue/${itemId}`, {
+          method: 'DELETE',
+        })
+        return await response.json()
+      } catch (e) {
+        console.error('Error removing queued prompt:', e)
+        return { ok: false, error: 'Network error' }
+      }
+    },
+
+    /**
+     * Cancel all queued prompts for a session
+     */
+    async clearQueue(sessionId: string): Promise<SimpleResponse> {
+      try {
+        const response = await apiFetch(`${apiUrl}/sessions/${sessionId}/queue`, {
+          method: 'DELETE',
+        })
+        return await response.json()
+      } catch (e) {
+        console.error('Error clearing queue:', e)
+        return { ok: false, error: 'Network error' }
+      }
+    },
+
+    /**
+     * Retry sending a session's next queued prompt after sends failed
+     */
+    async retryQueue(sessionId: string): Promise<SimpleResponse> {
+      try {
+        const response = await apiFetch(`${apiUrl}/sessions/${sessionId}/queue/retry`, {
+          method: 'POST',
+        })
+        return await response.json()
+      } catch (e) {
+        console.error('Error retrying queue:', e)
+        return { ok: false, error: 'Network error' }
+      }
+    },
+
+    /**
+     * Create a scheduled prompt for a session
+     */
+    async createSchedule(
+      sessionId: string,
+      prompt: string,
+      trigger: ScheduleTrigger
+    ): Promise<ScheduleResponse> {
+      try {
+        const response = await apiFetch(`${apiUrl}/sessions/${sessionId}/schedules`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ prompt, trigger }),
+        })
+        return await response.json()
+      } catch (e) {
+        console.error('Error creating schedule:', e)
+        return { ok: false, error: 'Network error' }
+      }
+    },
+
+    /**
+     * Edit, pause or resume a scheduled prompt
+     */
+    async updateSchedule(
+      sessionId: string,
+      scheduleId: string,
+      updates: { prompt?: string; trigger?: ScheduleTrigger; enabled?: boolean }
+    ): Promise<ScheduleResponse> {
+      try {
+        const response = await apiFetch(`${apiUrl}/sessions/${sessionId}/schedules/${scheduleId}`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(updates),
+        })
+        return await response.json()
+      } catch (e) {
+        console.error('Error updating schedule:', e)
+        return { ok: false, error: 'Network error' }
+      }
+    },
+
+    /**
+     * Delete a scheduled prompt
+     */
+    async deleteSchedule(sessionId: string, scheduleId: string): Promise<SimpleResponse> {
+      try {
+        const response = await apiFetch(`${apiUrl}/sessions/${sessionId}/schedules/${scheduleId}`, {
+          method: 'DELETE',
+        })
+        return await response.json()
+      } catch (e) {
+        console.error('Error deleting schedule:', e)
+        return { ok: false, error: 'Network error' }
+      }
+    },
+
+    /**
+     * Create a pipeline that prompts one session when another finishes
+     */
+    async createPipeline(
+      fromSessionId: string,
+      toSessionId: string,
+      prompt: string
+    ): Promise<PipelineResponse> {
+      try {
+        const response = await apiFetch(`${apiUrl}/pipelines`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ fromSessionId, toSessionId, prompt }),
+        })
+        return await response.json()
+      } catch (e) {
+        console.error('Error creating pipeline:', e)
+        return { ok: false, error: 'Network error' }
+      }
+    },
+
+    /**
+     * Edit, pause or resume a pipeline
+     */
+    async updatePipeline(
+      pipelineId: string,
+      updates: { toSessionId?: string; prompt?: string; enabled?: boolean }
+    ): Promise<PipelineResponse> {
+      try {
+        const response = await apiFetch(`${apiUrl}/pipelines/${pipelineId}`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(updates),
+        })
+        return await response.json()
+      } catch (e) {
+        console.error('Error updating pipeline:', e)
+        return { ok: false, error: 'Network error' }
+      }
+    },
+
+    /**
+     * Delete a pipeline
+     */
+    async deletePipeline(pipelineId: string): Promise<SimpleResponse> {
+      try {
+        const response = await apiFetch(`${apiUrl}/pipelines/${pipelineId}`, {
+          method: 'DELETE',
+        })
+        return await response.json()
+      } catch (e) {
+        console.error('Error deleting pipeline:', e)
+        return { ok: false, error: 'Network error' }
+      }
+    },
+
+    /**
+     * List the changed files in a session's repository
+     */
+    async getGitFiles(sessionId: string): Promise<GitFilesResponse> {
+      try {
+        const response = await apiFetch(`${apiUrl}/sessions/${sessionId}/git/files`)
+        return await response.json()
+      } catch (e) {
+        console.error('Error fetching git files:', e)
+        return { ok: false, error: 'Network error' }
+      }
+    },
+
+    /**
+     * Fetch unified diffs from a session's repository (every changed file,
+     * or one file in one area)
+     */
+    async getGitDiff(
+      sessionId: string,
+      options: { path?: string; area?: GitChangeArea } = {}
+    ): Promise<GitDiffResponse> {
+      const params = new URLSearchParams()
+      if (options.path) params.set('path', options.path)
+      if (options.area) params.set('area', options.area)
+      try {
+        const response = await apiFetch(`${apiUrl}/sessions/${sessionId}/git/diff?${params}`)
+        return await response.json()
+      } catch (e) {
+        console.error('Error fetching git diff:', e)
+        return { ok: false, error: 'Network error' }
+      }
+    },
+
+    /**
+     * Fetch the commits made since a session was created, each with the
+     * prompt and tool calls that led to it
+     */
+    async getGitCommits(sessionId: string): Promise<GitCommitsResponse> {
+      try {
+        const response = await apiFetch(`${apiUrl}/sessions/${sessionId}/git/commits`)
+        return await response.json()
+      } catch (e) {
+        console.error('Error fetching git commits:', e)
+        return { ok: false, error: 'Network error' }
+      }
+    },
+
+    /**
+     * List the local branches of a session's repository
+     */
+    async getGitBranches(sessionId: string): Promise<GitBranchesResponse> {
+      try {
+        const response = await apiFetch(`${apiUrl}/sessions/${sessionId}/git/branches`)
+        return await response.json()
+      } catch (e) {
+        console.error('Error fetching git branches:', e)
+        return { ok: false, error: 'Network error' }
+      }
+    },
+
+    /**
+     * Stage files in a session's repository
+     */
+    async gitStage(sessionId: string, paths: string[]): Promise<GitActionResponse> {
+      return gitAction(`${apiUrl}/sessions/${sessionId}/git/stage`, { paths })
+    },
+
+    /**
+     * Unstage files in a session's repository
+     */
+    async gitUnstage(sessionId: string, paths: string[]): Promise<GitActionResponse> {
+      return gitAction(`${apiUrl}/sessions/${sessionId}/git/unstage`, { paths })
+    },
+
+    /**
+     * Commit the staged changes in a session's repository
+     */
+    async gitCommit(sessionId: string, message: string): Promise<GitActionResponse> {
+      return gitAction(`${apiUrl}/sessions/${sessionId}/git/commit`, { message })
+    },
+
+    /**
+     * Stash the changes in a session's repository
+     */
+    async gitStash(sessionId: string, options: GitStashRequest = {}): Promise<GitActionResponse> {
+      return gitAction(`${apiUrl}/sessions/${sessionId}/git/stash`, options)
+    },
+
+    /**
+     * Apply and drop the latest stash in a session's repository
+     */
+    async gitStashPop(sessionId: string): Promise<GitActionResponse> {
+      return gitAction(`${apiUrl}/sessions/${sessionId}/git/stash/pop`)
+    },
+
+    /**
+     * Throw away a file's working tree changes (or only some hunks of its
+     * unstaged diff)
+     */
+    async gitDiscard(sessionId: string, path: string, hunks?: number[]): Promise<GitActionResponse> {
+      return gitAction(`${apiUrl}/sessions/${sessionId}/git/discard`, { path, hunks })
+    },
+
+    /**
+     * Switch a session's repository to a branch (creating it if asked)
+     */
+    async gitCheckout(sessionId: string, branch: string, create = false): Promise<GitActionResponse> {
+      return gitAction(`${apiUrl}/sessions/${sessionId}/git/checkout`, { branch, create })
+    },
+
+    /**
+     * List the checkpoints taken of a session's working tree, newest first
+     */
+    async getCheckpoints(sessionId: string): Promise<GitCheckpointsResponse> {
+      try {
+        const response = await apiFetch(`${apiUrl}/sessions/${sessionId}/checkpoints`)
+        return await response.json()
+      } catch (e) {
+        console.error('Error fetching checkpoints:', e)
+        return { ok: false, error: 'Network error' }
+      }
+    },
+
+    /**
+     * Rewind a session's working tree to a checkpoint
+     */
+    async restoreCheckpoint(sessionId: string, checkpointId: string): Promise<GitActionResponse> {
+      return gitAction(`${apiUrl}/sessions/${sessionId}/checkpoints/${encodeURIComponent(checkpointId)}/restore`)
+    },
+
     /**
      * Link a Claude session ID to a managed session
      */
@@ -164,7 +670,7 @@ export function createSessionAPI(apiUrl: string) {
       claudeSessionId: string
     ): Promise<void> {
       try {
-        await fetch(`${apiUrl}/sessions/${managedId}/link`, {
+        await apiFetch(`${apiUrl}/sessions/${managedId}/link`, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({ claudeSessionId }),
@@ -179,7 +685,7 @@ export function createSessionAPI(apiUrl: string) {
      */
     async refreshSessions(): Promise<void> {
       try {
-        await fetch(`${apiUrl}/sessions/refresh`, { method: 'POST' })
+        await apiFetch(`${apiUrl}/sessions/refresh`, { method: 'POST' })
       } catch (e) {
         console.error('Error refreshing sessions:', e)
       }
@@ -188,3 +694,19 @@ export function createSessionAPI(apiUrl: string) {
 }
 
 export type SessionAPI = ReturnType<typeof createSessionAPI>
+
+/**
+ * POST a git action; git's refusals come back as `{ ok: false, error }`
+ */
+async function gitAction(url: string, body?: object): Promise<GitActionResponse> {
+  try {
+    const response = await apiFetch(url, {
+      method: 'POST',
+      ...(body ? { headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) } : {}),
+    })
+    return await response.json()
+  } catch (e) {
+    console.error('Error running git action:', e)
+    return { ok: false, error: 'Network error' }
+  }
+}
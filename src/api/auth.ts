@@ -0,0 +1,53 @@
+/**
+ * API token for servers started with VIBECRAFT2_REQUIRE_TOKEN=true
+ *
+ * The server prints a link carrying the token in the URL fragment
+ * (`#token=...`). On load the token is saved to localStorage and removed
+ * from the address bar, then sent with every API request and WebSocket
+ * connection.
+ */
+
+const STORAGE_KEY = 'vibecraft2-api-token'
+
+/**
+ * Save a token passed in the URL fragment and strip it from the URL.
+ * Call once on startup, before any API requests.
+ */
+export function captureTokenFromUrl(): void {
+  const params = new URLSearchParams(window.location.hash.slice(1))
+  const token = params.get('token')
+  if (!token) return
+
+  localStorage.setItem(STORAGE_KEY, token)
+  params.delete('token')
+  const hash = params.toString()
+  history.replaceState(null, '', window.location.pathname + window.location.search + (hash ? `#${hash}` : ''))
+}
+
+/**
+ * Get the saved API token (null if none)
+ */
+export function getApiToken(): string | null {
+  return localStorage.getItem(STORAGE_KEY)
+}
+
+/**
+ * fetch() for the Vibecraft2 API, adding the API token if there is one
+ */
+export function apiFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const token = getApiToken()
+  if (!token) return fetch(input, init)
+
+  const headers = new Headers(init.headers)
+  headers.set('Authorization', `Bearer ${token}`)
+  return fetch(input, { ...init, headers })
+}
+
+/**
+ * Add the API token to a WebSocket URL (browsers can't set headers on them)
+ */
+export function withApiToken(wsUrl: string): string {
+  const token = getApiToken()
+  if (!token) return wsUrl
+  return `${wsUrl}${wsUrl.includes('?') ? '&' : '?'}token=${encodeURIComponent(token)}`
+}
@@ -4,3 +4,6 @@
 
 export { createSessionAPI, type SessionAPI, type SessionFlags } from './SessionAPI'
 export { createHexArtAPI, type HexArtAPI } from './HexArtAPI'
+export { createEventsAPI, type EventsAPI } from './EventsAPI'
+export { createPermissionsAPI, type PermissionsAPI } from './PermissionsAPI'
+export { apiFetch, captureTokenFromUrl, getApiToken, withApiToken } from './auth'
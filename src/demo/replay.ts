@@ -7,6 +7,7 @@
 
 import type { ClaudeEvent, ManagedSession, ReplaySessionSummary } from '../../shared/types'
 import type { DemoStep, DemoScenarioBundle } from './types'
+import { apiFetch } from '../api/auth'
 
 // ============================================================================
 // Types
@@ -20,7 +21,7 @@ export type ReplaySpeed = 1 | 2 | 4 | 8 | 16
 
 /** Fetch the list of past sessions available for replay */
 export async function fetchReplaySessions(apiUrl: string): Promise<ReplaySessionSummary[]> {
-  const res = await fetch(`${apiUrl}/replay/sessions`)
+  const res = await apiFetch(`${apiUrl}/replay/sessions`)
   if (!res.ok) throw new Error(`Failed to fetch replay sessions: ${res.status}`)
   const data = await res.json()
   return data.sessions ?? []
@@ -28,7 +29,7 @@ export async function fetchReplaySessions(apiUrl: string): Promise<ReplaySession
 
 /** Fetch all events for a specific session */
 async function fetchSessionEvents(apiUrl: string, sessionId: string): Promise<ClaudeEvent[]> {
-  const res = await fetch(`${apiUrl}/replay/sessions/${encodeURIComponent(sessionId)}/events`)
+  const res = await apiFetch(`${apiUrl}/replay/sessions/${encodeURIComponent(sessionId)}/events`)
   if (!res.ok) throw new Error(`Failed to fetch session events: ${res.status}`)
   const data = await res.json()
   return data.events ?? []
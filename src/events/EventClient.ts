@@ -301,4 +301,14 @@ export class EventClient {
   sendHexArtDelta(delta: HexArtDelta): void {
     this.send({ type: 'hexart_delta', payload: delta })
   }
+
+  /** Start receiving terminal_frame messages for a managed session's screen */
+  subscribeTerminal(sessionId: string): void {
+    this.send({ type: 'terminal_subscribe', payload: { sessionId } })
+  }
+
+  /** Stop receiving a managed session's screen */
+  unsubscribeTerminal(sessionId: string): void {
+    this.send({ type: 'terminal_unsubscribe', payload: { sessionId } })
+  }
 }
@@ -21,8 +21,15 @@ import {
   type PostToolUseEvent,
   type ManagedSession,
   type HexArtDelta,
+  type PipelineFiredPayload,
+  type BudgetWarning,
+  type PermissionAutoDecision,
+  type DangerousCommandAlert,
+  type BroadcastPromptResult,
+  type DeleteSessionRequest,
   type HexArtState,
   type PaintedHex,
+  type GitCheckpoint,
 } from '../shared/types'
 import { soundManager } from './audio'
 
@@ -47,6 +54,7 @@ import {
   setupZoneInfoModal,
   showZoneInfoModal,
   setZoneInfoSoundEnabled,
+  updateZoneInfoSessions,
 } from './ui/ZoneInfoModal'
 import {
   setupZoneCommandModal,
@@ -65,7 +73,16 @@ import { setupTextLabelModal, showTextLabelModal } from './ui/TextLabelModal'
 import { showIntroCard, showSummaryCard } from './ui/DemoCards'
 import { initMobileTabController, type MobileTabController } from './ui/MobileTabController'
 import { StationLegend } from './ui/StationLegend'
-import { createSessionAPI, type SessionAPI, createHexArtAPI } from './api'
+import { setupPromptQueuePanel, renderPromptQueue } from './ui/PromptQueuePanel'
+import { setupPermissionAuditPanel } from './ui/PermissionAuditPanel'
+import { setupTerminalPanel, showTerminalPanel, updateTerminalPanelSessions } from './ui/TerminalPanel'
+import { setupDiffViewer, showDiffViewer, updateDiffViewerSessions } from './ui/DiffViewer'
+import { setupCommitTimeline, showCommitTimeline, updateCommitTimelineSessions } from './ui/CommitTimeline'
+import { createKeyPad } from './ui/KeyPad'
+import {
+  createSessionAPI, type SessionAPI, createHexArtAPI, createEventsAPI, createPermissionsAPI,
+  apiFetch, captureTokenFromUrl, getApiToken, withApiToken,
+} from './api'
 import {
   startDemoMode, stopDemoMode, isDemoMode, isExplicitDemo, isReplayMode,
   SCENARIO_META, createScenarioBundle, fetchReplaySessions, createReplayBundle,
@@ -93,6 +110,9 @@ function getAgentPort(): number {
 
 const AGENT_PORT = getAgentPort()
 
+// Save an API token passed as #token=... before anything talks to the server
+captureTokenFromUrl()
+
 // In dev, Vite proxies /ws and /api to the server
 // In prod (hosted), connect to localhost where user's agent runs
 const WS_URL = import.meta.env.DEV
@@ -106,6 +126,8 @@ const API_URL = import.meta.env.DEV
 // Create API instances
 const sessionAPI = createSessionAPI(API_URL)
 const hexArtAPI = createHexArtAPI(API_URL)
+const eventsAPI = createEventsAPI(API_URL)
+const permissionsAPI = createPermissionsAPI(API_URL)
 
 // ============================================================================
 // State
@@ -132,6 +154,7 @@ interface AppState {
   eventHistory: ClaudeEvent[]
   managedSessions: ManagedSession[]  // Managed sessions from server
   selectedManagedSession: string | null  // Selected managed session ID for prompts
+  broadcastGroup: Set<string>  // Managed session IDs that all receive the next prompt (multi-select)
   serverCwd: string  // Server's working directory
   attentionSystem: AttentionSystem | null  // Manages attention queue and notifications
   timelineManager: TimelineManager | null  // Manages icon timeline
@@ -155,6 +178,7 @@ const state: AppState = {
   serverCwd: '~',
   managedSessions: [],
   selectedManagedSession: null,
+  broadcastGroup: new Set(),
   attentionSystem: null,  // Initialized in init()
   timelineManager: null,  // Initialized in init()
   feedManager: null,  // Initialized in init()
@@ -224,12 +248,23 @@ function renderManagedSessions(): void {
     allItem.classList.toggle('active', state.selectedManagedSession === null)
   }
 
+  // Drop deleted sessions from the broadcast group
+  for (const id of state.broadcastGroup) {
+    if (!state.managedSessions.some(s => s.id === id)) {
+      state.broadcastGroup.delete(id)
+    }
+  }
+
   state.managedSessions.forEach((session, index) => {
     const el = document.createElement('div')
     el.className = 'session-item'
     if (session.id === state.selectedManagedSession) {
       el.classList.add('active')
     }
+    const inGroup = state.broadcastGroup.has(session.id)
+    if (inGroup) {
+      el.classList.add('broadcast-selected')
+    }
 
     // Check if session needs attention
     const needsAttention = state.attentionSystem?.needsAttention(session.id) ?? false
@@ -259,6 +294,15 @@ function renderManagedSessions(): void {
     } else {
       detail = projectName ? `📁 ${projectName}` : 'Ready'
     }
+    const queued = session.promptQueue?.length ?? 0
+    if (queued > 0) {
+      detail += ` · 📥 ${queued} queued`
+    }
+    if (session.cost) {
+      const overBudget = session.budget && session.cost >= session.budget.limitUsd
+      detail += ` · ${overBudget ? '💸' : '💵'} $${session.cost.toFixed(2)}`
+      if (session.budget) detail += ` / $${session.budget.limitUsd.toFixed(2)}`
+    }
     const detailClass = session.status === 'working' ? 'session-detail working'
       : session.status === 'waiting' ? 'session-detail attention'
       : needsAttention ? 'session-detail attention'
@@ -290,7 +334,9 @@ function renderManagedSessions(): void {
         <div class="${detailClass}">${detail}${!needsAttention && session.status !== 'offline' && lastActive ? ` · ${lastActive}` : ''}</div>
         ${truncatedPrompt ? `<div class="session-prompt">💬 ${escapeHtml(truncatedPrompt)}</div>` : ''}
       </div>
+      ${inGroup ? `<div class="session-broadcast-check">✓</div>` : ''}
       <div class="session-actions">
+        <button class="group-btn" title="${inGroup ? 'Remove from' : 'Add to'} broadcast group (Ctrl+click)">${inGroup ? '☑' : '☐'}</button>
         ${session.status === 'offline' ? `<button class="restart-btn" title="Restart session">🔄</button>` : ''}
         <button class="rename-btn" title="Rename">✏️</button>
         <button class="delete-btn" title="Delete">🗑️</button>
@@ -301,9 +347,20 @@ function renderManagedSessions(): void {
     el.addEventListener('click', (e) => {
       // Ignore if clicking action buttons
       if ((e.target as HTMLElement).closest('.session-actions')) return
+      // Ctrl/Cmd+click builds a group that receives the same prompt
+      if (e.ctrlKey || e.metaKey) {
+        toggleBroadcastSession(session.id)
+        return
+      }
       selectManagedSession(session.id)
     })
 
+    // Broadcast group toggle
+    el.querySelector('.group-btn')?.addEventListener('click', (e) => {
+      e.stopPropagation()
+      toggleBroadcastSession(session.id)
+    })
+
     // Rename button
     el.querySelector('.rename-btn')?.addEventListener('click', (e) => {
       e.stopPropagation()
@@ -329,6 +386,79 @@ function renderManagedSessions(): void {
 
     container.appendChild(el)
   })
+
+  // Show the selected session's prompt backlog above the prompt box
+  renderPromptQueue(state.managedSessions.find(s => s.id === state.selectedManagedSession) ?? null)
+
+  // Keep an open zone info modal's schedule list live
+  updateZoneInfoSessions(state.managedSessions)
+  updateTerminalPanelSessions()
+  updateDiffViewerSessions()
+  updateCommitTimelineSessions()
+
+  if (state.broadcastGroup.size > 0) {
+    renderBroadcastTarget()
+  }
+}
+
+/**
+ * Add or remove a session from the broadcast group
+ */
+function toggleBroadcastSession(sessionId: string): void {
+  if (state.broadcastGroup.has(sessionId)) {
+    state.broadcastGroup.delete(sessionId)
+  } else {
+    state.broadcastGroup.add(sessionId)
+  }
+  renderManagedSessions()
+  if (state.broadcastGroup.size === 0) {
+    restorePromptTarget()
+  }
+}
+
+/**
+ * Empty the broadcast group (prompts go to the selected session again)
+ */
+function clearBroadcastGroup(): void {
+  state.broadcastGroup.clear()
+  renderManagedSessions()
+  restorePromptTarget()
+}
+
+/**
+ * Show the broadcast group as the prompt target
+ */
+function renderBroadcastTarget(): void {
+  const targetEl = document.getElementById('prompt-target')
+  if (!targetEl) return
+
+  const names = state.managedSessions
+    .filter(s => state.broadcastGroup.has(s.id))
+    .map(s => s.name)
+  targetEl.innerHTML = `
+    <span class="target-broadcast">📣 ${names.length} session${names.length === 1 ? '' : 's'}</span>
+    <button class="target-broadcast-clear" title="Clear broadcast group">✕</button>
+  `
+  targetEl.title = `Prompts will be sent to: ${names.join(', ')}`
+  targetEl.querySelector('.target-broadcast-clear')?.addEventListener('click', clearBroadcastGroup)
+}
+
+/**
+ * Point the prompt target back at the selected session
+ */
+function restorePromptTarget(): void {
+  const selected = state.managedSessions.find(s => s.id === state.selectedManagedSession)
+  const sessionState = selected?.claudeSessionId ? state.sessions.get(selected.claudeSessionId) : undefined
+  if (selected?.claudeSessionId && sessionState) {
+    updatePromptTarget(selected.claudeSessionId, sessionState.color)
+    return
+  }
+
+  const targetEl = document.getElementById('prompt-target')
+  if (targetEl) {
+    targetEl.innerHTML = '<span style="color: rgba(255,255,255,0.4)">all sessions</span>'
+    targetEl.title = 'Select a session to send prompts'
+  }
 }
 
 /**
@@ -368,7 +498,7 @@ function selectManagedSession(sessionId: string | null): void {
   }
 
   // Update prompt target indicator for "all sessions" / null selection
-  if (!sessionId) {
+  if (!sessionId && state.broadcastGroup.size === 0) {
     const targetEl = document.getElementById('prompt-target')
     if (targetEl) {
       targetEl.innerHTML = '<span style="color: rgba(255,255,255,0.4)">all sessions</span>'
@@ -392,9 +522,10 @@ async function createManagedSession(
   cwd?: string,
   flags?: SessionFlags,
   hintPosition?: { x: number; z: number },
-  pendingZoneId?: string
+  pendingZoneId?: string,
+  worktree?: boolean
 ): Promise<void> {
-  const data = await sessionAPI.createSession(name, cwd, flags)
+  const data = await sessionAPI.createSession(name, cwd, flags, worktree)
 
   if (!data.ok) {
     console.error('Failed to create session:', data.error)
@@ -413,21 +544,83 @@ async function createManagedSession(
 
   // Store hint position using the ACTUAL name from server response
   // Server auto-generates "Claude N" if no name provided, so we must use its name
-  // Also store pending zone ID so we can remove it when real zone appears
-  const actualName = data.session?.name
-  if (actualName) {
-    if (hintPosition) {
-      pendingZoneHints.set(actualName, hintPosition)
-    }
-    if (pendingZoneId) {
-      pendingZonesToCleanup.set(actualName, pendingZoneId)
-    }
+  if (data.session) {
+    expectZone(data.session.name, hintPosition, pendingZoneId)
   }
 
   // DON'T remove pending zone here - keep it spinning until real zone appears
   // Session will be broadcast via WebSocket
 }
 
+/**
+ * Fork a session: a new zone next to it resumes the same conversation
+ */
+async function forkManagedSession(sessionId: string): Promise<void> {
+  const parent = state.managedSessions.find(s => s.id === sessionId)
+  if (!parent) return
+  if (!parent.claudeSessionId) {
+    toast.error(`"${parent.name}" has no conversation to fork yet`, { icon: '⑂' })
+    return
+  }
+
+  // Only offer a worktree when the session is in a git repo
+  const worktree = !!parent.gitStatus?.isRepo && confirm(
+    `Fork "${parent.name}" into a new git worktree?\n\nCancel forks into the same directory.`
+  )
+
+  // Place the fork next to its parent
+  const hintPosition = state.scene?.getZoneWorldPosition(parent.claudeSessionId) ?? undefined
+  const pendingZoneId = showPendingZone(hintPosition)
+
+  const data = await sessionAPI.forkSession(sessionId, { worktree })
+  if (!data.ok || !data.session) {
+    state.scene?.removePendingZone(pendingZoneId)
+    toast.error(`Failed to fork: ${data.error}`, { icon: '⑂', duration: 5000 })
+    return
+  }
+
+  expectZone(data.session.name, hintPosition, pendingZoneId)
+}
+
+/**
+ * Show a loading zone until a new session's real zone appears,
+ * with a troubleshooting modal if it never does
+ */
+function showPendingZone(hintPosition?: { x: number; z: number }): string {
+  const pendingId = `pending-${Date.now()}`
+  if (state.scene) {
+    state.scene.createPendingZone(pendingId, hintPosition)
+  }
+
+  // Set timeout to show troubleshooting modal if zone doesn't start
+  const timeoutId = setTimeout(() => {
+    // Check if this pending zone still exists (wasn't cleaned up)
+    for (const [, pId] of pendingZonesToCleanup) {
+      if (pId === pendingId) {
+        showZoneTimeoutModal()
+        break
+      }
+    }
+    pendingZoneTimeouts.delete(pendingId)
+  }, ZONE_CREATION_TIMEOUT)
+  pendingZoneTimeouts.set(pendingId, timeoutId)
+
+  return pendingId
+}
+
+/**
+ * Remember where a just-created session's zone should go, and which
+ * pending zone to remove when it appears
+ */
+function expectZone(sessionName: string, hintPosition?: { x: number; z: number }, pendingZoneId?: string): void {
+  if (hintPosition) {
+    pendingZoneHints.set(sessionName, hintPosition)
+  }
+  if (pendingZoneId) {
+    pendingZonesToCleanup.set(sessionName, pendingZoneId)
+  }
+}
+
 /**
  * Fetch server info (cwd, etc.) and update UI
  */
@@ -445,6 +638,26 @@ async function fetchServerInfo(): Promise<void> {
   }
 }
 
+/**
+ * Tell the user how to authorize this browser if the server requires
+ * an API token and we don't have one
+ */
+async function warnIfTokenMissing(): Promise<void> {
+  if (getApiToken()) return
+  try {
+    const res = await apiFetch(`${API_URL}/health`)
+    const health = await res.json()
+    if (health.authRequired) {
+      toast.error('This server requires an API token. Open the #token= link printed by the server.', {
+        icon: '🔒',
+        duration: 15000,
+      })
+    }
+  } catch {
+    // Server not reachable - the not-connected overlay covers this
+  }
+}
+
 /**
  * Rename a managed session
  */
@@ -470,9 +683,24 @@ async function saveZonePosition(sessionId: string, position: { q: number; r: num
  * Delete a managed session
  */
 async function deleteManagedSession(sessionId: string): Promise<void> {
-  const data = await sessionAPI.deleteSession(sessionId)
+  // Sessions in their own worktree: ask whether to clean it up too
+  const worktree = state.managedSessions.find(s => s.id === sessionId)?.worktree
+  let options: DeleteSessionRequest | undefined
+  if (worktree) {
+    const removeWorktree = confirm(
+      `Also remove its worktree?\n\n${worktree.path}\n\nUncommitted changes there will be lost. Cancel keeps the worktree.`
+    )
+    const deleteBranch = removeWorktree && confirm(
+      `Also delete branch "${worktree.branch}"?\n\nCommits not merged elsewhere will be lost. Cancel keeps the branch.`
+    )
+    options = { worktree: removeWorktree ? 'remove' : 'keep', deleteBranch }
+  }
+
+  const data = await sessionAPI.deleteSession(sessionId, options)
   if (!data.ok) {
     console.error('Failed to delete session:', data.error)
+  } else if (data.worktreeError) {
+    toast.error(data.worktreeError, { icon: '⎇', duration: 5000 })
   }
   // If we deleted the selected session, clear selection
   if (state.selectedManagedSession === sessionId) {
@@ -519,10 +747,40 @@ async function restartManagedSession(sessionId: string, sessionName: string): Pr
   // Update will be broadcast via WebSocket
 }
 
+/**
+ * Show per-zone delivery status after a broadcast
+ */
+function showBroadcastResults(results: BroadcastPromptResult[]): void {
+  for (const result of results) {
+    const session = state.managedSessions.find(s => s.id === result.sessionId)
+    if (!session?.claudeSessionId || !state.scene) continue
+
+    if (!result.ok) {
+      state.scene.zoneNotifications.show(session.claudeSessionId, {
+        text: result.error || 'Not delivered',
+        icon: '❌',
+        style: 'error',
+      })
+    } else if (result.queued) {
+      state.scene.zoneNotifications.show(session.claudeSessionId, {
+        text: `Queued #${result.position}`,
+        icon: '📥',
+        style: 'info',
+      })
+    } else {
+      state.scene.zoneNotifications.show(session.claudeSessionId, {
+        text: 'Broadcast received',
+        icon: '📣',
+        style: 'success',
+      })
+    }
+  }
+}
+
 /**
  * Send a prompt to the selected managed session
  */
-async function sendPromptToManagedSession(prompt: string, sessionId?: string): Promise<{ ok: boolean; error?: string }> {
+async function sendPromptToManagedSession(prompt: string, sessionId?: string): Promise<{ ok: boolean; error?: string; queued?: boolean; position?: number }> {
   const targetSession = sessionId ?? state.selectedManagedSession
   if (!targetSession) {
     return { ok: false, error: 'No session selected' }
@@ -650,6 +908,7 @@ function setupManagedSessions(): void {
     const continueCheck = document.getElementById('session-opt-continue') as HTMLInputElement
     const skipPermsCheck = document.getElementById('session-opt-skip-perms') as HTMLInputElement
     const chromeCheck = document.getElementById('session-opt-chrome') as HTMLInputElement
+    const worktreeCheck = document.getElementById('session-opt-worktree') as HTMLInputElement
 
     const flags: SessionFlags = {
       continue: continueCheck?.checked ?? true,
@@ -661,29 +920,13 @@ function setupManagedSessions(): void {
     const hintPosition = currentModalHint
 
     // Create pending zone immediately for visual feedback
-    const pendingId = `pending-${Date.now()}`
-    if (state.scene) {
-      state.scene.createPendingZone(pendingId, hintPosition ?? undefined)
-    }
-
-    // Set timeout to show troubleshooting modal if zone doesn't start
-    const timeoutId = setTimeout(() => {
-      // Check if this pending zone still exists (wasn't cleaned up)
-      for (const [, pId] of pendingZonesToCleanup) {
-        if (pId === pendingId) {
-          showZoneTimeoutModal()
-          break
-        }
-      }
-      pendingZoneTimeouts.delete(pendingId)
-    }, ZONE_CREATION_TIMEOUT)
-    pendingZoneTimeouts.set(pendingId, timeoutId)
+    const pendingId = showPendingZone(hintPosition ?? undefined)
 
     // Play confirm sound
     soundManager.play('modal_confirm')
 
     closeModal()
-    createManagedSession(name, cwd, flags, hintPosition ?? undefined, pendingId)
+    createManagedSession(name, cwd, flags, hintPosition ?? undefined, pendingId, worktreeCheck?.checked ?? false)
   }
 
   const handleCancel = (): void => {
@@ -758,6 +1001,21 @@ function handleContextMenuAction(action: string, context: ContextMenuContext): v
     showZoneCommand(context.zoneId)
   } else if (action === 'info' && context.zoneId) {
     showZoneInfo(context.zoneId)
+  } else if (action === 'terminal' && context.zoneId) {
+    const managed = state.managedSessions.find(s => s.claudeSessionId === context.zoneId)
+    if (managed) {
+      showTerminalPanel(managed.id)
+    }
+  } else if (action === 'commits' && context.zoneId) {
+    const managed = state.managedSessions.find(s => s.claudeSessionId === context.zoneId)
+    if (managed) {
+      showCommitTimeline(managed.id)
+    }
+  } else if (action === 'fork' && context.zoneId) {
+    const managed = state.managedSessions.find(s => s.claudeSessionId === context.zoneId)
+    if (managed) {
+      forkManagedSession(managed.id)
+    }
   } else if (action === 'delete' && context.zoneId) {
     deleteZoneBySessionId(context.zoneId)
   } else if (action === 'create_text_tile' && context.hexPosition) {
@@ -832,7 +1090,7 @@ async function createTextTileAtHex(hex: { q: number; r: number }): Promise<void>
   if (!text?.trim()) return
 
   try {
-    await fetch(`${API_URL}/tiles`, {
+    await apiFetch(`${API_URL}/tiles`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({
@@ -860,7 +1118,7 @@ async function editTextTile(tileId: string): Promise<void> {
   if (text === null || text.trim() === tile.text) return
 
   try {
-    await fetch(`${API_URL}/tiles/${tileId}`, {
+    await apiFetch(`${API_URL}/tiles/${tileId}`, {
       method: 'PUT',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ text: text.trim() }),
@@ -875,7 +1133,7 @@ async function editTextTile(tileId: string): Promise<void> {
  */
 async function deleteTextTile(tileId: string): Promise<void> {
   try {
-    await fetch(`${API_URL}/tiles/${tileId}`, {
+    await apiFetch(`${API_URL}/tiles/${tileId}`, {
       method: 'DELETE',
     })
   } catch (e) {
@@ -1156,6 +1414,19 @@ function setupClickToPrompt(): void {
       return
     }
 
+    // A zone's git label opens the diff viewer (hidden labels still
+    // intersect, so skip them)
+    for (const [sessionId, zone] of state.scene.zones) {
+      if (!zone.gitLabel?.visible) continue
+      if (raycaster.intersectObject(zone.gitLabel).length > 0) {
+        const managed = state.managedSessions.find(s => s.claudeSessionId === sessionId)
+        if (managed) {
+          showDiffViewer(managed.id)
+          return
+        }
+      }
+    }
+
     // Check entire zone groups (platform, ring, stations, everything)
     // This makes clicking anywhere in a zone select it
     for (const [sessionId, zone] of state.scene.zones) {
@@ -1286,6 +1557,9 @@ function setupClickToPrompt(): void {
         [
           { key: 'C', label: `Command`, action: 'command' },
           { key: 'I', label: `Info`, action: 'info' },
+          { key: 'T', label: `Terminal`, action: 'terminal' },
+          { key: 'H', label: `Commits`, action: 'commits' },
+          { key: 'F', label: `Fork`, action: 'fork' },
           { key: 'D', label: `Dismiss "${zoneName}"`, action: 'delete', danger: true },
         ],
         { zoneId: sessionId }
@@ -1502,6 +1776,14 @@ function getOrCreateSession(sessionId: string): SessionState | null {
     state.scene.updateZoneLabel(sessionId, linkedManagedSession.name, keybind)
     console.log(`Linked Claude session ${sessionId.slice(0, 8)} to "${linkedManagedSession.name}"`)
 
+    // A fork's first appearance: beam over from the zone it was forked from
+    if (linkedManagedSession.forkedFrom && !linkedManagedSession.zonePosition) {
+      const parent = state.managedSessions.find(s => s.id === linkedManagedSession.forkedFrom)
+      if (parent?.claudeSessionId) {
+        state.scene.launchSpawnBeam(parent.claudeSessionId, sessionId)
+      }
+    }
+
     // Save zone position to server if not already saved (skip for replay sessions)
     if (!linkedManagedSession.zonePosition && !linkedManagedSession.id.startsWith('replay-managed-')) {
       const hexPos = state.scene.getZoneHexPosition(sessionId)
@@ -1678,6 +1960,66 @@ function syncZoneLabels(): void {
   }
 }
 
+/**
+ * Select a managed session and show its activity at an event (or, with no
+ * event ID, the last activity before that moment)
+ */
+async function jumpFeedToEvent(sessionId: string, eventId: string, timestamp: number): Promise<void> {
+  selectManagedSession(sessionId)
+  const found = await state.feedManager?.jumpToEvent(eventId, timestamp)
+  if (!found) {
+    toast.warning('That moment is no longer in the activity feed', { icon: '🕑' })
+  }
+}
+
+/**
+ * Rewind a session's files to the checkpoint taken before a prompt in the feed
+ */
+async function rewindToPrompt(event: ClaudeEvent): Promise<void> {
+  const managed = state.managedSessions.find(s => s.claudeSessionId === event.sessionId)
+  if (!managed) {
+    toast.warning('Only managed sessions have checkpoints', { icon: '⏪' })
+    return
+  }
+
+  const data = await sessionAPI.getCheckpoints(managed.id)
+  if (!data.ok) {
+    toast.error(`Failed to load checkpoints: ${data.error}`, { icon: '⏪' })
+    return
+  }
+  const checkpoint = data.checkpoints?.find(c => c.eventId === event.id)
+  if (!checkpoint) {
+    toast.warning('No checkpoint was taken before this prompt', { icon: '⏪' })
+    return
+  }
+  await rewindToCheckpoint(managed.id, checkpoint)
+}
+
+/**
+ * Ask, then put a session's files back the way they were at a checkpoint.
+ * Resolves true if the files were rewound.
+ */
+async function rewindToCheckpoint(sessionId: string, checkpoint: GitCheckpoint): Promise<boolean> {
+  const managed = state.managedSessions.find(s => s.id === sessionId)
+  const label = checkpoint.label.split('\n')[0]
+  const short = label.length > 60 ? `${label.slice(0, 60)}...` : label
+  if (!confirm(
+    `Rewind the files of "${managed?.name ?? 'this session'}" to before "${short}"?\n\n` +
+    'Changes made since are overwritten and new files deleted. ' +
+    'The current files are checkpointed first, so this can be undone.'
+  )) {
+    return false
+  }
+
+  const data = await sessionAPI.restoreCheckpoint(sessionId, checkpoint.id)
+  if (!data.ok) {
+    toast.error(`Rewind failed: ${data.error}`, { icon: '⏪', duration: 5000 })
+    return false
+  }
+  toast.success(`Rewound files to ${new Date(checkpoint.timestamp).toLocaleTimeString()}`, { icon: '⏪' })
+  return true
+}
+
 /**
  * Focus camera and UI on a specific session
  */
@@ -1707,8 +2049,12 @@ function focusSession(sessionId: string): void {
     sessionEl.style.color = `#${session.color.toString(16).padStart(6, '0')}`
   }
 
-  // Update prompt target indicator
-  updatePromptTarget(sessionId, session.color)
+  // Update prompt target indicator (the broadcast group takes precedence)
+  if (state.broadcastGroup.size > 0) {
+    renderBroadcastTarget()
+  } else {
+    updatePromptTarget(sessionId, session.color)
+  }
 
   updateStats()
 }
@@ -1999,7 +2345,7 @@ const CONFIG_URL = `${API_URL}/config`
 
 async function fetchConfig() {
   try {
-    const response = await fetch(CONFIG_URL)
+    const response = await apiFetch(CONFIG_URL)
     const data = await response.json()
     const usernameEl = document.getElementById('username')
     if (usernameEl && data.username) {
@@ -2023,7 +2369,7 @@ async function interruptSession(sessionName: string): Promise<void> {
   })
 
   try {
-    const response = await fetch(CANCEL_URL, { method: 'POST' })
+    const response = await apiFetch(CANCEL_URL, { method: 'POST' })
     const data = await response.json()
 
     if (!data.ok) {
@@ -2125,6 +2471,20 @@ function setupPromptForm() {
     }
   })
 
+  // Key pad toggle (raw keys for the selected session's menus)
+  const keysBtn = document.getElementById('prompt-keys')
+  const keyPad = document.getElementById('prompt-keypad')
+  if (keysBtn && keyPad) {
+    keyPad.appendChild(createKeyPad({
+      sessionAPI,
+      getSessionId: () => state.selectedManagedSession,
+    }))
+    keysBtn.addEventListener('click', () => {
+      const open = keyPad.classList.toggle('visible')
+      keysBtn.classList.toggle('active', open)
+    })
+  }
+
   // Cancel button handler
   if (cancelBtn) {
     cancelBtn.addEventListener('click', async () => {
@@ -2133,7 +2493,7 @@ function setupPromptForm() {
         status.className = ''
       }
       try {
-        const response = await fetch(CANCEL_URL, { method: 'POST' })
+        const response = await apiFetch(CANCEL_URL, { method: 'POST' })
         const data = await response.json()
         if (status) {
           if (data.ok) {
@@ -2186,14 +2546,42 @@ function setupPromptForm() {
     }
 
     try {
-      let data: { ok: boolean; error?: string; sent?: boolean; saved?: string; tmuxError?: string }
-
-      // If a managed session is selected, use the session API
-      if (state.selectedManagedSession && send) {
+      let data: { ok: boolean; error?: string; sent?: boolean; queued?: boolean; position?: number }
+
+      // A broadcast group takes precedence over the selected session
+      if (state.broadcastGroup.size > 0 && send) {
+        const response = await sessionAPI.broadcastPrompt([...state.broadcastGroup], prompt)
+        data = response
+        const results = response.results ?? []
+        showBroadcastResults(results)
+        if (results.some(r => r.ok)) {
+          state.promptHistory.push(prompt)
+          state.historyIndex = -1
+          state.historyDraft = ''
+          input.value = ''
+          input.style.height = 'auto'
+          state.feedManager?.scrollToBottom()
+        }
+        if (status) {
+          const sent = results.filter(r => r.ok && !r.queued).length
+          const queued = results.filter(r => r.queued).length
+          const failed = results.filter(r => !r.ok).length
+          status.textContent = results.length === 0
+            ? (response.error || 'Failed to send')
+            : [
+                sent > 0 ? `Sent to ${sent}` : '',
+                queued > 0 ? `queued for ${queued}` : '',
+                failed > 0 ? `${failed} failed` : '',
+              ].filter(Boolean).join(', ')
+          status.className = failed > 0 || results.length === 0 ? 'error' : 'success'
+        }
+      } else if (state.selectedManagedSession && send) {
         const session = state.managedSessions.find(s => s.id === state.selectedManagedSession)
         data = await sendPromptToManagedSession(prompt)
         if (data.ok && status) {
-          status.textContent = `Sent to ${session?.name || 'session'}!`
+          status.textContent = data.queued
+            ? `Queued for ${session?.name || 'session'} (#${data.position})`
+            : `Sent to ${session?.name || 'session'}!`
           status.className = 'success'
           // Add to history and reset navigation
           state.promptHistory.push(prompt)
@@ -2208,10 +2596,10 @@ function setupPromptForm() {
         }
       } else {
         // Legacy: send to default tmux session
-        const response = await fetch(PROMPT_URL, {
+        const response = await apiFetch(PROMPT_URL, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ prompt, send }),
+          body: JSON.stringify({ prompt }),
         })
         data = await response.json()
 
@@ -2224,15 +2612,7 @@ function setupPromptForm() {
           input.style.height = 'auto' // Reset height after submit
           state.feedManager?.scrollToBottom()
           if (status) {
-            if (data.sent) {
-              status.textContent = 'Sent to Claude!'
-            } else if (data.tmuxError) {
-              status.textContent = `Saved (tmux error: ${data.tmuxError})`
-              status.className = 'error'
-              return
-            } else {
-              status.textContent = `Saved to ${data.saved}`
-            }
+            status.textContent = 'Sent to Claude!'
             status.className = 'success'
           }
         } else {
@@ -2310,7 +2690,7 @@ function setupTerminalToggle() {
   async function fetchTerminalOutput() {
     if (!output || !panel) return
     try {
-      const response = await fetch(TMUX_URL)
+      const response = await apiFetch(TMUX_URL)
       const data = await response.json()
       if (data.ok && data.output) {
         // Strip ANSI codes and clean up
@@ -3175,15 +3555,28 @@ function init() {
   // Initialize feed manager
   state.feedManager = new FeedManager()
   state.feedManager.setupScrollButton()
+  state.feedManager.setupLoadOlder(
+    async ({ sessionId, cursor, until }) => {
+      const page = await eventsAPI.getEvents({ session: sessionId ?? undefined, cursor, until })
+      if (!page.ok) {
+        toast.error(`Failed to load older activity: ${page.error}`)
+        return null
+      }
+      return page
+    },
+    event => state.sessions.get(event.sessionId)?.color ?? 0x888888,
+  )
+  state.feedManager.setupRewind(event => void rewindToPrompt(event))
 
   // Register EventBus handlers (decoupled event handling)
   registerAllHandlers()
 
   // Connect to event server
   state.client = new EventClient({
-    url: WS_URL,
+    url: withApiToken(WS_URL),
     debug: true,
   })
+  warnIfTokenMissing()
 
   // Track if we've ever connected
   let hasConnected = false
@@ -3516,6 +3909,66 @@ function init() {
           }
         }
       }
+    } else if (message.type === 'pipeline_fired') {
+      // A finished session handed a prompt to another - arc between their zones
+      const { fromSessionId, toSessionId, queued } = message.payload as PipelineFiredPayload
+      const from = state.managedSessions.find(s => s.id === fromSessionId)
+      const to = state.managedSessions.find(s => s.id === toSessionId)
+      if (state.scene && from?.claudeSessionId && to?.claudeSessionId) {
+        state.scene.launchSpawnBeam(from.claudeSessionId, to.claudeSessionId)
+        state.scene.zoneNotifications.show(to.claudeSessionId, {
+          text: `${queued ? 'Queued' : 'Prompt'} from ${from.name}`,
+          icon: '⛓️',
+          style: 'info',
+        })
+      }
+    } else if (message.type === 'permission_auto_decision') {
+      // A rule answered a permission prompt - show what was decided for us
+      const decision = message.payload as PermissionAutoDecision
+      const session = state.managedSessions.find(s => s.id === decision.sessionId)
+      const color = decision.claudeSessionId ? state.sessions.get(decision.claudeSessionId)?.color : undefined
+      state.feedManager?.addPermissionDecision(decision, color)
+      if (state.scene && session?.claudeSessionId) {
+        const allowed = decision.action === 'allow'
+        state.scene.zoneNotifications.show(session.claudeSessionId, {
+          text: `${allowed ? 'Auto-approved' : 'Auto-denied'} ${decision.tool}`,
+          icon: allowed ? '🛡️' : '⛔',
+          style: allowed ? 'success' : 'error',
+        })
+      }
+    } else if (message.type === 'dangerous_command') {
+      // A Bash command about to run looks risky - urgent attention
+      const alert = message.payload as DangerousCommandAlert
+      const session = state.managedSessions.find(s => s.id === alert.sessionId)
+      const what = alert.matches.map(m => m.description).join(', ')
+      const text = `${session?.name ?? 'Session'}: ${what}${alert.cancelled ? ' - interrupted' : ''}`
+      if (alert.sessionId) {
+        state.attentionSystem?.warn(alert.sessionId, text, true)
+      }
+      state.scene?.zoneNotifications.show(alert.claudeSessionId, {
+        text: alert.cancelled ? `Interrupted: ${alert.matches[0].description}` : alert.matches[0].description,
+        icon: '🚨',
+        style: 'error',
+        duration: 8,
+      })
+      toast.error(`${text}: ${alert.command.slice(0, 200)}`, { icon: '🚨', duration: 10000 })
+      renderManagedSessions()
+    } else if (message.type === 'budget_warning') {
+      // A session crossed a budget threshold
+      const warning = message.payload as BudgetWarning
+      const session = state.managedSessions.find(s => s.id === warning.sessionId)
+      const name = session?.name ?? 'Session'
+      const spent = `$${warning.costUsd.toFixed(2)} of $${warning.limitUsd.toFixed(2)}`
+      const text = warning.threshold >= 1
+        ? `${name} is over budget (${spent})${warning.cancelled ? ' - interrupted' : ''}`
+        : `${name} has used ${Math.round(warning.threshold * 100)}% of its budget (${spent})`
+      state.attentionSystem?.warn(warning.sessionId, text)
+      if (warning.threshold >= 1) {
+        toast.error(text, { icon: '💸', duration: 8000 })
+      } else {
+        toast.warning(text, { icon: '💵', duration: 5000 })
+      }
+      renderManagedSessions()
     }
   })
 
@@ -3603,9 +4056,43 @@ function init() {
     getManagedSessions: () => state.managedSessions,
   })
 
+  // Setup prompt queue panel (backlog for the selected session)
+  setupPromptQueuePanel(sessionAPI)
+
   // Setup zone info modal (for session details)
   setupZoneInfoModal({
     soundEnabled: state.soundEnabled,
+    sessionAPI,
+    onOpenTerminal: showTerminalPanel,
+    onOpenDiff: showDiffViewer,
+    onOpenCommits: showCommitTimeline,
+    onRewindCheckpoint: rewindToCheckpoint,
+  })
+
+  // Setup terminal panel (live mirror of a session's screen)
+  setupTerminalPanel({
+    client: state.client,
+    sessionAPI,
+    getManagedSessions: () => state.managedSessions,
+  })
+
+  // Setup diff viewer (changes in a session's repository)
+  setupDiffViewer({
+    sessionAPI,
+    getManagedSessions: () => state.managedSessions,
+  })
+
+  // Setup commit timeline (commits a session made, with the prompts behind them)
+  setupCommitTimeline({
+    sessionAPI,
+    getManagedSessions: () => state.managedSessions,
+    onJumpToEvent: (sessionId, eventId, timestamp) => void jumpFeedToEvent(sessionId, eventId, timestamp),
+  })
+
+  // Setup permission audit panel (answered permission prompts)
+  setupPermissionAuditPanel({
+    permissionsAPI,
+    getManagedSessions: () => state.managedSessions,
   })
 
   // Setup text label modal (for hex text labels)
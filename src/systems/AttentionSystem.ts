@@ -103,7 +103,7 @@ export class AttentionSystem {
       if (prevStatus === 'working' && currStatus === 'idle') {
         this.add(session.id)
         this.playNotificationSound()
-        this.showBrowserNotification(session.name)
+        this.showBrowserNotification(`${session.name} needs attention`)
         newlyIdle.push(session)
       }
 
@@ -142,14 +142,31 @@ export class AttentionSystem {
     soundManager.play('notification')
   }
 
+  /**
+   * Flag a session with a warning (e.g. budget threshold crossed) -
+   * queued, with sound and notification, whatever its status. Urgent
+   * warnings jump to the front of the queue.
+   */
+  warn(sessionId: string, message: string, urgent = false): void {
+    if (urgent) {
+      this.queue = [sessionId, ...this.queue.filter(id => id !== sessionId)]
+      this.updateTabTitle()
+      this.callbacks.onQueueChange(this.getQueue())
+    } else {
+      this.add(sessionId)
+    }
+    this.playNotificationSound()
+    this.showBrowserNotification(message)
+  }
+
   /** Show a browser notification */
-  private showBrowserNotification(sessionName: string): void {
+  private showBrowserNotification(body: string): void {
     if (!this.notificationsEnabled) return
     if (!('Notification' in window)) return
 
     if (Notification.permission === 'granted') {
       new Notification('Vibecraft2', {
-        body: `${sessionName} needs attention`,
+        body,
         icon: '/favicon.ico',
         tag: 'vibecraft2-attention', // Prevents duplicate notifications
       })
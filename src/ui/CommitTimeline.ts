@@ -0,0 +1,356 @@
+/**
+ * Commit Timeline - The commits a session made, and what led to each
+ *
+ * Lists the commits made in a session's repository since the session was
+ * created, newest first, with a branch graph, stats, and the prompt and
+ * tool calls that preceded each one. Clicking a commit jumps the activity
+ * feed to that moment; the ▸ toggle shows its files. Opened from the zone
+ * context menu or Zone Info; reloads on its own when the session's last
+ * commit or branch changes while it's open.
+ */
+
+import type { ManagedSession, SessionCommit } from '../../shared/types'
+import type { SessionAPI } from '../api'
+import { escapeHtml, formatTimeAgo } from './FeedManager'
+import { getToolIcon } from '../utils/ToolUtils'
+
+// ============================================================================
+// State
+// ============================================================================
+
+let modal: HTMLElement | null = null
+let list: HTMLElement | null = null
+let api: SessionAPI | null = null
+let getSessions: () => ManagedSession[] = () => []
+let jumpToEvent: (sessionId: string, eventId: string, timestamp: number) => void = () => {}
+/** Managed session whose commits are shown (null when closed) */
+let currentSessionId: string | null = null
+let commits: SessionCommit[] = []
+/** Commits whose details are expanded */
+const expanded = new Set<string>()
+/** Git status the list was loaded for (to notice new commits) */
+let loadedStatus: string | null = null
+/** Bumped per load so a slow response can't overwrite a newer one */
+let loadGeneration = 0
+
+/** Graph geometry (px) */
+const LANE_WIDTH = 14
+const DOT_Y = 13
+const DOT_RADIUS = 4
+
+const LANE_COLORS = ['#a78bfa', '#22d3ee', '#4ade80', '#fbbf24', '#f472b6', '#60a5fa', '#fb923c']
+
+const CHANGE_LETTERS: Record<SessionCommit['files'][number]['change'], string> = {
+  added: 'A',
+  modified: 'M',
+  deleted: 'D',
+  renamed: 'R',
+  copied: 'C',
+  typechange: 'T',
+  conflicted: 'U',
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Initialize the commit timeline
+ */
+export function setupCommitTimeline(options: {
+  sessionAPI: SessionAPI
+  getManagedSessions: () => ManagedSession[]
+  /** Show the session's activity in the feed at this event (or moment) */
+  onJumpToEvent: (sessionId: string, eventId: string, timestamp: number) => void
+}): void {
+  api = options.sessionAPI
+  getSessions = options.getManagedSessions
+  jumpToEvent = options.onJumpToEvent
+  modal = document.getElementById('commits-modal')
+  list = document.getElementById('commits-list')
+
+  document.getElementById('commits-close')?.addEventListener('click', hideCommitTimeline)
+  document.getElementById('commits-refresh')?.addEventListener('click', () => void loadCommits())
+
+  list?.addEventListener('click', (e) => {
+    const row = (e.target as HTMLElement).closest<HTMLElement>('.commit-row')
+    const commit = commits.find(c => c.hash === row?.dataset.hash)
+    if (!commit) return
+
+    if ((e.target as HTMLElement).closest('.commit-toggle')) {
+      if (expanded.has(commit.hash)) expanded.delete(commit.hash)
+      else expanded.add(commit.hash)
+      renderList()
+      return
+    }
+    jumpToCommit(commit)
+  })
+
+  // Close on backdrop click
+  modal?.addEventListener('click', (e) => {
+    if (e.target === modal) {
+      hideCommitTimeline()
+    }
+  })
+
+  // Close on Escape
+  document.addEventListener('keydown', (e) => {
+    if (e.key === 'Escape' && modal?.classList.contains('visible')) {
+      hideCommitTimeline()
+    }
+  })
+}
+
+/**
+ * Open the timeline on a managed session's commits
+ */
+export function showCommitTimeline(sessionId: string): void {
+  if (!modal) return
+
+  if (currentSessionId !== sessionId) {
+    commits = []
+    expanded.clear()
+  }
+  currentSessionId = sessionId
+  modal.classList.add('visible')
+  void loadCommits()
+}
+
+/**
+ * Close the timeline
+ */
+export function hideCommitTimeline(): void {
+  currentSessionId = null
+  loadGeneration++
+  modal?.classList.remove('visible')
+}
+
+/**
+ * Keep the title current, and reload when the session commits or
+ * switches branch (called on every sessions broadcast)
+ */
+export function updateCommitTimelineSessions(): void {
+  if (!currentSessionId) return
+  updateTitle()
+  const session = getSessions().find(s => s.id === currentSessionId)
+  if (session && statusKey(session) !== loadedStatus) {
+    void loadCommits()
+  }
+}
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+/** What the commit list depends on, from the session's git status */
+function statusKey(session: ManagedSession): string {
+  const git = session.gitStatus
+  return git ? `${git.branch}|${git.lastCommitTime}` : ''
+}
+
+async function loadCommits(): Promise<void> {
+  const sessionId = currentSessionId
+  if (!api || !sessionId || !list) return
+
+  const session = getSessions().find(s => s.id === sessionId)
+  loadedStatus = session ? statusKey(session) : null
+  updateTitle()
+
+  const generation = ++loadGeneration
+  const result = await api.getGitCommits(sessionId)
+  if (generation !== loadGeneration) return
+
+  if (!result.ok || !result.commits) {
+    commits = []
+    list.innerHTML = `<div class="commits-message">${escapeHtml(result.error ?? 'Could not load commits')}</div>`
+    return
+  }
+  commits = result.commits
+  renderList()
+}
+
+function jumpToCommit(commit: SessionCommit): void {
+  const sessionId = currentSessionId
+  if (!sessionId) return
+
+  // The last thing the session did before committing
+  const last = commit.tools[commit.tools.length - 1] ?? commit.prompt
+  hideCommitTimeline()
+  if (last) jumpToEvent(sessionId, last.eventId, last.timestamp)
+  else jumpToEvent(sessionId, '', commit.timestamp + 999)
+}
+
+// ============================================================================
+// Branch graph
+// ============================================================================
+
+interface GraphRow {
+  /** Column of the commit's dot */
+  column: number
+  /** Lines passing through the row without touching the commit */
+  through: number[]
+  /** Columns whose lines end at the dot (children above) */
+  from: number[]
+  /** Columns the dot's lines lead to (parents below) */
+  to: number[]
+  /** Columns in use at the widest point */
+  width: number
+}
+
+/**
+ * Lay out the branch graph: each column is a line of history waiting for
+ * a commit further down the list (commits are newest first)
+ */
+function layoutGraph(rows: SessionCommit[]): GraphRow[] {
+  const lanes: Array<string | null> = []
+
+  return rows.map((commit) => {
+    const from = lanes.flatMap((hash, i) => (hash === commit.hash ? [i] : []))
+    const through = lanes.flatMap((hash, i) => (hash !== null && hash !== commit.hash ? [i] : []))
+    const topWidth = lanes.length
+
+    // Branch tips (nothing above leads here) take the first free column
+    let column = from[0] ?? lanes.indexOf(null)
+    if (column === -1) column = lanes.length
+
+    // Lines that meet at this commit continue as its first parent's line
+    for (const i of from) lanes[i] = null
+    const to = commit.parents.map((parent, i) => {
+      let lane = i === 0 ? column : lanes.indexOf(parent)
+      if (lane === -1) {
+        lane = lanes.indexOf(null)
+        if (lane === -1) lane = lanes.length
+      }
+      lanes[lane] = parent
+      return lane
+    })
+    while (lanes.length > 0 && lanes[lanes.length - 1] === null) lanes.pop()
+
+    return { column, through, from, to, width: Math.max(topWidth, lanes.length, column + 1) }
+  })
+}
+
+/**
+ * One row of the graph. Lines run the row's full height (the row grows
+ * when expanded), so they join up with the rows above and below.
+ */
+function renderGraphRow(row: GraphRow): string {
+  const x = (column: number) => column * LANE_WIDTH + LANE_WIDTH / 2
+  const color = (column: number) => LANE_COLORS[column % LANE_COLORS.length]
+  const cx = x(row.column)
+
+  const lines = [
+    ...row.through.map(i => `<line x1="${x(i)}" y1="0" x2="${x(i)}" y2="100%" stroke="${color(i)}"/>`),
+    ...row.from.map(i => `<line x1="${x(i)}" y1="0" x2="${cx}" y2="${DOT_Y}" stroke="${color(i)}"/>`),
+    ...row.to.map(i => i === row.column
+      ? `<line x1="${cx}" y1="${DOT_Y}" x2="${cx}" y2="100%" stroke="${color(i)}"/>`
+      : `<path d="M${cx} ${DOT_Y} L${x(i)} ${DOT_Y + LANE_WIDTH}" stroke="${color(i)}" fill="none"/><line x1="${x(i)}" y1="${DOT_Y + LANE_WIDTH}" x2="${x(i)}" y2="100%" stroke="${color(i)}"/>`),
+  ]
+
+  return `
+    <svg class="commit-graph" width="${row.width * LANE_WIDTH}" height="100%" aria-hidden="true">
+      ${lines.join('')}
+      <circle cx="${cx}" cy="${DOT_Y}" r="${DOT_RADIUS}" fill="${color(row.column)}"/>
+    </svg>
+  `
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+function updateTitle(): void {
+  const title = document.getElementById('commits-title')
+  const session = getSessions().find(s => s.id === currentSessionId)
+  if (!title || !session) return
+
+  title.innerHTML = `
+    ${escapeHtml(session.name)}
+    <span class="commits-since">commits since ${formatTimeAgo(session.createdAt)}</span>
+  `
+}
+
+function renderList(): void {
+  if (!list) return
+
+  if (commits.length === 0) {
+    list.innerHTML = '<div class="commits-message">No commits since the session was created</div>'
+    return
+  }
+
+  const graph = layoutGraph(commits)
+  list.innerHTML = commits.map((commit, i) => renderCommit(commit, graph[i])).join('')
+}
+
+function renderCommit(commit: SessionCommit, row: GraphRow): string {
+  const isOpen = expanded.has(commit.hash)
+  const refs = commit.refs.map(ref => {
+    const name = ref.replace(/^HEAD -> /, '')
+    const kind = ref.startsWith('tag: ') ? 'tag' : ref.startsWith('HEAD') ? 'head' : 'branch'
+    return `<span class="commit-ref commit-ref--${kind}">${escapeHtml(name)}</span>`
+  }).join('')
+  const stats = commit.parents.length > 1
+    ? '<span class="commit-merge">merge</span>'
+    : `${commit.files.length} file${commit.files.length === 1 ? '' : 's'}
+       <span class="diff-added">+${commit.linesAdded}</span><span class="diff-removed">-${commit.linesRemoved}</span>`
+
+  const prompt = commit.prompt
+    ? `<div class="commit-prompt" title="${escapeHtml(commit.prompt.text)}">💬 ${escapeHtml(commit.prompt.text)}</div>`
+    : ''
+  const tools = commit.tools.length > 0 && !isOpen
+    ? `<div class="commit-tools">${commit.tools.slice(-6).map(tool => `
+        <span class="commit-tool" title="${escapeHtml(tool.summary)}">${getToolIcon(tool.tool)} ${escapeHtml(tool.tool)}</span>
+      `).join('')}${commit.tools.length > 6 ? `<span class="commit-tool-more">+${commit.tools.length - 6} earlier</span>` : ''}</div>`
+    : ''
+
+  return `
+    <div class="commit-row${isOpen ? ' expanded' : ''}" data-hash="${commit.hash}" title="Show this moment in the activity feed">
+      ${renderGraphRow(row)}
+      <div class="commit-main">
+        <div class="commit-line">
+          <button type="button" class="commit-toggle" title="${isOpen ? 'Hide' : 'Show'} details">${isOpen ? '▾' : '▸'}</button>
+          <span class="commit-hash">${commit.shortHash}</span>
+          ${refs}
+          <span class="commit-subject">${escapeHtml(commit.subject)}</span>
+          <span class="commit-stats">${stats}</span>
+          <span class="commit-time" title="${new Date(commit.timestamp).toLocaleString()}">${formatTimeAgo(commit.timestamp)}</span>
+        </div>
+        ${prompt}
+        ${tools}
+        ${isOpen ? renderDetails(commit) : ''}
+      </div>
+    </div>
+  `
+}
+
+function renderDetails(commit: SessionCommit): string {
+  const files = commit.files.map(file => {
+    const counts = file.binary
+      ? '<span class="diff-file-binary">bin</span>'
+      : `${file.linesAdded ? `<span class="diff-added">+${file.linesAdded}</span>` : ''}${file.linesRemoved ? `<span class="diff-removed">-${file.linesRemoved}</span>` : ''}`
+    return `
+      <div class="commit-file">
+        <span class="diff-change diff-change--${file.change}">${CHANGE_LETTERS[file.change]}</span>
+        <span class="commit-file-path">${escapeHtml(file.oldPath ? `${file.oldPath} → ${file.path}` : file.path)}</span>
+        <span class="diff-file-counts">${counts}</span>
+      </div>
+    `
+  }).join('')
+
+  const tools = commit.tools.map(tool => `
+    <div class="commit-tool-call">
+      <span class="commit-tool-time">${new Date(tool.timestamp).toLocaleTimeString()}</span>
+      ${getToolIcon(tool.tool)} <span class="commit-tool-name">${escapeHtml(tool.tool)}</span>
+      <span class="commit-tool-summary">${escapeHtml(tool.summary)}</span>
+    </div>
+  `).join('')
+
+  return `
+    <div class="commit-details">
+      <div class="commit-author">${escapeHtml(commit.author)} · ${commit.hash}</div>
+      ${commit.body ? `<pre class="commit-body">${escapeHtml(commit.body)}</pre>` : ''}
+      ${files ? `<div class="commit-files">${files}</div>` : ''}
+      ${tools ? `<div class="commit-tool-calls">${tools}</div>` : ''}
+    </div>
+  `
+}
@@ -0,0 +1,484 @@
+/**
+ * Diff Viewer - Review and act on what a session changed in its repository
+ *
+ * Lists the session's changed files (staged, unstaged and untracked) and
+ * shows the selected file's unified diff with line numbers and syntax
+ * highlighting. Files can be staged, unstaged or discarded (single hunks
+ * too), staged changes committed, the working tree stashed and branches
+ * switched or created; the server refuses all of these while the session
+ * is working. Opened by clicking a zone's git label on the floor or from
+ * Zone Info; reloads on its own when the session's git status changes
+ * while it's open.
+ */
+
+import type { GitFileChange, GitFileDiff, ManagedSession } from '../../shared/types'
+import type { SessionAPI } from '../api'
+import type { GitActionResponse } from '../api/SessionAPI'
+import { escapeHtml } from './FeedManager'
+import { toast } from './Toast'
+import { highlightLine, languageForPath } from '../utils/SyntaxHighlight'
+
+// ============================================================================
+// State
+// ============================================================================
+
+let modal: HTMLElement | null = null
+let fileList: HTMLElement | null = null
+let diffPane: HTMLElement | null = null
+let branchSelect: HTMLSelectElement | null = null
+let api: SessionAPI | null = null
+let getSessions: () => ManagedSession[] = () => []
+/** Managed session being reviewed (null when closed) */
+let currentSessionId: string | null = null
+let files: GitFileChange[] = []
+/** Selected file, as `${area}:${path}` */
+let selectedKey: string | null = null
+/** File whose diff is on screen (re-rendering it keeps the scroll position) */
+let renderedKey: string | null = null
+/** Git status the file list was loaded for (to notice changes) */
+let loadedStatus: string | null = null
+/** Bumped per load so a slow response can't overwrite a newer one */
+let loadGeneration = 0
+/** An action is in flight */
+let acting = false
+
+const AREA_LABELS: Record<GitFileChange['area'], string> = {
+  staged: 'Staged',
+  unstaged: 'Unstaged',
+  untracked: 'Untracked',
+}
+
+const CHANGE_LETTERS: Record<GitFileChange['change'], string> = {
+  added: 'A',
+  modified: 'M',
+  deleted: 'D',
+  renamed: 'R',
+  copied: 'C',
+  typechange: 'T',
+  conflicted: 'U',
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Initialize the diff viewer
+ */
+export function setupDiffViewer(options: {
+  sessionAPI: SessionAPI
+  getManagedSessions: () => ManagedSession[]
+}): void {
+  api = options.sessionAPI
+  getSessions = options.getManagedSessions
+  modal = document.getElementById('diff-modal')
+  fileList = document.getElementById('diff-files')
+  diffPane = document.getElementById('diff-content')
+  branchSelect = document.getElementById('diff-branch') as HTMLSelectElement | null
+
+  document.getElementById('diff-close')?.addEventListener('click', hideDiffViewer)
+  document.getElementById('diff-refresh')?.addEventListener('click', () => void loadFiles())
+
+  fileList?.addEventListener('click', (e) => {
+    const target = e.target as HTMLElement
+    const button = target.closest<HTMLButtonElement>('button[data-action]')
+    if (button) {
+      handleFileAction(button)
+      return
+    }
+    const item = target.closest<HTMLElement>('.diff-file')
+    if (item?.dataset.key) void selectFile(item.dataset.key)
+  })
+
+  diffPane?.addEventListener('click', (e) => {
+    const button = (e.target as HTMLElement).closest<HTMLButtonElement>('button[data-hunk]')
+    if (button) discardHunk(Number(button.dataset.hunk))
+  })
+
+  branchSelect?.addEventListener('change', () => {
+    const branch = branchSelect?.value
+    if (branch) void runAction(`Switch to ${branch}`, id => api!.gitCheckout(id, branch))
+  })
+
+  document.getElementById('diff-new-branch')?.addEventListener('click', () => {
+    const branch = prompt('New branch name (created from HEAD):')?.trim()
+    if (branch) void runAction(`Create ${branch}`, id => api!.gitCheckout(id, branch, true))
+  })
+
+  document.getElementById('diff-stash')?.addEventListener('click', () => {
+    void runAction('Stash', id => api!.gitStash(id, { includeUntracked: true }))
+  })
+
+  document.getElementById('diff-stash-pop')?.addEventListener('click', () => {
+    void runAction('Pop stash', id => api!.gitStashPop(id))
+  })
+
+  document.getElementById('diff-commit-form')?.addEventListener('submit', (e) => {
+    e.preventDefault()
+    void commit()
+  })
+
+  // Close on backdrop click
+  modal?.addEventListener('click', (e) => {
+    if (e.target === modal) {
+      hideDiffViewer()
+    }
+  })
+
+  // Close on Escape
+  document.addEventListener('keydown', (e) => {
+    if (e.key === 'Escape' && modal?.classList.contains('visible')) {
+      hideDiffViewer()
+    }
+  })
+}
+
+/**
+ * Open the viewer on a managed session's repository
+ */
+export function showDiffViewer(sessionId: string): void {
+  if (!modal) return
+
+  if (currentSessionId !== sessionId) {
+    selectedKey = null
+    renderedKey = null
+    const message = document.getElementById('diff-commit-message') as HTMLTextAreaElement | null
+    if (message) message.value = ''
+  }
+  currentSessionId = sessionId
+  modal.classList.add('visible')
+  void loadFiles()
+}
+
+/**
+ * Close the viewer
+ */
+export function hideDiffViewer(): void {
+  currentSessionId = null
+  files = []
+  loadGeneration++
+  modal?.classList.remove('visible')
+}
+
+/**
+ * Keep the title and action buttons current, and reload when the
+ * session's git status changes (called on every sessions broadcast)
+ */
+export function updateDiffViewerSessions(): void {
+  if (!currentSessionId) return
+  updateTitle()
+  updateActions()
+  const session = getSessions().find(s => s.id === currentSessionId)
+  if (session && statusKey(session) !== loadedStatus) {
+    void loadFiles()
+  }
+}
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+/** What the file list depends on, from the session's git status */
+function statusKey(session: ManagedSession): string {
+  const git = session.gitStatus
+  return git ? `${git.branch}|${git.totalFiles}|${git.linesAdded}|${git.linesRemoved}|${git.lastCommitTime}` : ''
+}
+
+async function loadFiles(): Promise<void> {
+  const sessionId = currentSessionId
+  if (!api || !sessionId || !fileList || !diffPane) return
+
+  const session = getSessions().find(s => s.id === sessionId)
+  loadedStatus = session ? statusKey(session) : null
+  updateTitle()
+
+  const generation = ++loadGeneration
+  const [result, branches] = await Promise.all([
+    api.getGitFiles(sessionId),
+    api.getGitBranches(sessionId),
+  ])
+  if (generation !== loadGeneration) return
+
+  renderBranches(branches.branches?.current ?? null, branches.branches?.branches ?? [])
+
+  if (!result.ok || !result.files) {
+    files = []
+    renderedKey = null
+    fileList.innerHTML = ''
+    diffPane.innerHTML = `<div class="diff-message">${escapeHtml(result.error ?? 'Could not load changes')}</div>`
+    updateActions()
+    return
+  }
+
+  files = result.files
+  renderFileList()
+  updateActions()
+
+  if (files.length === 0) {
+    renderedKey = null
+    diffPane.innerHTML = '<div class="diff-message">Working tree clean</div>'
+    return
+  }
+  // Keep the selection across reloads while the file is still changed
+  const keys = files.map(fileKey)
+  void selectFile(selectedKey && keys.includes(selectedKey) ? selectedKey : keys[0])
+}
+
+async function selectFile(key: string): Promise<void> {
+  const sessionId = currentSessionId
+  const file = files.find(f => fileKey(f) === key)
+  if (!api || !sessionId || !file || !diffPane) return
+
+  selectedKey = key
+  fileList?.querySelectorAll('.diff-file').forEach(item => {
+    item.classList.toggle('selected', (item as HTMLElement).dataset.key === key)
+  })
+
+  const generation = loadGeneration
+  const result = await api.getGitDiff(sessionId, { path: file.path, area: file.area })
+  if (generation !== loadGeneration || selectedKey !== key) return
+
+  const diff = result.diffs?.[0]
+  if (!result.ok || !diff) {
+    renderedKey = null
+    diffPane.innerHTML = `<div class="diff-message">${escapeHtml(result.error ?? 'No changes in this file any more')}</div>`
+    return
+  }
+  renderDiff(diff)
+}
+
+function fileKey(file: GitFileChange): string {
+  return `${file.area}:${file.path}`
+}
+
+// ============================================================================
+// Actions
+// ============================================================================
+
+function isBusy(): boolean {
+  return acting || getSessions().find(s => s.id === currentSessionId)?.status === 'working'
+}
+
+/**
+ * Run a git action on the open session, then reload. Failures (including
+ * the server refusing while the session works) are shown as a toast.
+ */
+async function runAction(
+  label: string,
+  action: (sessionId: string) => Promise<GitActionResponse>
+): Promise<GitActionResponse | null> {
+  const sessionId = currentSessionId
+  if (!api || !sessionId || acting) return null
+
+  acting = true
+  updateActions()
+  const result = await action(sessionId)
+  acting = false
+
+  if (!result.ok) {
+    toast.error(`${label} failed: ${result.error ?? 'unknown error'}`, { icon: '❌', duration: 5000 })
+  }
+  if (sessionId === currentSessionId) {
+    updateActions()
+    void loadFiles()
+  }
+  return result.ok ? result : null
+}
+
+function handleFileAction(button: HTMLButtonElement): void {
+  const action = button.dataset.action
+  if (!api) return
+
+  if (action === 'stage-all' || action === 'unstage-all') {
+    const area = button.dataset.area
+    const paths = files.filter(f => f.area === area).map(f => f.path)
+    if (action === 'stage-all') void runAction('Stage', id => api!.gitStage(id, paths))
+    else void runAction('Unstage', id => api!.gitUnstage(id, paths))
+    return
+  }
+
+  const file = files.find(f => fileKey(f) === button.closest<HTMLElement>('.diff-file')?.dataset.key)
+  if (!file) return
+
+  if (action === 'stage') {
+    void runAction('Stage', id => api!.gitStage(id, [file.path]))
+  } else if (action === 'unstage') {
+    void runAction('Unstage', id => api!.gitUnstage(id, [file.path]))
+  } else if (action === 'discard') {
+    const question = file.area === 'untracked'
+      ? `Delete untracked file ${file.path}?`
+      : `Discard the unstaged changes to ${file.path}? This cannot be undone.`
+    if (confirm(question)) {
+      void runAction('Discard', id => api!.gitDiscard(id, file.path))
+    }
+  }
+}
+
+function discardHunk(hunk: number): void {
+  const file = files.find(f => fileKey(f) === renderedKey)
+  if (!api || !file || !confirm(`Discard this hunk of ${file.path}? This cannot be undone.`)) return
+  void runAction('Discard hunk', id => api!.gitDiscard(id, file.path, [hunk]))
+}
+
+async function commit(): Promise<void> {
+  const input = document.getElementById('diff-commit-message') as HTMLTextAreaElement | null
+  const message = input?.value.trim()
+  if (!api || !input || !message) {
+    input?.focus()
+    return
+  }
+
+  const result = await runAction('Commit', id => api!.gitCommit(id, message))
+  if (result) {
+    input.value = ''
+    toast.success(`Committed ${result.commit?.slice(0, 7) ?? ''}`, { icon: '✅', duration: 3000 })
+  }
+}
+
+/**
+ * Enable or disable the action controls (disabled while the session works
+ * or another action runs)
+ */
+function updateActions(): void {
+  if (!modal) return
+
+  const busy = isBusy()
+  modal.querySelectorAll<HTMLButtonElement | HTMLSelectElement>('.diff-action').forEach(control => {
+    control.disabled = busy
+  })
+  const commitButton = document.getElementById('diff-commit-btn') as HTMLButtonElement | null
+  if (commitButton) commitButton.disabled = busy || !files.some(f => f.area === 'staged')
+  document.getElementById('diff-busy')?.classList.toggle('visible', busy && !acting)
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+function updateTitle(): void {
+  const title = document.getElementById('diff-title')
+  const session = getSessions().find(s => s.id === currentSessionId)
+  if (!title || !session) return
+
+  const git = session.gitStatus
+  title.innerHTML = `
+    ${escapeHtml(session.name)}
+    ${git?.isRepo ? `<span class="diff-added">+${git.linesAdded}</span><span class="diff-removed">-${git.linesRemoved}</span>` : ''}
+  `
+}
+
+function renderBranches(current: string | null, branches: string[]): void {
+  if (!branchSelect) return
+
+  branchSelect.innerHTML = `
+    ${current ? '' : '<option value="" selected>(detached HEAD)</option>'}
+    ${branches.map(branch => `
+      <option value="${escapeHtml(branch)}"${branch === current ? ' selected' : ''}>⎇ ${escapeHtml(branch)}</option>
+    `).join('')}
+  `
+}
+
+function renderFileList(): void {
+  if (!fileList) return
+
+  fileList.innerHTML = (['staged', 'unstaged', 'untracked'] as const).map(area => {
+    const inArea = files.filter(f => f.area === area)
+    if (inArea.length === 0) return ''
+    const bulk = area === 'staged'
+      ? `<button type="button" class="diff-action diff-area-btn" data-action="unstage-all" data-area="${area}">Unstage all</button>`
+      : `<button type="button" class="diff-action diff-area-btn" data-action="stage-all" data-area="${area}">Stage all</button>`
+    return `
+      <div class="diff-area">${AREA_LABELS[area]} <span class="diff-area-count">${inArea.length}</span>${bulk}</div>
+      ${inArea.map(renderFileItem).join('')}
+    `
+  }).join('')
+}
+
+function renderFileItem(file: GitFileChange): string {
+  const slash = file.path.lastIndexOf('/')
+  const name = file.path.slice(slash + 1)
+  const dir = slash >= 0 ? file.path.slice(0, slash + 1) : ''
+  const counts = file.binary
+    ? '<span class="diff-file-binary">bin</span>'
+    : `${file.linesAdded ? `<span class="diff-added">+${file.linesAdded}</span>` : ''}${file.linesRemoved ? `<span class="diff-removed">-${file.linesRemoved}</span>` : ''}`
+  const actions = file.area === 'staged'
+    ? '<button type="button" class="diff-action diff-file-btn" data-action="unstage" title="Unstage">−</button>'
+    : `<button type="button" class="diff-action diff-file-btn" data-action="discard" title="${file.area === 'untracked' ? 'Delete file' : 'Discard changes'}">↺</button>
+       <button type="button" class="diff-action diff-file-btn" data-action="stage" title="Stage">+</button>`
+
+  return `
+    <div class="diff-file${fileKey(file) === selectedKey ? ' selected' : ''}" data-key="${escapeHtml(fileKey(file))}" title="${escapeHtml(file.oldPath ? `${file.oldPath} → ${file.path}` : file.path)}">
+      <span class="diff-change diff-change--${file.change}">${CHANGE_LETTERS[file.change]}</span>
+      <span class="diff-file-path"><span class="diff-file-dir">${escapeHtml(dir)}</span>${escapeHtml(name)}</span>
+      <span class="diff-file-counts">${counts}</span>
+      <span class="diff-file-actions">${actions}</span>
+    </div>
+  `
+}
+
+function renderDiff(diff: GitFileDiff): void {
+  if (!diffPane) return
+
+  const key = fileKey(diff)
+  const scrollTop = key === renderedKey ? diffPane.scrollTop : 0
+  renderedKey = key
+
+  const language = languageForPath(diff.path)
+  // Unstaged hunks of ordinary files can be discarded one by one
+  const hunkActions = diff.area === 'unstaged' && diff.change !== 'conflicted'
+  const disabled = isBusy() ? ' disabled' : ''
+  const rows: string[] = []
+  let hunkIndex = 0
+  let inHunk = false
+  let oldLine = 0
+  let newLine = 0
+  // Combined diffs (conflicts) have two prefix columns and no simple numbering
+  let prefixWidth = 1
+
+  for (const line of diff.diff.replace(/\n$/, '').split('\n')) {
+    const hunk = line.match(/^(@@@?) -(\d+)(?:,\d+)?(?: -\d+(?:,\d+)?)? \+(\d+)(?:,\d+)? @@@?(.*)$/)
+    if (hunk) {
+      inHunk = true
+      prefixWidth = hunk[1].length - 1
+      oldLine = parseInt(hunk[2], 10)
+      newLine = parseInt(hunk[3], 10)
+      const button = hunkActions
+        ? `<button type="button" class="diff-action diff-hunk-btn" data-hunk="${hunkIndex}"${disabled}>Discard hunk</button>`
+        : ''
+      rows.push(row('hunk', '', '', `${button}${escapeHtml(line)}`))
+      hunkIndex++
+      continue
+    }
+    if (!inHunk) {
+      // File header (diff --git, index, ---/+++, rename from/to, ...)
+      rows.push(row('meta', '', '', escapeHtml(line)))
+      continue
+    }
+
+    const prefix = line.slice(0, prefixWidth)
+    const code = highlightLine(line.slice(prefixWidth), language)
+    if (line.startsWith('\\')) {
+      rows.push(row('meta', '', '', escapeHtml(line)))
+    } else if (prefix.includes('+')) {
+      rows.push(row('add', '', String(newLine++), `${escapeHtml(prefix)}${code}`))
+    } else if (prefix.includes('-')) {
+      rows.push(row('del', prefixWidth === 1 ? String(oldLine++) : '', '', `${escapeHtml(prefix)}${code}`))
+    } else {
+      rows.push(row('context', prefixWidth === 1 ? String(oldLine++) : '', String(newLine++), `${escapeHtml(prefix)}${code}`))
+    }
+  }
+
+  if (diff.binary) {
+    rows.push(row('meta', '', '', 'Binary file - contents not shown'))
+  }
+  if (diff.truncated) {
+    rows.push(row('meta', '', '', 'Diff too large - the rest is not shown'))
+  }
+
+  diffPane.innerHTML = `<table class="diff-table"><tbody>${rows.join('')}</tbody></table>`
+  diffPane.scrollTop = scrollTop
+}
+
+function row(kind: string, oldNumber: string, newNumber: string, html: string): string {
+  return `<tr class="diff-line diff-line--${kind}"><td class="diff-num">${oldNumber}</td><td class="diff-num">${newNumber}</td><td class="diff-code">${html || ' '}</td></tr>`
+}
@@ -5,6 +5,8 @@
  * and shows a dropdown with keyboard navigation.
  */
 
+import { apiFetch } from '../api/auth'
+
 // Injected by Vite at build time
 declare const __VIBECRAFT2_DEFAULT_PORT__: number
 const API_PORT = __VIBECRAFT2_DEFAULT_PORT__
@@ -137,7 +139,7 @@ export function setupDirectoryAutocomplete(
 
   const fetchResults = async (query: string) => {
     try {
-      const response = await fetch(`${API_URL}/projects/autocomplete?q=${encodeURIComponent(query)}`)
+      const response = await apiFetch(`${API_URL}/projects/autocomplete?q=${encodeURIComponent(query)}`)
       const data = await response.json()
       if (data.ok && Array.isArray(data.results)) {
         results = data.results
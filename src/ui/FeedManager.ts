@@ -3,13 +3,26 @@
  *
  * Handles:
  * - Adding events to the feed (prompts, tool uses, responses)
+ * - Permission prompts answered by rules
  * - Filtering by session
  * - Auto-scroll behavior
  * - Scroll-to-bottom button
+ * - Paging back through older history ("Load older activity")
+ * - Jumping to an event (paging back to it if needed)
  */
 
 import { getToolIcon } from '../utils/ToolUtils'
-import type { ClaudeEvent, PreToolUseEvent, PostToolUseEvent } from '../../shared/types'
+import type { ClaudeEvent, PreToolUseEvent, PostToolUseEvent, PermissionAutoDecision } from '../../shared/types'
+
+/** Fetches a page of older events (newest first); null on failure */
+export type FeedHistoryLoader = (request: {
+  /** Claude session ID, or null for all sessions */
+  sessionId: string | null
+  /** Cursor from the previous page */
+  cursor?: string
+  /** First page only: events at or before this time */
+  until?: number
+}) => Promise<{ events: ClaudeEvent[]; nextCursor: string | null } | null>
 
 export class FeedManager {
   private feedEl: HTMLElement | null = null
@@ -32,6 +45,18 @@ export class FeedManager {
   private lastAssistantTextTime = 0
   private readonly ASSISTANT_TEXT_DEDUP_WINDOW = 2000  // ms
 
+  // Paging back through history
+  private loadOlderBtn: HTMLButtonElement | null = null
+  private historyLoader: FeedHistoryLoader | null = null
+  private historyColor: (event: ClaudeEvent) => number | undefined = () => undefined
+  private historyCursors = new Map<string, string | null>()  // filter -> next page (null = no more)
+  private historyLoading = false
+  private insertAnchor: Element | null = null  // While prepending, items go before this
+  private readonly MAX_JUMP_PAGES = 20  // Pages loaded looking for an event to jump to
+
+  // Rewinding files to before a prompt
+  private rewindHandler: ((event: ClaudeEvent) => void) | null = null
+
   constructor() {
     this.feedEl = document.getElementById('activity-feed')
     this.scrollBtn = document.getElementById('feed-scroll-bottom')
@@ -70,6 +95,104 @@ export class FeedManager {
     this.scrollBtn.addEventListener('click', () => this.scrollToBottom())
   }
 
+  /**
+   * Add a "Load older activity" button to the top of the feed (call once
+   * during init). Pages are kept per filter, so each session pages back
+   * through its own history.
+   */
+  setupLoadOlder(loader: FeedHistoryLoader, colorFor: (event: ClaudeEvent) => number | undefined): void {
+    if (!this.feedEl) return
+
+    this.historyLoader = loader
+    this.historyColor = colorFor
+    this.loadOlderBtn = document.createElement('button')
+    this.loadOlderBtn.id = 'feed-load-older'
+    this.loadOlderBtn.addEventListener('click', () => this.loadOlder())
+    this.feedEl.prepend(this.loadOlderBtn)
+    this.updateLoadOlderButton()
+  }
+
+  /**
+   * Add a "rewind to before this prompt" button to prompts (call once
+   * during init, before events are added)
+   */
+  setupRewind(onRewind: (event: ClaudeEvent) => void): void {
+    this.rewindHandler = onRewind
+  }
+
+  /**
+   * Fetch the next page of older events for the current filter and
+   * insert them above what's shown
+   */
+  async loadOlder(): Promise<void> {
+    if (!this.historyLoader || this.historyLoading) return
+    // '__none__' is the filter for sessions with no events yet
+    if (this.activeFilter === '__none__') return
+
+    const key = this.activeFilter ?? ''
+    const cursor = this.historyCursors.get(key)
+    if (cursor === null) return
+
+    this.historyLoading = true
+    this.updateLoadOlderButton()
+    try {
+      const page = await this.historyLoader({
+        sessionId: this.activeFilter,
+        cursor,
+        until: cursor === undefined ? this.getOldestTimestamp() ?? undefined : undefined,
+      })
+      if (page) {
+        this.historyCursors.set(key, page.nextCursor)
+        this.prependEvents([...page.events].reverse())
+      }
+    } finally {
+      this.historyLoading = false
+      this.updateLoadOlderButton()
+    }
+  }
+
+  /**
+   * Oldest event time shown for the current filter (null if none)
+   */
+  private getOldestTimestamp(): number | null {
+    if (!this.feedEl) return null
+    for (const item of this.feedEl.querySelectorAll<HTMLElement>('.feed-item[data-timestamp]')) {
+      if (this.activeFilter === null || item.dataset.sessionId === this.activeFilter) {
+        return Number(item.dataset.timestamp)
+      }
+    }
+    return null
+  }
+
+  /**
+   * Insert older events (oldest first) above everything in the feed,
+   * keeping the visible items where they are
+   */
+  private prependEvents(events: ClaudeEvent[]): void {
+    if (!this.feedEl || !this.loadOlderBtn) return
+
+    const heightBefore = this.feedEl.scrollHeight
+    this.insertAnchor = this.loadOlderBtn.nextElementSibling
+    try {
+      for (const event of events) {
+        this.add(event, this.historyColor(event))
+      }
+    } finally {
+      this.insertAnchor = null
+    }
+    this.feedEl.scrollTop += this.feedEl.scrollHeight - heightBefore
+  }
+
+  private updateLoadOlderButton(): void {
+    if (!this.loadOlderBtn) return
+
+    const exhausted = this.activeFilter === '__none__' || this.historyCursors.get(this.activeFilter ?? '') === null
+    this.loadOlderBtn.disabled = exhausted || this.historyLoading
+    this.loadOlderBtn.textContent = this.historyLoading
+      ? 'Loading…'
+      : exhausted ? 'No older activity' : '↑ Load older activity'
+  }
+
   /**
    * Filter feed items by session ID
    */
@@ -86,6 +209,7 @@ export class FeedManager {
       const shouldShow = sessionId === null || itemSession === sessionId
       itemEl.style.display = shouldShow ? '' : 'none'
     })
+    this.updateLoadOlderButton()
 
     // Auto-scroll to bottom when switching sessions
     this.scrollToBottom()
@@ -102,6 +226,42 @@ export class FeedManager {
     })
   }
 
+  /**
+   * Scroll to an event and highlight it, loading older pages until it's
+   * in the feed. If the event itself isn't shown (hidden duplicates), the
+   * last item before it is. Returns false when nothing at or before that
+   * moment could be found.
+   */
+  async jumpToEvent(eventId: string, timestamp: number): Promise<boolean> {
+    if (!this.feedEl) return false
+    // After any pending scrollToBottom (e.g. from setFilter)
+    await new Promise(resolve => requestAnimationFrame(resolve))
+
+    for (let page = 0; page < this.MAX_JUMP_PAGES; page++) {
+      const oldest = this.getOldestTimestamp()
+      if (oldest !== null && oldest <= timestamp) break
+      const cursor = this.historyCursors.get(this.activeFilter ?? '')
+      if (!this.historyLoader || cursor === null || this.activeFilter === '__none__') break
+      await this.loadOlder()
+    }
+
+    let target = this.feedEl.querySelector<HTMLElement>(`.feed-item[data-event-id="${CSS.escape(eventId)}"]`)
+    if (!target || target.style.display === 'none') {
+      target = null
+      for (const item of this.feedEl.querySelectorAll<HTMLElement>('.feed-item[data-timestamp]')) {
+        if (Number(item.dataset.timestamp) > timestamp) break
+        if (item.style.display !== 'none') target = item
+      }
+    }
+    if (!target) return false
+
+    target.scrollIntoView({ behavior: 'smooth', block: 'center' })
+    target.classList.remove('feed-item-jump')
+    void target.offsetWidth // Restart the highlight animation
+    target.classList.add('feed-item-jump')
+    return true
+  }
+
   /**
    * Check if feed is scrolled near the bottom
    */
@@ -207,6 +367,7 @@ export class FeedManager {
     item.className = 'feed-item'
     item.dataset.eventId = event.id
     item.dataset.sessionId = event.sessionId
+    item.dataset.timestamp = String(event.timestamp)
 
     // Apply session color as left border
     if (sessionColor !== undefined) {
@@ -222,7 +383,7 @@ export class FeedManager {
 
         // Skip duplicate prompts
         const lastPrompt = this.feedEl.querySelector('.feed-item.user-prompt:last-of-type') as HTMLElement | null
-        if (lastPrompt) {
+        if (lastPrompt && !this.insertAnchor) {
           const lastText = lastPrompt.querySelector('.prompt-text')?.textContent ?? ''
           if (promptText === lastText) return
         }
@@ -233,9 +394,12 @@ export class FeedManager {
             <div class="feed-item-icon">💬</div>
             <div class="feed-item-title">You</div>
             <div class="feed-item-time">${new Date(event.timestamp).toLocaleTimeString()}</div>
+            ${this.rewindHandler ? '<button class="feed-item-rewind" title="Rewind files to before this prompt">⏪</button>' : ''}
           </div>
           <div class="feed-item-content prompt-text">${escapeHtml(promptText)}</div>
         `
+        const onRewind = this.rewindHandler
+        item.querySelector('.feed-item-rewind')?.addEventListener('click', () => onRewind?.(event))
         break
       }
 
@@ -387,7 +551,7 @@ export class FeedManager {
         const response = e.response?.trim() || ''
 
         // Skip duplicate responses
-        if (response) {
+        if (response && !this.insertAnchor) {
           const lastResponse = this.feedEl.querySelector('.feed-item.assistant-response:last-of-type .assistant-text')
           if (lastResponse && response.slice(0, 100) === (lastResponse.textContent || '').slice(0, 100)) {
             return
@@ -438,9 +602,14 @@ export class FeedManager {
     }
 
     // Check scroll position BEFORE adding item (so isNearBottom is accurate)
-    const shouldScroll = event.type === 'user_prompt_submit' || this.isNearBottom()
+    // Older history goes above everything and never scrolls the feed
+    const shouldScroll = !this.insertAnchor && (event.type === 'user_prompt_submit' || this.isNearBottom())
 
-    this.feedEl.appendChild(item)
+    if (this.insertAnchor) {
+      this.feedEl.insertBefore(item, this.insertAnchor)
+    } else {
+      this.feedEl.appendChild(item)
+    }
 
     // Apply active filter - hide item if it doesn't match
     if (this.activeFilter !== null && event.sessionId !== this.activeFilter) {
@@ -471,6 +640,64 @@ export class FeedManager {
     })
   }
 
+  /**
+   * Show a permission prompt that a rule answered on the user's behalf
+   */
+  addPermissionDecision(decision: PermissionAutoDecision, sessionColor?: number): void {
+    if (!this.feedEl) return
+
+    this.removeEmptyState()
+
+    const allowed = decision.action === 'allow'
+    const item = document.createElement('div')
+    item.className = `feed-item permission-decision ${allowed ? 'allowed' : 'denied'}`
+    item.dataset.sessionId = decision.claudeSessionId ?? decision.sessionId
+    item.dataset.timestamp = String(decision.timestamp)
+
+    if (sessionColor !== undefined) {
+      item.style.borderLeftColor = `#${sessionColor.toString(16).padStart(6, '0')}`
+      item.style.borderLeftWidth = '3px'
+      item.style.borderLeftStyle = 'solid'
+    }
+
+    const rule = decision.rule
+    const ruleText = rule.description
+      ?? `${rule.action}${rule.tool ? ` ${rule.tool}` : ''}${rule.pattern ? ` /${rule.pattern}/` : ''}`
+    const detailsId = `permission-${decision.sessionId}-${decision.timestamp}`
+    item.innerHTML = `
+      <div class="feed-item-header">
+        <div class="feed-item-icon">${allowed ? '🛡️' : '⛔'}</div>
+        <div class="feed-item-title">Auto-${allowed ? 'approved' : 'denied'} ${escapeHtml(decision.tool)}</div>
+        <div class="feed-item-time">${new Date(decision.timestamp).toLocaleTimeString()}</div>
+      </div>
+      <div class="feed-item-file" title="${escapeHtml(decision.source)}">Rule: ${escapeHtml(ruleText)} → ${escapeHtml(decision.option.label)}</div>
+      <div class="feed-item-details collapsed" id="${detailsId}">
+        <div class="feed-item-code">${escapeHtml(decision.context)}</div>
+      </div>
+      <div class="expand-toggle" data-target="${detailsId}">▶ Show content</div>
+    `
+
+    const shouldScroll = this.isNearBottom()
+    this.feedEl.appendChild(item)
+
+    if (this.activeFilter !== null && item.dataset.sessionId !== this.activeFilter) {
+      item.style.display = 'none'
+    } else if (shouldScroll) {
+      requestAnimationFrame(() => {
+        if (this.feedEl) {
+          this.feedEl.scrollTop = this.feedEl.scrollHeight
+        }
+      })
+    }
+    this.updateScrollButton()
+
+    const toggle = item.querySelector<HTMLElement>('.expand-toggle')
+    toggle?.addEventListener('click', () => {
+      const isCollapsed = item.querySelector('.feed-item-details')?.classList.toggle('collapsed')
+      toggle.textContent = isCollapsed ? '▶ Show content' : '▼ Hide content'
+    })
+  }
+
   /**
    * Create HTML for tool response preview
    */
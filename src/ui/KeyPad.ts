@@ -0,0 +1,81 @@
+/**
+ * Key Pad - Buttons that send raw key presses to a session
+ *
+ * Drives Claude's interactive menus from the browser: arrows to move, Enter
+ * to pick, Esc to back out, Shift+Tab to cycle modes, digits for numbered
+ * options. Shown under the live terminal panel and, from the ⌨ button,
+ * above the prompt box (where it fits a phone screen).
+ */
+
+import type { SessionKey } from '../../shared/types'
+import type { SessionAPI } from '../api'
+import { toast } from './Toast'
+
+interface KeyButton {
+  key: SessionKey
+  label: string
+  title: string
+  /** Takes two columns */
+  wide?: boolean
+}
+
+/** Five columns per row */
+const LAYOUT: KeyButton[] = [
+  { key: 'Escape', label: 'Esc', title: 'Escape (cancel, back out of a menu)' },
+  { key: 'Up', label: '↑', title: 'Up' },
+  { key: 'Tab', label: 'Tab', title: 'Tab' },
+  { key: 'BTab', label: '⇧Tab', title: 'Shift+Tab (cycle permission / plan mode)' },
+  { key: 'C-c', label: '^C', title: 'Ctrl+C (interrupt)' },
+  { key: 'Left', label: '←', title: 'Left' },
+  { key: 'Down', label: '↓', title: 'Down' },
+  { key: 'Right', label: '→', title: 'Right' },
+  { key: 'Enter', label: 'Enter ⏎', title: 'Enter (confirm)', wide: true },
+  { key: '1', label: '1', title: 'Option 1' },
+  { key: '2', label: '2', title: 'Option 2' },
+  { key: '3', label: '3', title: 'Option 3' },
+  { key: 'y', label: 'y', title: 'y' },
+  { key: 'n', label: 'n', title: 'n' },
+]
+
+/**
+ * Build a key pad that sends to whichever session `getSessionId` names
+ * when a key is pressed
+ */
+export function createKeyPad(options: {
+  sessionAPI: SessionAPI
+  getSessionId: () => string | null
+}): HTMLElement {
+  const pad = document.createElement('div')
+  pad.className = 'key-pad'
+
+  for (const button of LAYOUT) {
+    const element = document.createElement('button')
+    element.type = 'button'
+    element.className = `key-pad-btn${button.wide ? ' key-pad-btn--wide' : ''}`
+    element.textContent = button.label
+    element.title = button.title
+
+    // Keep focus (and the phone keyboard) where it was
+    element.addEventListener('pointerdown', (e) => e.preventDefault())
+    element.addEventListener('click', () => void sendKey(options, button.key))
+    pad.appendChild(element)
+  }
+
+  return pad
+}
+
+async function sendKey(
+  options: { sessionAPI: SessionAPI; getSessionId: () => string | null },
+  key: SessionKey
+): Promise<void> {
+  const sessionId = options.getSessionId()
+  if (!sessionId) {
+    toast.warning('Select a session first', { icon: '⌨️', duration: 2500 })
+    return
+  }
+
+  const result = await options.sessionAPI.sendKeys(sessionId, [key])
+  if (!result.ok) {
+    toast.error(`Key not sent: ${result.error ?? 'unknown error'}`, { icon: '❌', duration: 3000 })
+  }
+}
@@ -0,0 +1,213 @@
+/**
+ * Permission Audit Panel - Browse and export answered permission prompts
+ *
+ * Lists prompts newest first with who answered them (UI, WebSocket, REST,
+ * a permission rule or the terminal) and how long the session waited.
+ * Filters apply to both the list and the CSV/JSON export.
+ */
+
+import type { ManagedSession, PermissionAnswerSource, PermissionAuditEntry } from '../../shared/types'
+import type { PermissionsAPI } from '../api'
+import type { PermissionAuditQuery } from '../api/PermissionsAPI'
+import { formatTimeAgo, escapeHtml } from './FeedManager'
+import { toast } from './Toast'
+
+const SOURCE_LABELS: Record<PermissionAnswerSource, string> = {
+  ui: 'UI',
+  websocket: 'WebSocket',
+  rest: 'REST',
+  rule: 'Rule',
+  terminal: 'Terminal',
+}
+
+// ============================================================================
+// State
+// ============================================================================
+
+let modal: HTMLElement | null = null
+let list: HTMLElement | null = null
+let api: PermissionsAPI | null = null
+let getSessions: () => ManagedSession[] = () => []
+let nextCursor: string | null = null
+/** Bumped on each reload so stale pages are dropped */
+let generation = 0
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Initialize the permission audit panel (opened from the HUD button)
+ */
+export function setupPermissionAuditPanel(options: {
+  permissionsAPI: PermissionsAPI
+  getManagedSessions: () => ManagedSession[]
+}): void {
+  api = options.permissionsAPI
+  getSessions = options.getManagedSessions
+  modal = document.getElementById('permission-audit-modal')
+  list = document.getElementById('permission-audit-list')
+
+  document.getElementById('permission-audit-btn')?.addEventListener('click', showPermissionAuditPanel)
+  document.getElementById('permission-audit-close')?.addEventListener('click', hidePermissionAuditPanel)
+  document.getElementById('permission-audit-csv')?.addEventListener('click', () => void exportEntries('csv'))
+  document.getElementById('permission-audit-json')?.addEventListener('click', () => void exportEntries('json'))
+
+  for (const id of ['permission-audit-session', 'permission-audit-source']) {
+    document.getElementById(id)?.addEventListener('change', () => void reload())
+  }
+  let toolTimer: ReturnType<typeof setTimeout> | undefined
+  document.getElementById('permission-audit-tool')?.addEventListener('input', () => {
+    clearTimeout(toolTimer)
+    toolTimer = setTimeout(() => void reload(), 300)
+  })
+
+  // Close on backdrop click
+  modal?.addEventListener('click', (e) => {
+    if (e.target === modal) {
+      hidePermissionAuditPanel()
+    }
+  })
+
+  // Close on Escape
+  document.addEventListener('keydown', (e) => {
+    if (e.key === 'Escape' && modal?.classList.contains('visible')) {
+      hidePermissionAuditPanel()
+    }
+  })
+}
+
+/**
+ * Show the panel with the latest entries
+ */
+export function showPermissionAuditPanel(): void {
+  if (!modal) return
+
+  renderSessionOptions()
+  modal.classList.add('visible')
+  void reload()
+}
+
+/**
+ * Hide the panel
+ */
+export function hidePermissionAuditPanel(): void {
+  modal?.classList.remove('visible')
+}
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+function currentQuery(): PermissionAuditQuery {
+  const value = (id: string) => (document.getElementById(id) as HTMLInputElement | HTMLSelectElement | null)?.value.trim() || undefined
+  return {
+    session: value('permission-audit-session'),
+    tool: value('permission-audit-tool'),
+    source: value('permission-audit-source') as PermissionAnswerSource | undefined,
+  }
+}
+
+async function reload(): Promise<void> {
+  if (!list) return
+  list.innerHTML = '<div class="permission-audit-empty">Loading...</div>'
+  nextCursor = null
+  await loadPage(++generation)
+}
+
+async function loadPage(requestGeneration: number): Promise<void> {
+  if (!api || !list) return
+
+  const page = await api.getAudit({ ...currentQuery(), cursor: nextCursor ?? undefined })
+  if (requestGeneration !== generation) return
+
+  list.querySelector('.permission-audit-empty, .permission-audit-more')?.remove()
+  if (!page.ok) {
+    list.insertAdjacentHTML('beforeend', `<div class="permission-audit-empty">Could not load the audit log: ${escapeHtml(page.error ?? 'unknown error')}</div>`)
+    return
+  }
+  if (page.entries.length === 0 && !list.children.length) {
+    list.innerHTML = '<div class="permission-audit-empty">No permission prompts recorded</div>'
+    return
+  }
+
+  list.insertAdjacentHTML('beforeend', page.entries.map(renderEntry).join(''))
+  nextCursor = page.nextCursor
+  if (nextCursor) {
+    const more = document.createElement('button')
+    more.type = 'button'
+    more.className = 'permission-audit-more'
+    more.textContent = 'Load more'
+    more.addEventListener('click', () => {
+      more.disabled = true
+      void loadPage(generation)
+    })
+    list.appendChild(more)
+  }
+}
+
+async function exportEntries(format: 'csv' | 'json'): Promise<void> {
+  if (!api) return
+
+  const blob = await api.exportAudit(currentQuery(), format)
+  if (!blob) {
+    toast.error('Export failed', { icon: '❌', duration: 3000 })
+    return
+  }
+
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `permissions-audit-${new Date().toISOString().slice(0, 10)}.${format}`
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+function renderSessionOptions(): void {
+  const select = document.getElementById('permission-audit-session') as HTMLSelectElement | null
+  if (!select) return
+
+  const selected = select.value
+  select.innerHTML = `<option value="">All sessions</option>` + getSessions().map(session => `
+    <option value="${session.id}" ${session.id === selected ? 'selected' : ''}>${escapeHtml(session.name)}</option>
+  `).join('')
+}
+
+function renderEntry(entry: PermissionAuditEntry): string {
+  const outcome = entry.option
+    ? escapeHtml(entry.option.label)
+    : '<span class="permission-audit-muted">answered in terminal</span>'
+  const by = entry.source === 'rule' && entry.rule
+    ? `Rule${entry.rule.description ? `: ${escapeHtml(entry.rule.description)}` : entry.rule.pattern ? ` /${escapeHtml(entry.rule.pattern)}/` : ''}`
+    : SOURCE_LABELS[entry.source]
+
+  return `
+    <details class="permission-audit-entry permission-audit-entry--${entry.source}">
+      <summary>
+        <span class="permission-audit-tool">${escapeHtml(entry.tool)}</span>
+        <span class="permission-audit-session">${escapeHtml(entry.sessionName)}</span>
+        <span class="permission-audit-outcome">${outcome}</span>
+        <span class="permission-audit-meta" title="${new Date(entry.answeredAt).toLocaleString()}">
+          ${by} · waited ${formatWait(entry.waitMs)} · ${formatTimeAgo(entry.answeredAt)}
+        </span>
+      </summary>
+      <pre class="permission-audit-context">${escapeHtml(entry.context || '(no prompt text)')}</pre>
+      ${entry.client ? `<div class="permission-audit-muted">From ${escapeHtml(entry.client)}</div>` : ''}
+      ${entry.ruleFile ? `<div class="permission-audit-muted">Rule file ${escapeHtml(entry.ruleFile)}</div>` : ''}
+    </details>
+  `
+}
+
+// ============================================================================
+// Utilities
+// ============================================================================
+
+function formatWait(ms: number): string {
+  if (ms < 1000) return `${ms}ms`
+  if (ms < 60_000) return `${Math.round(ms / 1000)}s`
+  return `${Math.floor(ms / 60_000)}m ${Math.round((ms % 60_000) / 1000)}s`
+}
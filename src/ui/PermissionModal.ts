@@ -10,6 +10,7 @@ import { escapeHtml } from './FeedManager'
 import type { WorkshopScene } from '../scene/WorkshopScene'
 import type { AttentionSystem } from '../systems/AttentionSystem'
 import type { ManagedSession } from '../../shared/types'
+import { apiFetch } from '../api/auth'
 
 // ============================================================================
 // Types
@@ -167,10 +168,10 @@ async function sendPermissionResponse(response: string): Promise<void> {
   if (!currentPermission || !context) return
 
   try {
-    await fetch(`${context.apiUrl}/sessions/${currentPermission.sessionId}/permission`, {
+    await apiFetch(`${context.apiUrl}/sessions/${currentPermission.sessionId}/permission`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ response }),
+      body: JSON.stringify({ response, source: 'ui' }),
     })
   } catch (e) {
     console.error('Failed to send permission response:', e)
@@ -0,0 +1,136 @@
+/**
+ * Prompt Queue Panel - Shows the selected session's queued prompts
+ *
+ * Prompts sent while a session is busy wait on the server until it goes
+ * idle. This panel lists them above the prompt box so they can be edited,
+ * reordered or cancelled. The queue arrives with each `sessions` broadcast,
+ * so every open client shows the same backlog.
+ */
+
+import type { ManagedSession, PromptQueueError, QueuedPrompt } from '../../shared/types'
+import type { SessionAPI } from '../api'
+import { toast } from './Toast'
+import { escapeHtml } from './FeedManager'
+
+// ============================================================================
+// State
+// ============================================================================
+
+let container: HTMLElement | null = null
+let api: SessionAPI | null = null
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Initialize the prompt queue panel
+ */
+export function setupPromptQueuePanel(sessionAPI: SessionAPI): void {
+  api = sessionAPI
+  container = document.getElementById('prompt-queue')
+}
+
+/**
+ * Render the queue for a session (null hides the panel)
+ */
+export function renderPromptQueue(session: ManagedSession | null): void {
+  if (!container) return
+
+  const queue = session?.promptQueue ?? []
+
+  if (!session || queue.length === 0) {
+    container.innerHTML = ''
+    container.classList.remove('visible')
+    return
+  }
+
+  container.classList.add('visible')
+  container.innerHTML = `
+    <div class="prompt-queue-header">
+      <span class="prompt-queue-title">📥 Queued for ${escapeHtml(session.name)} (${queue.length})</span>
+      <button class="prompt-queue-clear" title="Cancel all queued prompts">Clear</button>
+    </div>
+    ${session.promptQueueError ? renderError(session.promptQueueError) : ''}
+    <div class="prompt-queue-list">
+      ${queue.map((item, index) => renderItem(item, index, queue.length)).join('')}
+    </div>
+  `
+
+  container.querySelector('.prompt-queue-clear')?.addEventListener('click', () => {
+    if (confirm(`Cancel all ${queue.length} queued prompts for "${session.name}"?`)) {
+      void run(() => api!.clearQueue(session.id))
+    }
+  })
+
+  container.querySelector('.prompt-queue-retry')?.addEventListener('click', () => {
+    void run(() => api!.retryQueue(session.id))
+  })
+
+  container.querySelectorAll<HTMLElement>('.prompt-queue-item').forEach((el) => {
+    const itemId = el.dataset.id!
+    const index = Number(el.dataset.index)
+    const item = queue[index]
+    el.title = item.prompt
+
+    el.querySelector('.queue-up')?.addEventListener('click', () => {
+      void run(() => api!.updateQueuedPrompt(session.id, itemId, { position: index - 1 }))
+    })
+    el.querySelector('.queue-down')?.addEventListener('click', () => {
+      void run(() => api!.updateQueuedPrompt(session.id, itemId, { position: index + 1 }))
+    })
+    el.querySelector('.queue-edit')?.addEventListener('click', () => {
+      const text = prompt('Edit queued prompt:', item.prompt)
+      if (text && text.trim() && text !== item.prompt) {
+        void run(() => api!.updateQueuedPrompt(session.id, itemId, { prompt: text.trim() }))
+      }
+    })
+    el.querySelector('.queue-remove')?.addEventListener('click', () => {
+      void run(() => api!.removeQueuedPrompt(session.id, itemId))
+    })
+  })
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+function renderError(error: PromptQueueError): string {
+  const retry = error.retryAt
+    ? `retrying at ${new Date(error.retryAt).toLocaleTimeString()}`
+    : `gave up after ${error.attempts} tries`
+  return `
+    <div class="prompt-queue-error" title="${escapeHtml(error.message)}">
+      <span class="prompt-queue-error-text">⚠️ Sending failed (${retry}): ${escapeHtml(error.message)}</span>
+      <button class="prompt-queue-retry" title="Try sending the next prompt now">Retry</button>
+    </div>
+  `
+}
+
+function renderItem(item: QueuedPrompt, index: number, total: number): string {
+  const preview = item.prompt.length > 80 ? item.prompt.slice(0, 77) + '...' : item.prompt
+  return `
+    <div class="prompt-queue-item" data-id="${item.id}" data-index="${index}">
+      <span class="prompt-queue-position">${index + 1}</span>
+      <span class="prompt-queue-text">${escapeHtml(preview)}</span>
+      <span class="prompt-queue-actions">
+        <button class="queue-up" title="Move up" ${index === 0 ? 'disabled' : ''}>↑</button>
+        <button class="queue-down" title="Move down" ${index === total - 1 ? 'disabled' : ''}>↓</button>
+        <button class="queue-edit" title="Edit">✏️</button>
+        <button class="queue-remove" title="Cancel">✕</button>
+      </span>
+    </div>
+  `
+}
+
+// ============================================================================
+// Utilities
+// ============================================================================
+
+/** Run a queue API call; the server broadcasts the new queue on success */
+async function run(call: () => Promise<{ ok: boolean; error?: string }>): Promise<void> {
+  const result = await call()
+  if (!result.ok) {
+    toast.error(result.error || 'Queue update failed', { icon: '❌', duration: 3000 })
+  }
+}
@@ -9,6 +9,7 @@ import { soundManager } from '../audio'
 import { escapeHtml } from './FeedManager'
 import type { WorkshopScene } from '../scene/WorkshopScene'
 import type { AttentionSystem } from '../systems/AttentionSystem'
+import { apiFetch } from '../api/auth'
 
 // ============================================================================
 // Types
@@ -197,18 +198,18 @@ async function sendQuestionResponse(response: string): Promise<void> {
 
   try {
     if (sessionId) {
-      // Send to managed session
-      await fetch(`${context.apiUrl}/sessions/${sessionId}/prompt`, {
+      // Send to managed session (immediately - Claude is waiting on this answer)
+      await apiFetch(`${context.apiUrl}/sessions/${sessionId}/prompt`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ prompt: response }),
+        body: JSON.stringify({ prompt: response, immediate: true }),
       })
     } else {
       // Send to default tmux session
-      await fetch(`${context.apiUrl}/prompt`, {
+      await apiFetch(`${context.apiUrl}/prompt`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ prompt: response, send: true }),
+        body: JSON.stringify({ prompt: response }),
       })
     }
   } catch (e) {
@@ -0,0 +1,283 @@
+/**
+ * Terminal Panel - Live mirror of a session's terminal
+ *
+ * Subscribes to a managed session's screen over the WebSocket and renders
+ * the frames the server streams (the whole screen first, then changed
+ * lines) with their ANSI colors, so Claude's TUI can be watched without
+ * attaching to tmux. Opened from the zone context menu or Zone Info; the
+ * key pad underneath answers Claude's menus.
+ */
+
+import type { ManagedSession, TerminalFrame } from '../../shared/types'
+import type { SessionAPI } from '../api'
+import type { EventClient } from '../events/EventClient'
+import { escapeHtml } from './FeedManager'
+import { createKeyPad } from './KeyPad'
+
+// ============================================================================
+// State
+// ============================================================================
+
+let modal: HTMLElement | null = null
+let screen: HTMLElement | null = null
+let client: EventClient | null = null
+let getSessions: () => ManagedSession[] = () => []
+/** Managed session being mirrored (null when closed) */
+let currentSessionId: string | null = null
+/** One element per screen line, reused across frames */
+let lineElements: HTMLElement[] = []
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Initialize the terminal panel
+ */
+export function setupTerminalPanel(options: {
+  client: EventClient
+  sessionAPI: SessionAPI
+  getManagedSessions: () => ManagedSession[]
+}): void {
+  client = options.client
+  getSessions = options.getManagedSessions
+  modal = document.getElementById('terminal-modal')
+  screen = document.getElementById('terminal-screen')
+
+  document.getElementById('terminal-keypad')?.appendChild(createKeyPad({
+    sessionAPI: options.sessionAPI,
+    getSessionId: () => currentSessionId,
+  }))
+
+  document.getElementById('terminal-close')?.addEventListener('click', hideTerminalPanel)
+
+  client.onRawMessage((message) => {
+    if (message.type === 'terminal_frame') {
+      applyFrame(message.payload as TerminalFrame)
+    }
+  })
+
+  // The server forgets subscriptions when the socket drops
+  client.onConnection((connected) => {
+    if (connected && currentSessionId) {
+      client?.subscribeTerminal(currentSessionId)
+    }
+  })
+
+  // Close on backdrop click
+  modal?.addEventListener('click', (e) => {
+    if (e.target === modal) {
+      hideTerminalPanel()
+    }
+  })
+
+  // Close on Escape
+  document.addEventListener('keydown', (e) => {
+    if (e.key === 'Escape' && modal?.classList.contains('visible')) {
+      hideTerminalPanel()
+    }
+  })
+}
+
+/**
+ * Open the panel on a managed session's terminal
+ */
+export function showTerminalPanel(sessionId: string): void {
+  if (!modal || !screen || !client) return
+
+  if (currentSessionId && currentSessionId !== sessionId) {
+    client.unsubscribeTerminal(currentSessionId)
+  }
+  currentSessionId = sessionId
+  lineElements = []
+  screen.innerHTML = '<div class="terminal-message">Connecting...</div>'
+  updateTitle()
+  modal.classList.add('visible')
+  client.subscribeTerminal(sessionId)
+}
+
+/**
+ * Close the panel and stop the stream
+ */
+export function hideTerminalPanel(): void {
+  if (currentSessionId) {
+    client?.unsubscribeTerminal(currentSessionId)
+    currentSessionId = null
+  }
+  modal?.classList.remove('visible')
+}
+
+/**
+ * Keep the title's session name and status current (called on every
+ * sessions broadcast)
+ */
+export function updateTerminalPanelSessions(): void {
+  if (currentSessionId) updateTitle()
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+function updateTitle(): void {
+  const title = document.getElementById('terminal-title')
+  const session = getSessions().find(s => s.id === currentSessionId)
+  if (!title || !session) return
+
+  title.innerHTML = `
+    ${escapeHtml(session.name)}
+    <span class="terminal-status terminal-status--${session.status}">${session.status}</span>
+    <span class="terminal-handle">${escapeHtml(session.tmuxSession)}</span>
+  `
+}
+
+function applyFrame(frame: TerminalFrame): void {
+  if (!screen || frame.sessionId !== currentSessionId) return
+
+  if (frame.error) {
+    lineElements = []
+    screen.innerHTML = `<div class="terminal-message">${escapeHtml(frame.error)}</div>`
+    return
+  }
+
+  // Follow the bottom unless the user has scrolled up
+  const atBottom = screen.scrollTop + screen.clientHeight >= screen.scrollHeight - 4
+
+  if (frame.lines) {
+    if (lineElements.length === 0) screen.innerHTML = ''
+    frame.lines.forEach((line, i) => setLine(i, line))
+  }
+  for (const [i, line] of frame.changes ?? []) {
+    setLine(i, line)
+  }
+  while (lineElements.length > frame.rows) {
+    lineElements.pop()?.remove()
+  }
+
+  if (atBottom) {
+    screen.scrollTop = screen.scrollHeight
+  }
+}
+
+function setLine(index: number, line: string): void {
+  if (!screen) return
+
+  while (lineElements.length <= index) {
+    const element = document.createElement('div')
+    element.className = 'terminal-line'
+    screen.appendChild(element)
+    lineElements.push(element)
+  }
+  lineElements[index].innerHTML = ansiToHtml(line) || ' '
+}
+
+// ============================================================================
+// ANSI
+// ============================================================================
+
+/** xterm's default 16 colors (normal, then bright) */
+const PALETTE = [
+  '#000000', '#cd3131', '#0dbc79', '#e5e510', '#2472c8', '#bc3fbc', '#11a8cd', '#e5e5e5',
+  '#666666', '#f14c4c', '#23d18b', '#f5f543', '#3b8eea', '#d670d6', '#29b8db', '#ffffff',
+]
+
+interface Style {
+  fg: string | null
+  bg: string | null
+  bold: boolean
+  dim: boolean
+  italic: boolean
+  underline: boolean
+  inverse: boolean
+}
+
+const PLAIN: Style = { fg: null, bg: null, bold: false, dim: false, italic: false, underline: false, inverse: false }
+
+/**
+ * Render a line with SGR escapes (colors and text styles) as HTML. Other
+ * escape sequences are dropped.
+ */
+function ansiToHtml(line: string): string {
+  let html = ''
+  let style: Style = { ...PLAIN }
+  const pattern = /\x1b\[([0-9;:]*)m|\x1b\[[0-?]*[ -/]*[@-~]|\x1b\][^\x07]*(?:\x07|\x1b\\)|\x1b[@-_]/g
+  let last = 0
+  let match: RegExpExecArray | null
+
+  while ((match = pattern.exec(line)) !== null) {
+    html += styled(line.slice(last, match.index), style)
+    last = pattern.lastIndex
+    if (match[1] !== undefined) {
+      style = applySgr(style, match[1])
+    }
+  }
+  return html + styled(line.slice(last), style)
+}
+
+function styled(text: string, style: Style): string {
+  if (!text) return ''
+
+  const fg = style.inverse ? style.bg ?? '#1a1a2e' : style.fg
+  const bg = style.inverse ? style.fg ?? '#e5e5e5' : style.bg
+  const css = [
+    fg ? `color:${fg}` : '',
+    bg ? `background:${bg}` : '',
+    style.bold ? 'font-weight:bold' : '',
+    style.dim ? 'opacity:0.6' : '',
+    style.italic ? 'font-style:italic' : '',
+    style.underline ? 'text-decoration:underline' : '',
+  ].filter(Boolean).join(';')
+
+  return css ? `<span style="${css}">${escapeHtml(text)}</span>` : escapeHtml(text)
+}
+
+function applySgr(current: Style, params: string): Style {
+  const style = { ...current }
+  const codes = params === '' ? [0] : params.split(/[;:]/).map(code => parseInt(code, 10) || 0)
+
+  for (let i = 0; i < codes.length; i++) {
+    const code = codes[i]
+    if (code === 0) Object.assign(style, PLAIN)
+    else if (code === 1) style.bold = true
+    else if (code === 2) style.dim = true
+    else if (code === 3) style.italic = true
+    else if (code === 4) style.underline = true
+    else if (code === 7) style.inverse = true
+    else if (code === 22) style.bold = style.dim = false
+    else if (code === 23) style.italic = false
+    else if (code === 24) style.underline = false
+    else if (code === 27) style.inverse = false
+    else if (code >= 30 && code <= 37) style.fg = PALETTE[code - 30]
+    else if (code >= 90 && code <= 97) style.fg = PALETTE[code - 90 + 8]
+    else if (code === 39) style.fg = null
+    else if (code >= 40 && code <= 47) style.bg = PALETTE[code - 40]
+    else if (code >= 100 && code <= 107) style.bg = PALETTE[code - 100 + 8]
+    else if (code === 49) style.bg = null
+    else if (code === 38 || code === 48) {
+      // 38;5;n (256 colors) or 38;2;r;g;b (true color)
+      let color: string | null = null
+      if (codes[i + 1] === 5) {
+        color = color256(codes[i + 2])
+        i += 2
+      } else if (codes[i + 1] === 2) {
+        color = `rgb(${codes[i + 2] ?? 0},${codes[i + 3] ?? 0},${codes[i + 4] ?? 0})`
+        i += 4
+      }
+      if (code === 38) style.fg = color
+      else style.bg = color
+    }
+  }
+  return style
+}
+
+function color256(n: number | undefined): string | null {
+  if (n === undefined || n < 0 || n > 255) return null
+  if (n < 16) return PALETTE[n]
+  if (n >= 232) {
+    const gray = 8 + (n - 232) * 10
+    return `rgb(${gray},${gray},${gray})`
+  }
+  const cube = n - 16
+  const level = (v: number) => (v === 0 ? 0 : 55 + v * 40)
+  return `rgb(${level(Math.floor(cube / 36))},${level(Math.floor(cube / 6) % 6)},${level(cube % 6)})`
+}
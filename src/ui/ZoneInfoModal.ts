@@ -2,11 +2,14 @@
  * Zone Info Modal - Displays detailed information about a session/zone
  *
  * Shows session stats, git status, token usage, files touched, etc.
+ * Also hosts the editors for the session's scheduled prompts and pipelines.
  */
 
-import type { ManagedSession, GitStatus } from '../../shared/types'
+import type { ManagedSession, GitCheckpoint, GitStatus, PromptSchedule, ScheduleTrigger, SessionPipeline } from '../../shared/types'
+import type { SessionAPI } from '../api'
 import { soundManager } from '../audio'
 import { formatTimeAgo } from './FeedManager'
+import { toast } from './Toast'
 
 // ============================================================================
 // Types
@@ -29,6 +32,24 @@ export interface ZoneInfoData {
 
 let modal: HTMLElement | null = null
 let soundEnabled = true
+let api: SessionAPI | null = null
+/** Managed session currently shown (for live schedule updates) */
+let currentSessionId: string | null = null
+/** Latest session list (pipeline targets and names) */
+let allSessions: ManagedSession[] = []
+/** Opens the live terminal mirror for a managed session */
+let openTerminal: ((sessionId: string) => void) | null = null
+/** Opens the diff viewer for a managed session */
+let openDiff: ((sessionId: string) => void) | null = null
+/** Opens the commit timeline for a managed session */
+let openCommits: ((sessionId: string) => void) | null = null
+/** Rewinds a managed session's files to a checkpoint (resolves true once done) */
+let rewindCheckpoint: ((sessionId: string, checkpoint: GitCheckpoint) => Promise<boolean>) | null = null
+/** Bumped per checkpoint load, so a stale response is dropped */
+let checkpointsGeneration = 0
+
+/** Checkpoints listed before "... and N more" */
+const MAX_CHECKPOINTS_SHOWN = 10
 
 // ============================================================================
 // Public API
@@ -37,8 +58,20 @@ let soundEnabled = true
 /**
  * Initialize the zone info modal
  */
-export function setupZoneInfoModal(options: { soundEnabled: boolean }): void {
+export function setupZoneInfoModal(options: {
+  soundEnabled: boolean
+  sessionAPI?: SessionAPI
+  onOpenTerminal?: (sessionId: string) => void
+  onOpenDiff?: (sessionId: string) => void
+  onOpenCommits?: (sessionId: string) => void
+  onRewindCheckpoint?: (sessionId: string, checkpoint: GitCheckpoint) => Promise<boolean>
+}): void {
   soundEnabled = options.soundEnabled
+  api = options.sessionAPI ?? null
+  openTerminal = options.onOpenTerminal ?? null
+  openDiff = options.onOpenDiff ?? null
+  openCommits = options.onOpenCommits ?? null
+  rewindCheckpoint = options.onRewindCheckpoint ?? null
   modal = document.getElementById('zone-info-modal')
 
   const closeBtn = document.getElementById('zone-info-close')
@@ -69,10 +102,28 @@ export function showZoneInfoModal(data: ZoneInfoData): void {
     soundManager.play('modal_open')
   }
 
+  currentSessionId = data.managedSession.id
   renderContent(data)
   modal.classList.add('visible')
 }
 
+/**
+ * Refresh the schedule and pipeline lists if the modal is showing one of
+ * these sessions (called on every sessions broadcast; leaves the add forms
+ * untouched)
+ */
+export function updateZoneInfoSessions(sessions: ManagedSession[]): void {
+  allSessions = sessions
+  if (!modal?.classList.contains('visible') || !currentSessionId) return
+
+  const session = sessions.find(s => s.id === currentSessionId)
+  if (session) {
+    renderBudget(session)
+    renderScheduleList(session)
+    renderPipelineList(session)
+  }
+}
+
 /**
  * Hide the zone info modal
  */
@@ -84,6 +135,7 @@ export function hideZoneInfoModal(): void {
   }
 
   modal.classList.remove('visible')
+  currentSessionId = null
 }
 
 /**
@@ -109,6 +161,9 @@ function renderContent(data: ZoneInfoData): void {
     <div class="zone-info-header">
       <div class="zone-info-name">${escapeHtml(s.name)}</div>
       <div class="zone-info-status zone-info-status--${s.status}">${s.status}</div>
+      ${openTerminal ? `<button type="button" class="zone-info-terminal-btn" title="Watch this session's terminal live">Terminal</button>` : ''}
+      ${openDiff && s.gitStatus?.isRepo ? `<button type="button" class="zone-info-diff-btn" title="Review the changes in this session's repository">Diff</button>` : ''}
+      ${openCommits && s.gitStatus?.isRepo ? `<button type="button" class="zone-info-commits-btn" title="Commits this session made, and the prompts behind them">Commits</button>` : ''}
     </div>
 
     <!-- Basic Info -->
@@ -117,6 +172,12 @@ function renderContent(data: ZoneInfoData): void {
         <span class="zone-info-label">Directory</span>
         <span class="zone-info-value zone-info-mono">${escapeHtml(s.cwd || '~')}</span>
       </div>
+      ${s.worktree ? `
+      <div class="zone-info-row">
+        <span class="zone-info-label">Worktree</span>
+        <span class="zone-info-value zone-info-mono">${escapeHtml(s.worktree.branch)}</span>
+      </div>
+      ` : ''}
       <div class="zone-info-row">
         <span class="zone-info-label">tmux Session</span>
         <span class="zone-info-value zone-info-mono">${escapeHtml(s.tmuxSession)}</span>
@@ -169,10 +230,36 @@ function renderContent(data: ZoneInfoData): void {
           <span>Cumulative (Session)</span>
           <span class="zone-info-token-value">${formatNumber(s.tokens.cumulative)}</span>
         </div>
+        ${s.cost !== undefined ? `
+        <div class="zone-info-token-row">
+          <span>Estimated Cost</span>
+          <span class="zone-info-token-value">${formatUsd(s.cost)}</span>
+        </div>
+        ` : ''}
       </div>
     </div>
     ` : ''}
 
+    <!-- Budget -->
+    <div class="zone-info-section">
+      <div class="zone-info-section-title">Budget</div>
+      <div id="zone-info-budget"></div>
+      ${api ? `
+      <form class="zone-info-budget-form">
+        <div class="zone-info-budget-limit">
+          <span class="zone-info-muted">Limit (USD)</span>
+          <input class="zone-info-budget-value" type="number" min="0" step="0.01" placeholder="5.00" value="${s.budget?.limitUsd ?? ''}" />
+        </div>
+        <label><input class="zone-info-budget-cancel" type="checkbox" ${s.budget?.cancelOnExceed ? 'checked' : ''} /> Interrupt when exceeded</label>
+        <label><input class="zone-info-budget-block" type="checkbox" ${s.budget?.blockPrompts ? 'checked' : ''} /> Refuse new prompts when exceeded</label>
+        <div class="zone-info-budget-actions">
+          <button type="submit">Save</button>
+          ${s.budget ? `<button type="button" class="zone-info-budget-remove">Remove</button>` : ''}
+        </div>
+      </form>
+      ` : ''}
+    </div>
+
     <!-- Git Status -->
     ${s.gitStatus?.isRepo ? renderGitStatus(s.gitStatus) : `
     <div class="zone-info-section">
@@ -181,6 +268,14 @@ function renderContent(data: ZoneInfoData): void {
     </div>
     `}
 
+    <!-- Checkpoints -->
+    ${api && s.gitStatus?.isRepo ? `
+    <div class="zone-info-section">
+      <div class="zone-info-section-title">Checkpoints</div>
+      <div id="zone-info-checkpoints"><div class="zone-info-muted">Loading...</div></div>
+    </div>
+    ` : ''}
+
     <!-- Files Touched -->
     ${filesTouched.length > 0 ? `
     <div class="zone-info-section">
@@ -196,6 +291,45 @@ function renderContent(data: ZoneInfoData): void {
     </div>
     ` : ''}
 
+    <!-- Scheduled Prompts -->
+    <div class="zone-info-section">
+      <div class="zone-info-section-title">Scheduled Prompts</div>
+      <div id="zone-info-schedules"></div>
+      ${api ? `
+      <form class="zone-info-schedule-form">
+        <input class="zone-info-schedule-prompt" type="text" placeholder="Prompt, e.g. run the test suite and fix failures" />
+        <div class="zone-info-schedule-trigger">
+          <select class="zone-info-schedule-type">
+            <option value="interval">Every N minutes</option>
+            <option value="cron">Cron</option>
+          </select>
+          <input class="zone-info-schedule-value" type="text" placeholder="60" />
+          <button type="submit">Add</button>
+        </div>
+      </form>
+      ` : ''}
+    </div>
+
+    <!-- Pipelines -->
+    <div class="zone-info-section">
+      <div class="zone-info-section-title">Pipelines</div>
+      <div id="zone-info-pipelines"></div>
+      ${api ? `
+      <form class="zone-info-pipeline-form">
+        <div class="zone-info-pipeline-target-row">
+          <span class="zone-info-muted">When done, prompt</span>
+          <select class="zone-info-pipeline-target">
+            ${allSessions.filter(other => other.id !== s.id).map(other => `
+              <option value="${other.id}">${escapeHtml(other.name)}</option>
+            `).join('')}
+          </select>
+        </div>
+        <input class="zone-info-pipeline-prompt" type="text" placeholder="Prompt, e.g. regenerate the API client. {{response}} inserts this session's reply" />
+        <button type="submit">Add</button>
+      </form>
+      ` : ''}
+    </div>
+
     <!-- IDs (for debugging) -->
     <div class="zone-info-section zone-info-ids">
       <div class="zone-info-section-title">Identifiers</div>
@@ -211,6 +345,29 @@ function renderContent(data: ZoneInfoData): void {
       ` : ''}
     </div>
   `
+
+  content.querySelector('.zone-info-terminal-btn')?.addEventListener('click', () => {
+    hideZoneInfoModal()
+    openTerminal?.(s.id)
+  })
+
+  content.querySelector('.zone-info-diff-btn')?.addEventListener('click', () => {
+    hideZoneInfoModal()
+    openDiff?.(s.id)
+  })
+
+  content.querySelector('.zone-info-commits-btn')?.addEventListener('click', () => {
+    hideZoneInfoModal()
+    openCommits?.(s.id)
+  })
+
+  renderBudget(s)
+  setupBudgetForm(s.id)
+  renderScheduleList(s)
+  setupScheduleForm(s.id)
+  renderPipelineList(s)
+  setupPipelineForm(s.id)
+  void loadCheckpoints(s.id)
 }
 
 function renderGitStatus(git: GitStatus): string {
@@ -287,6 +444,323 @@ function renderGitStatus(git: GitStatus): string {
   `
 }
 
+// ============================================================================
+// Budget
+// ============================================================================
+
+function renderBudget(session: ManagedSession): void {
+  const el = document.getElementById('zone-info-budget')
+  if (!el) return
+
+  const cost = session.cost ?? 0
+  const budget = session.budget
+  if (!budget) {
+    el.innerHTML = `<div class="zone-info-muted">No budget · ${formatUsd(cost)} spent</div>`
+    return
+  }
+
+  const percent = budget.limitUsd > 0 ? Math.min(100, (cost / budget.limitUsd) * 100) : 100
+  const level = percent >= 100 ? 'exceeded' : percent >= 80 ? 'high' : 'ok'
+  el.innerHTML = `
+    <div class="zone-info-budget-bar zone-info-budget-bar--${level}">
+      <div class="zone-info-budget-fill" style="width: ${percent}%"></div>
+    </div>
+    <div class="zone-info-muted">${formatUsd(cost)} of ${formatUsd(budget.limitUsd)} (${Math.round(percent)}%)</div>
+  `
+}
+
+function setupBudgetForm(sessionId: string): void {
+  const form = document.querySelector<HTMLFormElement>('.zone-info-budget-form')
+  if (!form || !api) return
+
+  const valueInput = form.querySelector<HTMLInputElement>('.zone-info-budget-value')!
+  const cancelInput = form.querySelector<HTMLInputElement>('.zone-info-budget-cancel')!
+  const blockInput = form.querySelector<HTMLInputElement>('.zone-info-budget-block')!
+
+  form.addEventListener('submit', (e) => {
+    e.preventDefault()
+    const limitUsd = Number(valueInput.value)
+    if (!valueInput.value || !(limitUsd > 0)) return
+
+    void runApiCall(() => api!.setBudget(sessionId, {
+      limitUsd,
+      cancelOnExceed: cancelInput.checked,
+      blockPrompts: blockInput.checked,
+    }))
+  })
+
+  form.querySelector('.zone-info-budget-remove')?.addEventListener('click', () => {
+    void runApiCall(() => api!.setBudget(sessionId, null)).then((ok) => {
+      if (ok) form.reset()
+    })
+  })
+}
+
+// ============================================================================
+// Schedules
+// ============================================================================
+
+function renderScheduleList(session: ManagedSession): void {
+  const list = document.getElementById('zone-info-schedules')
+  if (!list) return
+
+  const schedules = session.schedules ?? []
+  if (schedules.length === 0) {
+    list.innerHTML = `<div class="zone-info-muted">No scheduled prompts</div>`
+    return
+  }
+
+  list.innerHTML = schedules.map(renderSchedule).join('')
+
+  list.querySelectorAll<HTMLElement>('.zone-info-schedule').forEach((el) => {
+    const schedule = schedules.find(sch => sch.id === el.dataset.id)
+    if (!schedule) return
+
+    const runEl = el.querySelector<HTMLElement>('.zone-info-schedule-run')
+    if (runEl && schedule.runs[0]?.detail) {
+      runEl.title = schedule.runs[0].detail
+    }
+    if (!api) return
+
+    el.querySelector('.schedule-toggle')?.addEventListener('click', () => {
+      void runApiCall(() => api!.updateSchedule(session.id, schedule.id, { enabled: !schedule.enabled }))
+    })
+    el.querySelector('.schedule-edit')?.addEventListener('click', () => {
+      const text = prompt('Edit scheduled prompt:', schedule.prompt)
+      if (text && text.trim() && text !== schedule.prompt) {
+        void runApiCall(() => api!.updateSchedule(session.id, schedule.id, { prompt: text.trim() }))
+      }
+    })
+    el.querySelector('.schedule-delete')?.addEventListener('click', () => {
+      if (confirm('Delete this scheduled prompt?')) {
+        void runApiCall(() => api!.deleteSchedule(session.id, schedule.id))
+      }
+    })
+  })
+}
+
+function renderSchedule(schedule: PromptSchedule): string {
+  const lastRun = schedule.runs[0]
+  const next = schedule.enabled && schedule.nextRunAt
+    ? `next ${new Date(schedule.nextRunAt).toLocaleString()}`
+    : 'paused'
+
+  return `
+    <div class="zone-info-schedule ${schedule.enabled ? '' : 'paused'}" data-id="${schedule.id}">
+      <div class="zone-info-schedule-main">
+        <span class="zone-info-schedule-text">${escapeHtml(schedule.prompt)}</span>
+        <span class="zone-info-schedule-actions">
+          ${api ? `
+          <button class="schedule-toggle" title="${schedule.enabled ? 'Pause' : 'Resume'}">${schedule.enabled ? '⏸' : '▶'}</button>
+          <button class="schedule-edit" title="Edit prompt">✏️</button>
+          <button class="schedule-delete" title="Delete">✕</button>
+          ` : ''}
+        </span>
+      </div>
+      <div class="zone-info-schedule-meta">
+        <span class="zone-info-mono">${escapeHtml(describeTrigger(schedule.trigger))}</span>
+        · ${next}
+        ${lastRun ? `
+        · <span class="zone-info-schedule-run zone-info-schedule-run--${lastRun.outcome}">
+          ${lastRun.outcome} ${formatTimeAgo(lastRun.at)}
+        </span>
+        ` : ''}
+      </div>
+    </div>
+  `
+}
+
+function setupScheduleForm(sessionId: string): void {
+  const form = document.querySelector<HTMLFormElement>('.zone-info-schedule-form')
+  if (!form || !api) return
+
+  const promptInput = form.querySelector<HTMLInputElement>('.zone-info-schedule-prompt')!
+  const typeSelect = form.querySelector<HTMLSelectElement>('.zone-info-schedule-type')!
+  const valueInput = form.querySelector<HTMLInputElement>('.zone-info-schedule-value')!
+
+  typeSelect.addEventListener('change', () => {
+    valueInput.placeholder = typeSelect.value === 'cron' ? '0 9 * * 1-5' : '60'
+  })
+
+  form.addEventListener('submit', (e) => {
+    e.preventDefault()
+    const text = promptInput.value.trim()
+    const value = valueInput.value.trim()
+    if (!text || !value) return
+
+    const trigger: ScheduleTrigger = typeSelect.value === 'cron'
+      ? { type: 'cron', expression: value }
+      : { type: 'interval', minutes: Number(value) }
+
+    void runApiCall(() => api!.createSchedule(sessionId, text, trigger)).then((ok) => {
+      if (ok) {
+        promptInput.value = ''
+        valueInput.value = ''
+      }
+    })
+  })
+}
+
+function describeTrigger(trigger: ScheduleTrigger): string {
+  if (trigger.type === 'cron') return trigger.expression
+  if (trigger.minutes % 60 === 0) {
+    const hours = trigger.minutes / 60
+    return hours === 1 ? 'every hour' : `every ${hours}h`
+  }
+  return `every ${trigger.minutes}m`
+}
+
+// ============================================================================
+// Checkpoints
+// ============================================================================
+
+/**
+ * Fetch and list the checkpoints taken before the session's prompts
+ */
+async function loadCheckpoints(sessionId: string): Promise<void> {
+  if (!api || !document.getElementById('zone-info-checkpoints')) return
+
+  const generation = ++checkpointsGeneration
+  const result = await api.getCheckpoints(sessionId)
+  if (generation !== checkpointsGeneration || currentSessionId !== sessionId) return
+
+  const list = document.getElementById('zone-info-checkpoints')
+  if (!list) return
+  if (!result.ok || !result.checkpoints) {
+    list.innerHTML = `<div class="zone-info-muted">${escapeHtml(result.error || 'Failed to load checkpoints')}</div>`
+    return
+  }
+  const checkpoints = result.checkpoints
+  if (checkpoints.length === 0) {
+    list.innerHTML = `<div class="zone-info-muted">No checkpoints yet - one is taken before each prompt</div>`
+    return
+  }
+
+  const shown = checkpoints.slice(0, MAX_CHECKPOINTS_SHOWN)
+  list.innerHTML = shown.map(renderCheckpoint).join('') + (checkpoints.length > shown.length ? `
+    <div class="zone-info-muted">... and ${checkpoints.length - shown.length} older</div>
+  ` : '')
+
+  list.querySelectorAll<HTMLElement>('.zone-info-checkpoint').forEach((el) => {
+    const checkpoint = checkpoints.find(c => c.id === el.dataset.id)
+    if (!checkpoint || !rewindCheckpoint) return
+
+    el.querySelector('.checkpoint-rewind')?.addEventListener('click', () => {
+      void rewindCheckpoint!(sessionId, checkpoint).then((ok) => {
+        if (ok) void loadCheckpoints(sessionId)
+      })
+    })
+  })
+}
+
+function renderCheckpoint(checkpoint: GitCheckpoint): string {
+  const label = checkpoint.label.split('\n')[0]
+
+  return `
+    <div class="zone-info-checkpoint" data-id="${checkpoint.id}">
+      <span class="zone-info-checkpoint-label" title="${escapeHtml(checkpoint.label)}">${escapeHtml(label || '(empty prompt)')}</span>
+      <span class="zone-info-checkpoint-time">${formatTimeAgo(checkpoint.timestamp)}</span>
+      ${rewindCheckpoint ? `<button class="checkpoint-rewind" title="Rewind files to this checkpoint">⏪</button>` : ''}
+    </div>
+  `
+}
+
+// ============================================================================
+// Pipelines
+// ============================================================================
+
+function renderPipelineList(session: ManagedSession): void {
+  const list = document.getElementById('zone-info-pipelines')
+  if (!list) return
+
+  const pipelines = session.pipelines ?? []
+  if (pipelines.length === 0) {
+    list.innerHTML = `<div class="zone-info-muted">No pipelines</div>`
+    return
+  }
+
+  list.innerHTML = pipelines.map(renderPipeline).join('')
+
+  list.querySelectorAll<HTMLElement>('.zone-info-pipeline').forEach((el) => {
+    const pipeline = pipelines.find(p => p.id === el.dataset.id)
+    if (!pipeline || !api) return
+
+    el.querySelector('.pipeline-toggle')?.addEventListener('click', () => {
+      void runApiCall(() => api!.updatePipeline(pipeline.id, { enabled: !pipeline.enabled }))
+    })
+    el.querySelector('.pipeline-edit')?.addEventListener('click', () => {
+      const text = prompt('Edit pipeline prompt:', pipeline.prompt)
+      if (text && text.trim() && text !== pipeline.prompt) {
+        void runApiCall(() => api!.updatePipeline(pipeline.id, { prompt: text.trim() }))
+      }
+    })
+    el.querySelector('.pipeline-delete')?.addEventListener('click', () => {
+      if (confirm('Delete this pipeline?')) {
+        void runApiCall(() => api!.deletePipeline(pipeline.id))
+      }
+    })
+  })
+}
+
+function renderPipeline(pipeline: SessionPipeline): string {
+  const target = allSessions.find(s => s.id === pipeline.toSessionId)
+
+  return `
+    <div class="zone-info-pipeline ${pipeline.enabled ? '' : 'paused'}" data-id="${pipeline.id}">
+      <div class="zone-info-pipeline-main">
+        <span class="zone-info-pipeline-target-name">→ ${escapeHtml(target?.name ?? 'Unknown session')}</span>
+        <span class="zone-info-pipeline-actions">
+          ${api ? `
+          <button class="pipeline-toggle" title="${pipeline.enabled ? 'Pause' : 'Resume'}">${pipeline.enabled ? '⏸' : '▶'}</button>
+          <button class="pipeline-edit" title="Edit prompt">✏️</button>
+          <button class="pipeline-delete" title="Delete">✕</button>
+          ` : ''}
+        </span>
+      </div>
+      <div class="zone-info-pipeline-text">${escapeHtml(pipeline.prompt)}</div>
+      <div class="zone-info-pipeline-meta">
+        ${pipeline.enabled ? '' : 'paused · '}
+        ${pipeline.fireCount > 0 && pipeline.lastFiredAt
+          ? `fired ${pipeline.fireCount}× · last ${formatTimeAgo(pipeline.lastFiredAt)}`
+          : 'never fired'}
+      </div>
+    </div>
+  `
+}
+
+function setupPipelineForm(sessionId: string): void {
+  const form = document.querySelector<HTMLFormElement>('.zone-info-pipeline-form')
+  if (!form || !api) return
+
+  const targetSelect = form.querySelector<HTMLSelectElement>('.zone-info-pipeline-target')!
+  const promptInput = form.querySelector<HTMLInputElement>('.zone-info-pipeline-prompt')!
+
+  form.addEventListener('submit', (e) => {
+    e.preventDefault()
+    const text = promptInput.value.trim()
+    if (!text || !targetSelect.value) return
+
+    void runApiCall(() => api!.createPipeline(sessionId, targetSelect.value, text)).then((ok) => {
+      if (ok) {
+        promptInput.value = ''
+      }
+    })
+  })
+}
+
+// ============================================================================
+// API Helpers
+// ============================================================================
+
+/** Run a budget/schedule/pipeline API call; the server broadcasts the change on success */
+async function runApiCall(call: () => Promise<{ ok: boolean; error?: string }>): Promise<boolean> {
+  const result = await call()
+  if (!result.ok) {
+    toast.error(result.error || 'Update failed', { icon: '❌', duration: 3000 })
+  }
+  return result.ok
+}
+
 // ============================================================================
 // Utilities
 // ============================================================================
@@ -303,6 +777,10 @@ function formatNumber(n: number): string {
   return n.toString()
 }
 
+function formatUsd(n: number): string {
+  return `$${n < 10 ? n.toFixed(2) : n.toFixed(0)}`
+}
+
 function shortenPath(path: string): string {
   // Show last 2-3 path segments
   const parts = path.split('/')
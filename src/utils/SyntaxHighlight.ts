@@ -0,0 +1,160 @@
+/**
+ * SyntaxHighlight - Lightweight per-line syntax highlighting
+ *
+ * Colors keywords, strings, comments, numbers and type names for common
+ * languages, picked by file extension. Works one line at a time (diffs are
+ * shown line by line), so a block comment or string spanning several
+ * lines is only colored on the line where it starts. Unknown file types
+ * are escaped but left plain.
+ */
+
+interface Grammar {
+  keywords: Set<string>
+  lineComment?: string
+  blockComment?: [string, string]
+  /** Quote characters that start a string */
+  quotes: string
+  /** Keywords match in any case (SQL) */
+  ignoreCase?: boolean
+}
+
+const C_LIKE_KEYWORDS = [
+  'abstract', 'as', 'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue',
+  'default', 'defer', 'delete', 'do', 'else', 'enum', 'export', 'extends', 'false', 'final',
+  'finally', 'fn', 'for', 'from', 'func', 'function', 'go', 'if', 'impl', 'implements', 'import',
+  'in', 'instanceof', 'interface', 'let', 'match', 'mod', 'mut', 'new', 'nil', 'null', 'of',
+  'package', 'private', 'protected', 'pub', 'public', 'readonly', 'return', 'static', 'struct',
+  'super', 'switch', 'this', 'throw', 'throws', 'trait', 'true', 'try', 'type', 'typeof',
+  'undefined', 'use', 'var', 'void', 'while', 'yield',
+]
+
+const PYTHON_KEYWORDS = [
+  'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del', 'elif',
+  'else', 'except', 'False', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is',
+  'lambda', 'None', 'nonlocal', 'not', 'or', 'pass', 'raise', 'return', 'self', 'True', 'try',
+  'while', 'with', 'yield',
+]
+
+const SHELL_KEYWORDS = [
+  'case', 'do', 'done', 'echo', 'elif', 'else', 'esac', 'exit', 'export', 'fi', 'for',
+  'function', 'if', 'in', 'local', 'return', 'set', 'then', 'until', 'while',
+]
+
+const RUBY_KEYWORDS = [
+  'begin', 'class', 'def', 'do', 'else', 'elsif', 'end', 'ensure', 'false', 'if', 'module',
+  'nil', 'require', 'rescue', 'return', 'self', 'true', 'unless', 'until', 'when', 'while', 'yield',
+]
+
+const SQL_KEYWORDS = [
+  'and', 'as', 'by', 'create', 'delete', 'from', 'group', 'insert', 'into', 'join', 'left',
+  'limit', 'not', 'null', 'on', 'or', 'order', 'select', 'set', 'table', 'update', 'values', 'where',
+]
+
+const GRAMMARS: Record<string, Grammar> = {
+  c: { keywords: new Set(C_LIKE_KEYWORDS), lineComment: '//', blockComment: ['/*', '*/'], quotes: `"'\`` },
+  python: { keywords: new Set(PYTHON_KEYWORDS), lineComment: '#', quotes: `"'` },
+  shell: { keywords: new Set(SHELL_KEYWORDS), lineComment: '#', quotes: `"'` },
+  ruby: { keywords: new Set(RUBY_KEYWORDS), lineComment: '#', quotes: `"'` },
+  config: { keywords: new Set(['true', 'false', 'null', 'yes', 'no']), lineComment: '#', quotes: `"'` },
+  css: { keywords: new Set(['important', 'media', 'import', 'keyframes']), blockComment: ['/*', '*/'], quotes: `"'` },
+  sql: { keywords: new Set(SQL_KEYWORDS), lineComment: '--', blockComment: ['/*', '*/'], quotes: `"'`, ignoreCase: true },
+}
+
+const EXTENSIONS: Record<string, string> = {
+  ts: 'c', tsx: 'c', js: 'c', jsx: 'c', mjs: 'c', cjs: 'c', json: 'c',
+  java: 'c', kt: 'c', go: 'c', rs: 'c', c: 'c', h: 'c', cc: 'c', cpp: 'c', hpp: 'c',
+  cs: 'c', swift: 'c', php: 'c', scala: 'c', dart: 'c',
+  py: 'python', sh: 'shell', bash: 'shell', zsh: 'shell', rb: 'ruby',
+  yml: 'config', yaml: 'config', toml: 'config', ini: 'config', conf: 'config',
+  css: 'css', scss: 'css', less: 'css', sql: 'sql',
+}
+
+const FILENAMES: Record<string, string> = {
+  Dockerfile: 'shell',
+  Makefile: 'shell',
+  '.gitignore': 'config',
+  '.env': 'config',
+}
+
+/** Compiled token pattern per grammar */
+const patterns = new Map<Grammar, RegExp>()
+
+/**
+ * Name of the grammar used for a file (null if it isn't highlighted)
+ */
+export function languageForPath(path: string): string | null {
+  const name = path.split('/').pop() ?? path
+  if (FILENAMES[name]) return FILENAMES[name]
+  const dot = name.lastIndexOf('.')
+  return dot > 0 ? EXTENSIONS[name.slice(dot + 1).toLowerCase()] ?? null : null
+}
+
+/**
+ * Highlight one line of code as HTML (escaped, with `syn-*` spans)
+ */
+export function highlightLine(line: string, language: string | null): string {
+  const grammar = language ? GRAMMARS[language] : undefined
+  if (!grammar) return escape(line)
+
+  const pattern = patternFor(grammar)
+  pattern.lastIndex = 0
+  let html = ''
+  let last = 0
+  let match: RegExpExecArray | null
+
+  while ((match = pattern.exec(line)) !== null) {
+    if (match[0] === '') {
+      pattern.lastIndex++
+      continue
+    }
+    html += escape(line.slice(last, match.index))
+    last = pattern.lastIndex
+
+    const [token, comment, string, number, word] = match
+    let kind: string | null = null
+    if (comment) kind = 'comment'
+    else if (string) kind = 'string'
+    else if (number) kind = 'number'
+    else if (word) {
+      if (grammar.keywords.has(grammar.ignoreCase ? word.toLowerCase() : word)) kind = 'keyword'
+      else if (/^[A-Z][a-z0-9]/.test(word)) kind = 'type'
+    }
+    html += kind ? `<span class="syn-${kind}">${escape(token)}</span>` : escape(token)
+  }
+  return html + escape(line.slice(last))
+}
+
+function patternFor(grammar: Grammar): RegExp {
+  let pattern = patterns.get(grammar)
+  if (pattern) return pattern
+
+  const comments: string[] = []
+  if (grammar.lineComment) comments.push(`${quote(grammar.lineComment)}.*`)
+  if (grammar.blockComment) {
+    const [open, close] = grammar.blockComment.map(quote)
+    comments.push(`${open}.*?(?:${close}|$)`)
+  }
+  const strings = grammar.quotes.split('').map(q => `${quote(q)}(?:\\\\.|[^${quote(q)}\\\\])*(?:${quote(q)}|$)`)
+
+  pattern = new RegExp(
+    `(${comments.join('|') || '(?!)'})` +
+    `|(${strings.join('|')})` +
+    '|(\\b0[xX][0-9a-fA-F]+\\b|\\b\\d[\\d_]*(?:\\.\\d+)?(?:[eE][+-]?\\d+)?\\b)' +
+    '|([A-Za-z_$][\\w$]*)',
+    'g'
+  )
+  patterns.set(grammar, pattern)
+  return pattern
+}
+
+function quote(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/-]/g, '\\$&')
+}
+
+function escape(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}